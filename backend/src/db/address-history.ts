@@ -0,0 +1,170 @@
+import { Collection, ObjectId } from "mongodb";
+import { getDb } from "../setup/mongodb.js";
+import { logger } from "../setup/logger.js";
+import type { Transaction, TransactionCursor } from "../services/sqd-transactions.js";
+
+// A transaction of an address, indexed from RPC scans (address lowercase)
+export interface IndexedTransaction {
+  _id?: ObjectId;
+  chainId: number;
+  address: string;
+  hash: string;
+  blockNumber: number;
+  transactionIndex: number;
+  sent: boolean;       // sent by the address, or moved its tokens out
+  received: boolean;   // sent to the address, or moved tokens to it
+  transaction: Transaction;
+}
+
+// Blocks of a chain scanned for an address's transactions: startBlock..lastBlock
+export interface AddressHistoryCheckpoint {
+  _id?: ObjectId;
+  chainId: number;
+  address: string;
+  startBlock: number;
+  lastBlock: number;
+  updatedAt: Date;
+}
+
+const TRANSACTIONS_COLLECTION_NAME = "address_transactions";
+const CHECKPOINTS_COLLECTION_NAME = "address_history_checkpoints";
+
+/**
+ * Get indexed transactions collection
+ */
+function getTransactionsCollection(): Collection<IndexedTransaction> {
+  const db = getDb();
+  return db.collection<IndexedTransaction>(TRANSACTIONS_COLLECTION_NAME);
+}
+
+/**
+ * Get address history checkpoints collection
+ */
+function getCheckpointsCollection(): Collection<AddressHistoryCheckpoint> {
+  const db = getDb();
+  return db.collection<AddressHistoryCheckpoint>(CHECKPOINTS_COLLECTION_NAME);
+}
+
+/**
+ * Create the indexes the history queries rely on (no-op when they exist)
+ */
+export async function ensureAddressHistoryIndexes(): Promise<void> {
+  try {
+    await getTransactionsCollection().createIndex({ chainId: 1, address: 1, hash: 1 }, { unique: true });
+    await getTransactionsCollection().createIndex({ chainId: 1, address: 1, blockNumber: 1, transactionIndex: 1 });
+    await getCheckpointsCollection().createIndex({ chainId: 1, address: 1 }, { unique: true });
+  } catch (error) {
+    logger.error("Error creating address history indexes", { error });
+    throw error;
+  }
+}
+
+/**
+ * Save transactions found by a scan; a transaction already indexed is replaced
+ */
+export async function saveIndexedTransactions(transactions: IndexedTransaction[]): Promise<void> {
+  if (transactions.length === 0) {
+    return;
+  }
+  try {
+    const collection = getTransactionsCollection();
+    await collection.bulkWrite(
+      transactions.map((transaction) => ({
+        replaceOne: {
+          filter: { chainId: transaction.chainId, address: transaction.address, hash: transaction.hash },
+          replacement: transaction,
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  } catch (error) {
+    logger.error("Error saving indexed transactions", { count: transactions.length, error });
+    throw error;
+  }
+}
+
+/**
+ * Indexed transactions of an address on a chain, oldest first
+ * @param options.after - Only transactions after this position
+ */
+export async function getIndexedTransactions(
+  chainId: number,
+  address: string,
+  options: {
+    after?: TransactionCursor;
+    fromBlock?: number;
+    toBlock?: number;
+    direction?: "from" | "to" | "both";
+    limit: number;
+  }
+): Promise<Transaction[]> {
+  const { after, fromBlock, toBlock, direction = "both", limit } = options;
+  try {
+    const collection = getTransactionsCollection();
+    const blockRange = {
+      ...(after === undefined && fromBlock !== undefined ? { $gte: fromBlock } : {}),
+      ...(toBlock !== undefined ? { $lte: toBlock } : {}),
+    };
+    const documents = await collection
+      .find({
+        chainId,
+        address: address.toLowerCase(),
+        ...(Object.keys(blockRange).length > 0 ? { blockNumber: blockRange } : {}),
+        ...(after
+          ? {
+              $or: [
+                { blockNumber: { $gt: after.blockNumber } },
+                { blockNumber: after.blockNumber, transactionIndex: { $gt: after.transactionIndex } },
+              ],
+            }
+          : {}),
+        ...(direction === "from" ? { sent: true } : direction === "to" ? { received: true } : {}),
+      })
+      .sort({ blockNumber: 1, transactionIndex: 1 })
+      .limit(limit)
+      .toArray();
+    return documents.map((document) => document.transaction);
+  } catch (error) {
+    logger.error("Error fetching indexed transactions", { chainId, address, error });
+    throw error;
+  }
+}
+
+/**
+ * Blocks scanned for an address on a chain, or null before its first scan
+ */
+export async function getAddressHistoryCheckpoint(
+  chainId: number,
+  address: string
+): Promise<AddressHistoryCheckpoint | null> {
+  try {
+    const collection = getCheckpointsCollection();
+    return await collection.findOne({ chainId, address: address.toLowerCase() });
+  } catch (error) {
+    logger.error("Error fetching address history checkpoint", { chainId, address, error });
+    throw error;
+  }
+}
+
+/**
+ * Save the blocks scanned for an address on a chain
+ */
+export async function saveAddressHistoryCheckpoint(
+  chainId: number,
+  address: string,
+  startBlock: number,
+  lastBlock: number
+): Promise<void> {
+  try {
+    const collection = getCheckpointsCollection();
+    await collection.updateOne(
+      { chainId, address: address.toLowerCase() },
+      { $set: { chainId, address: address.toLowerCase(), startBlock, lastBlock, updatedAt: new Date() } },
+      { upsert: true }
+    );
+  } catch (error) {
+    logger.error("Error saving address history checkpoint", { chainId, address, lastBlock, error });
+    throw error;
+  }
+}
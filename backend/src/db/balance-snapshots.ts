@@ -0,0 +1,72 @@
+import { Collection, ObjectId } from "mongodb";
+import { getDb } from "../setup/mongodb.js";
+import { logger } from "../setup/logger.js";
+
+// Last balance read for a (chain, wallet, token), addresses lowercase
+export interface BalanceSnapshot {
+  _id?: ObjectId;
+  chainId: number;
+  wallet: string;
+  token: string;
+  balance: string;       // smallest unit
+  blockNumber: number;   // chain head when the balance was read
+  fetchedAt: Date;
+}
+
+const COLLECTION_NAME = "balance_snapshots";
+
+/**
+ * Get balance snapshots collection
+ */
+function getBalanceSnapshotsCollection(): Collection<BalanceSnapshot> {
+  const db = getDb();
+  return db.collection<BalanceSnapshot>(COLLECTION_NAME);
+}
+
+/**
+ * Store the latest snapshot per (chain, wallet, token); an older block never replaces a newer one
+ */
+export async function saveBalanceSnapshots(snapshots: Omit<BalanceSnapshot, "_id">[]): Promise<void> {
+  if (snapshots.length === 0) {
+    return;
+  }
+  try {
+    const collection = getBalanceSnapshotsCollection();
+    await collection.bulkWrite(
+      snapshots.map((snapshot) => ({
+        updateOne: {
+          filter: { chainId: snapshot.chainId, wallet: snapshot.wallet, token: snapshot.token },
+          update: [
+            {
+              $replaceWith: {
+                $cond: [
+                  { $gt: [{ $ifNull: ["$blockNumber", -1] }, snapshot.blockNumber] },
+                  "$$ROOT",
+                  { $mergeObjects: ["$$ROOT", { $literal: snapshot }] },
+                ],
+              },
+            },
+          ],
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  } catch (error) {
+    logger.error("Error saving balance snapshots", { count: snapshots.length, error });
+    throw error;
+  }
+}
+
+/**
+ * Snapshots read since `since`, newest first
+ */
+export async function getBalanceSnapshots(since: Date, limit: number): Promise<BalanceSnapshot[]> {
+  try {
+    const collection = getBalanceSnapshotsCollection();
+    return await collection.find({ fetchedAt: { $gte: since } }).sort({ fetchedAt: -1 }).limit(limit).toArray();
+  } catch (error) {
+    logger.error("Error fetching balance snapshots", { since, error });
+    throw error;
+  }
+}
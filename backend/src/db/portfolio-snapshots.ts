@@ -0,0 +1,187 @@
+import { Collection, ObjectId } from "mongodb";
+import { getDb } from "../setup/mongodb.js";
+import { logger } from "../setup/logger.js";
+
+// A token's end-of-day position in a snapshot; amounts in the token's smallest unit
+export interface PortfolioHolding {
+  chainId: number;
+  token: string;            // lowercase token address (NATIVE_TOKEN_ADDRESS for the native asset)
+  symbol: string;
+  decimals: number;
+  balance: string;          // at the end of the day (now, for today)
+  inflow: string;           // received during the day
+  outflow: string;          // sent during the day, gas excluded
+  fee: string;              // gas paid during the day (native asset only)
+  priceUsd: number | null;  // on the day; null for tokens that aren't priced (only native assets and commonTokens are)
+}
+
+// An address's portfolio at the end of a (UTC) day, address lowercase
+export interface PortfolioSnapshot {
+  _id?: ObjectId;
+  address: string;
+  day: string;              // YYYY-MM-DD
+  holdings: PortfolioHolding[];
+  totalValueUsd: number;    // tokens that aren't priced count as 0
+  updatedAt: Date;
+}
+
+export type PortfolioBackfillStatus = "pending" | "running" | "done" | "failed";
+
+// An address whose portfolio gets a daily snapshot, and how far its history was rebuilt
+export interface TrackedPortfolio {
+  _id?: ObjectId;
+  address: string;
+  trackedAt: Date;
+  backfill: {
+    status: PortfolioBackfillStatus;
+    from: string;           // first day rebuilt, YYYY-MM-DD
+    coveredFrom?: string;   // first day the history sources cover, when later than `from`; earlier days have no snapshot
+    error?: string;
+    finishedAt?: Date;
+  };
+}
+
+const SNAPSHOTS_COLLECTION_NAME = "portfolio_snapshots";
+const TRACKED_COLLECTION_NAME = "portfolio_tracking";
+
+/**
+ * Get portfolio snapshots collection
+ */
+function getSnapshotsCollection(): Collection<PortfolioSnapshot> {
+  const db = getDb();
+  return db.collection<PortfolioSnapshot>(SNAPSHOTS_COLLECTION_NAME);
+}
+
+/**
+ * Get tracked portfolios collection
+ */
+function getTrackedCollection(): Collection<TrackedPortfolio> {
+  const db = getDb();
+  return db.collection<TrackedPortfolio>(TRACKED_COLLECTION_NAME);
+}
+
+/**
+ * Create the indexes the snapshot queries rely on (no-op when they exist)
+ */
+export async function ensurePortfolioSnapshotIndexes(): Promise<void> {
+  try {
+    await getSnapshotsCollection().createIndex({ address: 1, day: 1 }, { unique: true });
+    await getTrackedCollection().createIndex({ address: 1 }, { unique: true });
+  } catch (error) {
+    logger.error("Error creating portfolio snapshot indexes", { error });
+    throw error;
+  }
+}
+
+/**
+ * Save daily snapshots; a snapshot of a day already saved is replaced
+ */
+export async function savePortfolioSnapshots(snapshots: Omit<PortfolioSnapshot, "_id">[]): Promise<void> {
+  if (snapshots.length === 0) {
+    return;
+  }
+  try {
+    const collection = getSnapshotsCollection();
+    await collection.bulkWrite(
+      snapshots.map((snapshot) => ({
+        replaceOne: {
+          filter: { address: snapshot.address, day: snapshot.day },
+          replacement: snapshot,
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  } catch (error) {
+    logger.error("Error saving portfolio snapshots", { count: snapshots.length, error });
+    throw error;
+  }
+}
+
+/**
+ * Snapshots of an address from `fromDay` on, oldest first
+ */
+export async function getPortfolioSnapshots(address: string, fromDay: string): Promise<PortfolioSnapshot[]> {
+  try {
+    const collection = getSnapshotsCollection();
+    return await collection
+      .find({ address: address.toLowerCase(), day: { $gte: fromDay } })
+      .sort({ day: 1 })
+      .toArray();
+  } catch (error) {
+    logger.error("Error fetching portfolio snapshots", { address, fromDay, error });
+    throw error;
+  }
+}
+
+/**
+ * Day of an address's latest snapshot, or null before its first one
+ */
+export async function getLatestPortfolioSnapshotDay(address: string): Promise<string | null> {
+  try {
+    const collection = getSnapshotsCollection();
+    const latest = await collection
+      .find({ address: address.toLowerCase() }, { projection: { day: 1 } })
+      .sort({ day: -1 })
+      .limit(1)
+      .next();
+    return latest?.day ?? null;
+  } catch (error) {
+    logger.error("Error fetching latest portfolio snapshot", { address, error });
+    throw error;
+  }
+}
+
+/**
+ * Start tracking an address, its history to be rebuilt from `backfillFrom`; an address already tracked is returned as it is
+ */
+export async function trackPortfolio(address: string, backfillFrom: string): Promise<TrackedPortfolio> {
+  try {
+    const collection = getTrackedCollection();
+    const result = await collection.findOneAndUpdate(
+      { address: address.toLowerCase() },
+      {
+        $setOnInsert: {
+          address: address.toLowerCase(),
+          trackedAt: new Date(),
+          backfill: { status: "pending", from: backfillFrom },
+        },
+      },
+      { upsert: true, returnDocument: "after" }
+    );
+
+    if (!result) {
+      throw new Error("Failed to track portfolio");
+    }
+    return result;
+  } catch (error) {
+    logger.error("Error tracking portfolio", { address, error });
+    throw error;
+  }
+}
+
+/**
+ * Every tracked address
+ */
+export async function listTrackedPortfolios(): Promise<TrackedPortfolio[]> {
+  try {
+    const collection = getTrackedCollection();
+    return await collection.find({}).toArray();
+  } catch (error) {
+    logger.error("Error listing tracked portfolios", { error });
+    throw error;
+  }
+}
+
+/**
+ * Record the state of an address's backfill
+ */
+export async function updatePortfolioBackfill(address: string, backfill: TrackedPortfolio["backfill"]): Promise<void> {
+  try {
+    const collection = getTrackedCollection();
+    await collection.updateOne({ address: address.toLowerCase() }, { $set: { backfill } });
+  } catch (error) {
+    logger.error("Error updating portfolio backfill", { address, status: backfill.status, error });
+    throw error;
+  }
+}
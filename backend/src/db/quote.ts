@@ -0,0 +1,220 @@
+import { Collection, ObjectId } from "mongodb";
+import { randomUUID } from "crypto";
+import { getDb } from "../setup/mongodb.js";
+import { logger } from "../setup/logger.js";
+import type { FeeTier, GasPayment, GasShortfallPolicy } from "../setup/types.js";
+
+// eth_call dry run of a leg against the latest block (balances in the token's smallest unit)
+export interface QuoteLegSimulation {
+  status: "success" | "reverted" | "error";
+  blockNumber?: number;
+  revertReason?: string;
+  error?: string;
+  sender?: { before: string; after?: string };     // after excludes gas on native legs
+  recipient?: { before: string; after?: string };
+}
+
+// Plan as returned by /plan-sending-transaction (BigInt values as strings)
+export interface QuoteLeg {
+  chainId: number;
+  chainName: string;
+  tokenSymbol: string;
+  tokenAddress?: string;
+  isNative: boolean;
+  decimals: number;
+  amount: string;
+  gasCostUsdc: string;
+  fees: {
+    tier: FeeTier;
+    gasLimit: string;
+    maxFeePerGas: string;
+    maxPriorityFeePerGas: string;
+    eip1559: boolean;
+  };
+  simulation?: QuoteLegSimulation;  // single/multi/sponsored plans
+  // sponsored plans only: the unsigned UserOperation (bundler JSON-RPC format) and the hash the wallet signs
+  gasTokenSymbol?: string;
+  gasTokenAddress?: string;
+  gasTokenCost?: string;            // paymaster's maximum charge, in the gas token's smallest unit
+  entryPoint?: string;
+  bundlerUrl?: string;
+  userOperation?: Record<string, string>;
+  userOpHash?: string;
+}
+
+// One UserOperation of a cross-chain plan (amounts in that chain's token units)
+export interface QuoteCrossChainBatch {
+  chainId: number;
+  chainName: string;
+  actions: Array<
+    | { type: "voucherRequest"; destinationChainId: number; amount: string }
+    | { type: "useVouchers" }
+    | { type: "transfer"; recipient: string; amount: string }
+  >;
+  // the unsigned UserOperation (bundler JSON-RPC format) and the hash the owner signs
+  entryPoint?: string;
+  userOperation?: Record<string, string>;
+  userOpHash?: string;
+}
+
+// A chain whose native balance was short of its leg's gas, and was left out of the plan
+export interface QuoteGasCheck {
+  chainId: number;
+  chainName: string;
+  nativeBalance: string;
+  requiredNative: string;
+  action: "excluded";
+  reason?: string;
+}
+
+export interface QuotePlan {
+  type: "single" | "multi" | "crosschain" | "sponsored";
+  tokenSymbol: string;
+  decimals: number;
+  legs: QuoteLeg[];              // crosschain: where the funds come from
+  totalAmount: string;
+  totalGasCostUsdc: string;
+  destinationChainId?: number;   // crosschain only: chain the recipient receives the full amount on
+  batches?: QuoteCrossChainBatch[]; // crosschain only
+  smartAccountAddress?: string;  // crosschain only: the owner's account that holds and sends the funds
+  sessionId?: string;            // crosschain only: executes the signed batches (POST /crosschain/:sessionId/execute)
+  sessionExpiresAt?: string;
+  gasChecks?: QuoteGasCheck[];   // single/multi ERC-20 sends
+}
+
+// Request inputs the plan was built from
+export interface QuoteInputs {
+  sourceAddress: string;
+  destinationAddress: string;
+  tokenSymbol: string;
+  amount: string;        // in the token's plan decimals (smallest unit)
+  decimals: number;
+  maxLegs?: number;
+  feeTier: FeeTier;
+  destinationChainId?: number;
+  gasShortfall?: GasShortfallPolicy;
+  gasPayment?: GasPayment;
+}
+
+export interface QuoteExecutionLeg {
+  chainId: number;
+  success: boolean;
+  txHash?: string;
+  error?: string;
+}
+
+export interface Quote {
+  _id?: ObjectId;
+  quoteId: string;
+  inputs: QuoteInputs;
+  plan: QuotePlan;
+  createdAt: Date;
+  expiresAt: Date;
+  executedAt?: Date;
+  execution?: QuoteExecutionLeg[];
+}
+
+const COLLECTION_NAME = "quotes";
+const QUOTE_TTL_SECONDS = Number(process.env.QUOTE_TTL_SECONDS) || 120;
+
+/**
+ * Get quotes collection
+ */
+function getQuotesCollection(): Collection<Quote> {
+  const db = getDb();
+  return db.collection<Quote>(COLLECTION_NAME);
+}
+
+/**
+ * Whether the quote's TTL has passed
+ */
+export function isQuoteExpired(quote: Quote): boolean {
+  return quote.expiresAt.getTime() <= Date.now();
+}
+
+/**
+ * Store a plan as a quote that expires after QUOTE_TTL_SECONDS
+ */
+export async function createQuote(
+  inputs: QuoteInputs,
+  plan: QuotePlan
+): Promise<Quote> {
+  try {
+    const collection = getQuotesCollection();
+    const now = new Date();
+    const quote: Quote = {
+      quoteId: randomUUID(),
+      inputs,
+      plan,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + QUOTE_TTL_SECONDS * 1000),
+    };
+
+    await collection.insertOne(quote);
+
+    logger.info("Quote created", {
+      quoteId: quote.quoteId,
+      sourceAddress: inputs.sourceAddress,
+      tokenSymbol: inputs.tokenSymbol,
+      legs: plan.legs.length,
+      expiresAt: quote.expiresAt.toISOString(),
+    });
+
+    return quote;
+  } catch (error) {
+    logger.error("Error creating quote", { sourceAddress: inputs.sourceAddress, error });
+    throw error;
+  }
+}
+
+/**
+ * Get quote by id
+ */
+export async function getQuote(quoteId: string): Promise<Quote | null> {
+  try {
+    const collection = getQuotesCollection();
+    const quote = await collection.findOne({ quoteId });
+
+    logger.debug("Fetched quote", { quoteId, found: !!quote });
+
+    return quote;
+  } catch (error) {
+    logger.error("Error fetching quote", { quoteId, error });
+    throw error;
+  }
+}
+
+/**
+ * Record that a quote was executed, with the per-leg outcome.
+ * A quote can only be executed once; returns null if it doesn't exist or was already executed.
+ */
+export async function markQuoteExecuted(
+  quoteId: string,
+  execution: QuoteExecutionLeg[]
+): Promise<Quote | null> {
+  try {
+    const collection = getQuotesCollection();
+    const result = await collection.findOneAndUpdate(
+      { quoteId, executedAt: { $exists: false } },
+      {
+        $set: {
+          executedAt: new Date(),
+          execution,
+        },
+      },
+      { returnDocument: "after" }
+    );
+
+    logger.info("Quote execution recorded", {
+      quoteId,
+      recorded: !!result,
+      successfulLegs: execution.filter(l => l.success).length,
+      totalLegs: execution.length,
+    });
+
+    return result;
+  } catch (error) {
+    logger.error("Error recording quote execution", { quoteId, error });
+    throw error;
+  }
+}
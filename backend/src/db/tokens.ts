@@ -0,0 +1,183 @@
+import { Collection, ObjectId } from "mongodb";
+import { getDb } from "../setup/mongodb.js";
+import { logger } from "../setup/logger.js";
+
+// ERC-20 metadata read on-chain, cached per chain and token address (lowercase)
+export interface TokenMetadata {
+  _id?: ObjectId;
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  listed: boolean;     // part of the shared registry (every wallet's portfolio checks it)
+  fetchedAt: Date;
+}
+
+// A token one wallet added for itself (addresses lowercase)
+export interface CustomToken {
+  _id?: ObjectId;
+  owner: string;
+  chainId: number;
+  address: string;
+  createdAt: Date;
+}
+
+const METADATA_COLLECTION_NAME = "token_metadata";
+const CUSTOM_COLLECTION_NAME = "custom_tokens";
+
+/**
+ * Get token metadata collection
+ */
+function getTokenMetadataCollection(): Collection<TokenMetadata> {
+  const db = getDb();
+  return db.collection<TokenMetadata>(METADATA_COLLECTION_NAME);
+}
+
+/**
+ * Get custom tokens collection
+ */
+function getCustomTokensCollection(): Collection<CustomToken> {
+  const db = getDb();
+  return db.collection<CustomToken>(CUSTOM_COLLECTION_NAME);
+}
+
+/**
+ * Get cached metadata for a token
+ */
+export async function getCachedTokenMetadata(chainId: number, address: string): Promise<TokenMetadata | null> {
+  try {
+    const collection = getTokenMetadataCollection();
+    return await collection.findOne({ chainId, address: address.toLowerCase() });
+  } catch (error) {
+    logger.error("Error fetching token metadata", { chainId, address, error });
+    throw error;
+  }
+}
+
+/**
+ * Cache metadata for a token. `listed` is only ever turned on, so caching a custom token's
+ * metadata doesn't remove a token from the shared registry.
+ */
+export async function upsertTokenMetadata(
+  metadata: Omit<TokenMetadata, "_id" | "listed" | "fetchedAt">,
+  listed: boolean
+): Promise<TokenMetadata> {
+  try {
+    const collection = getTokenMetadataCollection();
+    const address = metadata.address.toLowerCase();
+    const result = await collection.findOneAndUpdate(
+      { chainId: metadata.chainId, address },
+      {
+        $set: {
+          symbol: metadata.symbol,
+          name: metadata.name,
+          decimals: metadata.decimals,
+          fetchedAt: new Date(),
+          ...(listed ? { listed: true } : {}),
+        },
+        $setOnInsert: {
+          chainId: metadata.chainId,
+          address,
+          ...(listed ? {} : { listed: false }),
+        },
+      },
+      { upsert: true, returnDocument: "after" }
+    );
+
+    if (!result) {
+      throw new Error("Failed to upsert token metadata");
+    }
+    return result;
+  } catch (error) {
+    logger.error("Error caching token metadata", { chainId: metadata.chainId, address: metadata.address, error });
+    throw error;
+  }
+}
+
+/**
+ * Tokens in the shared registry, optionally on one chain
+ */
+export async function getListedTokens(chainId?: number): Promise<TokenMetadata[]> {
+  try {
+    const collection = getTokenMetadataCollection();
+    return await collection.find({ listed: true, ...(chainId !== undefined ? { chainId } : {}) }).toArray();
+  } catch (error) {
+    logger.error("Error fetching listed tokens", { chainId, error });
+    throw error;
+  }
+}
+
+/**
+ * Metadata for a set of (chainId, address) pairs
+ */
+export async function getTokenMetadataFor(tokens: Array<{ chainId: number; address: string }>): Promise<TokenMetadata[]> {
+  if (tokens.length === 0) {
+    return [];
+  }
+  try {
+    const collection = getTokenMetadataCollection();
+    return await collection
+      .find({ $or: tokens.map((t) => ({ chainId: t.chainId, address: t.address.toLowerCase() })) })
+      .toArray();
+  } catch (error) {
+    logger.error("Error fetching token metadata", { count: tokens.length, error });
+    throw error;
+  }
+}
+
+/**
+ * Tokens a wallet added for itself
+ */
+export async function getCustomTokens(owner: string): Promise<CustomToken[]> {
+  try {
+    const collection = getCustomTokensCollection();
+    return await collection.find({ owner: owner.toLowerCase() }).toArray();
+  } catch (error) {
+    logger.error("Error fetching custom tokens", { owner, error });
+    throw error;
+  }
+}
+
+/**
+ * Add a token to a wallet's custom tokens (no-op if already added)
+ */
+export async function addCustomToken(owner: string, chainId: number, address: string): Promise<CustomToken> {
+  try {
+    const collection = getCustomTokensCollection();
+    const filter = { owner: owner.toLowerCase(), chainId, address: address.toLowerCase() };
+    const result = await collection.findOneAndUpdate(
+      filter,
+      { $setOnInsert: { ...filter, createdAt: new Date() } },
+      { upsert: true, returnDocument: "after" }
+    );
+
+    if (!result) {
+      throw new Error("Failed to add custom token");
+    }
+
+    logger.info("Custom token added", filter);
+    return result;
+  } catch (error) {
+    logger.error("Error adding custom token", { owner, chainId, address, error });
+    throw error;
+  }
+}
+
+/**
+ * Remove a token from a wallet's custom tokens; returns false if it wasn't there
+ */
+export async function removeCustomToken(owner: string, chainId: number, address: string): Promise<boolean> {
+  try {
+    const collection = getCustomTokensCollection();
+    const result = await collection.deleteOne({
+      owner: owner.toLowerCase(),
+      chainId,
+      address: address.toLowerCase(),
+    });
+    return result.deletedCount > 0;
+  } catch (error) {
+    logger.error("Error removing custom token", { owner, chainId, address, error });
+    throw error;
+  }
+}
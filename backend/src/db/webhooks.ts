@@ -0,0 +1,351 @@
+import { Collection, ObjectId } from "mongodb";
+import { randomBytes, randomUUID } from "crypto";
+import { getDb } from "../setup/mongodb.js";
+import { logger } from "../setup/logger.js";
+
+// A URL that receives signed callbacks for transfers of a set of addresses (lowercase)
+export interface Webhook {
+  _id?: ObjectId;
+  webhookId: string;
+  url: string;
+  addresses: string[];
+  chainIds?: number[];   // every configured chain when unset
+  secret: string;        // HMAC-SHA256 key the callbacks are signed with
+  createdAt: Date;
+}
+
+export type WebhookEventType = "transfer" | "transfer.retracted";
+
+// Body of a callback
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: {
+    chainId: number;
+    chainName: string;
+    blockNumber: number;
+    blockHash: string;
+    txHash: string;
+    logIndex: number | null;   // null for native transfers
+    address: string;           // the registered address the transfer is to or from
+    direction: "in" | "out";
+    from: string;
+    to: string;
+    token: { symbol: string; address: string; decimals: number };
+    amount: string;            // smallest unit
+    amountFormatted: string;
+    retractsEventId?: string;  // transfer.retracted only
+  };
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+// One event sent to one webhook, with its delivery attempts
+export interface WebhookDelivery {
+  _id?: ObjectId;
+  webhookId: string;
+  eventId: string;
+  type: WebhookEventType;
+  chainId: number;
+  blockNumber: number;
+  blockHash: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastStatusCode?: number;
+  lastError?: string;
+  retracted?: boolean;       // transfer events whose block was reorged out
+  createdAt: Date;
+  deliveredAt?: Date;
+}
+
+// Hash a scanned block had when it was scanned
+export interface ScannedBlock {
+  number: number;
+  hash: string;
+}
+
+// Last block scanned for webhook events, per chain
+export interface WebhookCheckpoint {
+  _id?: ObjectId;
+  chainId: number;
+  blockNumber: number;
+  recentBlocks?: ScannedBlock[];   // the scanned blocks near the head, compared with the chain to find reorgs
+  updatedAt: Date;
+}
+
+const WEBHOOKS_COLLECTION_NAME = "webhooks";
+const DELIVERIES_COLLECTION_NAME = "webhook_deliveries";
+const CHECKPOINTS_COLLECTION_NAME = "webhook_checkpoints";
+
+/**
+ * Get webhooks collection
+ */
+function getWebhooksCollection(): Collection<Webhook> {
+  const db = getDb();
+  return db.collection<Webhook>(WEBHOOKS_COLLECTION_NAME);
+}
+
+/**
+ * Get webhook deliveries collection
+ */
+function getDeliveriesCollection(): Collection<WebhookDelivery> {
+  const db = getDb();
+  return db.collection<WebhookDelivery>(DELIVERIES_COLLECTION_NAME);
+}
+
+/**
+ * Get webhook checkpoints collection
+ */
+function getCheckpointsCollection(): Collection<WebhookCheckpoint> {
+  const db = getDb();
+  return db.collection<WebhookCheckpoint>(CHECKPOINTS_COLLECTION_NAME);
+}
+
+/**
+ * Create the webhook collections' indexes: one delivery per webhook and event, due deliveries by status and time
+ */
+export async function ensureWebhookIndexes(): Promise<void> {
+  try {
+    await getWebhooksCollection().createIndex({ webhookId: 1 }, { unique: true });
+    await getDeliveriesCollection().createIndex({ webhookId: 1, eventId: 1 }, { unique: true });
+    await getDeliveriesCollection().createIndex({ status: 1, nextAttemptAt: 1 });
+    await getDeliveriesCollection().createIndex({ chainId: 1, type: 1, blockNumber: 1 });
+    await getCheckpointsCollection().createIndex({ chainId: 1 }, { unique: true });
+  } catch (error) {
+    logger.error("Error creating webhook indexes", { error });
+    throw error;
+  }
+}
+
+/**
+ * Register a webhook with a new signing secret
+ */
+export async function createWebhook(url: string, addresses: string[], chainIds?: number[]): Promise<Webhook> {
+  try {
+    const collection = getWebhooksCollection();
+    const webhook: Webhook = {
+      webhookId: randomUUID(),
+      url,
+      addresses: [...new Set(addresses.map((address) => address.toLowerCase()))],
+      ...(chainIds ? { chainIds } : {}),
+      secret: randomBytes(32).toString("hex"),
+      createdAt: new Date(),
+    };
+    await collection.insertOne(webhook);
+
+    logger.info("Webhook registered", {
+      webhookId: webhook.webhookId,
+      addresses: webhook.addresses.length,
+      chainIds: webhook.chainIds ?? "all",
+    });
+
+    return webhook;
+  } catch (error) {
+    logger.error("Error registering webhook", { url, error });
+    throw error;
+  }
+}
+
+/**
+ * Get webhook by id
+ */
+export async function getWebhook(webhookId: string): Promise<Webhook | null> {
+  try {
+    const collection = getWebhooksCollection();
+    return await collection.findOne({ webhookId });
+  } catch (error) {
+    logger.error("Error fetching webhook", { webhookId, error });
+    throw error;
+  }
+}
+
+/**
+ * Every registered webhook
+ */
+export async function listWebhooks(): Promise<Webhook[]> {
+  try {
+    const collection = getWebhooksCollection();
+    return await collection.find({}).sort({ createdAt: 1 }).toArray();
+  } catch (error) {
+    logger.error("Error listing webhooks", { error });
+    throw error;
+  }
+}
+
+/**
+ * Remove a webhook; its pending deliveries are dropped, the delivery log is kept
+ * @returns Whether the webhook existed
+ */
+export async function deleteWebhook(webhookId: string): Promise<boolean> {
+  try {
+    const result = await getWebhooksCollection().deleteOne({ webhookId });
+    await getDeliveriesCollection().updateMany(
+      { webhookId, status: "pending" },
+      { $set: { status: "failed", lastError: "Webhook deleted" } }
+    );
+    logger.info("Webhook deleted", { webhookId, deleted: result.deletedCount > 0 });
+    return result.deletedCount > 0;
+  } catch (error) {
+    logger.error("Error deleting webhook", { webhookId, error });
+    throw error;
+  }
+}
+
+/**
+ * Queue an event for a webhook. An event already queued for the webhook (same id) isn't queued again.
+ * @returns Whether the delivery was queued
+ */
+export async function queueWebhookDelivery(webhookId: string, event: WebhookEvent): Promise<boolean> {
+  try {
+    const collection = getDeliveriesCollection();
+    const now = new Date();
+    const result = await collection.updateOne(
+      { webhookId, eventId: event.id },
+      {
+        $setOnInsert: {
+          webhookId,
+          eventId: event.id,
+          type: event.type,
+          chainId: event.data.chainId,
+          blockNumber: event.data.blockNumber,
+          blockHash: event.data.blockHash,
+          event,
+          status: "pending",
+          attempts: 0,
+          nextAttemptAt: now,
+          createdAt: now,
+        },
+      },
+      { upsert: true }
+    );
+    return result.upsertedCount > 0;
+  } catch (error) {
+    logger.error("Error queueing webhook delivery", { webhookId, eventId: event.id, error });
+    throw error;
+  }
+}
+
+/**
+ * Pending deliveries whose next attempt is due, oldest first
+ */
+export async function getDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]> {
+  try {
+    const collection = getDeliveriesCollection();
+    return await collection
+      .find({ status: "pending", nextAttemptAt: { $lte: new Date() } })
+      .sort({ createdAt: 1 })
+      .limit(limit)
+      .toArray();
+  } catch (error) {
+    logger.error("Error fetching due webhook deliveries", { error });
+    throw error;
+  }
+}
+
+/**
+ * Record a delivery attempt: delivered, retried at `nextAttemptAt`, or failed for good (no `nextAttemptAt`)
+ */
+export async function recordWebhookAttempt(
+  deliveryId: ObjectId,
+  attempt: { delivered: boolean; statusCode?: number; error?: string; nextAttemptAt?: Date }
+): Promise<void> {
+  try {
+    const collection = getDeliveriesCollection();
+    const status: WebhookDeliveryStatus = attempt.delivered ? "delivered" : attempt.nextAttemptAt ? "pending" : "failed";
+    await collection.updateOne(
+      { _id: deliveryId },
+      {
+        $inc: { attempts: 1 },
+        $set: {
+          status,
+          ...(attempt.statusCode !== undefined ? { lastStatusCode: attempt.statusCode } : {}),
+          ...(attempt.error !== undefined ? { lastError: attempt.error } : {}),
+          ...(attempt.nextAttemptAt ? { nextAttemptAt: attempt.nextAttemptAt } : {}),
+          ...(attempt.delivered ? { deliveredAt: new Date() } : {}),
+        },
+      }
+    );
+  } catch (error) {
+    logger.error("Error recording webhook attempt", { deliveryId, error });
+    throw error;
+  }
+}
+
+/**
+ * Transfer deliveries on a chain from `fromBlock` on that haven't been retracted (to check for reorgs)
+ */
+export async function getRecentTransferDeliveries(chainId: number, fromBlock: number): Promise<WebhookDelivery[]> {
+  try {
+    const collection = getDeliveriesCollection();
+    return await collection
+      .find({ chainId, type: "transfer", blockNumber: { $gte: fromBlock }, retracted: { $ne: true } })
+      .toArray();
+  } catch (error) {
+    logger.error("Error fetching recent webhook deliveries", { chainId, fromBlock, error });
+    throw error;
+  }
+}
+
+/**
+ * Mark transfer deliveries as retracted (their block was reorged out)
+ */
+export async function markWebhookDeliveriesRetracted(deliveryIds: ObjectId[]): Promise<void> {
+  try {
+    const collection = getDeliveriesCollection();
+    // Not yet delivered: no need to send them at all
+    await collection.updateMany(
+      { _id: { $in: deliveryIds }, status: "pending" },
+      { $set: { status: "failed", lastError: "Block reorged out before delivery" } }
+    );
+    await collection.updateMany({ _id: { $in: deliveryIds } }, { $set: { retracted: true } });
+  } catch (error) {
+    logger.error("Error retracting webhook deliveries", { count: deliveryIds.length, error });
+    throw error;
+  }
+}
+
+/**
+ * Delivery log of a webhook, newest first
+ */
+export async function getWebhookDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+  try {
+    const collection = getDeliveriesCollection();
+    return await collection.find({ webhookId }).sort({ createdAt: -1 }).limit(limit).toArray();
+  } catch (error) {
+    logger.error("Error fetching webhook deliveries", { webhookId, error });
+    throw error;
+  }
+}
+
+/**
+ * Last block scanned on a chain, or null before the first scan
+ */
+export async function getWebhookCheckpoint(chainId: number): Promise<WebhookCheckpoint | null> {
+  try {
+    const collection = getCheckpointsCollection();
+    return await collection.findOne({ chainId });
+  } catch (error) {
+    logger.error("Error fetching webhook checkpoint", { chainId, error });
+    throw error;
+  }
+}
+
+/**
+ * Save the last block scanned on a chain, with the hashes of the scanned blocks near the head
+ */
+export async function saveWebhookCheckpoint(chainId: number, blockNumber: number, recentBlocks: ScannedBlock[]): Promise<void> {
+  try {
+    const collection = getCheckpointsCollection();
+    await collection.updateOne(
+      { chainId },
+      { $set: { chainId, blockNumber, recentBlocks, updatedAt: new Date() } },
+      { upsert: true }
+    );
+  } catch (error) {
+    logger.error("Error saving webhook checkpoint", { chainId, blockNumber, error });
+    throw error;
+  }
+}
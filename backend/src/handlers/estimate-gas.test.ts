@@ -0,0 +1,67 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { providers } from "../setup/providers.js";
+import type { RpcPoolProvider } from "../setup/rpc-pool.js";
+import { getFeeTierPrices } from "./estimate-gas.js";
+
+const CHAIN_ID = 999_001;
+const gwei = (value: number) => BigInt(value) * 1_000_000_000n;
+
+function fakeProvider(feeHistory: unknown, gasPrice = gwei(7)): RpcPoolProvider {
+  return {
+    send: async (method: string) => {
+      if (method !== "eth_feeHistory") {
+        throw new Error(`unexpected ${method}`);
+      }
+      if (feeHistory instanceof Error) {
+        throw feeHistory;
+      }
+      return feeHistory;
+    },
+    getFeeData: async () => ({ gasPrice, maxFeePerGas: null, maxPriorityFeePerGas: null }),
+  } as unknown as RpcPoolProvider;
+}
+
+afterEach(() => {
+  delete providers[CHAIN_ID];
+});
+
+test("tiers take the median reward per percentile over twice the next base fee", async () => {
+  providers[CHAIN_ID] = fakeProvider({
+    baseFeePerGas: ["0x1", "0x1", "0x1", "0x" + gwei(10).toString(16)],
+    reward: [
+      ["0x" + gwei(1).toString(16), "0x" + gwei(2).toString(16), "0x" + gwei(5).toString(16)],
+      ["0x" + gwei(3).toString(16), "0x" + gwei(4).toString(16), "0x" + gwei(9).toString(16)],
+      ["0x" + gwei(2).toString(16), "0x" + gwei(3).toString(16), "0x" + gwei(6).toString(16)],
+    ],
+  });
+
+  const prices = await getFeeTierPrices(CHAIN_ID);
+  assert.equal(prices.eip1559, true);
+  assert.equal(prices.baseFeePerGas, gwei(10));
+  assert.deepEqual(prices.tiers.slow, { maxPriorityFeePerGas: gwei(2), maxFeePerGas: gwei(22) });
+  assert.deepEqual(prices.tiers.standard, { maxPriorityFeePerGas: gwei(3), maxFeePerGas: gwei(23) });
+  assert.deepEqual(prices.tiers.fast, { maxPriorityFeePerGas: gwei(6), maxFeePerGas: gwei(26) });
+});
+
+test("falls back to one gasPrice for every tier without eth_feeHistory", async () => {
+  providers[CHAIN_ID] = fakeProvider(new Error("method not found"));
+
+  const prices = await getFeeTierPrices(CHAIN_ID);
+  assert.equal(prices.eip1559, false);
+  for (const tier of ["slow", "standard", "fast"] as const) {
+    assert.deepEqual(prices.tiers[tier], { maxFeePerGas: gwei(7), maxPriorityFeePerGas: gwei(7) });
+  }
+});
+
+test("falls back to gasPrice on chains without a base fee", async () => {
+  providers[CHAIN_ID] = fakeProvider({ baseFeePerGas: ["0x0", "0x0"], reward: [["0x1", "0x1", "0x1"]] }, gwei(1));
+
+  const prices = await getFeeTierPrices(CHAIN_ID);
+  assert.equal(prices.eip1559, false);
+  assert.equal(prices.tiers.fast.maxFeePerGas, gwei(1));
+});
+
+test("rejects chains without a provider", async () => {
+  await assert.rejects(getFeeTierPrices(CHAIN_ID), /Provider not configured/);
+});
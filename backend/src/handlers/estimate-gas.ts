@@ -1,8 +1,9 @@
 import { ethers } from "ethers";
-import { ChainId, Address } from "../setup/types.js";
+import { ChainId, Address, TokenConfig, FeeTier, FEE_TIERS, FeeTierQuote, GasEstimate } from "../setup/types.js";
 import { providers } from "../setup/providers.js";
 import { CHAINS } from "../setup/chains.js";
 import { logger } from "../setup/logger.js";
+import { nativeValueInUsdc } from "../services/price-oracle.js";
 
 /**
  * Format a BigInt amount to human-readable format with specified decimals
@@ -32,9 +33,30 @@ export async function estimateUsdcTransferGas(
   from: Address,
   to: Address,
   amount: bigint,
-): Promise<{ gas: bigint; gasPrice: bigint }> {
-  logger.debug("Estimating USDC transfer gas", {
+): Promise<GasEstimate> {
+  const usdc = CHAINS[chainId]?.commonTokens.USDC;
+  if (!usdc) {
+    const error = new Error(`USDC token not configured for chain ${chainId}`);
+    logger.error("Failed to estimate USDC transfer gas - missing USDC token", {
+      chainId,
+      error: error.message,
+    });
+    throw error;
+  }
+
+  return estimateErc20TransferGas(chainId, usdc, from, to, amount);
+}
+
+export async function estimateErc20TransferGas(
+  chainId: ChainId,
+  token: TokenConfig,
+  from: Address,
+  to: Address,
+  amount: bigint,
+): Promise<GasEstimate> {
+  logger.debug("Estimating ERC-20 transfer gas", {
     chainId,
+    token: token.symbol,
     from,
     to,
     amount: amount.toString(),
@@ -52,7 +74,7 @@ export async function estimateUsdcTransferGas(
   const provider = providers[chainId];
   if (!provider) {
     const error = new Error(`Provider not configured for chain ${chainId}. Chain may be commented out in chains.ts`);
-    logger.error("Failed to estimate USDC transfer gas - missing provider", {
+    logger.error("Failed to estimate ERC-20 transfer gas - missing provider", {
       chainId,
       error: error.message,
     });
@@ -62,17 +84,7 @@ export async function estimateUsdcTransferGas(
   const chainConfig = CHAINS[chainId];
   if (!chainConfig) {
     const error = new Error(`Chain ${chainId} not configured`);
-    logger.error("Failed to estimate USDC transfer gas - missing chain config", {
-      chainId,
-      error: error.message,
-    });
-    throw error;
-  }
-  
-  const usdc = chainConfig.commonTokens.USDC;
-  if (!usdc) {
-    const error = new Error(`USDC token not configured for chain ${chainId}`);
-    logger.error("Failed to estimate USDC transfer gas - missing USDC token", {
+    logger.error("Failed to estimate ERC-20 transfer gas - missing chain config", {
       chainId,
       error: error.message,
     });
@@ -81,7 +93,7 @@ export async function estimateUsdcTransferGas(
 
   // For gas estimation, we use the provider directly (no signer needed)
   const contract = new ethers.Contract(
-    usdc.address,
+    token.address,
     ["function transfer(address to, uint256 value) returns (bool)"],
     provider,
   );
@@ -95,13 +107,16 @@ export async function estimateUsdcTransferGas(
       from: from,
     });
     
-    // Get fee data (gas price or max fee per gas for EIP-1559)
-    const feeData = await provider.getFeeData();
-    const gasPrice = feeData.gasPrice ?? (feeData.maxFeePerGas ? feeData.maxFeePerGas : 0n);
-    const totalCost = gas * gasPrice;
+    // Get fee tiers (EIP-1559 maxFeePerGas / maxPriorityFeePerGas per tier), including any L1 data fee
+    const { gasPrice, eip1559, l1Fee, l1FeeInGas, feeTiers } = await quoteFeeTiers(chainId, gas, {
+      to: token.address,
+      data: populatedTx.data,
+      value: 0n,
+    });
+    const totalCost = gas * gasPrice + (l1FeeInGas ? 0n : l1Fee);
     
     // Format amounts for display
-    const sendAmountUsdcFormatted = formatAmount(amount, 6); // USDC has 6 decimals
+    const sendAmountFormatted = formatAmount(amount, token.decimals);
     const totalCostNativeFormatted = formatAmount(totalCost, chainConfig.native.decimals);
     // Format gas price in Gwei (1 Gwei = 1e9 wei, so we format with 9 decimals)
     const gasPriceGweiFormatted = formatAmount(gasPrice, 9);
@@ -111,17 +126,24 @@ export async function estimateUsdcTransferGas(
     logger.success("Gas estimation successful", {
       chainId,
       chainName: chainConfig.name,
+      token: token.symbol,
       sendAmount: amount.toString(),
-      sendAmountUsdcFormatted,
+      sendAmountFormatted,
       gas: gas.toString(),
       gasPrice: gasPrice.toString(),
       totalCostNative: totalCost.toString(),
       totalCostNativeFormatted,
       gasPriceGwei: gasPriceGwei.toString(),
       gasPriceGweiFormatted,
+      eip1559,
+      l1Fee: l1Fee.toString(),
+      l1FeeInGas,
+      gasCostUsdcByTier: Object.fromEntries(
+        FEE_TIERS.map(tier => [tier, formatAmount(feeTiers[tier].gasCostUsdc, 6)]),
+      ),
     });
     
-    return { gas, gasPrice };
+    return { gas, gasPrice, eip1559, l1Fee, l1FeeInGas, feeTiers };
   } catch (error) {
     // Gas estimation failures are expected in some scenarios (e.g., insufficient balance, RPC issues)
     // Log at info level so it's visible, but don't duplicate in orchestrator
@@ -136,80 +158,277 @@ export async function estimateUsdcTransferGas(
   }
 }
 
-// Price cache to avoid too many API calls
-// Cache expires after 5 minutes
-interface PriceCache {
-  price: number;
-  timestamp: number;
-}
+export async function estimateNativeTransferGas(
+  chainId: ChainId,
+  from: Address,
+  to: Address,
+): Promise<GasEstimate> {
+  logger.debug("Estimating native transfer gas", {
+    chainId,
+    from,
+    to,
+  });
 
-const PRICE_CACHE: Map<string, PriceCache> = new Map();
-const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+  if (!ethers.isAddress(from)) {
+    throw new Error(`Invalid 'from' address: ${from}`);
+  }
+  if (!ethers.isAddress(to)) {
+    throw new Error(`Invalid 'to' address: ${to}`);
+  }
 
-async function fetchEthPriceFromCoinGecko(): Promise<number> {
-  const cacheKey = "ethereum";
-  const cached = PRICE_CACHE.get(cacheKey);
-  
-  // Return cached price if still valid
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
-    logger.debug("Using cached ETH price", {
-      price: cached.price,
-      age: Date.now() - cached.timestamp,
+  const provider = providers[chainId];
+  const chainConfig = CHAINS[chainId];
+  if (!provider || !chainConfig) {
+    const error = new Error(`Chain ${chainId} not configured`);
+    logger.error("Failed to estimate native transfer gas - missing chain config", {
+      chainId,
+      error: error.message,
     });
-    return cached.price;
+    throw error;
   }
 
   try {
-    logger.debug("Fetching ETH price from CoinGecko");
-    const response = await fetch(
-      "https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd",
-      {
-        headers: {
-          "Accept": "application/json",
-        },
-      }
-    );
+    // Gas for a plain value transfer doesn't depend on the amount, so estimate with zero value.
+    // This also works when the wallet can't afford the full amount yet.
+    const gas = await provider.estimateGas({ from, to, value: 0n });
 
-    if (!response.ok) {
-      throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json() as { ethereum?: { usd?: number } };
-    
-    if (!data.ethereum?.usd) {
-      throw new Error("Invalid response from CoinGecko: missing price data");
-    }
-
-    const price = data.ethereum.usd;
-    
-    // Update cache
-    PRICE_CACHE.set(cacheKey, {
-      price,
-      timestamp: Date.now(),
+    const { gasPrice, eip1559, l1Fee, l1FeeInGas, feeTiers } = await quoteFeeTiers(chainId, gas, {
+      to,
+      data: "0x",
+      value: 0n,
     });
+    const totalCost = gas * gasPrice + (l1FeeInGas ? 0n : l1Fee);
 
-    logger.debug("ETH price fetched from CoinGecko", {
-      price,
+    logger.success("Native transfer gas estimation successful", {
+      chainId,
+      chainName: chainConfig.name,
+      gas: gas.toString(),
+      gasPrice: gasPrice.toString(),
+      totalCostNative: totalCost.toString(),
+      totalCostNativeFormatted: formatAmount(totalCost, chainConfig.native.decimals),
+      eip1559,
+      l1Fee: l1Fee.toString(),
+      l1FeeInGas,
     });
 
-    return price;
+    return { gas, gasPrice, eip1559, l1Fee, l1FeeInGas, feeTiers };
   } catch (error) {
-    // If we have a cached price, use it even if expired
-    if (cached) {
-      logger.warn("Failed to fetch ETH price, using expired cache", {
-        error: error instanceof Error ? error.message : String(error),
-        cachedPrice: cached.price,
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.info("Gas estimation failed", {
+      chainId,
+      chainName: chainConfig.name,
+      reason: errorMessage,
+    });
+    throw new Error(`Gas estimation failed for chain ${chainId}: ${errorMessage}`);
+  }
+}
+
+// eth_feeHistory reward percentile sampled for each tier's priority fee
+const FEE_TIER_PERCENTILES: Record<FeeTier, number> = {
+  slow: 10,
+  standard: 50,
+  fast: 90,
+};
+const FEE_HISTORY_BLOCKS = 20;
+
+interface FeeHistoryResponse {
+  baseFeePerGas?: string[];
+  reward?: string[][];
+}
+
+export interface FeeTierPrices {
+  eip1559: boolean;
+  baseFeePerGas: bigint;   // base fee of the next block (0 for legacy chains)
+  tiers: Record<FeeTier, { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }>;
+}
+
+function median(values: bigint[]): bigint {
+  if (!values.length) {
+    return 0n;
+  }
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Read slow/standard/fast EIP-1559 fee parameters from eth_feeHistory.
+ * The priority fee of each tier is the median, over the last blocks, of that tier's reward
+ * percentile. maxFeePerGas leaves room for the base fee to double before inclusion.
+ * Chains without a base fee fall back to a single legacy gasPrice for every tier.
+ */
+export async function getFeeTierPrices(chainId: ChainId): Promise<FeeTierPrices> {
+  const provider = providers[chainId];
+  if (!provider) {
+    throw new Error(`Provider not configured for chain ${chainId}`);
+  }
+
+  const percentiles = FEE_TIERS.map(tier => FEE_TIER_PERCENTILES[tier]);
+
+  try {
+    const history = await provider.send("eth_feeHistory", [
+      ethers.toQuantity(FEE_HISTORY_BLOCKS),
+      "latest",
+      percentiles,
+    ]) as FeeHistoryResponse;
+
+    const baseFees = history.baseFeePerGas ?? [];
+    // The last entry is the base fee of the next (pending) block
+    const nextBaseFee = baseFees.length ? BigInt(baseFees[baseFees.length - 1]) : 0n;
+
+    if (nextBaseFee > 0n) {
+      const rewards = history.reward ?? [];
+      const tiers = {} as FeeTierPrices["tiers"];
+      FEE_TIERS.forEach((tier, index) => {
+        const maxPriorityFeePerGas = median(
+          rewards.filter(r => r[index] !== undefined).map(r => BigInt(r[index])),
+        );
+        tiers[tier] = {
+          maxPriorityFeePerGas,
+          maxFeePerGas: nextBaseFee * 2n + maxPriorityFeePerGas,
+        };
       });
-      return cached.price;
+
+      logger.debug("Fee tiers read from eth_feeHistory", {
+        chainId,
+        baseFeePerGas: nextBaseFee.toString(),
+        tiers: Object.fromEntries(
+          FEE_TIERS.map(tier => [tier, {
+            maxFeePerGas: tiers[tier].maxFeePerGas.toString(),
+            maxPriorityFeePerGas: tiers[tier].maxPriorityFeePerGas.toString(),
+          }]),
+        ),
+      });
+
+      return { eip1559: true, baseFeePerGas: nextBaseFee, tiers };
     }
+  } catch (error) {
+    logger.debug("eth_feeHistory unavailable, falling back to gasPrice", {
+      chainId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
 
-    logger.error("Failed to fetch ETH price from CoinGecko", error);
-    throw new Error(
-      `Failed to fetch ETH price: ${error instanceof Error ? error.message : String(error)}`
+  // Legacy pricing: one gasPrice for every tier
+  const feeData = await provider.getFeeData();
+  const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+  const legacyTier = { maxFeePerGas: gasPrice, maxPriorityFeePerGas: gasPrice };
+  return {
+    eip1559: false,
+    baseFeePerGas: 0n,
+    tiers: { slow: legacyTier, standard: legacyTier, fast: legacyTier },
+  };
+}
+
+// OP-stack GasPriceOracle predeploy
+const OP_GAS_PRICE_ORACLE: Address = "0x420000000000000000000000000000000000000F";
+// Arbitrum NodeInterface virtual contract (only callable through eth_call / eth_estimateGas)
+const ARBITRUM_NODE_INTERFACE: Address = "0x00000000000000000000000000000000000000C8";
+
+export interface L1FeeRequest {
+  to: Address;
+  data: string;
+  value: bigint;
+}
+
+/**
+ * Estimate the L1 data fee a rollup charges for posting a transaction.
+ * - OP-stack: GasPriceOracle.getL1Fee on the unsigned serialized transaction; paid on top of gas * price.
+ * - Arbitrum: NodeInterface.gasEstimateL1Component; charged as L2 gas, so eth_estimateGas already
+ *   includes it and it is only reported here.
+ * Chains without a `rollup` flag have no L1 fee. A failed read is logged and counted as 0.
+ */
+export async function estimateL1DataFee(
+  chainId: ChainId,
+  tx: L1FeeRequest,
+  gas: bigint,
+  fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint },
+): Promise<{ l1Fee: bigint; l1FeeInGas: boolean }> {
+  const rollup = CHAINS[chainId]?.rollup;
+  const provider = providers[chainId];
+  if (!rollup || !provider) {
+    return { l1Fee: 0n, l1FeeInGas: false };
+  }
+
+  try {
+    if (rollup === "op-stack") {
+      const serialized = ethers.Transaction.from({
+        type: 2,
+        chainId: BigInt(chainId),
+        nonce: 0,
+        gasLimit: gas,
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+        to: tx.to,
+        value: tx.value,
+        data: tx.data,
+      }).unsignedSerialized;
+      const oracle = new ethers.Contract(
+        OP_GAS_PRICE_ORACLE,
+        ["function getL1Fee(bytes _data) view returns (uint256)"],
+        provider,
+      );
+      const l1Fee = await oracle.getL1Fee(serialized) as bigint;
+      logger.debug("OP-stack L1 data fee estimated", { chainId, l1Fee: l1Fee.toString() });
+      return { l1Fee, l1FeeInGas: false };
+    }
+
+    const nodeInterface = new ethers.Contract(
+      ARBITRUM_NODE_INTERFACE,
+      ["function gasEstimateL1Component(address to, bool contractCreation, bytes data) payable returns (uint64 gasEstimateForL1, uint256 baseFee, uint256 l1BaseFeeEstimate)"],
+      provider,
     );
+    const [gasEstimateForL1, baseFee] = await nodeInterface.gasEstimateL1Component.staticCall(
+      tx.to,
+      false,
+      tx.data,
+    ) as [bigint, bigint, bigint];
+    const l1Fee = gasEstimateForL1 * baseFee;
+    logger.debug("Arbitrum L1 component estimated", {
+      chainId,
+      gasEstimateForL1: gasEstimateForL1.toString(),
+      l1Fee: l1Fee.toString(),
+    });
+    return { l1Fee, l1FeeInGas: true };
+  } catch (error) {
+    logger.warn("L1 data fee estimation failed, leaving it out of the cost", {
+      chainId,
+      rollup,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { l1Fee: 0n, l1FeeInGas: rollup === "arbitrum" };
   }
 }
 
+/**
+ * Price `gas` units at every fee tier, in USDC, plus the L1 data fee of `tx` on rollups.
+ * The expected price per gas is baseFee + priority fee (never above maxFeePerGas);
+ * gasPrice in the result is the standard tier's expected price.
+ */
+async function quoteFeeTiers(
+  chainId: ChainId,
+  gas: bigint,
+  tx: L1FeeRequest,
+): Promise<Omit<GasEstimate, "gas">> {
+  const prices = await getFeeTierPrices(chainId);
+  const { l1Fee, l1FeeInGas } = await estimateL1DataFee(chainId, tx, gas, prices.tiers.standard);
+  const extraFee = l1FeeInGas ? 0n : l1Fee;
+
+  const feeTiers = {} as Record<FeeTier, FeeTierQuote>;
+  const expectedPrices = {} as Record<FeeTier, bigint>;
+  for (const tier of FEE_TIERS) {
+    const { maxFeePerGas, maxPriorityFeePerGas } = prices.tiers[tier];
+    const expected = prices.eip1559 ? prices.baseFeePerGas + maxPriorityFeePerGas : maxFeePerGas;
+    expectedPrices[tier] = expected < maxFeePerGas ? expected : maxFeePerGas;
+    feeTiers[tier] = {
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+      gasCostUsdc: await gasCostInUsdc(chainId, gas * expectedPrices[tier] + extraFee),
+    };
+  }
+
+  return { gasPrice: expectedPrices.standard, eip1559: prices.eip1559, l1Fee, l1FeeInGas, feeTiers };
+}
+
 export async function gasCostInUsdc(
   chainId: ChainId,
   nativeAmountWei: bigint,
@@ -224,23 +443,8 @@ export async function gasCostInUsdc(
     throw new Error(`Chain ${chainId} not configured`);
   }
 
-  // Get ETH price in USD
-  const ethPriceUsd = await fetchEthPriceFromCoinGecko();
-
-  // Convert native amount (wei) to USDC
-  // Formula: (nativeAmountWei / 10^18) * ethPriceUsd * 10^6
-  // Using BigInt for precision: (nativeAmountWei * priceScaled * 10^6) / (10^18 * priceScaleFactor)
-  
-  // Scale price to 8 decimal places for precision (e.g., 2500.50 -> 250050000000)
-  const PRICE_SCALE_FACTOR = 1e8;
-  const priceScaled = BigInt(Math.round(ethPriceUsd * PRICE_SCALE_FACTOR));
-  const usdcDecimals = BigInt(10 ** 6);
-  const nativeDecimals = BigInt(10 ** chainConfig.native.decimals);
-
-  // Calculate: (nativeAmountWei * priceScaled * usdcDecimals) / (nativeDecimals * priceScaleFactor)
-  const numerator = nativeAmountWei * priceScaled * usdcDecimals;
-  const denominator = nativeDecimals * BigInt(PRICE_SCALE_FACTOR);
-  const usdcAmount = numerator / denominator;
+  // Native gas is priced with the chain's own native price source (ETH, or xDAI at $1 on Gnosis)
+  const usdcAmount = await nativeValueInUsdc(chainConfig, nativeAmountWei);
 
   const nativeAmountFormatted = formatAmount(nativeAmountWei, chainConfig.native.decimals);
   const usdcAmountFormatted = formatAmount(usdcAmount, 6); // USDC has 6 decimals
@@ -250,7 +454,6 @@ export async function gasCostInUsdc(
     chainName: chainConfig.name,
     nativeAmountWei: nativeAmountWei.toString(),
     nativeAmountFormatted,
-    ethPriceUsd: ethPriceUsd.toFixed(2),
     usdcAmount: usdcAmount.toString(),
     usdcAmountFormatted,
   });
@@ -3,6 +3,13 @@ import { ChainId, Address, TokenConfig, NATIVE_TOKEN_ADDRESS } from "../setup/ty
 import { providers } from "../setup/providers.js";
 import { CHAINS } from "../setup/chains.js";
 import { logger } from "../setup/logger.js";
+import {
+  getCachedBalanceEntries,
+  getCachedBalances,
+  setCachedBalance,
+  PLANNER_FRESHNESS,
+  type BalanceFreshness,
+} from "../services/balance-cache.js";
 
 /**
  * Format a BigInt amount to human-readable format with specified decimals
@@ -33,34 +40,21 @@ export type BalanceStorage = Record<
   Record<Address, Record<Address, string>>
 >;
 
-// In-memory balance storage (will be populated from RPC providers)
-// Example balance storage (commented out - now using RPC providers):
-// let balanceStorage: BalanceStorage = {
-//   // Ethereum (ChainId 1)
-//   [ChainId.ETHEREUM]: {
-//     "0x13190e7028c5e7e70f87efe08a973c330b09f458": {
-//       [NATIVE_TOKEN_ADDRESS]: "3500000000000000000", // 3.5 ETH
-//       "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48": "250000000", // 250 USDC
-//     },
-//   },
-//   // Base (ChainId 8453)
-//   [ChainId.BASE]: {
-//     "0x13190e7028c5e7e70f87efe08a973c330b09f458": {
-//       [NATIVE_TOKEN_ADDRESS]: "1800000000000000000", // 1.8 ETH
-//       "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913": "150000000", // 150 USDC
-//     },
-//   },
-// };
-
-let balanceStorage: BalanceStorage = {};
-
 /**
- * Update balances from a JSON object
+ * Seed the balance cache from a JSON object (entries are added, not replaced wholesale).
+ * Seeded balances have no block number, so they are served only within a reader's freshness bound.
  * Expected format: { [chainId]: { [wallet]: { [tokenAddress]: "balance" } } }
  * @param balances - JSON object containing balances
  */
 export function updateBalancesFromJson(balances: BalanceStorage): void {
-  balanceStorage = balances;
+  const fetchedAt = Date.now();
+  for (const [chainIdStr, chainBalances] of Object.entries(balances)) {
+    for (const [wallet, walletBalances] of Object.entries(chainBalances)) {
+      for (const [token, balance] of Object.entries(walletBalances)) {
+        setCachedBalance({ chainId: Number(chainIdStr), wallet, token, balance: BigInt(balance), blockNumber: 0, fetchedAt });
+      }
+    }
+  }
   
   // Calculate total balances across all chains for each token
   let totalNativeWei = 0n;
@@ -147,41 +141,54 @@ export function updateBalancesFromJson(balances: BalanceStorage): void {
 }
 
 /**
- * Get all stored balances as JSON object
- * @returns Current balance storage
+ * Get all cached balances as JSON object
+ * @returns Cached balances in the BalanceStorage format
  */
 export function getBalancesAsJson(): BalanceStorage {
-  return balanceStorage;
+  const storage: BalanceStorage = {};
+  for (const entry of getCachedBalanceEntries()) {
+    ((storage[entry.chainId] ??= {})[entry.wallet as Address] ??= {})[entry.token as Address] = entry.balance.toString();
+  }
+  return storage;
 }
 
 /**
- * Get native balance from RPC provider
+ * Get native balance, read through the balance cache
  * @param chainId - The chain ID
  * @param wallet - The wallet address
+ * @param freshness - How stale a cached balance may be (defaults to the current head block)
  * @returns The balance in wei
  */
 export async function getNativeBalance(
   chainId: ChainId,
   wallet: Address,
+  freshness: BalanceFreshness = PLANNER_FRESHNESS,
 ): Promise<bigint> {
-  // Always fetch from RPC provider
-  return await getNativeBalanceFromProvider(chainId, wallet);
+  const chainConfig = CHAINS[chainId];
+  if (!chainConfig) {
+    logger.warn(`Chain ${chainId} is not configured`);
+    return 0n;
+  }
+  const [balance] = await getCachedBalances(chainId, [{ wallet, token: chainConfig.native }], freshness);
+  return balance!;
 }
 
 /**
- * Get ERC-20 balance from RPC provider
+ * Get ERC-20 balance, read through the balance cache
  * @param chainId - The chain ID
  * @param token - The token configuration
  * @param wallet - The wallet address
+ * @param freshness - How stale a cached balance may be (defaults to the current head block)
  * @returns The balance in token's smallest unit
  */
 export async function getErc20Balance(
   chainId: ChainId,
   token: TokenConfig,
   wallet: Address,
+  freshness: BalanceFreshness = PLANNER_FRESHNESS,
 ): Promise<bigint> {
-  // Always fetch from RPC provider
-  return await getErc20BalanceFromProvider(chainId, token, wallet);
+  const [balance] = await getCachedBalances(chainId, [{ wallet, token }], freshness);
+  return balance!;
 }
 
 /**
@@ -199,7 +206,7 @@ export async function getNativeBalanceFromProvider(
   try {
     const provider = providers[chainId];
     if (!provider) {
-      logger.warn(`Provider not configured for chain ${chainId}. Chain may be commented out in chains.ts`);
+      logger.warn(`Provider not configured for chain ${chainId}. Set its RPC URL (see the chain config's rpcUrlEnv)`);
       return 0n;
     }
 
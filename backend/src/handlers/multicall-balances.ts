@@ -0,0 +1,170 @@
+import { ethers } from "ethers";
+import { ChainId, Address, TokenConfig, NATIVE_TOKEN_ADDRESS } from "../setup/types.js";
+import { providers } from "../setup/providers.js";
+import { onChainsReloaded } from "../setup/chains.js";
+import { logger } from "../setup/logger.js";
+
+// Multicall3 is deployed at the same address on every chain that has it (https://www.multicall3.com)
+export const MULTICALL3_ADDRESS: Address = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+  "function getEthBalance(address addr) view returns (uint256 balance)",
+];
+const ERC20_BALANCE_ABI = ["function balanceOf(address) view returns (uint256)"];
+
+// Calls per aggregate3, to stay under the RPC's eth_call gas and response size limits
+const MULTICALL_BATCH_SIZE = Number(process.env.MULTICALL_BATCH_SIZE) || 500;
+
+const multicallInterface = new ethers.Interface(MULTICALL3_ABI);
+const erc20Interface = new ethers.Interface(ERC20_BALANCE_ABI);
+
+export interface BalanceRequest {
+  wallet: Address;
+  token: TokenConfig;   // the chain's native token (NATIVE_TOKEN_ADDRESS or isNative) or an ERC-20
+}
+
+// Whether Multicall3 is deployed, per chain (cleared on chain config reload, the RPC may have changed)
+const multicallAvailable = new Map<ChainId, Promise<boolean>>();
+onChainsReloaded(() => multicallAvailable.clear());
+
+function isNativeToken(token: TokenConfig): boolean {
+  return token.isNative === true || token.address.toLowerCase() === NATIVE_TOKEN_ADDRESS.toLowerCase();
+}
+
+async function hasMulticall3(chainId: ChainId, provider: ethers.Provider): Promise<boolean> {
+  let available = multicallAvailable.get(chainId);
+  if (!available) {
+    available = provider.getCode(MULTICALL3_ADDRESS).then(
+      (code) => code !== "0x",
+      (error) => {
+        // Don't remember RPC failures, check again next time
+        multicallAvailable.delete(chainId);
+        throw error;
+      }
+    );
+    multicallAvailable.set(chainId, available);
+  }
+  return available;
+}
+
+/**
+ * Read many balances on one chain (any mix of wallets, native token and ERC-20s) with Multicall3 `aggregate3`:
+ * native balances through `getEthBalance`, ERC-20 balances through `balanceOf`, in one eth_call per
+ * MULTICALL_BATCH_SIZE reads. Chains without Multicall3 fall back to one call per balance.
+ * An ERC-20 address without a contract reads as 0n.
+ * @returns Balances in the order of `requests`; null where the balance couldn't be read (no provider, RPC error, reverting token)
+ */
+export async function readBalances(chainId: ChainId, requests: BalanceRequest[]): Promise<Array<bigint | null>> {
+  if (requests.length === 0) {
+    return [];
+  }
+
+  const provider = providers[chainId];
+  if (!provider) {
+    logger.warn(`Provider not configured for chain ${chainId}. Set its RPC URL (see the chain config's rpcUrlEnv)`);
+    return requests.map(() => null);
+  }
+
+  try {
+    if (!(await hasMulticall3(chainId, provider))) {
+      logger.debug("Multicall3 not deployed, reading balances one by one", { chainId, count: requests.length });
+      return await Promise.all(requests.map((request) => readBalanceDirectly(provider, request)));
+    }
+
+    const calls = requests.map(({ wallet, token }) =>
+      isNativeToken(token)
+        ? {
+            target: MULTICALL3_ADDRESS,
+            allowFailure: true,
+            callData: multicallInterface.encodeFunctionData("getEthBalance", [wallet]),
+          }
+        : {
+            target: token.address,
+            allowFailure: true,
+            callData: erc20Interface.encodeFunctionData("balanceOf", [wallet]),
+          }
+    );
+
+    const multicall = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+    const balances: Array<bigint | null> = [];
+    for (let start = 0; start < calls.length; start += MULTICALL_BATCH_SIZE) {
+      const results = (await multicall.aggregate3.staticCall(calls.slice(start, start + MULTICALL_BATCH_SIZE))) as Array<{
+        success: boolean;
+        returnData: string;
+      }>;
+      for (const result of results) {
+        if (!result.success) {
+          balances.push(null);
+        } else {
+          // A token address without a contract succeeds with empty return data
+          balances.push(result.returnData.length === 66 ? BigInt(result.returnData) : 0n);
+        }
+      }
+    }
+
+    logger.info("Balances fetched with Multicall3", {
+      chainId,
+      count: requests.length,
+      wallets: new Set(requests.map((r) => r.wallet.toLowerCase())).size,
+      calls: Math.ceil(calls.length / MULTICALL_BATCH_SIZE),
+    });
+    return balances;
+  } catch (error) {
+    logger.warn(`Failed to fetch balances on chain ${chainId}`, {
+      chainId,
+      count: requests.length,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return requests.map(() => null);
+  }
+}
+
+/**
+ * Same as readBalances, with balances that can't be read as 0n (like getNativeBalance/getErc20Balance)
+ * @returns Balances in the order of `requests`
+ */
+export async function getBalancesBatch(chainId: ChainId, requests: BalanceRequest[]): Promise<bigint[]> {
+  const balances = await readBalances(chainId, requests);
+  // Return zeros instead of throwing to allow the application to continue
+  return balances.map((balance) => balance ?? 0n);
+}
+
+async function readBalanceDirectly(provider: ethers.Provider, { wallet, token }: BalanceRequest): Promise<bigint | null> {
+  try {
+    if (isNativeToken(token)) {
+      return await provider.getBalance(wallet);
+    }
+    const erc20 = new ethers.Contract(token.address, ERC20_BALANCE_ABI, provider);
+    return (await erc20.balanceOf(wallet)) as bigint;
+  } catch (error) {
+    // No contract at the token address: empty return data
+    if (ethers.isError(error, "BAD_DATA")) {
+      return 0n;
+    }
+    logger.debug("Failed to read balance", {
+      wallet,
+      token: token.symbol,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Balances of every wallet for every token on one chain, keyed by lowercase wallet, then lowercase token address
+ */
+export async function getWalletBalances(
+  chainId: ChainId,
+  wallets: Address[],
+  tokens: TokenConfig[]
+): Promise<Record<string, Record<string, bigint>>> {
+  const requests = wallets.flatMap((wallet) => tokens.map((token) => ({ wallet, token })));
+  const balances = await getBalancesBatch(chainId, requests);
+
+  const byWallet: Record<string, Record<string, bigint>> = {};
+  requests.forEach(({ wallet, token }, i) => {
+    (byWallet[wallet.toLowerCase()] ??= {})[token.address.toLowerCase()] = balances[i]!;
+  });
+  return byWallet;
+}
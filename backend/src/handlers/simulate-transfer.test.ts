@@ -0,0 +1,83 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { CHAINS } from "../setup/chains.js";
+import { providers } from "../setup/providers.js";
+import type { RpcPoolProvider } from "../setup/rpc-pool.js";
+import { NATIVE_TOKEN_ADDRESS, type Address, type TokenConfig } from "../setup/types.js";
+import { simulateTransfer } from "./simulate-transfer.js";
+
+const CHAIN_ID = 999_001;
+const ACCOUNT: Address = "0x00000000000000000000000000000000000000a1";
+const RECIPIENT: Address = "0x00000000000000000000000000000000000000b1";
+const ENTRY_POINT: Address = "0x0000000071727De22E5E9d8BAf0edAc6f37da032";
+const USDC: TokenConfig = { symbol: "USDC", decimals: 6, address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e" };
+const CALL_DATA = "0x47e1da2a";
+
+type Call = { from?: string; to?: string; data?: string };
+
+/**
+ * Provider with USDC balances of 10 for every wallet, recording the simulated call
+ */
+function fakeProvider(options: { code: string; call: (tx: Call) => Promise<string> }): RpcPoolProvider {
+  const erc20 = new ethers.Interface(["function balanceOf(address) view returns (uint256)"]);
+  return {
+    getBlockNumber: async () => 100,
+    getCode: async () => options.code,
+    call: async (tx: Call) =>
+      tx.data?.startsWith(erc20.getFunction("balanceOf")!.selector)
+        ? erc20.encodeFunctionResult("balanceOf", [10_000_000n])
+        : options.call(tx),
+  } as unknown as RpcPoolProvider;
+}
+
+CHAINS[CHAIN_ID] = {
+  id: CHAIN_ID,
+  name: "Test Chain",
+  rpcUrl: "",
+  rpcUrls: [],
+  native: { symbol: "ETH", decimals: 18, address: NATIVE_TOKEN_ADDRESS, isNative: true },
+  commonTokens: { USDC },
+  minNativeBalance: 0n,
+  nativePrice: { type: "fixed", priceUsd: 3000 },
+};
+
+afterEach(() => {
+  delete providers[CHAIN_ID];
+});
+
+test("sponsored legs run the UserOperation's callData on the account, sent by the EntryPoint", async () => {
+  const calls: Call[] = [];
+  providers[CHAIN_ID] = fakeProvider({
+    code: "0x6080",
+    call: async (tx) => {
+      calls.push(tx);
+      return "0x";
+    },
+  });
+
+  const simulation = await simulateTransfer(CHAIN_ID, USDC, ACCOUNT, RECIPIENT, 4_000_000n, { entryPoint: ENTRY_POINT, callData: CALL_DATA });
+  assert.equal(simulation.status, "success");
+  assert.deepEqual(calls.map(({ from, to, data }) => ({ from, to, data })), [{ from: ENTRY_POINT, to: ACCOUNT, data: CALL_DATA }]);
+  assert.deepEqual(simulation.sender, { before: 10_000_000n, after: 6_000_000n });
+  assert.deepEqual(simulation.recipient, { before: 10_000_000n, after: 14_000_000n });
+});
+
+test("sponsored legs report the inner transfer's revert, and an undeployed account", async () => {
+  const revert = new ethers.Interface(["error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)"]);
+  const data = revert.encodeErrorResult("ERC20InsufficientBalance", [ACCOUNT, 10_000_000n, 40_000_000n]);
+  providers[CHAIN_ID] = fakeProvider({
+    code: "0x6080",
+    call: async () => {
+      throw ethers.makeError("execution reverted", "CALL_EXCEPTION", { action: "call", data, reason: null, transaction: { to: ACCOUNT, data: CALL_DATA }, invocation: null, revert: null });
+    },
+  });
+  const reverted = await simulateTransfer(CHAIN_ID, USDC, ACCOUNT, RECIPIENT, 40_000_000n, { entryPoint: ENTRY_POINT, callData: CALL_DATA });
+  assert.equal(reverted.status, "reverted");
+  assert.equal(reverted.revertReason, `ERC20InsufficientBalance(${ethers.getAddress(ACCOUNT)}, 10000000, 40000000)`);
+
+  providers[CHAIN_ID] = fakeProvider({ code: "0x", call: async () => "0x" });
+  const undeployed = await simulateTransfer(CHAIN_ID, USDC, ACCOUNT, RECIPIENT, 4_000_000n, { entryPoint: ENTRY_POINT, callData: CALL_DATA });
+  assert.equal(undeployed.status, "error");
+  assert.match(undeployed.error!, /is not deployed/);
+});
@@ -0,0 +1,157 @@
+import { ethers } from "ethers";
+import { ChainId, Address, TokenConfig } from "../setup/types.js";
+import { providers } from "../setup/providers.js";
+import { CHAINS } from "../setup/chains.js";
+import { logger } from "../setup/logger.js";
+
+// Errors a token transfer commonly reverts with: require/revert strings, panics, and OpenZeppelin v5 ERC-20 errors
+const REVERT_ERRORS = new ethers.Interface([
+  "error Error(string message)",
+  "error Panic(uint256 code)",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InvalidSender(address sender)",
+  "error ERC20InvalidReceiver(address receiver)",
+]);
+
+const ERC20_TRANSFER_ABI = [
+  "function transfer(address to, uint256 value) returns (bool)",
+  "function balanceOf(address) view returns (uint256)",
+];
+
+export interface BalanceChange {
+  before: bigint;
+  after?: bigint;      // set when the transfer succeeds
+}
+
+export interface TransferSimulation {
+  status: "success" | "reverted" | "error";
+  blockNumber?: number;  // block the call and balances were read at
+  revertReason?: string; // decoded revert reason (status "reverted")
+  error?: string;        // RPC or configuration failure (status "error")
+  sender?: BalanceChange;
+  recipient?: BalanceChange;
+}
+
+/**
+ * Decode revert data into a readable reason
+ * @param data - Revert data returned by eth_call
+ */
+export function decodeRevertReason(data: string | null | undefined): string {
+  if (!data || data === "0x") {
+    return "Reverted without a reason";
+  }
+  try {
+    const parsed = REVERT_ERRORS.parseError(data);
+    if (parsed) {
+      if (parsed.name === "Error") {
+        return parsed.args[0] as string;
+      }
+      if (parsed.name === "Panic") {
+        return `Panic(0x${(parsed.args[0] as bigint).toString(16)})`;
+      }
+      return `${parsed.name}(${parsed.args.map(arg => String(arg)).join(", ")})`;
+    }
+  } catch {
+    // Fall through to the raw selector
+  }
+  return `Unknown revert (selector ${data.slice(0, 10)})`;
+}
+
+// The call a sponsored leg's UserOperation makes: the EntryPoint runs callData on the smart account
+export interface UserOperationCall {
+  entryPoint: Address;
+  callData: string;  // the account's executeBatch (paymaster approval, then the transfer)
+}
+
+/**
+ * Dry-run a transfer with eth_call against the latest block.
+ *
+ * The call and both balance reads are pinned to the same block number. On success the expected
+ * post-transfer balances are the pre-transfer ones moved by `amount`; for native transfers the
+ * sender's gas is not deducted. A reverted call is reported with its decoded reason; RPC failures
+ * are reported with status "error" and never throw.
+ *
+ * With `userOperation`, `from` is a smart account and the call is its UserOperation's callData sent
+ * by the EntryPoint, as the account executes it. The paymaster's gas charge is not deducted.
+ *
+ * @param token - ERC-20 token, or null for a native transfer
+ * @param amount - Amount in the token's smallest unit on this chain
+ */
+export async function simulateTransfer(
+  chainId: ChainId,
+  token: TokenConfig | null,
+  from: Address,
+  to: Address,
+  amount: bigint,
+  userOperation?: UserOperationCall,
+): Promise<TransferSimulation> {
+  const provider = providers[chainId];
+  const chainConfig = CHAINS[chainId];
+  if (!provider || !chainConfig) {
+    return { status: "error", error: `Chain ${chainId} not configured` };
+  }
+
+  const symbol = token?.symbol ?? chainConfig.native.symbol;
+  let blockNumber: number | undefined;
+  try {
+    blockNumber = await provider.getBlockNumber();
+    const contract = token ? new ethers.Contract(token.address, ERC20_TRANSFER_ABI, provider) : null;
+    const balanceOf = (wallet: Address): Promise<bigint> =>
+      contract ? contract.balanceOf(wallet, { blockTag: blockNumber }) : provider.getBalance(wallet, blockNumber);
+
+    const [senderBefore, recipientBefore] = await Promise.all([balanceOf(from), balanceOf(to)]);
+    const sender: BalanceChange = { before: senderBefore };
+    const recipient: BalanceChange = { before: recipientBefore };
+
+    // A call to an address without code succeeds without running anything
+    if (userOperation && (await provider.getCode(from, blockNumber)) === "0x") {
+      return { status: "error", blockNumber, error: `Smart account ${from} is not deployed`, sender, recipient };
+    }
+
+    const tx = userOperation
+      ? { from: userOperation.entryPoint, to: from, data: userOperation.callData }
+      : contract
+        ? { ...(await contract.transfer.populateTransaction(to, amount)), from }
+        : { from, to, value: amount };
+
+    try {
+      const result = await provider.call({ ...tx, blockTag: blockNumber });
+      // Tokens that return false instead of reverting (executeBatch returns nothing)
+      if (contract && !userOperation && result !== "0x" && !contract.interface.decodeFunctionResult("transfer", result)[0]) {
+        return { status: "reverted", blockNumber, revertReason: "transfer returned false", sender, recipient };
+      }
+    } catch (error) {
+      if (!ethers.isError(error, "CALL_EXCEPTION")) {
+        throw error;
+      }
+      const revertReason = decodeRevertReason(error.data);
+      logger.info("Transfer simulation reverted", { chainId, token: symbol, from, to, revertReason });
+      return { status: "reverted", blockNumber, revertReason, sender, recipient };
+    }
+
+    // A self-transfer leaves the balance unchanged
+    const moved = from.toLowerCase() === to.toLowerCase() ? 0n : amount;
+    sender.after = senderBefore - moved;
+    recipient.after = recipientBefore + moved;
+
+    logger.debug("Transfer simulation succeeded", {
+      chainId,
+      token: symbol,
+      blockNumber,
+      amount: amount.toString(),
+    });
+    return { status: "success", blockNumber, sender, recipient };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    // Nodes reject an eth_call whose value exceeds the balance before executing it
+    if (errorMessage.includes("insufficient funds")) {
+      return { status: "reverted", blockNumber, revertReason: "insufficient funds" };
+    }
+    logger.info("Transfer simulation failed", {
+      chainId,
+      chainName: chainConfig.name,
+      reason: errorMessage,
+    });
+    return { status: "error", blockNumber, error: errorMessage };
+  }
+}
@@ -40,12 +40,8 @@ interface SummarizedAmountsResponse {
     let totalUsdcSmallestUnit = 0n;
     let nativeSymbol = "ETH"; // default
   
-    for (const chainIdValue of Object.values(ChainId)) {
-      // Filter out string keys from numeric enum
-      if (typeof chainIdValue !== "number") continue;
-  
-      const chainId = chainIdValue as ChainId;
-      const chain = CHAINS[chainId];
+    for (const chain of Object.values(CHAINS)) {
+      const chainId: ChainId = chain.id;
   
       // Get native balance
       const nativeBalance = await getNativeBalance(chainId, address);
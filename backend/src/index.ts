@@ -9,7 +9,18 @@ export * from "./setup/chains.js";
 export * from "./setup/providers.js";
 export * from "./handlers/get-balances.js";
 export * from "./handlers/estimate-gas.js";
+export * from "./handlers/simulate-transfer.js";
 export * from "./services/orchestrator.js";
+export * from "./services/split-solver.js";
+export * from "./services/price-oracle.js";
 export * from "./services/x402.js";
 export * from "./setup/logger.js";
-// export * from "./services/eil-builder.js";
\ No newline at end of file
+export * from "./services/eil-deployments.js";
+export * from "./services/eil-builder.js";
+export * from "./services/paymaster-deployments.js";
+export * from "./services/user-operations.js";
+export * from "./services/token-registry.js";
+export * from "./services/balance-cache.js";
+export * from "./services/activity-stream.js";
+export * from "./services/transfer-scanner.js";
+export * from "./services/webhooks.js";
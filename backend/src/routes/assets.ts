@@ -1,6 +1,8 @@
 import { logger } from "../setup/logger.js";
-import { getNativeBalance, getErc20Balance } from "../handlers/get-balances.js";
-import { ChainId, CHAINS, type Address } from "../index.js";
+import type { BalanceRequest } from "../handlers/multicall-balances.js";
+import { getCachedBalances, resolveFreshness, PORTFOLIO_FRESHNESS, type BalanceFreshness } from "../services/balance-cache.js";
+import { getRegistryTokens, type RegistryToken, type TokenSource } from "../services/token-registry.js";
+import { CHAINS, type Address, type TokenConfig } from "../index.js";
 import http from "http";
 
 interface ChainBalance {
@@ -15,6 +17,16 @@ interface ChainBalance {
     balance: string; // in smallest unit (6 decimals)
     balanceFormatted: string; // human readable
   };
+  // Other ERC-20 tokens (config, registry and custom) with a non-zero balance
+  tokens: Array<{
+    symbol: string;
+    name?: string;
+    address: Address;
+    decimals: number;
+    balance: string; // in smallest unit
+    balanceFormatted: string; // human readable
+    source: TokenSource;
+  }>;
 }
 
 interface SummarizedAmountsResponse {
@@ -51,62 +63,113 @@ function formatBalance(balance: bigint, decimals: number): string {
   return `${whole}.${trimmed}`;
 }
 
-async function getSummarizedAmounts(address: Address): Promise<SummarizedAmountsResponse> {
-  const chains: ChainBalance[] = [];
-  let totalNativeWei = 0n;
-  let totalUsdcSmallestUnit = 0n;
-  let nativeSymbol = "ETH"; // default
+/**
+ * Balances of several addresses, read through the balance cache within `freshness`. Each chain's uncached
+ * balances (native, USDC and the other registry tokens, for every address) are read in one Multicall3 batch,
+ * and the chains are read in parallel.
+ */
+async function getSummarizedAmountsForAddresses(
+  addresses: Address[],
+  freshness: BalanceFreshness
+): Promise<SummarizedAmountsResponse[]> {
+  // Registry tokens other than each chain's USDC, which has its own field
+  const otherTokens = await Promise.all(
+    addresses.map(async (address) =>
+      (await getRegistryTokens(address)).filter(
+        (token) => token.address.toLowerCase() !== CHAINS[token.chainId]?.commonTokens.USDC?.address.toLowerCase()
+      )
+    )
+  );
 
   // Only iterate over chains that are actually configured in CHAINS
-  for (const [chainIdStr, chain] of Object.entries(CHAINS)) {
-    const chainId = Number(chainIdStr) as ChainId;
-
-    // Get native balance
-    const nativeBalance = await getNativeBalance(chainId, address);
-    const nativeFormatted = formatBalance(nativeBalance, chain.native.decimals);
-    totalNativeWei += nativeBalance;
-    nativeSymbol = chain.native.symbol;
-
-    // Get USDC balance
-    let usdcBalance = 0n;
-    let usdcFormatted = "0";
-    const usdcToken = chain.commonTokens.USDC;
-    if (usdcToken) {
-      usdcBalance = await getErc20Balance(chainId, usdcToken, address);
-      usdcFormatted = formatBalance(usdcBalance, usdcToken.decimals);
+  const chainConfigs = Object.values(CHAINS);
+
+  // Per chain, per address: the requested tokens and their balances
+  const chainReads = await Promise.all(
+    chainConfigs.map(async (chain) => {
+      const requests: Array<BalanceRequest & { addressIndex: number; token: TokenConfig | RegistryToken }> = [];
+      addresses.forEach((wallet, addressIndex) => {
+        requests.push({ wallet, token: chain.native, addressIndex });
+        if (chain.commonTokens.USDC) {
+          requests.push({ wallet, token: chain.commonTokens.USDC, addressIndex });
+        }
+        for (const token of otherTokens[addressIndex]!) {
+          if (token.chainId === chain.id) {
+            requests.push({ wallet, token, addressIndex });
+          }
+        }
+      });
+      const balances = await getCachedBalances(chain.id, requests, freshness);
+      return addresses.map((_, addressIndex) =>
+        requests
+          .map((request, i) => ({ ...request, balance: balances[i]! }))
+          .filter((read) => read.addressIndex === addressIndex)
+      );
+    })
+  );
+
+  return addresses.map((address, addressIndex) => {
+    const chains: ChainBalance[] = [];
+    let totalNativeWei = 0n;
+    let totalUsdcSmallestUnit = 0n;
+    let nativeSymbol = "ETH"; // default
+
+    chainConfigs.forEach((chain, chainIndex) => {
+      const [nativeRead, ...tokenReads] = chainReads[chainIndex]![addressIndex]!;
+
+      const nativeBalance = nativeRead!.balance;
+      totalNativeWei += nativeBalance;
+      nativeSymbol = chain.native.symbol;
+
+      const usdcToken = chain.commonTokens.USDC;
+      const usdcBalance = usdcToken ? tokenReads.shift()!.balance : 0n;
       totalUsdcSmallestUnit += usdcBalance;
-    }
-
-    chains.push({
-      chainId: chainId,
-      chainName: chain.name,
-      native: {
-        symbol: chain.native.symbol,
-        balance: nativeBalance.toString(),
-        balanceFormatted: nativeFormatted,
-      },
-      usdc: {
-        balance: usdcBalance.toString(),
-        balanceFormatted: usdcFormatted,
-      },
+
+      chains.push({
+        chainId: chain.id,
+        chainName: chain.name,
+        native: {
+          symbol: chain.native.symbol,
+          balance: nativeBalance.toString(),
+          balanceFormatted: formatBalance(nativeBalance, chain.native.decimals),
+        },
+        usdc: {
+          balance: usdcBalance.toString(),
+          balanceFormatted: usdcToken ? formatBalance(usdcBalance, usdcToken.decimals) : "0",
+        },
+        tokens: tokenReads
+          .filter((read) => read.balance > 0n)
+          .map(({ token, balance }) => {
+            const registryToken = token as RegistryToken;
+            return {
+              symbol: registryToken.symbol,
+              name: registryToken.name,
+              address: registryToken.address,
+              decimals: registryToken.decimals,
+              balance: balance.toString(),
+              balanceFormatted: formatBalance(balance, registryToken.decimals),
+              source: registryToken.source,
+            };
+          }),
+      });
     });
-  }
 
-  return {
-    address,
-    chains,
-    totals: {
-      native: {
-        totalWei: totalNativeWei.toString(),
-        totalFormatted: formatBalance(totalNativeWei, 18), // Assuming all native tokens are 18 decimals
-        symbol: nativeSymbol,
-      },
-      usdc: {
-        totalSmallestUnit: totalUsdcSmallestUnit.toString(),
-        totalFormatted: formatBalance(totalUsdcSmallestUnit, 6), // USDC has 6 decimals
+    return {
+      address,
+      chains,
+      totals: {
+        native: {
+          totalWei: totalNativeWei.toString(),
+          totalFormatted: formatBalance(totalNativeWei, 18), // Assuming all native tokens are 18 decimals
+          symbol: nativeSymbol,
+        },
+        usdc: {
+          totalSmallestUnit: totalUsdcSmallestUnit.toString(),
+          totalFormatted: formatBalance(totalUsdcSmallestUnit, 6), // USDC has 6 decimals
+        },
       },
-    },
-  };
+    };
+  });
 }
 
 function isValidAddress(address: string): address is Address {
@@ -118,7 +181,7 @@ function isValidAddress(address: string): address is Address {
  * /assets/{address}:
  *   get:
  *     summary: Get summarized balances across all chains
- *     description: Returns native token and USDC balances for a given address across all supported chains
+ *     description: Returns native token and USDC balances for a given address across all supported chains, plus any other known ERC-20 token (chain config, token registry or the wallet's custom tokens) it holds
  *     tags: [Assets]
  *     parameters:
  *       - in: path
@@ -129,6 +192,11 @@ function isValidAddress(address: string): address is Address {
  *           pattern: '^0x[a-fA-F0-9]{40}$'
  *         description: Ethereum wallet address
  *         example: "0x13190e7028c5e7e70f87efe08a973c330b09f458"
+ *       - in: query
+ *         name: maxAge
+ *         schema:
+ *           type: number
+ *         description: Serve cached balances up to this many seconds old (default BALANCE_PORTFOLIO_MAX_AGE_MS, 15s); balances read at the chain's current block are always served
  *     responses:
  *       200:
  *         description: Successfully retrieved balances
@@ -166,7 +234,11 @@ export async function handleAssetsRequest(
   }
 
   try {
-    const summarizedAmounts = await getSummarizedAmounts(address as Address);
+    const maxAge = new URL(req.url ?? "", "http://localhost").searchParams.get("maxAge");
+    const [summarizedAmounts] = await getSummarizedAmountsForAddresses(
+      [address as Address],
+      resolveFreshness(maxAge, PORTFOLIO_FRESHNESS)
+    );
     res.writeHead(200, { "Content-Type": "application/json" });
     res.end(JSON.stringify(summarizedAmounts, null, 2));
   } catch (error) {
@@ -181,3 +253,130 @@ export async function handleAssetsRequest(
   }
 }
 
+
+// Upper bound on addresses per batch request
+const MAX_BATCH_ADDRESSES = 50;
+
+/**
+ * Read request body from HTTP request
+ */
+function readRequestBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk.toString();
+    });
+    req.on("end", () => {
+      resolve(body);
+    });
+    req.on("error", (error) => {
+      reject(error);
+    });
+  });
+}
+
+/**
+ * @swagger
+ * /assets/batch:
+ *   post:
+ *     summary: Get summarized balances for several addresses
+ *     description: Same as GET /assets/{address} for up to 50 addresses. Each chain's balances for all of them are read in one Multicall3 batch.
+ *     tags: [Assets]
+ *     parameters:
+ *       - in: query
+ *         name: maxAge
+ *         schema:
+ *           type: number
+ *         description: Serve cached balances up to this many seconds old (default BALANCE_PORTFOLIO_MAX_AGE_MS, 15s); balances read at the chain's current block are always served
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [addresses]
+ *             properties:
+ *               addresses:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["0x13190e7028c5e7e70f87efe08a973c330b09f458"]
+ *     responses:
+ *       200:
+ *         description: Balances per address, in request order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 results:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SummarizedAmountsResponse'
+ *       400:
+ *         description: Invalid request (invalid JSON, missing or invalid addresses, too many addresses)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function handleAssetsBatchRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  let addresses: unknown;
+  try {
+    addresses = JSON.parse(await readRequestBody(req))?.addresses;
+  } catch (parseError) {
+    res.writeHead(400, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Invalid JSON", message: "Request body must be valid JSON" }));
+    return;
+  }
+
+  if (!Array.isArray(addresses) || addresses.length === 0 || addresses.length > MAX_BATCH_ADDRESSES) {
+    res.writeHead(400, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        error: "Invalid addresses",
+        message: `addresses must be a list of 1 to ${MAX_BATCH_ADDRESSES} wallet addresses`,
+      })
+    );
+    return;
+  }
+  const invalid = addresses.filter((address) => typeof address !== "string" || !isValidAddress(address));
+  if (invalid.length > 0) {
+    res.writeHead(400, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        error: "Invalid address format",
+        message: `Not valid Ethereum addresses (0x followed by 40 hex characters): ${invalid.join(", ")}`,
+      })
+    );
+    return;
+  }
+
+  try {
+    const maxAge = new URL(req.url ?? "", "http://localhost").searchParams.get("maxAge");
+    const results = await getSummarizedAmountsForAddresses(
+      addresses as Address[],
+      resolveFreshness(maxAge, PORTFOLIO_FRESHNESS)
+    );
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ results }, null, 2));
+  } catch (error) {
+    logger.error("Error getting summarized amounts", error);
+    res.writeHead(500, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : String(error),
+      })
+    );
+  }
+}
@@ -1,21 +1,35 @@
 import http from "http";
 import { logger } from "../setup/logger.js";
-import { getNativeBalance, getErc20Balance } from "../handlers/get-balances.js";
-import { CHAINS, type Address, ChainId } from "../index.js";
+import type { BalanceRequest } from "../handlers/multicall-balances.js";
+import { getCachedBalances, resolveFreshness, PORTFOLIO_FRESHNESS, type BalanceFreshness } from "../services/balance-cache.js";
+import { getPriceUsd, getNativePriceUsd } from "../services/price-oracle.js";
+import { getRegistryTokens } from "../services/token-registry.js";
+import { CHAINS, type Address, type ChainConfig, type TokenConfig, ChainId } from "../index.js";
 
 interface BalancesSummaryResponse {
   address: Address;
   totals: {
     [tokenSymbol: string]: {
+      name?: string;
       totalSmallestUnit: string;
       totalFormatted: string;
       chainsCount: number;
       chainsWithBalanceCount: number;
+      valueUSD: string;
     };
   };
   totalPortfolioValueUSD: string;
 }
 
+// ERC-20 tokens of one symbol, totalled across chains
+interface TokenGroup {
+  total: bigint;
+  decimals: number; // largest decimals of the group; balances are scaled to it
+  name?: string;
+  chainsCount: number;
+  chainBalances: bigint[];
+}
+
 function formatBalance(balance: bigint, decimals: number): string {
   if (balance === 0n) {
     return "0";
@@ -34,21 +48,7 @@ function formatBalance(balance: bigint, decimals: number): string {
   return `${whole}.${trimmed}`;
 }
 
-/**
- * Get ETH price in USD (simplified - in production, use a price API)
- * For now, using a placeholder. In production, fetch from CoinGecko, CoinMarketCap, etc.
- */
-async function getEthPriceUSD(): Promise<number> {
-  // TODO: Replace with actual price API call
-  // Example: const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd');
-  // return response.json().ethereum.usd;
-  
-  // Placeholder: return a default ETH price
-  // In production, cache this value and update periodically
-  return 2500; // $2500 per ETH (example)
-}
-
-async function getBalancesSummary(address: Address): Promise<BalancesSummaryResponse> {
+async function getBalancesSummary(address: Address, freshness: BalanceFreshness): Promise<BalancesSummaryResponse> {
   // Group native tokens by symbol (in case different chains have different native tokens)
   const nativeTokensBySymbol: Record<string, { 
     totalWei: bigint; 
@@ -56,13 +56,24 @@ async function getBalancesSummary(address: Address): Promise<BalancesSummaryResp
     symbol: string; 
     chainsCount: number;
     chainBalances: bigint[]; // Track individual chain balances to count non-zero ones
+    priceChain: ChainConfig; // Chain whose nativePrice source values this token
   }> = {};
   let totalUsdcSmallestUnit = 0n;
   let usdcChainsCount = 0;
   const usdcChainBalances: bigint[] = []; // Track individual USDC chain balances
 
-  // Fetch all balances in parallel for better performance
-  const balancePromises: Promise<void>[] = [];
+  // Other ERC-20 tokens (chain config, token registry, the wallet's custom tokens), grouped by symbol.
+  // Any contract can call itself "WETH", so registry and custom tokens are grouped apart from the
+  // chains' commonTokens and never priced
+  const configuredTokensBySymbol: Record<string, TokenGroup> = {};
+  const unconfiguredTokensBySymbol: Record<string, TokenGroup> = {};
+
+  // Balance reads per chain, each applied to its total once read; every chain is read through the
+  // balance cache (uncached balances in one Multicall3 batch), and the chains in parallel
+  const chainReads: Record<number, Array<BalanceRequest & { apply: (balance: bigint) => void }>> = {};
+  const addRead = (chainId: ChainId, token: TokenConfig, apply: (balance: bigint) => void) => {
+    (chainReads[chainId] ??= []).push({ wallet: address, token, apply });
+  };
 
   // Only iterate over chains that are actually configured in CHAINS
   for (const [chainIdStr, chain] of Object.entries(CHAINS)) {
@@ -77,78 +88,133 @@ async function getBalancesSummary(address: Address): Promise<BalancesSummaryResp
         symbol: nativeSymbol,
         chainsCount: 0,
         chainBalances: [],
+        priceChain: chain,
       };
     }
     // Increment chains count for this native token
     nativeTokensBySymbol[nativeSymbol].chainsCount++;
 
-    // Fetch native balance in parallel
-    balancePromises.push(
-      getNativeBalance(chainId, address).then((nativeBalance) => {
-        nativeTokensBySymbol[nativeSymbol].totalWei += nativeBalance;
-        nativeTokensBySymbol[nativeSymbol].chainBalances.push(nativeBalance);
-      })
-    );
+    // Native balance
+    addRead(chainId, chain.native, (nativeBalance) => {
+      nativeTokensBySymbol[nativeSymbol].totalWei += nativeBalance;
+      nativeTokensBySymbol[nativeSymbol].chainBalances.push(nativeBalance);
+    });
 
-    // Fetch USDC balance in parallel if configured
+    // USDC balance if configured
     const usdcToken = chain.commonTokens.USDC;
     if (usdcToken) {
       usdcChainsCount++;
-      balancePromises.push(
-        getErc20Balance(chainId, usdcToken, address).then((usdcBalance) => {
-          totalUsdcSmallestUnit += usdcBalance;
-          usdcChainBalances.push(usdcBalance);
-        })
-      );
+      addRead(chainId, usdcToken, (usdcBalance) => {
+        totalUsdcSmallestUnit += usdcBalance;
+        usdcChainBalances.push(usdcBalance);
+      });
+    }
+  }
+
+  for (const token of await getRegistryTokens(address)) {
+    // Each chain's USDC is totalled above
+    if (token.address.toLowerCase() === CHAINS[token.chainId]?.commonTokens.USDC?.address.toLowerCase()) {
+      continue;
     }
+    const groups = token.source === "config" ? configuredTokensBySymbol : unconfiguredTokensBySymbol;
+    const group = (groups[token.symbol] ??= {
+      total: 0n,
+      decimals: token.decimals,
+      name: token.name,
+      chainsCount: 0,
+      chainBalances: [],
+    });
+    group.chainsCount++;
+    addRead(token.chainId, token, (balance) => {
+      if (token.decimals > group.decimals) {
+        group.total *= 10n ** BigInt(token.decimals - group.decimals);
+        group.decimals = token.decimals;
+      }
+      group.total += balance * 10n ** BigInt(group.decimals - token.decimals);
+      group.chainBalances.push(balance);
+    });
   }
 
-  // Wait for all balance fetches to complete
-  await Promise.all(balancePromises);
+  // Fetch all balances, one batch per chain
+  await Promise.all(
+    Object.entries(chainReads).map(async ([chainId, reads]) => {
+      const balances = await getCachedBalances(Number(chainId) as ChainId, reads, freshness);
+      reads.forEach((read, i) => read.apply(balances[i]!));
+    })
+  );
 
   // Build totals object with native token symbols as keys
+  // Each total is valued in USD through the price oracle (zero balances are not priced)
   const totals: Record<string, any> = {};
+  let totalNativeValueUSD = 0;
   
   // Add native tokens using their symbols as keys
   for (const [symbol, tokenData] of Object.entries(nativeTokensBySymbol)) {
     // Count chains with non-zero balance
     const chainsWithBalanceCount = tokenData.chainBalances.filter(balance => balance > 0n).length;
+    const tokenAmount = Number(tokenData.totalWei) / Math.pow(10, tokenData.decimals);
+    const valueUSD = tokenData.totalWei === 0n ? 0 : tokenAmount * await getNativePriceUsd(tokenData.priceChain);
+    totalNativeValueUSD += valueUSD;
     
     totals[symbol] = {
       totalSmallestUnit: tokenData.totalWei.toString(),
       totalFormatted: formatBalance(tokenData.totalWei, tokenData.decimals),
       chainsCount: tokenData.chainsCount,
       chainsWithBalanceCount,
+      valueUSD: valueUSD.toFixed(2),
     };
   }
   
   // Add USDC - count chains with non-zero USDC balance
   const usdcChainsWithBalanceCount = usdcChainBalances.filter(balance => balance > 0n).length;
+  const totalUsdc = totalUsdcSmallestUnit === 0n
+    ? 0
+    : (Number(totalUsdcSmallestUnit) / Math.pow(10, 6)) * await getPriceUsd("USDC");
   
   totals.USDC = {
     totalSmallestUnit: totalUsdcSmallestUnit.toString(),
     totalFormatted: formatBalance(totalUsdcSmallestUnit, 6), // USDC has 6 decimals
     chainsCount: usdcChainsCount,
     chainsWithBalanceCount: usdcChainsWithBalanceCount,
+    valueUSD: totalUsdc.toFixed(2),
   };
 
-  // Calculate total portfolio value in USD
-  // For now, assume all native tokens are ETH (or use first native token's price)
-  // In production, you'd fetch prices for each native token symbol
-  const ethPriceUSD = await getEthPriceUSD();
-  let totalNativeValueUSD = 0;
-  
-  for (const [symbol, tokenData] of Object.entries(nativeTokensBySymbol)) {
-    // For now, use ETH price for all native tokens
-    // In production, fetch price for each symbol
-    const tokenAmount = Number(tokenData.totalWei) / Math.pow(10, tokenData.decimals);
-    totalNativeValueUSD += tokenAmount * ethPriceUSD; // Using ETH price as placeholder
+  // Add other tokens the wallet holds, configured ones first; tokens the price oracle can't price,
+  // and registry and custom tokens, are valued at 0
+  let totalOtherValueUSD = 0;
+  const otherTokens = [
+    ...Object.entries(configuredTokensBySymbol).map(([symbol, tokenData]) => ({ symbol, tokenData, configured: true })),
+    ...Object.entries(unconfiguredTokensBySymbol).map(([symbol, tokenData]) => ({ symbol, tokenData, configured: false })),
+  ];
+  for (const { symbol, tokenData, configured } of otherTokens) {
+    if (tokenData.total === 0n || totals[symbol]) {
+      continue;
+    }
+    let valueUSD = 0;
+    if (configured) {
+      try {
+        valueUSD = (Number(tokenData.total) / Math.pow(10, tokenData.decimals)) * await getPriceUsd(symbol);
+      } catch (error) {
+        logger.debug("No USD price for token, valuing it at 0", {
+          symbol,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    totalOtherValueUSD += valueUSD;
+
+    totals[symbol] = {
+      name: tokenData.name,
+      totalSmallestUnit: tokenData.total.toString(),
+      totalFormatted: formatBalance(tokenData.total, tokenData.decimals),
+      chainsCount: tokenData.chainsCount,
+      chainsWithBalanceCount: tokenData.chainBalances.filter(balance => balance > 0n).length,
+      valueUSD: valueUSD.toFixed(2),
+    };
   }
-  
-  const totalUsdc = Number(totalUsdcSmallestUnit) / Math.pow(10, 6);
-  
-  // Total value = (native tokens value) + USDC amount
-  const totalPortfolioValueUSD = totalNativeValueUSD + totalUsdc;
+
+  // Total value = (native tokens value) + USDC value + other tokens value
+  const totalPortfolioValueUSD = totalNativeValueUSD + totalUsdc + totalOtherValueUSD;
 
   return {
     address,
@@ -177,6 +243,11 @@ function isValidAddress(address: string): address is Address {
  *           pattern: '^0x[a-fA-F0-9]{40}$'
  *         description: Ethereum wallet address
  *         example: "0x13190e7028c5e7e70f87efe08a973c330b09f458"
+ *       - in: query
+ *         name: maxAge
+ *         schema:
+ *           type: number
+ *         description: Serve cached balances up to this many seconds old (default BALANCE_PORTFOLIO_MAX_AGE_MS, 15s); balances read at the chain's current block are always served
  *     responses:
  *       200:
  *         description: Successfully retrieved balances summary
@@ -190,7 +261,7 @@ function isValidAddress(address: string): address is Address {
  *                   example: "0x13190e7028c5e7e70f87efe08a973c330b09f458"
  *                 totals:
  *                   type: object
- *                   description: Totals grouped by token symbol (e.g., ETH, USDC)
+ *                   description: Totals grouped by token symbol (e.g., ETH, USDC). Other ERC-20 tokens the wallet holds (chain config, token registry or its custom tokens) are added under their symbol, with a `name`.
  *                   additionalProperties: true
  *                   properties:
  *                     ETH:
@@ -211,6 +282,10 @@ function isValidAddress(address: string): address is Address {
  *                           type: integer
  *                           description: Number of chains where this token has a non-zero balance
  *                           example: 2
+ *                         valueUSD:
+ *                           type: string
+ *                           description: USD value of the total, from the configured price oracle
+ *                           example: "13250.00"
  *                     USDC:
  *                       type: object
  *                       properties:
@@ -228,9 +303,13 @@ function isValidAddress(address: string): address is Address {
  *                           type: integer
  *                           description: Number of chains where this token has a non-zero balance
  *                           example: 2
+ *                         valueUSD:
+ *                           type: string
+ *                           description: USD value of the total, from the configured price oracle
+ *                           example: "400.00"
  *                 totalPortfolioValueUSD:
  *                   type: string
- *                   description: Total portfolio value in USD (ETH value + USDC value)
+ *                   description: Total portfolio value in USD (native token value + USDC value + other tokens, priced by the configured price oracle; tokens it can't price count as 0)
  *                   example: "13650.00"
  *       400:
  *         description: Invalid address format
@@ -262,7 +341,8 @@ export async function handleBalancesSummaryRequest(
   }
 
   try {
-    const summary = await getBalancesSummary(address as Address);
+    const maxAge = new URL(req.url ?? "", "http://localhost").searchParams.get("maxAge");
+    const summary = await getBalancesSummary(address as Address, resolveFreshness(maxAge, PORTFOLIO_FRESHNESS));
     res.writeHead(200, { "Content-Type": "application/json" });
     res.end(JSON.stringify(summary, null, 2));
   } catch (error) {
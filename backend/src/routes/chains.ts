@@ -0,0 +1,161 @@
+import http from "http";
+import { logger } from "../setup/logger.js";
+import { CHAINS, getLoadedChainConfigPath, reloadChains } from "../setup/chains.js";
+import { ChainConfigError } from "../setup/chain-config.js";
+import { getProvidersHealth } from "../setup/providers.js";
+import type { ChainConfig } from "../setup/types.js";
+import { requireAdmin } from "../utils/admin-auth.js";
+
+/**
+ * Serialize a chain config for JSON responses (the RPC URL is left out, it may carry an API key)
+ */
+function serializeChain(chain: ChainConfig) {
+  return {
+    id: chain.id,
+    name: chain.name,
+    hasRpcUrl: !!chain.rpcUrl,
+    rpcEndpoints: chain.rpcUrls.length,
+    native: chain.native,
+    commonTokens: Object.values(chain.commonTokens),
+    minNativeBalance: chain.minNativeBalance.toString(),
+    nativePrice: chain.nativePrice,
+    rollup: chain.rollup ?? null,
+    sqd: chain.sqd ?? null,
+  };
+}
+
+function sendServerError(res: http.ServerResponse, error: unknown): void {
+  res.writeHead(500, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : String(error),
+    })
+  );
+}
+
+/**
+ * @swagger
+ * /chains:
+ *   get:
+ *     summary: List configured chains
+ *     description: Returns the chains and tokens loaded from the chain config file (CHAIN_CONFIG_FILE, or config/chains.<CHAIN_CONFIG_ENV>.yaml)
+ *     tags: [Chains]
+ *     responses:
+ *       200:
+ *         description: Configured chains
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ChainsResponse'
+ */
+export function handleChainsRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify(
+      {
+        success: true,
+        path: getLoadedChainConfigPath(),
+        chains: Object.values(CHAINS).map(serializeChain),
+      },
+      null,
+      2
+    )
+  );
+}
+
+/**
+ * @swagger
+ * /chains/reload:
+ *   post:
+ *     summary: Reload the chain config file
+ *     description: Re-reads and validates the chain config file and swaps it in without a restart; providers are rebuilt for chains whose RPC URL changed. An invalid file is rejected with every problem listed, and the current chains stay in place. Requires the admin token (ADMIN_API_TOKEN); without it set, the endpoint is disabled. Sending SIGHUP to the server does the same.
+ *     tags: [Chains]
+ *     security:
+ *       - adminToken: []
+ *     responses:
+ *       200:
+ *         description: Chains reloaded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ChainsResponse'
+ *       401:
+ *         description: Missing or wrong admin token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: ADMIN_API_TOKEN is not set, so reloading over HTTP is disabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: The file failed validation; the current chains are kept
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ChainConfigError'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export function handleReloadChainsRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+  if (!requireAdmin(req, res)) {
+    return;
+  }
+  try {
+    const { path, chains } = reloadChains();
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ success: true, path, chains: chains.map(serializeChain) }, null, 2));
+  } catch (error) {
+    if (error instanceof ChainConfigError) {
+      logger.warn("Chain config reload rejected", { path: error.source, issues: error.issues });
+      res.writeHead(422, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: "Invalid chain config",
+          message: `${error.source} failed validation; the current chains are kept`,
+          issues: error.issues,
+        })
+      );
+      return;
+    }
+    logger.error("Error reloading chain config", error);
+    sendServerError(res, error);
+  }
+}
+
+/**
+ * @swagger
+ * /chains/health:
+ *   get:
+ *     summary: RPC endpoint health
+ *     description: Current state of every RPC endpoint of each chain, healthiest first. Requests go to the healthiest endpoint (latency, error rate, block-height lag) and fail over to the next one. Endpoint URLs are reduced to their origin.
+ *     tags: [Chains]
+ *     responses:
+ *       200:
+ *         description: Endpoint health per chain
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ChainsHealthResponse'
+ */
+export function handleChainsHealthRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+  try {
+    const chains = getProvidersHealth().map((chain) => ({
+      ...chain,
+      healthy: chain.endpoints.some((endpoint) => endpoint.healthy),
+    }));
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ success: true, chains }, null, 2));
+  } catch (error) {
+    logger.error("Error getting RPC health", error);
+    sendServerError(res, error);
+  }
+}
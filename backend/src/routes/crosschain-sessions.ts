@@ -0,0 +1,131 @@
+import http from "http";
+import type { Hex } from "viem";
+import { logger } from "../setup/logger.js";
+import {
+  executeCrossChainSession,
+  CrossChainSessionNotFoundError,
+  CrossChainSignatureError,
+} from "../services/eil-builder.js";
+
+interface CrossChainExecuteRequest {
+  signatures: string[];
+}
+
+/**
+ * Read request body from HTTP request
+ */
+function readRequestBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk.toString();
+    });
+    req.on("end", () => {
+      resolve(body);
+    });
+    req.on("error", (error) => {
+      reject(error);
+    });
+  });
+}
+
+function sendBadRequest(res: http.ServerResponse, error: string, message: string): void {
+  res.writeHead(400, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ error, message }));
+}
+
+/**
+ * @swagger
+ * /crosschain/{sessionId}/execute:
+ *   post:
+ *     summary: Sign and execute a cross-chain plan
+ *     description: |
+ *       Runs the UserOperations of a `crosschain` plan's session (see /plan-sending-transaction) with the owner's signatures.
+ *       `signatures[i]` is the owner's ECDSA signature of `batches[i].userOpHash`, without a message prefix.
+ *       Execution waits for the EIL vouchers between chains; operations that didn't finish in time are reported as pending.
+ *       A session runs once and expires after CROSSCHAIN_SESSION_TTL_MS (default 10 minutes).
+ *     tags: [Planning]
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The plan's sessionId
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [signatures]
+ *             properties:
+ *               signatures:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Outcome of every UserOperation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CrossChainExecutionResponse'
+ *       400:
+ *         description: Invalid body, or a signature that isn't the owner's
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Session not found, expired or already executed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function handleCrossChainExecuteRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  sessionId: string
+): Promise<void> {
+  try {
+    let requestData: CrossChainExecuteRequest;
+    try {
+      requestData = JSON.parse(await readRequestBody(req));
+    } catch {
+      sendBadRequest(res, "Invalid JSON", "Request body must be valid JSON");
+      return;
+    }
+
+    const signatures = requestData.signatures;
+    if (!Array.isArray(signatures) || !signatures.every((s) => typeof s === "string" && /^0x[0-9a-fA-F]{130}$/.test(s))) {
+      sendBadRequest(res, "Invalid signatures", "signatures must be an array of 65-byte hex signatures");
+      return;
+    }
+
+    const results = await executeCrossChainSession(sessionId, signatures as Hex[]);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({ success: results.every((r) => r.status === "done"), sessionId, results }, null, 2)
+    );
+  } catch (error) {
+    if (error instanceof CrossChainSignatureError) {
+      sendBadRequest(res, "Invalid signatures", error.message);
+      return;
+    }
+    if (error instanceof CrossChainSessionNotFoundError) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Session not found", message: error.message }));
+      return;
+    }
+    logger.error("Error executing cross-chain session", { sessionId, error });
+    res.writeHead(500, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : String(error),
+      })
+    );
+  }
+}
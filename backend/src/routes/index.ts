@@ -1,15 +1,24 @@
 /**
  * Central route exports
  */
-export { handleAssetsRequest } from "./assets.js";
+export { handleAssetsRequest, handleAssetsBatchRequest } from "./assets.js";
 export { handleVerifyRequest } from "./verify.js";
 export { handleSettleRequest } from "./settle.js";
 export { handlePaymentRequest } from "./payment.js";
 export { handleCounterRequest, handleCounterStatusRequest } from "./counter.js";
 export { handleUserRequest } from "./user.js";
 export { handleBalancesSummaryRequest } from "./balances-summary.js";
+export { handleStreamRequest } from "./stream.js";
+export { handlePortfolioHistoryRequest, handlePortfolioBackfillRequest } from "./portfolio-history.js";
 export { handlePlanSendingTransactionRequest } from "./plan-sending-transaction.js";
+export { handlePlanBatchPayoutRequest } from "./plan-batch-payout.js";
+export { handlePlanRebalanceRequest } from "./plan-rebalance.js";
 export { handleApiDocsRequest, handleSwaggerUIRequest } from "./swagger.js";
-export { handleTransactionsRequest } from "./transactions.js";
+export { handleTransactionsRequest, handleTransactionsExportRequest } from "./transactions.js";
 export { handleLatestCIDRequest } from "./latest-cid.js";
+export { handleChainsRequest, handleReloadChainsRequest, handleChainsHealthRequest } from "./chains.js";
+export { handleTokensRequest, handleCustomTokensRequest } from "./tokens.js";
+export { handleWebhooksRequest, handleWebhookRequest, handleWebhookDeliveriesRequest } from "./webhooks.js";
+export { handleQuoteRequest, handleRevalidateQuoteRequest, handleQuoteExecutedRequest } from "./quotes.js";
+export { handleCrossChainExecuteRequest } from "./crosschain-sessions.js";
 
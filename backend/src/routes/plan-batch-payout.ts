@@ -0,0 +1,290 @@
+import http from "http";
+import { logger } from "../setup/logger.js";
+import { buildBatchPayoutPlan, getTokenPlanDecimals, isNativeTokenSymbol } from "../services/orchestrator.js";
+import { FEE_TIERS, type Address, type BatchPayment, type BatchPlan, type FeeTier } from "../setup/types.js";
+import { isValidAddress } from "../utils/is-valid-address.js";
+import { serializeGasCheck, serializeLeg } from "../utils/serialize-plan-leg.js";
+
+// Upper bound on recipients per request, to keep planning within one request's time
+const MAX_BATCH_PAYMENTS = 200;
+
+interface BatchPayoutRequest {
+  sourceAddress: string;
+  tokenName: string;                                      // ERC-20 symbol listed in ChainConfig.commonTokens
+  payments?: Array<{ recipient: string; amount: string }>; // human-readable amounts, e.g. "100.5"
+  csv?: string;                                           // alternative to payments: "recipient,amount" lines
+  maxLegs?: number;                                       // cap on chains per recipient
+  feeTier?: FeeTier;
+}
+
+class BatchInputError extends Error {}
+
+/**
+ * Convert a human-readable amount (e.g., "100.5") to BigInt in smallest units
+ * @param amount - Human-readable amount as string
+ * @param decimals - Number of decimals (e.g., 6 for USDC, 18 for DAI)
+ * @returns BigInt amount in smallest units
+ */
+function parseAmount(amount: string, decimals: number): bigint {
+  const parts = amount.split(".");
+  const whole = parts[0] || "0";
+  const fractional = parts[1] || "";
+
+  // Pad fractional part to required decimals
+  const fractionalPadded = fractional.padEnd(decimals, "0").slice(0, decimals);
+  const amountStr = whole + fractionalPadded;
+
+  return BigInt(amountStr);
+}
+
+/**
+ * Parse "recipient,amount" CSV lines. A header line, blank lines and lines starting with # are skipped.
+ */
+function parsePaymentsCsv(csv: string): Array<{ recipient: string; amount: string; line: number }> {
+  const rows: Array<{ recipient: string; amount: string; line: number }> = [];
+  csv.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) {
+      return;
+    }
+    const [recipient = "", amount = "", ...rest] = line.split(",").map((cell) => cell.trim().replace(/^"|"$/g, ""));
+    if (rows.length === 0 && !isValidAddress(recipient) && /recipient|address/i.test(recipient)) {
+      return; // header
+    }
+    if (rest.some((cell) => cell !== "")) {
+      throw new BatchInputError(`Line ${index + 1}: expected "recipient,amount"`);
+    }
+    rows.push({ recipient, amount, line: index + 1 });
+  });
+  return rows;
+}
+
+/**
+ * Validate and convert payment rows to plan units
+ */
+function toBatchPayments(
+  rows: Array<{ recipient: string; amount: string; line?: number }>,
+  decimals: number
+): BatchPayment[] {
+  const amountRegex = /^\d+(\.\d+)?$/;
+  return rows.map((row, index) => {
+    const where = row.line !== undefined ? `Line ${row.line}` : `Payment ${index + 1}`;
+    if (!isValidAddress(row.recipient)) {
+      throw new BatchInputError(`${where}: invalid recipient address ${row.recipient}`);
+    }
+    if (!amountRegex.test(row.amount)) {
+      throw new BatchInputError(`${where}: amount must be a positive number (e.g., '100' or '100.5')`);
+    }
+    const amount = parseAmount(row.amount, decimals);
+    if (amount === 0n) {
+      throw new BatchInputError(`${where}: amount must be greater than 0`);
+    }
+    return { recipient: row.recipient as Address, amount };
+  });
+}
+
+/**
+ * Serialize BigInt values in the batch plan to strings for JSON response.
+ * Leg amounts are in the token's smallest unit on that leg's chain (see leg.decimals);
+ * payment and total amounts are expressed in the plan's decimals.
+ */
+function serializeBatchPlan(plan: BatchPlan) {
+  return {
+    type: "batch",
+    tokenSymbol: plan.tokenSymbol,
+    decimals: plan.decimals,
+    payments: plan.payments.map((payment) => ({
+      recipient: payment.recipient,
+      amount: payment.amount.toString(),
+      legs: payment.legs.map((leg) => serializeLeg(leg, plan.tokenSymbol)),
+      gasCostUsdc: payment.gasCostUsdc.toString(),
+    })),
+    totalAmount: plan.totalAmount.toString(),
+    totalGasCostUsdc: plan.totalGasCostUsdc.toString(),
+    gasChecks: plan.gasChecks.map(serializeGasCheck),
+    recipientChecks: plan.recipientChecks,
+  };
+}
+
+/**
+ * Read request body from HTTP request
+ */
+function readRequestBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk.toString();
+    });
+    req.on("end", () => {
+      resolve(body);
+    });
+    req.on("error", (error) => {
+      reject(error);
+    });
+  });
+}
+
+function sendBadRequest(res: http.ServerResponse, error: string, message: string): void {
+  res.writeHead(400, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ error, message }));
+}
+
+/**
+ * @swagger
+ * /plan-batch-payout:
+ *   post:
+ *     summary: Plan a batch payout
+ *     description: Plans transfers of one ERC-20 token to many recipients as one combined plan. Chain balances are shared across payments, so one chain can fund several transfers. Payments are given as a list or as CSV ("recipient,amount" per line).
+ *     tags: [Planning]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/BatchPayoutRequest'
+ *           example:
+ *             sourceAddress: "0x13190e7028c5e7e70f87efe08a973c330b09f458"
+ *             tokenName: "USDC"
+ *             csv: "recipient,amount\n0x0A088759743B403eFB2e2F766f77Ec961f185e0f,100\n0x8ba1f109551bD432803012645Ac136ddd64DBA72,25.5"
+ *     responses:
+ *       200:
+ *         description: Batch plan (plan is null when the balances can't fund every payment)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BatchPayoutResponse'
+ *       400:
+ *         description: Invalid request (missing fields, invalid address or amount, unsupported token, etc.)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       405:
+ *         description: Method not allowed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function handlePlanBatchPayoutRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  if (req.method !== "POST") {
+    res.writeHead(405, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        error: "Method not allowed",
+        message: "Only POST method is supported",
+      })
+    );
+    return;
+  }
+
+  try {
+    let requestData: BatchPayoutRequest;
+    try {
+      requestData = JSON.parse(await readRequestBody(req));
+    } catch (parseError) {
+      sendBadRequest(res, "Invalid JSON", "Request body must be valid JSON");
+      return;
+    }
+
+    if (!requestData.sourceAddress || !requestData.tokenName || (!requestData.payments && !requestData.csv)) {
+      sendBadRequest(res, "Missing required fields", "sourceAddress, tokenName, and payments or csv are required");
+      return;
+    }
+
+    if (!isValidAddress(requestData.sourceAddress)) {
+      sendBadRequest(
+        res,
+        "Invalid source address",
+        "sourceAddress must be a valid Ethereum address (0x followed by 40 hex characters)"
+      );
+      return;
+    }
+
+    const planDecimals = getTokenPlanDecimals(requestData.tokenName);
+    if (planDecimals === null || isNativeTokenSymbol(requestData.tokenName)) {
+      sendBadRequest(
+        res,
+        "Unsupported token",
+        `Batch payouts support ERC-20 tokens listed in the chains' commonTokens; got ${requestData.tokenName}`
+      );
+      return;
+    }
+
+    if (requestData.maxLegs !== undefined && (!Number.isInteger(requestData.maxLegs) || requestData.maxLegs < 1)) {
+      sendBadRequest(res, "Invalid maxLegs", "maxLegs must be a positive integer");
+      return;
+    }
+
+    if (requestData.feeTier !== undefined && !FEE_TIERS.includes(requestData.feeTier)) {
+      sendBadRequest(res, "Invalid feeTier", `feeTier must be one of: ${FEE_TIERS.join(", ")}`);
+      return;
+    }
+
+    let payments: BatchPayment[];
+    try {
+      const rows = requestData.payments ?? parsePaymentsCsv(requestData.csv ?? "");
+      if (!Array.isArray(rows) || rows.length === 0) {
+        throw new BatchInputError("At least one payment is required");
+      }
+      if (rows.length > MAX_BATCH_PAYMENTS) {
+        throw new BatchInputError(`At most ${MAX_BATCH_PAYMENTS} payments are allowed per batch`);
+      }
+      payments = toBatchPayments(rows, planDecimals);
+    } catch (error) {
+      if (error instanceof BatchInputError) {
+        sendBadRequest(res, "Invalid payments", error.message);
+        return;
+      }
+      throw error;
+    }
+
+    logger.info("Planning batch payout", {
+      sourceAddress: requestData.sourceAddress,
+      tokenName: requestData.tokenName,
+      payments: payments.length,
+      maxLegs: requestData.maxLegs,
+      feeTier: requestData.feeTier ?? "standard",
+    });
+
+    const plan = await buildBatchPayoutPlan(
+      requestData.sourceAddress as Address,
+      payments,
+      requestData.tokenName,
+      { maxLegs: requestData.maxLegs, feeTier: requestData.feeTier }
+    );
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify(
+        plan
+          ? { success: true, plan: serializeBatchPlan(plan) }
+          : {
+              success: true,
+              plan: null,
+              message: "No viable plan found. Balances across all chains can't fund every payment.",
+            },
+        null,
+        2
+      )
+    );
+  } catch (error) {
+    logger.error("Error planning batch payout", error);
+    res.writeHead(500, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : String(error),
+      })
+    );
+  }
+}
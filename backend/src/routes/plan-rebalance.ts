@@ -0,0 +1,257 @@
+import http from "http";
+import { logger } from "../setup/logger.js";
+import { planRebalance, findChainToken, getTokenPlanDecimals, isNativeTokenSymbol } from "../services/orchestrator.js";
+import { getEILDeploymentForChain } from "../services/eil-deployments.js";
+import { createCrossChainAccount, startCrossChainSession, type CrossChainSession } from "../services/eil-builder.js";
+import { CHAINS } from "../setup/chains.js";
+import { FEE_TIERS, type Address, type ChainId, type FeeTier, type RebalanceMove, type RebalancePlan } from "../setup/types.js";
+import { isValidAddress } from "../utils/is-valid-address.js";
+import { serializeCrossChainBatches, serializeFees } from "../utils/serialize-plan-leg.js";
+
+interface RebalanceRequest {
+  address: string;                            // owner of the multichain smart account that is rebalanced
+  tokenName: string;                          // ERC-20 symbol listed in ChainConfig.commonTokens
+  targetChainId?: number;                     // consolidate everything onto this chain
+  targetAllocation?: Record<string, number>;  // or: chain id -> weight, e.g. { "84532": 50, "11155420": 50 }
+  maxGasFraction?: number;                    // skip moves whose gas exceeds this fraction of the value moved
+  feeTier?: FeeTier;
+}
+
+function serializeMove(move: RebalanceMove) {
+  return {
+    fromChainId: move.fromChainId,
+    fromChainName: CHAINS[move.fromChainId].name,
+    toChainId: move.toChainId,
+    toChainName: CHAINS[move.toChainId].name,
+    decimals: move.decimals,
+    amount: move.amount.toString(),
+    valueUsdc: move.valueUsdc.toString(),
+    gasCostUsdc: move.gasCostUsdc.toString(),
+    lpFee: move.lpFee.toString(),
+    lpFeeUsdc: move.lpFeeUsdc.toString(),
+    fees: serializeFees(move.fees),
+  };
+}
+
+/**
+ * Serialize BigInt values in the rebalance plan to strings for JSON response.
+ * Move amounts are in the token's smallest unit on the source chain (see move.decimals);
+ * chain balances, targets and totalMoved are expressed in the plan's decimals.
+ */
+function serializeRebalancePlan(plan: RebalancePlan, smartAccountAddress: Address, session?: CrossChainSession) {
+  return {
+    tokenSymbol: plan.tokenSymbol,
+    smartAccountAddress,
+    decimals: plan.decimals,
+    chains: plan.chains.map((chain) => ({
+      chainId: chain.chainId,
+      chainName: CHAINS[chain.chainId].name,
+      balance: chain.balance.toString(),
+      target: chain.target.toString(),
+    })),
+    moves: plan.moves.map(serializeMove),
+    skipped: plan.skipped.map((move) => ({ ...serializeMove(move), reason: move.reason })),
+    batches: serializeCrossChainBatches(plan.batches, session),
+    sessionId: session?.sessionId,
+    sessionExpiresAt: session?.expiresAt.toISOString(),
+    totalMoved: plan.totalMoved.toString(),
+    totalGasCostUsdc: plan.totalGasCostUsdc.toString(),
+    totalLpFeeUsdc: plan.totalLpFeeUsdc.toString(),
+  };
+}
+
+/**
+ * Read request body from HTTP request
+ */
+function readRequestBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk.toString();
+    });
+    req.on("end", () => {
+      resolve(body);
+    });
+    req.on("error", (error) => {
+      reject(error);
+    });
+  });
+}
+
+function sendBadRequest(res: http.ServerResponse, error: string, message: string): void {
+  res.writeHead(400, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ error, message }));
+}
+
+/**
+ * @swagger
+ * /plan-rebalance:
+ *   post:
+ *     summary: Plan a consolidation or rebalance
+ *     description: Plans the moves that bring a multichain smart account's balances of one ERC-20 token to a target chain (targetChainId) or a target per-chain allocation (targetAllocation, chain id to weight). address is the account's owner; only chains with an EIL deployment take part. Each move goes through an EIL voucher (the source chain's batch locks the amount, the destination batch redeems it) and is priced with both batches' gas and the voucher's worst-case liquidity provider fee. Moves whose gas and fees cost more than maxGasFraction of the value moved are reported under skipped instead. When there is something to move, the owner signs every batch's userOpHash and sends the signatures to /crosschain/{sessionId}/execute.
+ *     tags: [Planning]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RebalanceRequest'
+ *           example:
+ *             address: "0x13190e7028c5e7e70f87efe08a973c330b09f458"
+ *             tokenName: "USDC"
+ *             targetChainId: 84532
+ *             maxGasFraction: 0.05
+ *     responses:
+ *       200:
+ *         description: Rebalance plan
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RebalanceResponse'
+ *       400:
+ *         description: Invalid request (missing fields, invalid address, unknown chain, unsupported token, etc.)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       405:
+ *         description: Method not allowed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function handlePlanRebalanceRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  if (req.method !== "POST") {
+    res.writeHead(405, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        error: "Method not allowed",
+        message: "Only POST method is supported",
+      })
+    );
+    return;
+  }
+
+  try {
+    let requestData: RebalanceRequest;
+    try {
+      requestData = JSON.parse(await readRequestBody(req));
+    } catch (parseError) {
+      sendBadRequest(res, "Invalid JSON", "Request body must be valid JSON");
+      return;
+    }
+
+    if (!requestData.address || !requestData.tokenName) {
+      sendBadRequest(res, "Missing required fields", "address and tokenName are required");
+      return;
+    }
+
+    if (!isValidAddress(requestData.address)) {
+      sendBadRequest(res, "Invalid address", "address must be a valid Ethereum address (0x followed by 40 hex characters)");
+      return;
+    }
+
+    if (getTokenPlanDecimals(requestData.tokenName) === null || isNativeTokenSymbol(requestData.tokenName)) {
+      sendBadRequest(
+        res,
+        "Unsupported token",
+        `Rebalancing supports ERC-20 tokens listed in the chains' commonTokens; got ${requestData.tokenName}`
+      );
+      return;
+    }
+
+    if ((requestData.targetChainId === undefined) === (requestData.targetAllocation === undefined)) {
+      sendBadRequest(res, "Invalid target", "Provide exactly one of targetChainId or targetAllocation");
+      return;
+    }
+
+    const allocation: Partial<Record<ChainId, number>> =
+      requestData.targetChainId !== undefined
+        ? { [requestData.targetChainId]: 1 }
+        : Object.fromEntries(Object.entries(requestData.targetAllocation ?? {}).map(([chainId, weight]) => [Number(chainId), weight]));
+
+    for (const [chainIdStr, weight] of Object.entries(allocation)) {
+      const chain = CHAINS[Number(chainIdStr) as ChainId];
+      if (!chain || !findChainToken(chain, requestData.tokenName)) {
+        sendBadRequest(res, "Invalid target chain", `${requestData.tokenName} is not configured on chain ${chainIdStr}`);
+        return;
+      }
+      if (!getEILDeploymentForChain(Number(chainIdStr))) {
+        sendBadRequest(res, "Invalid target chain", `EIL is not deployed on chain ${chainIdStr}, so funds can't be moved there`);
+        return;
+      }
+      if (typeof weight !== "number" || !Number.isFinite(weight) || weight < 0) {
+        sendBadRequest(res, "Invalid targetAllocation", "Allocation weights must be non-negative numbers");
+        return;
+      }
+    }
+    if (!Object.values(allocation).some((weight) => (weight ?? 0) > 0)) {
+      sendBadRequest(res, "Invalid targetAllocation", "At least one allocation weight must be positive");
+      return;
+    }
+
+    if (
+      requestData.maxGasFraction !== undefined &&
+      (typeof requestData.maxGasFraction !== "number" || !(requestData.maxGasFraction >= 0 && requestData.maxGasFraction <= 1))
+    ) {
+      sendBadRequest(res, "Invalid maxGasFraction", "maxGasFraction must be a number between 0 and 1");
+      return;
+    }
+
+    if (requestData.feeTier !== undefined && !FEE_TIERS.includes(requestData.feeTier)) {
+      sendBadRequest(res, "Invalid feeTier", `feeTier must be one of: ${FEE_TIERS.join(", ")}`);
+      return;
+    }
+
+    logger.info("Planning rebalance", {
+      address: requestData.address,
+      tokenName: requestData.tokenName,
+      allocation,
+      maxGasFraction: requestData.maxGasFraction,
+      feeTier: requestData.feeTier ?? "standard",
+    });
+
+    // The funds sit in the owner's multichain smart account; the owner signs the moves' UserOperations
+    const crossChainAccount = await createCrossChainAccount(requestData.address as Address);
+    const smartAccountAddress = crossChainAccount.account.addressOn(BigInt(Object.keys(allocation)[0]));
+    const plan = await planRebalance(
+      smartAccountAddress,
+      allocation,
+      requestData.tokenName,
+      { feeTier: requestData.feeTier, maxGasFraction: requestData.maxGasFraction }
+    );
+    const session = plan && plan.batches.length > 0
+      ? await startCrossChainSession(plan, crossChainAccount)
+      : undefined;
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify(
+        plan
+          ? { success: true, plan: serializeRebalancePlan(plan, smartAccountAddress, session) }
+          : { success: true, plan: null, message: "No rebalance plan could be built." },
+        null,
+        2
+      )
+    );
+  } catch (error) {
+    logger.error("Error planning rebalance", error);
+    res.writeHead(500, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : String(error),
+      })
+    );
+  }
+}
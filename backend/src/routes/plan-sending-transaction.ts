@@ -1,19 +1,41 @@
 import http from "http";
 import { logger } from "../setup/logger.js";
-import { planUsdcSend } from "../services/orchestrator.js";
-import { CHAINS, type Address, ChainId } from "../index.js";
-import type { UsdcSendPlan } from "../setup/types.js";
+import {
+  planUsdcSend,
+  planNativeSend,
+  buildCrossChainUsdcPlan,
+  buildSponsoredUsdcPlan,
+  findChainToken,
+  getTokenPlanDecimals,
+  isNativeTokenSymbol,
+} from "../services/orchestrator.js";
+import { getEILDeploymentForChain } from "../services/eil-deployments.js";
+import { createCrossChainAccount, startCrossChainSession, type CrossChainSession } from "../services/eil-builder.js";
+import { getPaymasterDeploymentForChain } from "../services/paymaster-deployments.js";
+import { toRpcUserOperation } from "../services/user-operations.js";
+import { CHAINS, type Address } from "../index.js";
+import { FEE_TIERS, GAS_PAYMENTS, GAS_SHORTFALL_POLICIES, type ChainId, type FeeTier, type GasPayment, type GasShortfallPolicy, type UsdcSendPlan } from "../setup/types.js";
+import { createQuote, type QuoteLeg, type QuoteLegSimulation, type QuotePlan } from "../db/quote.js";
+import { simulateTransfer, type BalanceChange } from "../handlers/simulate-transfer.js";
+import { serializeCrossChainBatches, serializeGasCheck, serializeLeg } from "../utils/serialize-plan-leg.js";
 
 interface PlanRequest {
   sourceAddress: string;
   destinationAddress: string;
   amount: string; // Amount as a string (e.g., "100.5" for 100.5 USDC)
-  tokenName: string; // "USDC" for now
+  tokenName: string; // Any symbol listed in ChainConfig.commonTokens (e.g., "USDC", "DAI") or a native symbol ("ETH", "xDAI")
+  maxLegs?: number; // Optional cap on the number of chains a multi-chain plan may use
+  feeTier?: FeeTier; // Fee tier every leg is priced and signed at (default: "standard")
+  destinationChainId?: number; // Deliver the full amount on this chain via EIL (ERC-20 only)
+  gasShortfall?: GasShortfallPolicy; // Chains without native gas for their leg: "exclude" (the only policy)
+  gasPayment?: GasPayment; // "usdc": pay each leg's gas in USDC through an ERC-4337 token paymaster (ERC-20 only)
 }
 
 interface PlanResponse {
   success: boolean;
-  plan?: UsdcSendPlan | null;
+  plan?: QuotePlan | null;
+  quoteId?: string;    // id to revalidate the plan with before execution (POST /quotes/:id/revalidate)
+  expiresAt?: string;
   error?: string;
   message?: string;
 }
@@ -25,7 +47,7 @@ function isValidAddress(address: string): address is Address {
 /**
  * Convert a human-readable amount (e.g., "100.5") to BigInt in smallest units
  * @param amount - Human-readable amount as string
- * @param decimals - Number of decimals (6 for USDC)
+ * @param decimals - Number of decimals (e.g., 6 for USDC, 18 for DAI)
  * @returns BigInt amount in smallest units
  */
 function parseAmount(amount: string, decimals: number): bigint {
@@ -42,46 +64,110 @@ function parseAmount(amount: string, decimals: number): bigint {
 
 /**
  * Serialize BigInt values in the plan to strings for JSON response
- * Always returns all legs in a consistent format
+ * Always returns all legs in a consistent format.
+ * Leg amounts are in the token's smallest unit on that leg's chain (see leg.decimals);
+ * totalAmount is expressed in the plan's decimals.
  */
-function serializePlan(plan: UsdcSendPlan | null, requestedAmount: bigint): any {
+function serializePlan(
+  plan: UsdcSendPlan | null,
+  requestedAmount: bigint,
+  planDecimals: number,
+  session?: CrossChainSession
+): QuotePlan | null {
   if (!plan) {
     return null;
   }
 
   if (plan.type === "single") {
     // For single-chain, create a legs array with one leg
-    const leg = {
-      chainId: plan.quote.chainId,
-      chainName: CHAINS[plan.quote.chainId].name,
-      amountUsdc: requestedAmount.toString(),
-      gasCostUsdc: plan.quote.gasCostUsdc.toString(),
-    };
+    const leg = serializeLeg(plan.quote, plan.quote.tokenSymbol);
 
     return {
       type: "single",
+      tokenSymbol: plan.quote.tokenSymbol,
+      decimals: planDecimals,
       legs: [leg],
       totalAmount: requestedAmount.toString(),
       totalGasCostUsdc: plan.quote.gasCostUsdc.toString(),
+      gasChecks: (plan.quote.gasChecks ?? []).map(serializeGasCheck),
+    };
+  } else if (plan.type === "crosschain") {
+    // For cross-chain, legs are the sources; batches are the UserOperations per chain, in the session's order
+    return {
+      type: "crosschain",
+      tokenSymbol: plan.plan.tokenSymbol,
+      decimals: plan.plan.decimals,
+      legs: plan.plan.legs.map((leg) => serializeLeg(leg, plan.plan.tokenSymbol)),
+      totalAmount: plan.plan.totalAmount.toString(),
+      totalGasCostUsdc: plan.plan.totalGasCostUsdc.toString(),
+      destinationChainId: plan.plan.destinationChainId,
+      batches: serializeCrossChainBatches(plan.plan.batches, session),
+      smartAccountAddress: session?.smartAccount,
+      sessionId: session?.sessionId,
+      sessionExpiresAt: session?.expiresAt.toISOString(),
+    };
+  } else if (plan.type === "sponsored") {
+    // For sponsored, each leg carries the unsigned UserOperation the wallet signs and submits to the bundler
+    return {
+      type: "sponsored",
+      tokenSymbol: plan.plan.tokenSymbol,
+      decimals: plan.plan.decimals,
+      legs: plan.plan.legs.map((leg) => ({
+        ...serializeLeg(leg, plan.plan.tokenSymbol),
+        gasTokenSymbol: leg.gasTokenSymbol,
+        gasTokenAddress: leg.gasTokenAddress,
+        gasTokenCost: leg.gasTokenCost.toString(),
+        entryPoint: leg.entryPoint,
+        bundlerUrl: leg.bundlerUrl,
+        userOperation: toRpcUserOperation(leg.userOperation),
+        userOpHash: leg.userOpHash,
+      })),
+      totalAmount: plan.plan.totalAmount.toString(),
+      totalGasCostUsdc: plan.plan.totalGasCostUsdc.toString(),
     };
   } else {
     // For multi-chain, return all legs
-    const legs = plan.plan.legs.map((leg) => ({
-      chainId: leg.chainId,
-      chainName: CHAINS[leg.chainId].name,
-      amountUsdc: leg.amountUsdc.toString(),
-      gasCostUsdc: leg.gasCostUsdc.toString(),
-    }));
+    const legs = plan.plan.legs.map((leg) => serializeLeg(leg, plan.plan.tokenSymbol));
 
     return {
       type: "multi",
+      tokenSymbol: plan.plan.tokenSymbol,
+      decimals: plan.plan.decimals,
       legs: legs,
       totalAmount: plan.plan.totalAmount.toString(),
       totalGasCostUsdc: plan.plan.totalGasCostUsdc.toString(),
+      gasChecks: (plan.plan.gasChecks ?? []).map(serializeGasCheck),
     };
   }
 }
 
+function serializeBalanceChange(change: BalanceChange | undefined) {
+  return change && { before: change.before.toString(), ...(change.after !== undefined ? { after: change.after.toString() } : {}) };
+}
+
+/**
+ * Dry-run one serialized leg with eth_call and describe the outcome.
+ * Sponsored legs run their UserOperation's executeBatch on the smart account.
+ */
+async function simulateLeg(leg: QuoteLeg, from: Address, to: Address): Promise<QuoteLegSimulation> {
+  const chainId = leg.chainId as ChainId;
+  const token = leg.isNative ? null : findChainToken(CHAINS[chainId], leg.tokenSymbol);
+  if (token === undefined) {
+    return { status: "error", error: `${leg.tokenSymbol} is not configured on chain ${leg.chainId}` };
+  }
+  const userOperation = leg.userOperation && leg.entryPoint
+    ? { entryPoint: leg.entryPoint as Address, callData: leg.userOperation.callData! }
+    : undefined;
+  // The smart account sends a sponsored leg
+  const sender = userOperation ? (leg.userOperation!.sender as Address) : from;
+  const simulation = await simulateTransfer(chainId, token, sender, to, BigInt(leg.amount), userOperation);
+  return {
+    ...simulation,
+    sender: serializeBalanceChange(simulation.sender),
+    recipient: serializeBalanceChange(simulation.recipient),
+  };
+}
+
 /**
  * Read request body from HTTP request
  */
@@ -105,7 +191,7 @@ function readRequestBody(req: http.IncomingMessage): Promise<string> {
  * /plan-sending-transaction:
  *   post:
  *     summary: Plan a sending transaction
- *     description: Creates an optimal plan (single-chain or multi-chain) for sending USDC tokens
+ *     description: Creates an optimal plan (single-chain or multi-chain) for sending any token listed in the chains' commonTokens. With destinationChainId, creates an EIL cross-chain plan that delivers the full amount on that chain from sourceAddress's multichain smart account (sourceAddress is the account owner); the owner signs each batch's userOpHash and sends the signatures to /crosschain/{sessionId}/execute. With gasPayment "usdc", creates a sponsored plan whose legs are ERC-4337 UserOperations paying gas in USDC through a token paymaster; sourceAddress is the owner, and each leg is sent by the owner's SimpleAccount on that chain (derived from the chain's account factory and deployed by its first UserOperation). Every single-chain, multi-chain and sponsored leg is dry-run with eth_call against the latest block (a sponsored leg as its UserOperation's executeBatch, called on the smart account by the EntryPoint); each leg's simulation reports the outcome, the decoded revert reason, and the expected sender and recipient balances.
  *     tags: [Planning]
  *     requestBody:
  *       required: true
@@ -118,6 +204,7 @@ function readRequestBody(req: http.IncomingMessage): Promise<string> {
  *             destinationAddress: "0x0A088759743B403eFB2e2F766f77Ec961f185e0f"
  *             amount: "100.5"
  *             tokenName: "USDC"
+ *             feeTier: "standard"
  *     responses:
  *       200:
  *         description: Successfully created plan
@@ -211,13 +298,17 @@ export async function handlePlanSendingTransactionRequest(
       return;
     }
 
-    // Validate token name (only USDC supported for now)
-    if (requestData.tokenName.toUpperCase() !== "USDC") {
+    // Validate token name against the tokens configured in CHAINS
+    const planDecimals = getTokenPlanDecimals(requestData.tokenName);
+    if (planDecimals === null) {
+      const supported = [
+        ...new Set(Object.values(CHAINS).flatMap((c) => [c.native.symbol, ...Object.keys(c.commonTokens)])),
+      ];
       res.writeHead(400, { "Content-Type": "application/json" });
       res.end(
         JSON.stringify({
           error: "Unsupported token",
-          message: `Only USDC is supported. Received: ${requestData.tokenName}`,
+          message: `Token ${requestData.tokenName} is not configured on any chain. Supported: ${supported.join(", ")}`,
         })
       );
       return;
@@ -236,10 +327,10 @@ export async function handlePlanSendingTransactionRequest(
       return;
     }
 
-    // Parse amount to BigInt (USDC has 6 decimals)
-    const amountUsdc = parseAmount(requestData.amount, 6);
+    // Parse amount to BigInt in the token's plan decimals
+    const amount = parseAmount(requestData.amount, planDecimals);
 
-    if (amountUsdc === 0n) {
+    if (amount === 0n) {
       res.writeHead(400, { "Content-Type": "application/json" });
       res.end(
         JSON.stringify({
@@ -250,24 +341,188 @@ export async function handlePlanSendingTransactionRequest(
       return;
     }
 
-    logger.info("Planning USDC send", {
+    // Validate optional leg cap
+    if (requestData.maxLegs !== undefined && (!Number.isInteger(requestData.maxLegs) || requestData.maxLegs < 1)) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: "Invalid maxLegs",
+          message: "maxLegs must be a positive integer",
+        })
+      );
+      return;
+    }
+
+    // Validate optional fee tier
+    if (requestData.feeTier !== undefined && !FEE_TIERS.includes(requestData.feeTier)) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: "Invalid feeTier",
+          message: `feeTier must be one of: ${FEE_TIERS.join(", ")}`,
+        })
+      );
+      return;
+    }
+
+    // Validate optional gas shortfall policy
+    if (requestData.gasShortfall !== undefined && !GAS_SHORTFALL_POLICIES.includes(requestData.gasShortfall)) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: "Invalid gasShortfall",
+          message: `gasShortfall must be one of: ${GAS_SHORTFALL_POLICIES.join(", ")}`,
+        })
+      );
+      return;
+    }
+
+    // Validate optional gas payment mode
+    if (requestData.gasPayment !== undefined && !GAS_PAYMENTS.includes(requestData.gasPayment)) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: "Invalid gasPayment",
+          message: `gasPayment must be one of: ${GAS_PAYMENTS.join(", ")}`,
+        })
+      );
+      return;
+    }
+
+    const sponsored = requestData.gasPayment === "usdc";
+    if (sponsored) {
+      if (isNativeTokenSymbol(requestData.tokenName) || requestData.destinationChainId !== undefined) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: "Invalid gasPayment",
+            message: "gasPayment \"usdc\" supports ERC-20 sends without destinationChainId",
+          })
+        );
+        return;
+      }
+      const hasPaymaster = Object.entries(CHAINS).some(
+        ([chainId, chain]) => findChainToken(chain, requestData.tokenName) && getPaymasterDeploymentForChain(Number(chainId))
+      );
+      if (!hasPaymaster) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: "Invalid gasPayment",
+            message: `No chain with ${requestData.tokenName} has a token paymaster deployment`,
+          })
+        );
+        return;
+      }
+    }
+
+    // Validate optional cross-chain destination
+    const destinationChainId = requestData.destinationChainId as ChainId | undefined;
+    if (destinationChainId !== undefined) {
+      const destinationChain = CHAINS[destinationChainId];
+      if (!destinationChain || !findChainToken(destinationChain, requestData.tokenName)) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: "Invalid destinationChainId",
+            message: `${requestData.tokenName} is not configured as an ERC-20 token on chain ${destinationChainId}`,
+          })
+        );
+        return;
+      }
+      if (!getEILDeploymentForChain(destinationChainId)) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: "Invalid destinationChainId",
+            message: `EIL is not deployed on ${destinationChain.name}`,
+          })
+        );
+        return;
+      }
+    }
+
+    // EIL and token paymasters pay the UserOperations' gas, so no native balance is checked
+    if (requestData.gasShortfall !== undefined && (destinationChainId !== undefined || sponsored)) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: "Invalid gasShortfall",
+          message: "gasShortfall doesn't apply to plans whose gas is paid by a paymaster (destinationChainId or gasPayment \"usdc\")",
+        })
+      );
+      return;
+    }
+
+    logger.info("Planning token send", {
       sourceAddress: requestData.sourceAddress,
       destinationAddress: requestData.destinationAddress,
       amount: requestData.amount,
-      amountUsdc: amountUsdc.toString(),
+      amountSmallestUnit: amount.toString(),
+      decimals: planDecimals,
       tokenName: requestData.tokenName,
+      maxLegs: requestData.maxLegs,
+      feeTier: requestData.feeTier ?? "standard",
+      destinationChainId,
+      gasShortfall: requestData.gasShortfall ?? "exclude",
+      gasPayment: requestData.gasPayment ?? "native",
     });
 
-    // Call the planning function
-    const plan = await planUsdcSend(
-      requestData.sourceAddress as Address,
-      requestData.destinationAddress as Address,
-      amountUsdc
-    );
+    const options = { maxLegs: requestData.maxLegs, feeTier: requestData.feeTier, gasShortfall: requestData.gasShortfall };
+    let plan: UsdcSendPlan | null;
+    let session: CrossChainSession | undefined;
+    if (destinationChainId !== undefined) {
+      // The funds sit in the owner's multichain smart account; the owner signs its UserOperations
+      const crossChainAccount = await createCrossChainAccount(requestData.sourceAddress as Address);
+      const crossChainPlan = await buildCrossChainUsdcPlan(
+        crossChainAccount.account.addressOn(BigInt(destinationChainId)),
+        requestData.destinationAddress as Address,
+        amount,
+        destinationChainId,
+        requestData.tokenName,
+        options
+      );
+      if (crossChainPlan) {
+        session = await startCrossChainSession(crossChainPlan, crossChainAccount);
+      }
+      plan = crossChainPlan ? { type: "crosschain", plan: crossChainPlan } : null;
+    } else if (sponsored) {
+      const sponsoredPlan = await buildSponsoredUsdcPlan(
+        requestData.sourceAddress as Address,
+        requestData.destinationAddress as Address,
+        amount,
+        requestData.tokenName,
+        options
+      );
+      plan = sponsoredPlan ? { type: "sponsored", plan: sponsoredPlan } : null;
+    } else {
+      // Call the planning function (native tokens keep each chain's minNativeBalance reserve)
+      const planSend = isNativeTokenSymbol(requestData.tokenName) ? planNativeSend : planUsdcSend;
+      plan = await planSend(
+        requestData.sourceAddress as Address,
+        requestData.destinationAddress as Address,
+        amount,
+        requestData.tokenName,
+        options
+      );
+    }
 
     // Serialize the plan (convert BigInt to strings)
     // Pass the requested amount so we can include it in single-chain plans
-    const serializedPlan = serializePlan(plan, amountUsdc);
+    const serializedPlan = serializePlan(plan, amount, planDecimals, session);
+
+    // Dry-run every leg (cross-chain legs run through EIL sessions instead)
+    if (serializedPlan && serializedPlan.type !== "crosschain") {
+      await Promise.all(
+        serializedPlan.legs.map(async (leg) => {
+          leg.simulation = await simulateLeg(
+            leg,
+            requestData.sourceAddress as Address,
+            requestData.destinationAddress as Address
+          );
+        })
+      );
+    }
 
     const response: PlanResponse = {
       success: true,
@@ -278,10 +533,38 @@ export async function handlePlanSendingTransactionRequest(
       response.message = "No viable plan found. Insufficient balance across all chains.";
     }
 
+    // Store the plan as a quote so it can be revalidated before execution.
+    // Planning still succeeds without a quote if storage is unavailable.
+    if (serializedPlan) {
+      try {
+        const quote = await createQuote(
+          {
+            sourceAddress: requestData.sourceAddress,
+            destinationAddress: requestData.destinationAddress,
+            tokenSymbol: serializedPlan.tokenSymbol,
+            amount: amount.toString(),
+            decimals: planDecimals,
+            maxLegs: requestData.maxLegs,
+            feeTier: requestData.feeTier ?? "standard",
+            destinationChainId,
+            gasShortfall: requestData.gasShortfall,
+            gasPayment: requestData.gasPayment,
+          },
+          serializedPlan
+        );
+        response.quoteId = quote.quoteId;
+        response.expiresAt = quote.expiresAt.toISOString();
+      } catch (error) {
+        logger.warn("Plan returned without a quote", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
     res.writeHead(200, { "Content-Type": "application/json" });
     res.end(JSON.stringify(response, null, 2));
   } catch (error) {
-    logger.error("Error planning USDC send", error);
+    logger.error("Error planning token send", error);
     res.writeHead(500, { "Content-Type": "application/json" });
     res.end(
       JSON.stringify({
@@ -0,0 +1,171 @@
+import http from "http";
+import { logger } from "../setup/logger.js";
+import type { Address } from "../setup/types.js";
+import { isValidAddress } from "../utils/is-valid-address.js";
+import {
+  getPortfolioHistory,
+  PortfolioHistoryUnavailableError,
+  restartPortfolioBackfill,
+} from "../services/portfolio-history.js";
+
+const DEFAULT_HISTORY_DAYS = 30;
+const MAX_HISTORY_DAYS = 365;
+
+function sendBadRequest(res: http.ServerResponse, error: string, message: string): void {
+  res.writeHead(400, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ error, message }));
+}
+
+function sendError(res: http.ServerResponse, error: unknown): void {
+  if (error instanceof PortfolioHistoryUnavailableError) {
+    res.writeHead(503, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Portfolio history unavailable", message: error.message }));
+    return;
+  }
+  res.writeHead(500, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : String(error),
+    })
+  );
+}
+
+/**
+ * @swagger
+ * /portfolio/{address}/history:
+ *   get:
+ *     summary: Portfolio value over time and profit/loss
+ *     description: |
+ *       Daily portfolio value of the address over its last `days` days, and realized/unrealized profit and loss
+ *       per token and chain at average cost, from daily snapshots kept in MongoDB.
+ *       The first request starts tracking the address and rebuilds its last PORTFOLIO_BACKFILL_DAYS days (default 90)
+ *       in the background, from its current balances, its transfer history (as /transactions reads it) and
+ *       historical prices; `points` stays empty until `backfill.status` is "done". Tracked addresses get a new
+ *       snapshot every PORTFOLIO_SNAPSHOT_INTERVAL_MS.
+ *     tags: [Assets]
+ *     parameters:
+ *       - in: path
+ *         name: address
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[a-fA-F0-9]{40}$'
+ *         description: Ethereum wallet address
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 365
+ *           default: 30
+ *         description: Days of history, today included
+ *     responses:
+ *       200:
+ *         description: The portfolio history
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PortfolioHistoryResponse'
+ *       400:
+ *         description: Invalid address or days
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: MongoDB is not connected
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function handlePortfolioHistoryRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  address: string
+): Promise<void> {
+  if (!isValidAddress(address)) {
+    sendBadRequest(res, "Invalid address format", "Address must be a valid Ethereum address (0x followed by 40 hex characters)");
+    return;
+  }
+  const daysParam = new URL(req.url ?? "", "http://localhost").searchParams.get("days");
+  const days = daysParam === null ? DEFAULT_HISTORY_DAYS : Number(daysParam);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_HISTORY_DAYS) {
+    sendBadRequest(res, "Invalid days", `days must be an integer from 1 to ${MAX_HISTORY_DAYS}`);
+    return;
+  }
+
+  try {
+    const history = await getPortfolioHistory(address as Address, days);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ success: true, ...history }, null, 2));
+  } catch (error) {
+    if (!(error instanceof PortfolioHistoryUnavailableError)) {
+      logger.error("Error getting portfolio history", { address, days, error });
+    }
+    sendError(res, error);
+  }
+}
+
+/**
+ * @swagger
+ * /portfolio/{address}/backfill:
+ *   post:
+ *     summary: Rebuild a portfolio's history
+ *     description: Rebuilds the address's daily snapshots from its backfill start in the background (e.g. after tokens were added to its portfolio), tracking the address if it wasn't yet
+ *     tags: [Assets]
+ *     parameters:
+ *       - in: path
+ *         name: address
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[a-fA-F0-9]{40}$'
+ *         description: Ethereum wallet address
+ *     responses:
+ *       202:
+ *         description: The rebuild started (or one already running continues)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 backfill:
+ *                   $ref: '#/components/schemas/PortfolioBackfill'
+ *       400:
+ *         description: Invalid address
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: MongoDB is not connected
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function handlePortfolioBackfillRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  address: string
+): Promise<void> {
+  if (!isValidAddress(address)) {
+    sendBadRequest(res, "Invalid address format", "Address must be a valid Ethereum address (0x followed by 40 hex characters)");
+    return;
+  }
+
+  try {
+    const backfill = await restartPortfolioBackfill(address as Address);
+    res.writeHead(202, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ success: true, backfill }));
+  } catch (error) {
+    if (!(error instanceof PortfolioHistoryUnavailableError)) {
+      logger.error("Error starting portfolio backfill", { address, error });
+    }
+    sendError(res, error);
+  }
+}
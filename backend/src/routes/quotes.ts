@@ -0,0 +1,290 @@
+import http from "http";
+import { logger } from "../setup/logger.js";
+import { getQuote, markQuoteExecuted, isQuoteExpired, type Quote, type QuoteExecutionLeg } from "../db/quote.js";
+import { revalidateQuote } from "../services/quotes.js";
+import { invalidateCachedBalances } from "../services/balance-cache.js";
+import type { Address } from "../setup/types.js";
+
+interface QuoteExecutedRequest {
+  legs: QuoteExecutionLeg[];
+}
+
+/**
+ * Read request body from HTTP request
+ */
+function readRequestBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk.toString();
+    });
+    req.on("end", () => {
+      resolve(body);
+    });
+    req.on("error", (error) => {
+      reject(error);
+    });
+  });
+}
+
+function serializeQuote(quote: Quote) {
+  return {
+    quoteId: quote.quoteId,
+    inputs: quote.inputs,
+    plan: quote.plan,
+    createdAt: quote.createdAt.toISOString(),
+    expiresAt: quote.expiresAt.toISOString(),
+    expired: isQuoteExpired(quote),
+    executedAt: quote.executedAt?.toISOString() ?? null,
+    execution: quote.execution ?? null,
+  };
+}
+
+function sendQuoteNotFound(res: http.ServerResponse, quoteId: string): void {
+  res.writeHead(404, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      error: "Quote not found",
+      message: `No quote with id ${quoteId}`,
+    })
+  );
+}
+
+function sendServerError(res: http.ServerResponse, error: unknown): void {
+  res.writeHead(500, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : String(error),
+    })
+  );
+}
+
+/**
+ * @swagger
+ * /quotes/{id}:
+ *   get:
+ *     summary: Get a quote
+ *     description: Returns a stored plan quote with the inputs it was built from, its expiry and execution record
+ *     tags: [Planning]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Quote id returned by /plan-sending-transaction
+ *     responses:
+ *       200:
+ *         description: The quote
+ *       404:
+ *         description: Quote not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function handleQuoteRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  quoteId: string
+): Promise<void> {
+  try {
+    const quote = await getQuote(quoteId);
+    if (!quote) {
+      sendQuoteNotFound(res, quoteId);
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ success: true, quote: serializeQuote(quote) }, null, 2));
+  } catch (error) {
+    logger.error("Error fetching quote", { quoteId, error });
+    sendServerError(res, error);
+  }
+}
+
+/**
+ * @swagger
+ * /quotes/{id}/revalidate:
+ *   post:
+ *     summary: Revalidate a quote before execution
+ *     description: Re-checks every leg's balance and gas cost. `valid` is false when the quote expired, was already executed, or must be re-planned (see `reasons`).
+ *     tags: [Planning]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Revalidation result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/QuoteRevalidation'
+ *       404:
+ *         description: Quote not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function handleRevalidateQuoteRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  quoteId: string
+): Promise<void> {
+  try {
+    const quote = await getQuote(quoteId);
+    if (!quote) {
+      sendQuoteNotFound(res, quoteId);
+      return;
+    }
+
+    const result = await revalidateQuote(quote);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ success: true, ...result }, null, 2));
+  } catch (error) {
+    logger.error("Error revalidating quote", { quoteId, error });
+    sendServerError(res, error);
+  }
+}
+
+/**
+ * @swagger
+ * /quotes/{id}/executed:
+ *   post:
+ *     summary: Record a quote's execution
+ *     description: Records the transaction hashes the extension sent for the quote's legs. A quote can be recorded as executed once.
+ *     tags: [Planning]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [legs]
+ *             properties:
+ *               legs:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     chainId:
+ *                       type: number
+ *                     success:
+ *                       type: boolean
+ *                     txHash:
+ *                       type: string
+ *                     error:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: Execution recorded
+ *       400:
+ *         description: Invalid request body
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Quote not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Quote was already executed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function handleQuoteExecutedRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  quoteId: string
+): Promise<void> {
+  try {
+    let requestData: QuoteExecutedRequest;
+    try {
+      requestData = JSON.parse(await readRequestBody(req));
+    } catch (parseError) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: "Invalid JSON",
+          message: "Request body must be valid JSON",
+        })
+      );
+      return;
+    }
+
+    const legsValid = Array.isArray(requestData.legs) && requestData.legs.every(
+      (leg) => typeof leg.chainId === "number" && typeof leg.success === "boolean"
+    );
+    if (!legsValid) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: "Invalid legs",
+          message: "legs must be an array of { chainId, success, txHash?, error? }",
+        })
+      );
+      return;
+    }
+
+    const quote = await getQuote(quoteId);
+    if (!quote) {
+      sendQuoteNotFound(res, quoteId);
+      return;
+    }
+
+    const legs = requestData.legs.map(({ chainId, success, txHash, error }) => ({ chainId, success, txHash, error }));
+    const updated = await markQuoteExecuted(quoteId, legs);
+    if (!updated) {
+      res.writeHead(409, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: "Quote already executed",
+          message: `Quote ${quoteId} was already recorded as executed`,
+        })
+      );
+      return;
+    }
+
+    // The sender's balances changed on the chains it sent from; sponsored legs are sent by
+    // their UserOperation's smart account, cross-chain plans by the plan's
+    for (const leg of legs.filter((leg) => leg.success)) {
+      const sponsoredSender = quote.plan.legs.find((planLeg) => planLeg.chainId === leg.chainId)?.userOperation?.sender;
+      const sender = sponsoredSender ?? quote.plan.smartAccountAddress ?? quote.inputs.sourceAddress;
+      invalidateCachedBalances(sender as Address, leg.chainId);
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ success: true, quote: serializeQuote(updated) }, null, 2));
+  } catch (error) {
+    logger.error("Error recording quote execution", { quoteId, error });
+    sendServerError(res, error);
+  }
+}
@@ -0,0 +1,73 @@
+import http from "http";
+import { logger } from "../setup/logger.js";
+import type { Address } from "../setup/types.js";
+import { isValidAddress } from "../utils/is-valid-address.js";
+import { subscribeToActivity, type ActivityEvent } from "../services/activity-stream.js";
+
+// Comment line sent to idle streams so proxies don't close them
+const STREAM_HEARTBEAT_MS = Number(process.env.STREAM_HEARTBEAT_MS) || 15 * 1000;
+// Delay before EventSource clients reconnect after the connection drops
+const STREAM_RETRY_MS = 5000;
+
+/**
+ * @swagger
+ * /stream/{address}:
+ *   get:
+ *     summary: Live balance and activity stream
+ *     description: |
+ *       Server-Sent Events stream of an address's activity on every configured chain, pushed as new blocks arrive.
+ *       Each event's `data` is JSON:
+ *       - `balance` (BalanceChangeEvent): a native or ERC-20 balance changed
+ *       - `transfer` (TransferActivityEvent): a successful native or ERC-20 transfer to or from the address
+ *
+ *       The first event is `ready`. Balances read when the stream starts are not sent, only later changes.
+ *     tags: [Assets]
+ *     parameters:
+ *       - in: path
+ *         name: address
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[a-fA-F0-9]{40}$'
+ *         description: Ethereum wallet address
+ *         example: "0x13190e7028c5e7e70f87efe08a973c330b09f458"
+ *     responses:
+ *       200:
+ *         description: Event stream (text/event-stream)
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: "event: balance\ndata: {\"chainId\":84532,\"token\":{\"symbol\":\"USDC\"},\"balance\":\"5000000\"}\n\n"
+ *       400:
+ *         description: Invalid address
+ */
+export function handleStreamRequest(req: http.IncomingMessage, res: http.ServerResponse, address: string): void {
+  if (!isValidAddress(address)) {
+    res.writeHead(400, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Invalid address", message: "Address must be a valid Ethereum address" }));
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    // Disable response buffering in nginx
+    "X-Accel-Buffering": "no",
+  });
+  res.write(`retry: ${STREAM_RETRY_MS}\n\n`);
+  res.write(`event: ready\ndata: ${JSON.stringify({ address })}\n\n`);
+
+  const unsubscribe = subscribeToActivity(address as Address, (event: ActivityEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  });
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), STREAM_HEARTBEAT_MS);
+  logger.info("Activity stream opened", { address });
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    logger.info("Activity stream closed", { address });
+  });
+}
@@ -0,0 +1,333 @@
+import http from "http";
+import { logger } from "../setup/logger.js";
+import { CHAINS } from "../setup/chains.js";
+import type { Address, ChainId } from "../setup/types.js";
+import { isValidAddress } from "../utils/is-valid-address.js";
+import { requireAdmin } from "../utils/admin-auth.js";
+import { removeCustomToken } from "../db/tokens.js";
+import {
+  addCustomTokenForWallet,
+  CustomTokenLimitError,
+  getRegistryTokens,
+  registerToken,
+  TokenRegistryError,
+} from "../services/token-registry.js";
+
+interface TokenRequest {
+  chainId: number;
+  address: string;   // ERC-20 contract address
+}
+
+/**
+ * Read request body from HTTP request
+ */
+function readRequestBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk.toString();
+    });
+    req.on("end", () => {
+      resolve(body);
+    });
+    req.on("error", (error) => {
+      reject(error);
+    });
+  });
+}
+
+function sendBadRequest(res: http.ServerResponse, error: string, message: string): void {
+  res.writeHead(400, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ error, message }));
+}
+
+function sendServerError(res: http.ServerResponse, error: unknown): void {
+  res.writeHead(500, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : String(error),
+    })
+  );
+}
+
+/**
+ * Parse and validate a { chainId, address } body; sends the 400 response and returns null when invalid
+ */
+async function readTokenRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<TokenRequest | null> {
+  let requestData: TokenRequest;
+  try {
+    requestData = JSON.parse(await readRequestBody(req));
+  } catch (parseError) {
+    sendBadRequest(res, "Invalid JSON", "Request body must be valid JSON");
+    return null;
+  }
+
+  if (requestData?.chainId === undefined || !requestData.address) {
+    sendBadRequest(res, "Missing required fields", "chainId and address are required");
+    return null;
+  }
+  if (!CHAINS[requestData.chainId as ChainId]) {
+    sendBadRequest(res, "Invalid chainId", `Chain ${requestData.chainId} is not configured`);
+    return null;
+  }
+  if (!isValidAddress(requestData.address)) {
+    sendBadRequest(res, "Invalid address", "address must be a valid Ethereum address (0x followed by 40 hex characters)");
+    return null;
+  }
+  return requestData;
+}
+
+function sendTokenError(res: http.ServerResponse, error: unknown, context: string): void {
+  if (error instanceof CustomTokenLimitError) {
+    res.writeHead(422, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Too many custom tokens", message: error.message }));
+    return;
+  }
+  if (error instanceof TokenRegistryError) {
+    res.writeHead(422, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Invalid token", message: error.message }));
+    return;
+  }
+  logger.error(context, error);
+  sendServerError(res, error);
+}
+
+/**
+ * @swagger
+ * /tokens:
+ *   get:
+ *     summary: List known tokens
+ *     description: Returns the chains' configured commonTokens and the tokens in the shared registry
+ *     tags: [Assets]
+ *     parameters:
+ *       - in: query
+ *         name: chainId
+ *         schema:
+ *           type: integer
+ *         description: Only list tokens on this chain
+ *     responses:
+ *       200:
+ *         description: Known tokens
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TokenListResponse'
+ *   post:
+ *     summary: Add a token to the shared registry
+ *     description: Reads the token's symbol, name and decimals on-chain, caches them in MongoDB and adds the token to the registry every wallet's portfolio checks
+ *     tags: [Assets]
+ *     security:
+ *       - adminToken: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TokenRequest'
+ *     responses:
+ *       200:
+ *         description: Registered token
+ *       400:
+ *         description: Invalid request (missing fields, unknown chain, invalid address)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Missing or wrong admin token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: ADMIN_API_TOKEN is not set, so registering tokens is disabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: The address is not a readable ERC-20 token on that chain
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function handleTokensRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  if (req.method === "GET") {
+    const chainIdParam = new URL(req.url ?? "", "http://localhost").searchParams.get("chainId");
+    const chainId = chainIdParam === null ? undefined : Number(chainIdParam);
+    try {
+      const tokens = (await getRegistryTokens()).filter((t) => chainId === undefined || t.chainId === chainId);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ success: true, tokens }, null, 2));
+    } catch (error) {
+      logger.error("Error listing tokens", error);
+      sendServerError(res, error);
+    }
+    return;
+  }
+
+  if (req.method !== "POST") {
+    res.writeHead(405, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Method not allowed", message: "Only GET and POST methods are supported" }));
+    return;
+  }
+  // Every wallet's portfolio reads the registry's tokens, so only admins add to it
+  if (!requireAdmin(req, res)) {
+    return;
+  }
+
+  try {
+    const requestData = await readTokenRequest(req, res);
+    if (!requestData) {
+      return;
+    }
+    const token = await registerToken(requestData.chainId as ChainId, requestData.address as Address);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ success: true, token }, null, 2));
+  } catch (error) {
+    sendTokenError(res, error, "Error registering token");
+  }
+}
+
+/**
+ * @swagger
+ * /tokens/custom/{address}:
+ *   get:
+ *     summary: List a wallet's custom tokens
+ *     tags: [Assets]
+ *     parameters:
+ *       - in: path
+ *         name: address
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Wallet address
+ *     responses:
+ *       200:
+ *         description: The wallet's custom tokens
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TokenListResponse'
+ *   post:
+ *     summary: Add a custom token for a wallet
+ *     description: Reads the token's metadata on-chain (cached in MongoDB) and adds it to the wallet's portfolio only. A wallet has at most CUSTOM_TOKENS_MAX_PER_WALLET custom tokens (default 50).
+ *     tags: [Assets]
+ *     parameters:
+ *       - in: path
+ *         name: address
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Wallet address
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TokenRequest'
+ *     responses:
+ *       200:
+ *         description: Added token
+ *       400:
+ *         description: Invalid request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: The address is not a readable ERC-20 token on that chain, or the wallet already has CUSTOM_TOKENS_MAX_PER_WALLET custom tokens
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   delete:
+ *     summary: Remove a custom token from a wallet
+ *     tags: [Assets]
+ *     parameters:
+ *       - in: path
+ *         name: address
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Wallet address
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TokenRequest'
+ *     responses:
+ *       200:
+ *         description: Token removed
+ *       404:
+ *         description: The wallet has no such custom token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function handleCustomTokensRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  owner: string
+): Promise<void> {
+  if (!isValidAddress(owner)) {
+    sendBadRequest(res, "Invalid address format", "Address must be a valid Ethereum address (0x followed by 40 hex characters)");
+    return;
+  }
+
+  try {
+    if (req.method === "GET") {
+      const tokens = (await getRegistryTokens(owner)).filter((t) => t.source === "custom");
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ success: true, tokens }, null, 2));
+      return;
+    }
+
+    if (req.method === "POST") {
+      const requestData = await readTokenRequest(req, res);
+      if (!requestData) {
+        return;
+      }
+      const token = await addCustomTokenForWallet(owner, requestData.chainId as ChainId, requestData.address as Address);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ success: true, token }, null, 2));
+      return;
+    }
+
+    if (req.method === "DELETE") {
+      const requestData = await readTokenRequest(req, res);
+      if (!requestData) {
+        return;
+      }
+      const removed = await removeCustomToken(owner, requestData.chainId, requestData.address);
+      if (!removed) {
+        res.writeHead(404, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: "Custom token not found",
+            message: `${owner} has no custom token ${requestData.address} on chain ${requestData.chainId}`,
+          })
+        );
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ success: true }));
+      return;
+    }
+
+    res.writeHead(405, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Method not allowed", message: "Only GET, POST and DELETE methods are supported" }));
+  } catch (error) {
+    sendTokenError(res, error, "Error updating custom tokens");
+  }
+}
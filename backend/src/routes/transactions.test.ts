@@ -0,0 +1,32 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CHAINS } from "../setup/chains.js";
+import { decodeCursor, encodeCursor } from "./transactions.js";
+
+// The bundled local config (CHAIN_CONFIG_ENV=local) serves one chain
+const chainId = Number(Object.keys(CHAINS)[0]);
+
+const encode = (json: unknown) => Buffer.from(JSON.stringify(json)).toString("base64url");
+
+test("a cursor round-trips through its encoding", () => {
+  const cursor = { [chainId]: { blockNumber: 1234, transactionIndex: -1 } };
+  const encoded = encodeCursor(cursor);
+  assert.equal(typeof encoded, "string");
+  assert.deepEqual(decodeCursor(encoded!), cursor);
+});
+
+test("an empty cursor encodes to null", () => {
+  assert.equal(encodeCursor({}), null);
+});
+
+test("malformed cursors decode to null", () => {
+  assert.equal(decodeCursor("not base64 json"), null);
+  assert.equal(decodeCursor(encode({ [chainId]: [1.5, 0] })), null);
+  assert.equal(decodeCursor(encode({ [chainId]: [-1, 0] })), null);
+  assert.equal(decodeCursor(encode({ [chainId]: [10, -2] })), null);
+  assert.equal(decodeCursor(encode({ [chainId]: { blockNumber: 10 } })), null);
+});
+
+test("cursors naming unconfigured chains decode to null", () => {
+  assert.equal(decodeCursor(encode({ 999999999: [10, 0] })), null);
+});
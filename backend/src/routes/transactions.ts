@@ -1,14 +1,32 @@
 import http from "http";
 import { logger } from "../setup/logger.js";
-import { fetchTransactionsFromSQD, fetchTransactionsMultiChain, type Transaction } from "../services/sqd-transactions.js";
+import type { Transaction, TransactionCursor } from "../services/sqd-transactions.js";
+import {
+  fetchTransactionPage,
+  TransactionSourceUnavailableError,
+  type SourcedTransactionPage,
+  type TransactionSource,
+} from "../services/transaction-history.js";
+import {
+  collectActivity,
+  EXPORT_FORMATS,
+  ExportTooLargeError,
+  countUnpricedRows,
+  formatActivityCsv,
+  formatActivityOfx,
+  type ExportFormat,
+} from "../services/activity-export.js";
 import { CHAINS, type Address, ChainId } from "../index.js";
 
 interface TransactionsResponse {
   success: boolean;
   address: Address;
   chainId?: ChainId;
+  source: TransactionSource;
   transactions: Transaction[];
   total: number;
+  nextCursor: string | null;
+  hasMore: boolean;
   error?: string;
 }
 
@@ -17,9 +35,74 @@ interface MultiChainTransactionsResponse {
   address: Address;
   transactions: Record<number, Transaction[]>;
   totals: Record<number, number>;
+  sources: Record<number, TransactionSource | null>;   // null: the chain's history couldn't be fetched
+  nextCursor: string | null;
+  hasMore: boolean;
   error?: string;
 }
 
+// Paging cursor: where each chain's next page starts, as base64url JSON { [chainId]: [blockNumber, transactionIndex] }
+export type PagingCursor = Record<number, TransactionCursor>;
+
+export function encodeCursor(cursor: PagingCursor): string | null {
+  const entries = Object.entries(cursor);
+  if (entries.length === 0) {
+    return null;
+  }
+  const json = Object.fromEntries(entries.map(([chainId, c]) => [chainId, [c.blockNumber, c.transactionIndex]]));
+  return Buffer.from(JSON.stringify(json)).toString("base64url");
+}
+
+/**
+ * Decode a cursor from a previous response; null when it's malformed
+ */
+export function decodeCursor(value: string): PagingCursor | null {
+  try {
+    const json = JSON.parse(Buffer.from(value, "base64url").toString("utf8")) as Record<string, unknown>;
+    const cursor: PagingCursor = {};
+    for (const [chainId, position] of Object.entries(json)) {
+      if (
+        !Array.isArray(position) ||
+        !Number.isInteger(position[0]) ||
+        position[0] < 0 ||
+        !Number.isInteger(position[1]) ||
+        position[1] < -1 ||
+        !CHAINS[Number(chainId) as ChainId]
+      ) {
+        return null;
+      }
+      cursor[Number(chainId)] = { blockNumber: position[0], transactionIndex: position[1] };
+    }
+    return cursor;
+  } catch {
+    return null;
+  }
+}
+
+const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ofx: "application/x-ofx",
+  qfx: "application/vnd.intu.qfx",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a YYYY-MM-DD date to its ms timestamp (UTC midnight); null when invalid
+ */
+function parseDate(value: string): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+  const timestamp = Date.parse(`${value}T00:00:00Z`);
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
+
+function sendBadRequest(res: http.ServerResponse, error: string, message: string): void {
+  res.writeHead(400, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ error, message }));
+}
+
 function isValidAddress(address: string): address is Address {
   return /^0x[a-fA-F0-9]{40}$/.test(address);
 }
@@ -46,7 +129,11 @@ function parseQueryParams(url: string): Record<string, string> {
  * /transactions/{address}:
  *   get:
  *     summary: Get transactions for an address
- *     description: Returns transactions for a wallet address from SQD Network. Can filter by chain, block range, and direction.
+ *     description: |
+ *       Returns transactions for a wallet address. Can filter by chain, block range, and direction.
+ *       Each chain's history comes from SQD Network when the chain has an SQD dataset, otherwise (or when SQD fails)
+ *       from the RPC history index, built from eth_getLogs scans and block receipts and kept in MongoDB.
+ *       `source` (`sources` per chain) tells which one answered.
  *     tags: [Transactions]
  *     parameters:
  *       - in: path
@@ -87,6 +174,11 @@ function parseQueryParams(url: string): Record<string, string> {
  *           enum: [from, to, both]
  *         description: Filter transactions by direction - 'from' (sent), 'to' (received), or 'both' (default)
  *         example: both
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: nextCursor of the previous page; the next page starts after its last transaction (fromBlock is ignored). Pass the same chainId, toBlock and direction as before.
  *     responses:
  *       200:
  *         description: Successfully retrieved transactions
@@ -100,6 +192,12 @@ function parseQueryParams(url: string): Record<string, string> {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: The chain has no transaction history source (no SQD dataset, and no RPC provider or MongoDB)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Internal server error
  *         content:
@@ -133,6 +231,7 @@ export async function handleTransactionsRequest(
     const toBlock = params.toBlock ? Number(params.toBlock) : undefined;
     const limit = params.limit ? Number(params.limit) : 100;
     const direction = (params.direction as "from" | "to" | "both") || "both";
+    const cursor = params.cursor ? decodeCursor(params.cursor) : undefined;
 
     // Validate chainId if provided
     if (chainIdParam !== undefined) {
@@ -148,6 +247,17 @@ export async function handleTransactionsRequest(
       }
     }
 
+    if (cursor === null) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: "Invalid cursor",
+          message: "cursor must be the nextCursor of a previous response",
+        })
+      );
+      return;
+    }
+
     logger.info("Fetching transactions", {
       address,
       chainId: chainIdParam,
@@ -155,49 +265,92 @@ export async function handleTransactionsRequest(
       toBlock,
       limit,
       direction,
+      cursor: params.cursor,
     });
 
     let response: TransactionsResponse | MultiChainTransactionsResponse;
 
     if (chainIdParam !== undefined) {
       // Single chain query
-      const transactions = await fetchTransactionsFromSQD(
-        chainIdParam as ChainId,
-        address as Address,
-        {
+      let page: SourcedTransactionPage;
+      try {
+        page = await fetchTransactionPage(chainIdParam as ChainId, address as Address, {
           fromBlock,
           toBlock,
           limit,
           direction,
+          after: cursor?.[chainIdParam],
+        });
+      } catch (error) {
+        if (!(error instanceof TransactionSourceUnavailableError)) {
+          throw error;
         }
-      );
+        res.writeHead(503, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Transaction history unavailable", message: error.message }));
+        return;
+      }
 
       response = {
         success: true,
         address: address as Address,
         chainId: chainIdParam as ChainId,
-        transactions,
-        total: transactions.length,
+        source: page.source,
+        transactions: page.transactions,
+        total: page.transactions.length,
+        nextCursor: encodeCursor(page.nextCursor ? { [chainIdParam]: page.nextCursor } : {}),
+        hasMore: page.hasMore,
       };
     } else {
-      // Multi-chain query
-      const multiChainResults = await fetchTransactionsMultiChain(address as Address, {
-        fromBlock,
-        toBlock,
-        limit,
-        direction,
-      });
+      // Multi-chain query: every configured chain, or the chains in the cursor; limit applies per chain
+      const chainIds = (cursor ? Object.keys(cursor) : Object.keys(CHAINS)).map(Number) as ChainId[];
+      const failedChains = new Set<ChainId>();
+      const pages = await Promise.all(
+        chainIds.map(async (chainId): Promise<SourcedTransactionPage | null> => {
+          try {
+            return await fetchTransactionPage(chainId, address as Address, {
+              fromBlock,
+              toBlock,
+              limit,
+              direction,
+              after: cursor?.[chainId],
+            });
+          } catch (error) {
+            if (error instanceof TransactionSourceUnavailableError) {
+              logger.debug(error.message);
+            } else {
+              logger.error(`Failed to fetch transactions for chain ${chainId}`, error);
+              failedChains.add(chainId);
+            }
+            return null;
+          }
+        })
+      );
 
+      const transactions: Record<number, Transaction[]> = {};
       const totals: Record<number, number> = {};
-      for (const [chainId, txs] of Object.entries(multiChainResults)) {
-        totals[Number(chainId)] = txs.length;
-      }
+      const sources: Record<number, TransactionSource | null> = {};
+      const nextCursor: PagingCursor = {};
+      chainIds.forEach((chainId, i) => {
+        const page = pages[i];
+        transactions[chainId] = page?.transactions ?? [];
+        totals[chainId] = transactions[chainId]!.length;
+        sources[chainId] = page?.source ?? null;
+        if (page?.nextCursor) {
+          nextCursor[chainId] = page.nextCursor;
+        } else if (failedChains.has(chainId)) {
+          // Keep the failed chain's position in the cursor, so a later request retries the same page
+          nextCursor[chainId] = cursor?.[chainId] ?? { blockNumber: fromBlock ?? 0, transactionIndex: -1 };
+        }
+      });
 
       response = {
         success: true,
         address: address as Address,
-        transactions: multiChainResults as Record<number, Transaction[]>,
+        transactions,
         totals,
+        sources,
+        nextCursor: encodeCursor(nextCursor),
+        hasMore: pages.some((page) => page?.hasMore),
       };
     }
 
@@ -214,3 +367,147 @@ export async function handleTransactionsRequest(
     );
   }
 }
+
+/**
+ * @swagger
+ * /transactions/{address}/export:
+ *   get:
+ *     summary: Export wallet activity for accounting
+ *     description: |
+ *       Downloads an address's activity between two dates as CSV, OFX or QFX, from the same history as /transactions.
+ *       Each row is one asset movement of a transaction: date, chain, transaction hash, status, direction, counterparty,
+ *       asset and amount (negative when it left the wallet). Gas paid by the address, in the native asset and in USD at the
+ *       price of the transaction's day, is on the first row of each transaction. Rows link to the chain's block explorer.
+ *       OFX and QFX files hold one statement per chain and asset, with gas as FEE transactions of the native asset.
+ *     tags: [Transactions]
+ *     parameters:
+ *       - in: path
+ *         name: address
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[a-fA-F0-9]{40}$'
+ *         description: Ethereum wallet address
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, ofx, qfx]
+ *           default: csv
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: First day of the range (YYYY-MM-DD, UTC)
+ *         example: "2026-01-01"
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Last day of the range, included (YYYY-MM-DD, UTC)
+ *         example: "2026-03-31"
+ *       - in: query
+ *         name: chainIds
+ *         schema:
+ *           type: string
+ *         description: Comma-separated chain ids; every configured chain by default
+ *         example: "84532,11155111"
+ *     responses:
+ *       200:
+ *         description: The export file (Content-Disposition attachment); X-Transaction-Sources names each chain's history source. OFX and QFX amounts are in USD; X-Unpriced-Rows counts the rows they leave out for lack of a price.
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/x-ofx:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid address, format, dates or chain ids
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: The range holds more transactions than an export covers (EXPORT_MAX_TRANSACTIONS)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: A chain has no transaction history source
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function handleTransactionsExportRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  address: string
+): Promise<void> {
+  if (!isValidAddress(address)) {
+    sendBadRequest(res, "Invalid address format", "Address must be a valid Ethereum address (0x followed by 40 hex characters)");
+    return;
+  }
+
+  const params = parseQueryParams(req.url || "");
+  const format = (params.format || "csv").toLowerCase() as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    sendBadRequest(res, "Invalid format", `format must be one of ${EXPORT_FORMATS.join(", ")}`);
+    return;
+  }
+  const from = params.from ? parseDate(params.from) : null;
+  const lastDay = params.to ? parseDate(params.to) : null;
+  if (from === null || lastDay === null || lastDay < from) {
+    sendBadRequest(res, "Invalid date range", "from and to must be YYYY-MM-DD dates, from not after to");
+    return;
+  }
+  const chainIds = (params.chainIds ? params.chainIds.split(",") : Object.keys(CHAINS)).map(Number) as ChainId[];
+  const unknownChain = chainIds.find((chainId) => !CHAINS[chainId]);
+  if (unknownChain !== undefined) {
+    sendBadRequest(res, "Invalid chain ID", `Chain ID ${unknownChain} is not configured`);
+    return;
+  }
+
+  try {
+    const to = lastDay + DAY_MS;
+    const { rows, sources } = await collectActivity(address as Address, { from, to, chainIds });
+    const body =
+      format === "csv" ? formatActivityCsv(rows) : formatActivityOfx(rows, { format, from, to });
+
+    const filename = `activity-${address.slice(0, 10).toLowerCase()}-${params.from}-${params.to}.${format}`;
+    res.writeHead(200, {
+      "Content-Type": EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "X-Transaction-Sources": Object.entries(sources)
+        .map(([chainId, source]) => `${chainId}=${source}`)
+        .join(","),
+      ...(format === "csv" ? {} : { "X-Unpriced-Rows": String(countUnpricedRows(rows)) }),
+    });
+    res.end(body);
+  } catch (error) {
+    if (error instanceof ExportTooLargeError) {
+      res.writeHead(422, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Export too large", message: error.message }));
+      return;
+    }
+    if (error instanceof TransactionSourceUnavailableError) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Transaction history unavailable", message: error.message }));
+      return;
+    }
+    logger.error("Error exporting activity", { address, format, error });
+    res.writeHead(500, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : String(error),
+      })
+    );
+  }
+}
@@ -0,0 +1,380 @@
+import http from "http";
+import { logger } from "../setup/logger.js";
+import { CHAINS } from "../setup/chains.js";
+import type { ChainId } from "../setup/types.js";
+import { isValidAddress } from "../utils/is-valid-address.js";
+import { requireAdmin } from "../utils/admin-auth.js";
+import { assertPublicUrl, NonPublicUrlError } from "../utils/public-url.js";
+import { WEBHOOK_ALLOW_PRIVATE_URLS } from "../services/webhooks.js";
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhook,
+  getWebhookDeliveries,
+  listWebhooks,
+  type Webhook,
+  type WebhookDelivery,
+} from "../db/webhooks.js";
+
+interface WebhookRequest {
+  url: string;
+  addresses: string[];
+  chainIds?: number[];
+}
+
+const WEBHOOK_MAX_ADDRESSES = Number(process.env.WEBHOOK_MAX_ADDRESSES) || 100;
+
+/**
+ * Read request body from HTTP request
+ */
+function readRequestBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk.toString();
+    });
+    req.on("end", () => {
+      resolve(body);
+    });
+    req.on("error", (error) => {
+      reject(error);
+    });
+  });
+}
+
+function sendBadRequest(res: http.ServerResponse, error: string, message: string): void {
+  res.writeHead(400, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ error, message }));
+}
+
+function sendNotFound(res: http.ServerResponse, webhookId: string): void {
+  res.writeHead(404, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ error: "Webhook not found", message: `No webhook with id ${webhookId}` }));
+}
+
+function sendServerError(res: http.ServerResponse, error: unknown): void {
+  res.writeHead(500, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : String(error),
+    })
+  );
+}
+
+/**
+ * Serialize a webhook for JSON responses; the secret is only returned when the webhook is created
+ */
+function serializeWebhook(webhook: Webhook, includeSecret = false) {
+  return {
+    webhookId: webhook.webhookId,
+    url: webhook.url,
+    addresses: webhook.addresses,
+    chainIds: webhook.chainIds ?? null,
+    createdAt: webhook.createdAt.toISOString(),
+    ...(includeSecret ? { secret: webhook.secret } : {}),
+  };
+}
+
+function serializeDelivery(delivery: WebhookDelivery) {
+  return {
+    eventId: delivery.eventId,
+    type: delivery.type,
+    chainId: delivery.chainId,
+    blockNumber: delivery.blockNumber,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.status === "pending" ? delivery.nextAttemptAt.toISOString() : null,
+    lastStatusCode: delivery.lastStatusCode ?? null,
+    lastError: delivery.lastError ?? null,
+    retracted: delivery.retracted ?? false,
+    createdAt: delivery.createdAt.toISOString(),
+    deliveredAt: delivery.deliveredAt?.toISOString() ?? null,
+    event: delivery.event,
+  };
+}
+
+/**
+ * Validate a webhook registration; returns the error message, or null when valid
+ */
+function validateWebhookRequest(requestData: WebhookRequest): string | null {
+  let url: URL;
+  try {
+    url = new URL(requestData.url);
+  } catch {
+    return "url must be an absolute http(s) URL";
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return "url must be an absolute http(s) URL";
+  }
+  if (!Array.isArray(requestData.addresses) || requestData.addresses.length === 0) {
+    return "addresses must be a non-empty array";
+  }
+  if (requestData.addresses.length > WEBHOOK_MAX_ADDRESSES) {
+    return `At most ${WEBHOOK_MAX_ADDRESSES} addresses per webhook`;
+  }
+  const invalid = requestData.addresses.find((address) => typeof address !== "string" || !isValidAddress(address));
+  if (invalid !== undefined) {
+    return `Invalid address: ${invalid}`;
+  }
+  if (requestData.chainIds !== undefined) {
+    if (!Array.isArray(requestData.chainIds) || requestData.chainIds.length === 0) {
+      return "chainIds must be a non-empty array when set";
+    }
+    const unknown = requestData.chainIds.find((chainId) => !CHAINS[chainId as ChainId]);
+    if (unknown !== undefined) {
+      return `Chain ${unknown} is not configured`;
+    }
+  }
+  return null;
+}
+
+/**
+ * @swagger
+ * /webhooks:
+ *   get:
+ *     summary: List webhooks
+ *     description: Registered webhooks, without their signing secrets
+ *     tags: [Webhooks]
+ *     security:
+ *       - adminToken: []
+ *     responses:
+ *       401:
+ *         description: Missing or wrong admin token
+ *       403:
+ *         description: ADMIN_API_TOKEN is not set, so the webhook endpoints are disabled
+ *       200:
+ *         description: Registered webhooks
+ *   post:
+ *     summary: Register a webhook
+ *     description: |
+ *       Registers a URL that receives a signed POST for every native and ERC-20 transfer to or from the addresses,
+ *       on every configured chain (or on `chainIds`). Events are `transfer` and, when a transfer's block is reorged out,
+ *       `transfer.retracted`. The response holds the signing secret, which isn't returned again:
+ *       `X-Webhook-Signature` is `sha256=` and the hex HMAC-SHA256 of `<X-Webhook-Timestamp>.<body>` keyed with it.
+ *       The URL's host must resolve to public addresses only (no loopback, private or link-local ones); it is checked
+ *       again before every delivery. Every /webhooks endpoint requires the admin token (ADMIN_API_TOKEN).
+ *     tags: [Webhooks]
+ *     security:
+ *       - adminToken: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WebhookRequest'
+ *     responses:
+ *       401:
+ *         description: Missing or wrong admin token
+ *       403:
+ *         description: ADMIN_API_TOKEN is not set, so the webhook endpoints are disabled
+ *       201:
+ *         description: Registered webhook, with its secret
+ *       400:
+ *         description: Invalid request (URL, addresses or chain ids), or a URL whose host isn't public
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error (e.g. MongoDB unavailable)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function handleWebhooksRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  if (!requireAdmin(req, res)) {
+    return;
+  }
+  if (req.method === "GET") {
+    try {
+      const webhooks = await listWebhooks();
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ success: true, webhooks: webhooks.map((webhook) => serializeWebhook(webhook)) }, null, 2));
+    } catch (error) {
+      logger.error("Error listing webhooks", error);
+      sendServerError(res, error);
+    }
+    return;
+  }
+
+  if (req.method !== "POST") {
+    res.writeHead(405, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Method not allowed", message: "Only GET and POST methods are supported" }));
+    return;
+  }
+
+  try {
+    let requestData: WebhookRequest;
+    try {
+      requestData = JSON.parse(await readRequestBody(req));
+    } catch (parseError) {
+      sendBadRequest(res, "Invalid JSON", "Request body must be valid JSON");
+      return;
+    }
+
+    const validationError = validateWebhookRequest(requestData);
+    if (validationError) {
+      sendBadRequest(res, "Invalid webhook", validationError);
+      return;
+    }
+    if (!WEBHOOK_ALLOW_PRIVATE_URLS) {
+      try {
+        await assertPublicUrl(requestData.url);
+      } catch (error) {
+        if (error instanceof NonPublicUrlError) {
+          sendBadRequest(res, "Invalid webhook", `url: ${error.message}`);
+          return;
+        }
+        throw error;
+      }
+    }
+
+    const webhook = await createWebhook(requestData.url, requestData.addresses, requestData.chainIds);
+    res.writeHead(201, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ success: true, webhook: serializeWebhook(webhook, true) }, null, 2));
+  } catch (error) {
+    logger.error("Error registering webhook", error);
+    sendServerError(res, error);
+  }
+}
+
+/**
+ * @swagger
+ * /webhooks/{id}:
+ *   get:
+ *     summary: Get a webhook
+ *     tags: [Webhooks]
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       401:
+ *         description: Missing or wrong admin token
+ *       403:
+ *         description: ADMIN_API_TOKEN is not set, so the webhook endpoints are disabled
+ *       200:
+ *         description: The webhook, without its secret
+ *       404:
+ *         description: Webhook not found
+ *   delete:
+ *     summary: Delete a webhook
+ *     description: Stops its callbacks; pending deliveries are dropped, the delivery log is kept
+ *     tags: [Webhooks]
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       401:
+ *         description: Missing or wrong admin token
+ *       403:
+ *         description: ADMIN_API_TOKEN is not set, so the webhook endpoints are disabled
+ *       200:
+ *         description: Webhook deleted
+ *       404:
+ *         description: Webhook not found
+ */
+export async function handleWebhookRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  webhookId: string
+): Promise<void> {
+  if (!requireAdmin(req, res)) {
+    return;
+  }
+  if (req.method !== "GET" && req.method !== "DELETE") {
+    res.writeHead(405, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Method not allowed", message: "Only GET and DELETE methods are supported" }));
+    return;
+  }
+
+  try {
+    if (req.method === "DELETE") {
+      if (!(await deleteWebhook(webhookId))) {
+        sendNotFound(res, webhookId);
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ success: true }));
+      return;
+    }
+
+    const webhook = await getWebhook(webhookId);
+    if (!webhook) {
+      sendNotFound(res, webhookId);
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ success: true, webhook: serializeWebhook(webhook) }, null, 2));
+  } catch (error) {
+    logger.error("Error handling webhook request", { webhookId, error });
+    sendServerError(res, error);
+  }
+}
+
+/**
+ * @swagger
+ * /webhooks/{id}/deliveries:
+ *   get:
+ *     summary: Webhook delivery log
+ *     description: Events queued for the webhook, newest first, with their delivery status and attempts
+ *     tags: [Webhooks]
+ *     security:
+ *       - adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *     responses:
+ *       401:
+ *         description: Missing or wrong admin token
+ *       403:
+ *         description: ADMIN_API_TOKEN is not set, so the webhook endpoints are disabled
+ *       200:
+ *         description: Deliveries
+ *       404:
+ *         description: Webhook not found
+ */
+export async function handleWebhookDeliveriesRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  webhookId: string
+): Promise<void> {
+  if (!requireAdmin(req, res)) {
+    return;
+  }
+  const limitParam = Number(new URL(req.url ?? "", "http://localhost").searchParams.get("limit") ?? 50);
+  const limit = Number.isInteger(limitParam) && limitParam > 0 ? Math.min(limitParam, 200) : 50;
+
+  try {
+    if (!(await getWebhook(webhookId))) {
+      sendNotFound(res, webhookId);
+      return;
+    }
+    const deliveries = await getWebhookDeliveries(webhookId, limit);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ success: true, deliveries: deliveries.map(serializeDelivery) }, null, 2));
+  } catch (error) {
+    logger.error("Error fetching webhook deliveries", { webhookId, error });
+    sendServerError(res, error);
+  }
+}
@@ -0,0 +1,183 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "url";
+import { encodeAbiParameters, encodeFunctionData, parseAbi, type Address, type Hex } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { appendPaymasterSignature, getUserOpHash } from "@eil-protocol/sdk";
+import { handleRpc } from "./local-bundler.js";
+import { toRpcUserOperation } from "../services/user-operations.js";
+
+process.env.EIL_DEPLOYMENT_FILE = fileURLToPath(new URL("../../eil.local.json", import.meta.url));
+
+const SOURCE = { chainId: 84532, paymaster: "0xe11a000000000000000000000000000000084532", sourcePaymaster: "0xe11b000000000000000000000000000000084532" } as const;
+const DESTINATION = { chainId: 11155420, paymaster: "0xe11a000000000000000000000000000011155420", sourcePaymaster: "0xe11b000000000000000000000000000011155420" } as const;
+const ENTRY_POINT: Address = "0x433709009B8330FDa32311DF1C2AFA402eD8D009";
+const SOURCE_USDC: Address = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const DESTINATION_USDC: Address = "0x5fd84259d66Cd46123540766Be93DFE6D43130D7";
+
+const ABI = parseAbi([
+  "struct Call { address target; uint256 value; bytes data; }",
+  "function executeBatch(Call[] calls)",
+  "struct Asset { address erc20Token; uint256 amount; }",
+  "struct AtomicSwapFeeRule { uint256 startFeePercentNumerator; uint256 maxFeePercentNumerator; uint256 feeIncreasePerSecond; uint256 unspentVoucherFee; }",
+  "struct SourceSwapComponent { uint256 chainId; address paymaster; address sender; Asset[] assets; AtomicSwapFeeRule feeRule; uint256 senderNonce; address[] allowedXlps; }",
+  "struct DestinationSwapComponent { uint256 chainId; address paymaster; address sender; Asset[] assets; uint256 maxUserOpCost; uint256 expiresAt; }",
+  "struct AtomicSwapVoucherRequest { SourceSwapComponent origination; DestinationSwapComponent destination; }",
+  "function lockUserDeposit(AtomicSwapVoucherRequest voucherRequest)",
+  "function approve(address spender, uint256 value) returns (bool)",
+]);
+
+const owner = privateKeyToAccount(generatePrivateKey());
+
+function newSender(): Address {
+  return privateKeyToAccount(generatePrivateKey()).address;
+}
+
+/**
+ * executeBatch call data locking `amount` of USDC on the source chain for the destination chain
+ */
+function lockCallData(sender: Address, amount: bigint, { approve = amount } = {}): Hex {
+  const voucherRequest = {
+    origination: {
+      chainId: BigInt(SOURCE.chainId),
+      paymaster: SOURCE.paymaster,
+      sender,
+      assets: [{ erc20Token: SOURCE_USDC, amount }],
+      feeRule: { startFeePercentNumerator: 0n, maxFeePercentNumerator: 0n, feeIncreasePerSecond: 0n, unspentVoucherFee: 0n },
+      senderNonce: 0n,
+      allowedXlps: [],
+    },
+    destination: {
+      chainId: BigInt(DESTINATION.chainId),
+      paymaster: DESTINATION.paymaster,
+      sender,
+      assets: [{ erc20Token: DESTINATION_USDC, amount }],
+      maxUserOpCost: 0n,
+      expiresAt: 0n,
+    },
+  } as const;
+  return encodeFunctionData({
+    abi: ABI,
+    functionName: "executeBatch",
+    args: [[
+      { target: SOURCE_USDC, value: 0n, data: encodeFunctionData({ abi: ABI, functionName: "approve", args: [SOURCE.paymaster, approve] }) },
+      { target: SOURCE.paymaster, value: 0n, data: encodeFunctionData({ abi: ABI, functionName: "lockUserDeposit", args: [voucherRequest] }) },
+    ]],
+  });
+}
+
+/**
+ * Paymaster data of a destination operation redeeming one voucher of at least `amount` USDC, as the EIL SDK builds it
+ */
+function redeemPaymasterData(amount: bigint): Hex {
+  const data = encodeAbiParameters(
+    [{
+      type: "tuple",
+      components: [
+        { name: "vouchersAssetsMinimums", type: "tuple[][]", components: [{ name: "erc20Token", type: "address" }, { name: "amount", type: "uint256" }] },
+        { name: "ephemeralSigner", type: "address" },
+      ],
+    }],
+    [{ vouchersAssetsMinimums: [[{ erc20Token: DESTINATION_USDC, amount }]], ephemeralSigner: newSender() }],
+  );
+  return appendPaymasterSignature(data, "0x01");
+}
+
+/**
+ * A UserOperation signed by the owner over its EIL userOpHash, in bundler JSON-RPC format
+ */
+async function signedOperation(chainId: number, fields: { sender: Address; nonce?: bigint; callData: Hex; paymaster: Address; paymasterData?: Hex }) {
+  const userOp = {
+    sender: fields.sender,
+    nonce: fields.nonce ?? 0n,
+    callData: fields.callData,
+    callGasLimit: 3000000n,
+    verificationGasLimit: 500000n,
+    preVerificationGas: 100000n,
+    maxFeePerGas: 2000000000n,
+    maxPriorityFeePerGas: 1000000n,
+    paymaster: fields.paymaster,
+    paymasterVerificationGasLimit: 500000n,
+    paymasterPostOpGasLimit: 100000n,
+    paymasterData: fields.paymasterData ?? "0x",
+    signature: "0x" as Hex,
+  };
+  const userOpHash = getUserOpHash({ ...userOp, chainId: BigInt(chainId), entryPointAddress: ENTRY_POINT });
+  const signature = await owner.sign({ hash: userOpHash });
+  return { userOpHash, op: toRpcUserOperation({ ...userOp, signature }) };
+}
+
+test("reports the chain's EIL EntryPoint as supported", async () => {
+  const entryPoints = (await handleRpc(SOURCE.chainId, "eth_supportedEntryPoints", [])) as string[];
+  assert.ok(entryPoints.includes(ENTRY_POINT));
+});
+
+test("locks a voucher on the source chain and redeems it once on the destination chain", async () => {
+  const sender = newSender();
+  const source = await signedOperation(SOURCE.chainId, { sender, callData: lockCallData(sender, 5_000_000n), paymaster: SOURCE.sourcePaymaster });
+  assert.equal(await handleRpc(SOURCE.chainId, "eth_sendUserOperation", [source.op, ENTRY_POINT]), source.userOpHash);
+
+  const redeem = await signedOperation(DESTINATION.chainId, {
+    sender,
+    callData: "0x",
+    paymaster: DESTINATION.paymaster,
+    paymasterData: redeemPaymasterData(5_000_000n),
+  });
+  assert.equal(await handleRpc(DESTINATION.chainId, "eth_sendUserOperation", [redeem.op, ENTRY_POINT]), redeem.userOpHash);
+  const receipt = (await handleRpc(DESTINATION.chainId, "eth_getUserOperationReceipt", [redeem.userOpHash])) as { success: boolean };
+  assert.equal(receipt.success, true);
+
+  const again = await signedOperation(DESTINATION.chainId, {
+    sender,
+    nonce: 1n,
+    callData: "0x",
+    paymaster: DESTINATION.paymaster,
+    paymasterData: redeemPaymasterData(5_000_000n),
+  });
+  await assert.rejects(handleRpc(DESTINATION.chainId, "eth_sendUserOperation", [again.op, ENTRY_POINT]), /No locked voucher/);
+});
+
+test("rejects redeeming more than the locked voucher, or another sender's voucher", async () => {
+  const sender = newSender();
+  const source = await signedOperation(SOURCE.chainId, { sender, callData: lockCallData(sender, 1_000_000n), paymaster: SOURCE.sourcePaymaster });
+  await handleRpc(SOURCE.chainId, "eth_sendUserOperation", [source.op, ENTRY_POINT]);
+
+  const tooMuch = await signedOperation(DESTINATION.chainId, {
+    sender,
+    callData: "0x",
+    paymaster: DESTINATION.paymaster,
+    paymasterData: redeemPaymasterData(2_000_000n),
+  });
+  await assert.rejects(handleRpc(DESTINATION.chainId, "eth_sendUserOperation", [tooMuch.op, ENTRY_POINT]), /No locked voucher/);
+
+  const otherSender = await signedOperation(DESTINATION.chainId, {
+    sender: newSender(),
+    callData: "0x",
+    paymaster: DESTINATION.paymaster,
+    paymasterData: redeemPaymasterData(1_000_000n),
+  });
+  await assert.rejects(handleRpc(DESTINATION.chainId, "eth_sendUserOperation", [otherSender.op, ENTRY_POINT]), /No locked voucher/);
+});
+
+test("rejects voucher requests whose tokens aren't approved to the paymaster", async () => {
+  const sender = newSender();
+  const source = await signedOperation(SOURCE.chainId, {
+    sender,
+    callData: lockCallData(sender, 5_000_000n, { approve: 1n }),
+    paymaster: SOURCE.sourcePaymaster,
+  });
+  await assert.rejects(handleRpc(SOURCE.chainId, "eth_sendUserOperation", [source.op, ENTRY_POINT]), /without approving it/);
+});
+
+test("rejects operations sponsored by another chain's paymaster, or unsigned", async () => {
+  const sender = newSender();
+  const wrongPaymaster = await signedOperation(SOURCE.chainId, {
+    sender,
+    callData: lockCallData(sender, 5_000_000n),
+    paymaster: DESTINATION.sourcePaymaster,
+  });
+  await assert.rejects(handleRpc(SOURCE.chainId, "eth_sendUserOperation", [wrongPaymaster.op, ENTRY_POINT]), /not sponsored by an EIL paymaster/);
+
+  const unsigned = { ...wrongPaymaster.op, paymaster: SOURCE.sourcePaymaster, signature: "0x" };
+  await assert.rejects(handleRpc(SOURCE.chainId, "eth_sendUserOperation", [unsigned, ENTRY_POINT]), /not signed/);
+});
@@ -0,0 +1,502 @@
+/**
+ * Local bundler / paymaster stand-in for sponsored and EIL cross-chain plans
+ *
+ * Token paymasters, bundlers and EIL deployments aren't available on every testnet, so this script serves the
+ * JSON-RPC methods the planner, the EIL SDK and the extension use, one endpoint per chain (http://localhost:4337/<chainId>):
+ * 1. pm_getPaymasterStubData / pm_getPaymasterData (ERC-7677), signed with a throwaway paymaster key
+ * 2. eth_estimateUserOperationGas with fixed limits
+ * 3. eth_sendUserOperation: checks the owner's signature over the userOpHash and records the operation.
+ *    Operations for the chain's EIL EntryPoint stand in for the EIL paymasters instead:
+ *    - sponsored by the chain's sourcePaymaster: every lockUserDeposit call to the chain's EIL paymaster
+ *      (with its token approvals) locks a voucher for the destination chain
+ *    - sponsored by the chain's EIL paymaster: every voucher the paymaster data asks for must match a locked,
+ *      unredeemed voucher of the same sender for this chain, which it redeems
+ * 4. eth_getUserOperationByHash / eth_getUserOperationReceipt for recorded operations
+ *
+ * Nothing is submitted on-chain. Point PAYMASTER_DEPLOYMENT_FILE at paymaster.local.json and EIL_DEPLOYMENT_FILE
+ * at eil.local.json to plan against it.
+ *
+ * Usage: npm run bundler:local
+ */
+
+import http from 'http';
+import { pathToFileURL } from 'url';
+import {
+  concatHex,
+  decodeAbiParameters,
+  decodeFunctionData,
+  encodeAbiParameters,
+  hexToNumber,
+  isAddress,
+  isAddressEqual,
+  isHex,
+  keccak256,
+  numberToHex,
+  parseAbi,
+  recoverAddress,
+  recoverMessageAddress,
+  size,
+  slice,
+  type Address,
+  type Hex,
+} from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { getUserOperationHash, type UserOperation } from 'viem/account-abstraction';
+import { getUserOpHash } from '@eil-protocol/sdk';
+import { getEILDeploymentForChain, type EILDeployment } from '../services/eil-deployments.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const CONFIG = {
+  PORT: Number(process.env.BUNDLER_PORT) || 4337,
+
+  // Paymaster address reported in paymaster.local.json
+  PAYMASTER_ADDRESS: '0x00000000000000000000000000000000000a4337' as Address,
+
+  // Fixed gas limits returned by eth_estimateUserOperationGas
+  GAS: {
+    callGasLimit: 120000n,
+    verificationGasLimit: 150000n,
+    preVerificationGas: 60000n,
+    paymasterVerificationGasLimit: 80000n,
+    paymasterPostOpGasLimit: 60000n,
+  },
+
+  // How long paymaster data stays valid, in seconds
+  VALIDITY_SECONDS: 600,
+};
+
+const paymasterSigner = privateKeyToAccount(generatePrivateKey());
+
+interface RecordedOperation {
+  userOperation: Record<string, string>;
+  entryPoint: Address;
+  chainId: number;
+  owner: Address;
+  receivedAt: number;
+}
+
+const operations = new Map<Hex, RecordedOperation>();
+
+// EIL contracts as far as the stand-in reads them
+const EIL_ACCOUNT_ABI = parseAbi([
+  'struct Call { address target; uint256 value; bytes data; }',
+  'function executeBatch(Call[] calls)',
+  'function execute(address target, uint256 value, bytes data)',
+]);
+const EIL_PAYMASTER_ABI = parseAbi([
+  'struct Asset { address erc20Token; uint256 amount; }',
+  'struct AtomicSwapFeeRule { uint256 startFeePercentNumerator; uint256 maxFeePercentNumerator; uint256 feeIncreasePerSecond; uint256 unspentVoucherFee; }',
+  'struct SourceSwapComponent { uint256 chainId; address paymaster; address sender; Asset[] assets; AtomicSwapFeeRule feeRule; uint256 senderNonce; address[] allowedXlps; }',
+  'struct DestinationSwapComponent { uint256 chainId; address paymaster; address sender; Asset[] assets; uint256 maxUserOpCost; uint256 expiresAt; }',
+  'struct AtomicSwapVoucherRequest { SourceSwapComponent origination; DestinationSwapComponent destination; }',
+  'function lockUserDeposit(AtomicSwapVoucherRequest voucherRequest)',
+  'function approve(address spender, uint256 value) returns (bool)',
+]);
+const EIL_PAYMASTER_DATA = [
+  {
+    type: 'tuple',
+    components: [
+      {
+        name: 'vouchersAssetsMinimums',
+        type: 'tuple[][]',
+        components: [
+          { name: 'erc20Token', type: 'address' },
+          { name: 'amount', type: 'uint256' },
+        ],
+      },
+      { name: 'ephemeralSigner', type: 'address' },
+    ],
+  },
+] as const;
+// Trailer the EIL SDK appends after a paymaster signature: its 2-byte length, then this magic
+const PAYMASTER_SIG_MAGIC = '0x22e325a297439656';
+
+interface LockedVoucher {
+  requestId: Hex;
+  sourceChainId: number;
+  destinationChainId: number;
+  sender: Address;
+  assets: Array<{ erc20Token: Address; amount: bigint }>;
+  redeemedBy?: Hex;
+}
+
+const vouchers: LockedVoucher[] = [];
+
+// Requests are logged when run as a script, not when tests import the stand-in
+let verbose = false;
+function log(message: string): void {
+  if (verbose) {
+    console.log(message);
+  }
+}
+
+class RpcError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * A JSON-RPC param holding a UserOperation (an object of hex strings)
+ * @throws RpcError when it isn't one
+ */
+function userOperationParam(params: unknown[], index: number): Record<string, string> {
+  const value = params[index];
+  if (
+    typeof value !== 'object' ||
+    value === null ||
+    Array.isArray(value) ||
+    !Object.values(value).every((field) => field === null || typeof field === 'string')
+  ) {
+    throw new RpcError(-32602, `Param ${index} must be a UserOperation object`);
+  }
+  // Null fields (e.g. no factory) are left out
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== null)) as Record<string, string>;
+}
+
+/**
+ * A JSON-RPC param holding a hex string (a hash), or an address with `address`
+ * @throws RpcError when it isn't one
+ */
+function hexParam(params: unknown[], index: number, { address = false } = {}): Hex {
+  const value = params[index];
+  if (typeof value !== 'string' || !(address ? isAddress(value, { strict: false }) : isHex(value))) {
+    throw new RpcError(-32602, `Param ${index} must be ${address ? 'an address' : 'a hex string'}`);
+  }
+  return value as Hex;
+}
+
+/**
+ * Parse a JSON-RPC UserOperation (hex quantities) into viem's v0.7 shape
+ */
+function parseUserOperation(op: Record<string, string>): UserOperation<'0.7' | '0.8'> {
+  const quantity = (value: string | undefined) => BigInt(value ?? '0x0');
+  return {
+    sender: op.sender as Address,
+    nonce: quantity(op.nonce),
+    factory: op.factory as Address | undefined,
+    factoryData: op.factoryData as Hex | undefined,
+    callData: op.callData as Hex,
+    callGasLimit: quantity(op.callGasLimit),
+    verificationGasLimit: quantity(op.verificationGasLimit),
+    preVerificationGas: quantity(op.preVerificationGas),
+    maxFeePerGas: quantity(op.maxFeePerGas),
+    maxPriorityFeePerGas: quantity(op.maxPriorityFeePerGas),
+    paymaster: op.paymaster as Address | undefined,
+    paymasterVerificationGasLimit: op.paymaster ? quantity(op.paymasterVerificationGasLimit) : undefined,
+    paymasterPostOpGasLimit: op.paymaster ? quantity(op.paymasterPostOpGasLimit) : undefined,
+    paymasterData: op.paymasterData as Hex | undefined,
+    signature: (op.signature ?? '0x') as Hex,
+  };
+}
+
+/**
+ * Paymaster data: validUntil and validAfter, followed by the paymaster's signature over them and the operation's sender/nonce
+ */
+async function signPaymasterData(op: Record<string, string>, chainId: number): Promise<Hex> {
+  const validAfter = Math.floor(Date.now() / 1000);
+  const validUntil = validAfter + CONFIG.VALIDITY_SECONDS;
+  const validity = encodeAbiParameters(
+    [{ type: 'uint48' }, { type: 'uint48' }],
+    [validUntil, validAfter],
+  );
+  const digest = keccak256(
+    encodeAbiParameters(
+      [{ type: 'address' }, { type: 'uint256' }, { type: 'uint256' }, { type: 'bytes' }],
+      [op.sender as Address, BigInt(op.nonce ?? '0x0'), BigInt(chainId), validity],
+    ),
+  );
+  const signature = await paymasterSigner.signMessage({ message: { raw: digest } });
+  return concatHex([validity, signature]);
+}
+
+/**
+ * Calls an EIL account operation makes (SimpleAccount execute / executeBatch)
+ */
+function decodeAccountCalls(callData: Hex): Array<{ target: Address; value: bigint; data: Hex }> {
+  if (callData === '0x') {
+    return [];
+  }
+  const { functionName, args } = decodeFunctionData({ abi: EIL_ACCOUNT_ABI, data: callData });
+  if (functionName === 'execute') {
+    const [target, value, data] = args;
+    return [{ target, value, data }];
+  }
+  return [...args[0]];
+}
+
+/**
+ * Source chain: lock a voucher for every lockUserDeposit call, once its tokens are approved to the paymaster
+ */
+function lockVouchers(chainId: number, userOperation: UserOperation<'0.7' | '0.8'>, deployment: EILDeployment, userOpHash: Hex): LockedVoucher[] {
+  const approvals = new Map<string, bigint>();
+  const locked: LockedVoucher[] = [];
+  for (const call of decodeAccountCalls(userOperation.callData)) {
+    let decoded;
+    try {
+      decoded = decodeFunctionData({ abi: EIL_PAYMASTER_ABI, data: call.data });
+    } catch {
+      continue;
+    }
+    if (decoded.functionName === 'approve') {
+      const [spender, value] = decoded.args;
+      if (isAddressEqual(spender, deployment.paymaster as Address)) {
+        approvals.set(call.target.toLowerCase(), value);
+      }
+      continue;
+    }
+    if (!isAddressEqual(call.target, deployment.paymaster as Address)) {
+      throw new RpcError(-32602, `lockUserDeposit called on ${call.target}, not the EIL paymaster of chain ${chainId}`);
+    }
+    const [{ origination, destination }] = decoded.args;
+    const destinationChainId = Number(destination.chainId);
+    const destinationDeployment = getEILDeploymentForChain(destinationChainId);
+    if (Number(origination.chainId) !== chainId || !isAddressEqual(origination.sender, userOperation.sender)) {
+      throw new RpcError(-32602, 'Voucher request origination is not this chain and sender');
+    }
+    if (!destinationDeployment || !isAddressEqual(destination.paymaster, destinationDeployment.paymaster as Address)) {
+      throw new RpcError(-32602, `Voucher request destination ${destinationChainId} has no EIL paymaster at ${destination.paymaster}`);
+    }
+    for (const asset of origination.assets) {
+      if ((approvals.get(asset.erc20Token.toLowerCase()) ?? 0n) < asset.amount) {
+        throw new RpcError(-32602, `Voucher request locks ${asset.amount} of ${asset.erc20Token} without approving it to the paymaster`);
+      }
+    }
+    locked.push({
+      requestId: keccak256(call.data),
+      sourceChainId: chainId,
+      destinationChainId,
+      sender: userOperation.sender,
+      assets: destination.assets.map((asset) => ({ erc20Token: asset.erc20Token, amount: asset.amount })),
+    });
+  }
+  if (locked.length === 0) {
+    throw new RpcError(-32602, `The sourcePaymaster of chain ${chainId} only sponsors voucher requests`);
+  }
+  vouchers.push(...locked);
+  log(`🔒 [${chainId}] ${userOpHash} locked ${locked.length} voucher(s) for chain(s) ${locked.map((v) => v.destinationChainId).join(', ')}`);
+  return locked;
+}
+
+/**
+ * Destination chain: every voucher the paymaster data asks for must be covered by a locked, unredeemed voucher
+ */
+function redeemVouchers(chainId: number, userOperation: UserOperation<'0.7' | '0.8'>, userOpHash: Hex): LockedVoucher[] {
+  let paymasterData = userOperation.paymasterData ?? '0x';
+  if (size(paymasterData) >= 10 && slice(paymasterData, -8) === PAYMASTER_SIG_MAGIC) {
+    const signatureLength = hexToNumber(slice(paymasterData, -10, -8));
+    paymasterData = slice(paymasterData, 0, size(paymasterData) - 10 - signatureLength);
+  }
+  let minimums: readonly (readonly { erc20Token: Address; amount: bigint }[])[];
+  try {
+    [{ vouchersAssetsMinimums: minimums }] = decodeAbiParameters(EIL_PAYMASTER_DATA, paymasterData);
+  } catch {
+    throw new RpcError(-32602, 'Paymaster data is not an EIL voucher request list');
+  }
+  if (minimums.length === 0) {
+    throw new RpcError(-32602, 'The EIL paymaster only sponsors operations that redeem vouchers');
+  }
+
+  const redeemed: LockedVoucher[] = [];
+  for (const assets of minimums) {
+    const voucher = vouchers.find((v) =>
+      !v.redeemedBy &&
+      !redeemed.includes(v) &&
+      v.destinationChainId === chainId &&
+      isAddressEqual(v.sender, userOperation.sender) &&
+      assets.every((minimum) =>
+        v.assets.some((asset) => isAddressEqual(asset.erc20Token, minimum.erc20Token) && asset.amount >= minimum.amount),
+      ),
+    );
+    if (!voucher) {
+      throw new RpcError(-32602, `No locked voucher of ${userOperation.sender} covers ${assets.map((a) => `${a.amount} of ${a.erc20Token}`).join(', ')} on chain ${chainId}`);
+    }
+    redeemed.push(voucher);
+  }
+  for (const voucher of redeemed) {
+    voucher.redeemedBy = userOpHash;
+  }
+  log(`🔓 [${chainId}] ${userOpHash} redeemed ${redeemed.length} voucher(s)`);
+  return redeemed;
+}
+
+/**
+ * eth_sendUserOperation for the chain's EIL EntryPoint (v0.8 hashing, as the EIL SDK signs)
+ */
+async function sendEILUserOperation(chainId: number, op: Record<string, string>, deployment: EILDeployment): Promise<Hex> {
+  const entryPoint = deployment.entryPoint as Address;
+  const userOperation = parseUserOperation(op);
+  if (!userOperation.signature || userOperation.signature === '0x') {
+    throw new RpcError(-32602, 'UserOperation is not signed');
+  }
+  const userOpHash = getUserOpHash({ ...userOperation, chainId: BigInt(chainId), entryPointAddress: entryPoint });
+  let owner: Address;
+  try {
+    owner = await recoverAddress({ hash: userOpHash, signature: userOperation.signature });
+  } catch {
+    throw new RpcError(-32602, 'UserOperation signature is malformed');
+  }
+
+  const paymaster = userOperation.paymaster;
+  if (paymaster && deployment.sourcePaymaster && isAddressEqual(paymaster, deployment.sourcePaymaster as Address)) {
+    lockVouchers(chainId, userOperation, deployment, userOpHash);
+  } else if (paymaster && isAddressEqual(paymaster, deployment.paymaster as Address)) {
+    redeemVouchers(chainId, userOperation, userOpHash);
+  } else {
+    throw new RpcError(-32602, 'UserOperation is not sponsored by an EIL paymaster of this chain');
+  }
+
+  operations.set(userOpHash, { userOperation: op, entryPoint, chainId, owner, receivedAt: Date.now() });
+  log(`📨 [${chainId}] EIL UserOperation ${userOpHash} from ${userOperation.sender} (signed by ${owner})`);
+  return userOpHash;
+}
+
+/**
+ * Serve one JSON-RPC request for `chainId`
+ * @throws RpcError with the JSON-RPC error code to answer with
+ */
+export async function handleRpc(chainId: number, method: string, params: unknown[]): Promise<unknown> {
+  switch (method) {
+    case 'eth_chainId':
+      return numberToHex(chainId);
+
+    case 'eth_supportedEntryPoints': {
+      const eilEntryPoint = getEILDeploymentForChain(chainId)?.entryPoint;
+      return ['0x0000000071727De22E5E9d8BAf0edAc6f37da032', ...(eilEntryPoint ? [eilEntryPoint] : [])];
+    }
+
+    case 'pm_getPaymasterStubData':
+    case 'pm_getPaymasterData': {
+      const op = userOperationParam(params, 0);
+      return {
+        paymaster: CONFIG.PAYMASTER_ADDRESS,
+        paymasterData: await signPaymasterData(op, chainId),
+        paymasterVerificationGasLimit: numberToHex(CONFIG.GAS.paymasterVerificationGasLimit),
+        paymasterPostOpGasLimit: numberToHex(CONFIG.GAS.paymasterPostOpGasLimit),
+      };
+    }
+
+    case 'eth_estimateUserOperationGas':
+      return Object.fromEntries(Object.entries(CONFIG.GAS).map(([key, value]) => [key, numberToHex(value)]));
+
+    case 'eth_sendUserOperation': {
+      const op = userOperationParam(params, 0);
+      const entryPoint = hexParam(params, 1, { address: true }) as Address;
+      const eilDeployment = getEILDeploymentForChain(chainId);
+      if (eilDeployment?.entryPoint && isAddressEqual(entryPoint, eilDeployment.entryPoint as Address)) {
+        return sendEILUserOperation(chainId, op, eilDeployment);
+      }
+      const userOperation = parseUserOperation(op) as UserOperation<'0.7'>;
+      if (!userOperation.signature || userOperation.signature === '0x') {
+        throw new RpcError(-32602, 'UserOperation is not signed');
+      }
+      if (userOperation.paymaster?.toLowerCase() !== CONFIG.PAYMASTER_ADDRESS.toLowerCase()) {
+        throw new RpcError(-32602, 'UserOperation is not sponsored by this paymaster');
+      }
+      const userOpHash = getUserOperationHash({
+        userOperation,
+        entryPointAddress: entryPoint,
+        entryPointVersion: '0.7',
+        chainId,
+      });
+      const owner = await recoverMessageAddress({ message: { raw: userOpHash }, signature: userOperation.signature });
+      operations.set(userOpHash, { userOperation: op, entryPoint, chainId, owner, receivedAt: Date.now() });
+      log(`📨 [${chainId}] UserOperation ${userOpHash} from ${userOperation.sender} (signed by ${owner})`);
+      return userOpHash;
+    }
+
+    case 'eth_getUserOperationByHash': {
+      const recorded = operations.get(hexParam(params, 0));
+      return recorded
+        ? { userOperation: recorded.userOperation, entryPoint: recorded.entryPoint, transactionHash: null, blockNumber: null }
+        : null;
+    }
+
+    case 'eth_getUserOperationReceipt': {
+      const userOpHash = hexParam(params, 0);
+      const recorded = operations.get(userOpHash);
+      // Nothing is mined locally: report recorded operations as successful without a transaction
+      return recorded
+        ? {
+            userOpHash,
+            entryPoint: recorded.entryPoint,
+            sender: recorded.userOperation.sender,
+            nonce: recorded.userOperation.nonce,
+            paymaster: CONFIG.PAYMASTER_ADDRESS,
+            success: true,
+            logs: [],
+            receipt: null,
+          }
+        : null;
+    }
+
+    default:
+      throw new RpcError(-32601, `Method ${method} not supported by the local bundler`);
+  }
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+/**
+ * HTTP server answering JSON-RPC POSTs to /<chainId>; not listening yet
+ */
+export function createLocalBundlerServer(): http.Server {
+  return http.createServer((req, res) => {
+    const chainId = Number(req.url?.split('/')[1]);
+    if (req.method !== 'POST' || !Number.isInteger(chainId) || chainId <= 0) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'POST JSON-RPC requests to /<chainId>' }));
+      return;
+    }
+
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk.toString();
+    });
+    req.on('end', async () => {
+      let request: { id?: unknown; method?: unknown; params?: unknown };
+      try {
+        const parsed: unknown = JSON.parse(body);
+        if (typeof parsed !== 'object' || parsed === null) {
+          throw new Error('Not a JSON-RPC request object');
+        }
+        request = parsed;
+      } catch {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }));
+        return;
+      }
+
+      try {
+        const method = typeof request.method === 'string' ? request.method : '';
+        const result = await handleRpc(chainId, method, Array.isArray(request.params) ? request.params : []);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id ?? null, result }));
+      } catch (error) {
+        const code = error instanceof RpcError ? error.code : -32603;
+        const message = error instanceof Error ? error.message : String(error);
+        log(`❌ [${chainId}] ${String(request.method)}: ${message}`);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id ?? null, error: { code, message } }));
+      }
+    });
+  });
+}
+
+// Listen only when run as a script, so tests can import the stand-in
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  verbose = true;
+  createLocalBundlerServer().listen(CONFIG.PORT, () => {
+    console.log(`🧾 Local bundler/paymaster: http://localhost:${CONFIG.PORT}/<chainId>`);
+    console.log(`   Paymaster ${CONFIG.PAYMASTER_ADDRESS}, signer ${paymasterSigner.address}`);
+  });
+}
@@ -2,21 +2,54 @@ import "./setup/config.js"; // Load environment variables
 import http from "http";
 import url from "url";
 import { logger } from "./setup/logger.js";
-import { handleAssetsRequest, handleVerifyRequest, handleSettleRequest, handleBalancesSummaryRequest, handlePlanSendingTransactionRequest, handleApiDocsRequest, handleSwaggerUIRequest, handleTransactionsRequest, handleLatestCIDRequest, handlePaymentRequest, handleCounterRequest, handleCounterStatusRequest, handleUserRequest } from "./routes/index.js";
+import { handleAssetsRequest, handleAssetsBatchRequest, handleVerifyRequest, handleSettleRequest, handleBalancesSummaryRequest, handlePortfolioHistoryRequest, handlePortfolioBackfillRequest, handlePlanSendingTransactionRequest, handlePlanBatchPayoutRequest, handlePlanRebalanceRequest, handleApiDocsRequest, handleSwaggerUIRequest, handleTransactionsRequest, handleTransactionsExportRequest, handleLatestCIDRequest, handlePaymentRequest, handleCounterRequest, handleCounterStatusRequest, handleUserRequest, handleQuoteRequest, handleRevalidateQuoteRequest, handleQuoteExecutedRequest, handleCrossChainExecuteRequest, handleChainsRequest, handleReloadChainsRequest, handleChainsHealthRequest, handleTokensRequest, handleCustomTokensRequest, handleStreamRequest, handleWebhooksRequest, handleWebhookRequest, handleWebhookDeliveriesRequest } from "./routes/index.js";
 import { connectToMongoDB, closeMongoDB } from "./setup/mongodb.js";
+import { reloadChains } from "./setup/chains.js";
+import { warmBalanceCache } from "./services/balance-cache.js";
+import { startWebhookWorkers, stopWebhookWorkers } from "./services/webhooks.js";
+import { ensureAddressHistoryIndexes } from "./db/address-history.js";
+import { ensurePortfolioSnapshotIndexes } from "./db/portfolio-snapshots.js";
+import { ensureWebhookIndexes } from "./db/webhooks.js";
+import { startPortfolioSnapshotJob, stopPortfolioSnapshotJob } from "./services/portfolio-history.js";
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 7000;
 
-// Initialize MongoDB connection
-connectToMongoDB().catch((error) => {
-  logger.error("Failed to connect to MongoDB on startup", error);
-  console.error("⚠️  Warning: MongoDB connection failed. Some features may not work.");
-});
+// Initialize MongoDB connection, then warm the balance cache from its snapshots, start the webhook workers
+// and the portfolio snapshot job, and create the RPC history index's, portfolio snapshots' and webhooks' indexes
+connectToMongoDB()
+  .then(() => {
+    startWebhookWorkers();
+    startPortfolioSnapshotJob();
+    ensureAddressHistoryIndexes().catch((error) => {
+      logger.warn("Failed to create the address history indexes", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+    ensurePortfolioSnapshotIndexes().catch((error) => {
+      logger.warn("Failed to create the portfolio snapshot indexes", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+    ensureWebhookIndexes().catch((error) => {
+      logger.warn("Failed to create the webhook indexes", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+    return warmBalanceCache().catch((error) => {
+      logger.warn("Failed to warm the balance cache", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  })
+  .catch((error) => {
+    logger.error("Failed to connect to MongoDB on startup", error);
+    console.error("⚠️  Warning: MongoDB connection failed. Some features may not work.");
+  });
 
 const server = http.createServer(async (req, res) => {
   // Enable CORS
   res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
   res.setHeader("Access-Control-Allow-Headers", "Content-Type, ngrok-skip-browser-warning");
 
   // Handle OPTIONS request
@@ -112,6 +145,12 @@ const server = http.createServer(async (req, res) => {
     return;
   }
 
+  // Assets batch endpoint (several addresses)
+  if (pathname === "/assets/batch" && req.method === "POST") {
+    await handleAssetsBatchRequest(req, res);
+    return;
+  }
+
   // Assets endpoint (renamed from get-summarized-amounts)
   const assetsMatch = pathname?.match(/^\/assets\/(.+)$/);
   if (assetsMatch && req.method === "GET") {
@@ -128,6 +167,29 @@ const server = http.createServer(async (req, res) => {
     return;
   }
 
+  // Portfolio history endpoints
+  const portfolioHistoryMatch = pathname?.match(/^\/portfolio\/([^/]+)\/history$/);
+  if (portfolioHistoryMatch && req.method === "GET") {
+    const address = portfolioHistoryMatch[1] as string;
+    await handlePortfolioHistoryRequest(req, res, address);
+    return;
+  }
+
+  const portfolioBackfillMatch = pathname?.match(/^\/portfolio\/([^/]+)\/backfill$/);
+  if (portfolioBackfillMatch && req.method === "POST") {
+    const address = portfolioBackfillMatch[1] as string;
+    await handlePortfolioBackfillRequest(req, res, address);
+    return;
+  }
+
+  // Transactions export endpoint
+  const transactionsExportMatch = pathname?.match(/^\/transactions\/([^/]+)\/export$/);
+  if (transactionsExportMatch && req.method === "GET") {
+    const address = transactionsExportMatch[1] as string;
+    await handleTransactionsExportRequest(req, res, address);
+    return;
+  }
+
   // Transactions endpoint
   const transactionsMatch = pathname?.match(/^\/transactions\/(.+)$/);
   if (transactionsMatch && req.method === "GET") {
@@ -162,6 +224,107 @@ const server = http.createServer(async (req, res) => {
     return;
   }
 
+  // Plan batch payout endpoint
+  if (pathname === "/plan-batch-payout") {
+    await handlePlanBatchPayoutRequest(req, res);
+    return;
+  }
+
+  // Plan rebalance endpoint
+  if (pathname === "/plan-rebalance") {
+    await handlePlanRebalanceRequest(req, res);
+    return;
+  }
+
+  // Chains endpoints
+  if (pathname === "/chains" && req.method === "GET") {
+    handleChainsRequest(req, res);
+    return;
+  }
+
+  if (pathname === "/chains/health" && req.method === "GET") {
+    handleChainsHealthRequest(req, res);
+    return;
+  }
+
+  if (pathname === "/chains/reload" && req.method === "POST") {
+    handleReloadChainsRequest(req, res);
+    return;
+  }
+
+  // Token registry endpoints
+  if (pathname === "/tokens") {
+    await handleTokensRequest(req, res);
+    return;
+  }
+
+  const customTokensMatch = pathname?.match(/^\/tokens\/custom\/([^/]+)$/);
+  if (customTokensMatch) {
+    const address = customTokensMatch[1] as string;
+    await handleCustomTokensRequest(req, res, address);
+    return;
+  }
+
+  // Live balance and activity stream (Server-Sent Events)
+  const streamMatch = pathname?.match(/^\/stream\/([^/]+)$/);
+  if (streamMatch && req.method === "GET") {
+    const address = streamMatch[1] as string;
+    handleStreamRequest(req, res, address);
+    return;
+  }
+
+  // Webhook endpoints
+  if (pathname === "/webhooks") {
+    await handleWebhooksRequest(req, res);
+    return;
+  }
+
+  const webhookDeliveriesMatch = pathname?.match(/^\/webhooks\/([^/]+)\/deliveries$/);
+  if (webhookDeliveriesMatch && req.method === "GET") {
+    const webhookId = webhookDeliveriesMatch[1] as string;
+    await handleWebhookDeliveriesRequest(req, res, webhookId);
+    return;
+  }
+
+  const webhookMatch = pathname?.match(/^\/webhooks\/([^/]+)$/);
+  if (webhookMatch) {
+    const webhookId = webhookMatch[1] as string;
+    await handleWebhookRequest(req, res, webhookId);
+    return;
+  }
+
+  // Quote revalidation endpoint
+  const revalidateQuoteMatch = pathname?.match(/^\/quotes\/([^/]+)\/revalidate$/);
+  if (revalidateQuoteMatch && req.method === "POST") {
+    const quoteId = revalidateQuoteMatch[1] as string;
+    await handleRevalidateQuoteRequest(req, res, quoteId);
+    return;
+  }
+
+  // Quote execution record endpoint
+  const quoteExecutedMatch = pathname?.match(/^\/quotes\/([^/]+)\/executed$/);
+  if (quoteExecutedMatch && req.method === "POST") {
+    const quoteId = quoteExecutedMatch[1] as string;
+    await handleQuoteExecutedRequest(req, res, quoteId);
+    return;
+  }
+
+  // Cross-chain session execution endpoint
+  const crossChainExecuteMatch = pathname?.match(/^\/crosschain\/([^/]+)\/execute$/);
+  if (crossChainExecuteMatch && req.method === "POST") {
+    const sessionId = crossChainExecuteMatch[1] as string;
+    await handleCrossChainExecuteRequest(req, res, sessionId);
+    return;
+  }
+
+  // Quote endpoint
+  const quoteMatch = pathname?.match(/^\/quotes\/([^/]+)$/);
+  if (quoteMatch && req.method === "GET") {
+    const quoteId = quoteMatch[1] as string;
+    await handleQuoteRequest(req, res, quoteId);
+    return;
+  }
+
   // Payment endpoint (returns 402)
   if (pathname === "/payment" && req.method === "GET") {
     handlePaymentRequest(req, res);
@@ -197,12 +360,36 @@ const server = http.createServer(async (req, res) => {
       availableRoutes: [
         "GET /health",
         "GET /assets/:address",
+        "POST /assets/batch",
         "GET /balancesSummary/:address",
+        "GET /portfolio/:address/history",
+        "POST /portfolio/:address/backfill",
+        "GET /stream/:address",
         "GET /transactions/:address",
+        "GET /transactions/:address/export",
         "GET /latest-cid/:address",
         "POST /verify",
         "POST /settle",
         "POST /plan-sending-transaction",
+        "POST /plan-batch-payout",
+        "POST /plan-rebalance",
+        "GET /quotes/:id",
+        "POST /quotes/:id/revalidate",
+        "POST /quotes/:id/executed",
+        "POST /crosschain/:sessionId/execute",
+        "GET /chains",
+        "GET /chains/health",
+        "POST /chains/reload",
+        "GET /tokens",
+        "POST /tokens",
+        "GET /tokens/custom/:address",
+        "POST /tokens/custom/:address",
+        "DELETE /tokens/custom/:address",
+        "GET /webhooks",
+        "POST /webhooks",
+        "GET /webhooks/:id",
+        "DELETE /webhooks/:id",
+        "GET /webhooks/:id/deliveries",
         "GET /payment",
         "POST /counter",
         "GET /counter-status/:address",
@@ -243,12 +430,36 @@ server.listen(PORT, "localhost", () => {
     endpoints: [
       "GET /health",
       "GET /assets/:address",
+      "POST /assets/batch",
       "GET /balancesSummary/:address",
+      "GET /portfolio/:address/history",
+      "POST /portfolio/:address/backfill",
+      "GET /stream/:address",
       "GET /transactions/:address",
+      "GET /transactions/:address/export",
       "GET /latest-cid/:address",
       "POST /verify",
       "POST /settle",
       "POST /plan-sending-transaction",
+      "POST /plan-batch-payout",
+      "POST /plan-rebalance",
+      "GET /quotes/:id",
+      "POST /quotes/:id/revalidate",
+      "POST /quotes/:id/executed",
+      "POST /crosschain/:sessionId/execute",
+      "GET /chains",
+      "GET /chains/health",
+      "POST /chains/reload",
+      "GET /tokens",
+      "POST /tokens",
+      "GET /tokens/custom/:address",
+      "POST /tokens/custom/:address",
+      "DELETE /tokens/custom/:address",
+      "GET /webhooks",
+      "POST /webhooks",
+      "GET /webhooks/:id",
+      "DELETE /webhooks/:id",
+      "GET /webhooks/:id/deliveries",
       "GET /payment",
       "POST /counter",
       "GET /counter-status/:address",
@@ -259,11 +470,21 @@ server.listen(PORT, "localhost", () => {
   });
   console.log(`🚀 Server running on http://localhost:${PORT}`);
   console.log(`📊 Health check: http://localhost:${PORT}/health`);
-  console.log(`💰 Assets: http://localhost:${PORT}/assets/:address`);
+  console.log(`💰 Assets: http://localhost:${PORT}/assets/:address (POST /assets/batch for several addresses)`);
   console.log(`📈 Balances Summary: http://localhost:${PORT}/balancesSummary/:address`);
+  console.log(`📅 Portfolio History: http://localhost:${PORT}/portfolio/:address/history (POST /portfolio/:address/backfill)`);
+  console.log(`📡 Activity Stream (SSE): http://localhost:${PORT}/stream/:address`);
+  console.log(`📜 Transactions: http://localhost:${PORT}/transactions/:address (CSV/OFX/QFX: /transactions/:address/export)`);
   console.log(`✅ Verify: http://localhost:${PORT}/verify`);
   console.log(`🔒 Settle: http://localhost:${PORT}/settle`);
   console.log(`📋 Plan Sending Transaction: http://localhost:${PORT}/plan-sending-transaction`);
+  console.log(`📦 Plan Batch Payout: http://localhost:${PORT}/plan-batch-payout`);
+  console.log(`⚖️  Plan Rebalance: http://localhost:${PORT}/plan-rebalance`);
+  console.log(`🧾 Quotes: http://localhost:${PORT}/quotes/:id (POST /quotes/:id/revalidate, /quotes/:id/executed)`);
+  console.log(`🌉 Cross-Chain Execution: http://localhost:${PORT}/crosschain/:sessionId/execute`);
+  console.log(`⛓️  Chains: http://localhost:${PORT}/chains (GET /chains/health, POST /chains/reload)`);
+  console.log(`🪙 Tokens: http://localhost:${PORT}/tokens (custom tokens: /tokens/custom/:address)`);
+  console.log(`🪝 Webhooks: http://localhost:${PORT}/webhooks (GET /webhooks/:id/deliveries)`);
   console.log(`💳 Payment (402): http://localhost:${PORT}/payment`);
   console.log(`🔢 Counter: http://localhost:${PORT}/counter`);
   console.log(`📊 Counter Status: http://localhost:${PORT}/counter-status/:address`);
@@ -283,6 +504,8 @@ function gracefulShutdown(signal: string) {
   isShuttingDown = true;
 
   logger.info(`${signal} received, shutting down gracefully`);
+  stopWebhookWorkers();
+  stopPortfolioSnapshotJob();
   server.close(async () => {
     await closeMongoDB();
     logger.info("Server closed");
@@ -298,3 +521,12 @@ function gracefulShutdown(signal: string) {
 
 process.once("SIGTERM", () => gracefulShutdown("SIGTERM"));
 process.once("SIGINT", () => gracefulShutdown("SIGINT"));
+
+// Reload the chain config file without a restart; an invalid file keeps the current chains
+process.on("SIGHUP", () => {
+  try {
+    reloadChains();
+  } catch (error) {
+    logger.error("Chain config reload rejected", error instanceof Error ? error.message : String(error));
+  }
+});
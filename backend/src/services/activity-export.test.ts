@@ -0,0 +1,122 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { ChainConfig } from "../setup/types.js";
+import { countUnpricedRows, formatActivityCsv, formatActivityOfx, toActivityRows, type ActivityRow } from "./activity-export.js";
+
+const row: ActivityRow = {
+  timestamp: Date.parse("2026-03-01T12:00:00Z"),
+  chainId: 31337,
+  chainName: "Local",
+  txHash: "0xabc",
+  blockNumber: 42,
+  status: "success",
+  direction: "out",
+  counterparty: "0x2222222222222222222222222222222222222222",
+  asset: "USDC",
+  assetAddress: "0x1111111111111111111111111111111111111111",
+  amount: "-12.5",
+  amountUsd: "-12.50",
+  gasPaid: "0.0001",
+  gasPaidUsd: "0.30",
+  nativeSymbol: "ETH",
+  explorerUrl: "https://explorer.example/tx/0xabc",
+};
+
+test("CSV has a header line and CRLF-terminated rows", () => {
+  const csv = formatActivityCsv([row]);
+  const lines = csv.split("\r\n");
+  assert.equal(lines.length, 3);
+  assert.equal(lines[2], "");
+  assert.ok(lines[0]!.startsWith("Date,Chain,Chain ID,Transaction Hash"));
+  assert.equal(
+    lines[1],
+    "2026-03-01T12:00:00.000Z,Local,31337,0xabc,42,success,out,0x2222222222222222222222222222222222222222," +
+      "USDC,0x1111111111111111111111111111111111111111,-12.5,-12.50,0.0001,ETH,0.30,https://explorer.example/tx/0xabc"
+  );
+});
+
+test("CSV neutralises fields a spreadsheet would run as formulas, but not negative numbers", () => {
+  const csv = formatActivityCsv([{ ...row, asset: "=HYPERLINK(\"http://evil\")", counterparty: "@SUM(A1)", chainName: "-cmd" }]);
+  assert.ok(csv.includes(`,"'=HYPERLINK(""http://evil"")",`));
+  assert.ok(csv.includes(",'@SUM(A1),"));
+  assert.ok(csv.includes(",'-cmd,"));
+  assert.ok(csv.includes(",-12.5,-12.50,"));
+});
+
+test("CSV quotes fields with commas, quotes and line breaks", () => {
+  const csv = formatActivityCsv([{ ...row, chainName: 'Local, "dev"\nnode' }]);
+  assert.ok(csv.includes(',"Local, ""dev""\nnode",'));
+});
+
+test("OFX puts each chain and asset in its own account, gas as a fee in the native account", () => {
+  const ofx = formatActivityOfx([row], { format: "ofx", from: row.timestamp - 1000, to: row.timestamp + 1000 });
+  assert.ok(ofx.startsWith("OFXHEADER:100\nDATA:OFXSGML\nVERSION:102\n"));
+  assert.ok(ofx.includes("<ACCTID>31337:USDC<ACCTTYPE>CHECKING"));
+  assert.ok(ofx.includes("<ACCTID>31337:ETH<ACCTTYPE>CHECKING"));
+  assert.ok(ofx.includes("<TRNTYPE>DEBIT\n<DTPOSTED>20260301120000[0:GMT]\n<TRNAMT>-12.50\n"));
+  assert.ok(ofx.includes("<MEMO>out 12.5 USDC on Local"));
+  assert.ok(ofx.includes("<TRNTYPE>FEE\n<DTPOSTED>20260301120000[0:GMT]\n<TRNAMT>-0.30\n"));
+  assert.ok(ofx.includes("<FITID>31337-0xabc-gas"));
+  assert.ok(!ofx.includes("INTU.BID"));
+});
+
+test("OFX escapes markup in text fields", () => {
+  const ofx = formatActivityOfx([{ ...row, counterparty: "<a&b>" }], { format: "ofx", from: 0, to: row.timestamp });
+  assert.ok(ofx.includes("<NAME>&lt;a&amp;b&gt;"));
+});
+
+test("OFX amounts are in USD, and rows without a price are left out and counted", () => {
+  const unpriced = { ...row, txHash: "0xdef", asset: "SPAM", amountUsd: "", gasPaid: "", gasPaidUsd: "" };
+  const ofx = formatActivityOfx([row, unpriced], { format: "ofx", from: 0, to: row.timestamp + 1000 });
+  assert.ok(ofx.includes("<CURDEF>USD"));
+  assert.ok(!ofx.includes("SPAM"));
+  assert.equal(countUnpricedRows([row, unpriced]), 1);
+});
+
+test("Only the chain's configured tokens are priced, whatever other tokens call themselves", async () => {
+  const usdc = "0x1111111111111111111111111111111111111111";
+  const fakeUsdc = "0x3333333333333333333333333333333333333333";
+  const wallet = "0x4444444444444444444444444444444444444444";
+  const chain = {
+    id: 31337,
+    name: "Local",
+    native: { symbol: "ETH", address: "0x0000000000000000000000000000000000000000", decimals: 18 },
+    commonTokens: { USDC: { symbol: "USDC", address: usdc, decimals: 6 } },
+  } as unknown as ChainConfig;
+  const transfer = (address: string) => ({
+    logIndex: 0,
+    token: { address, symbol: "USDC", decimals: 6 },
+    from: "0x2222222222222222222222222222222222222222",
+    to: wallet,
+    amount: "5000000",
+    amountFormatted: "5.0",
+    direction: "in" as const,
+  });
+  const timestamp = Date.parse("2026-03-01T12:00:00Z") / 1000;
+  // The configured token's price for the day is already known, so nothing is looked up
+  const prices = new Map([[`31337:${usdc}:2026-03-01`, Promise.resolve(1)]]);
+
+  const rows = await toActivityRows(
+    chain,
+    wallet,
+    {
+      hash: "0xabc",
+      from: "0x2222222222222222222222222222222222222222",
+      to: usdc,
+      blockNumber: 42,
+      blockHash: "0x01",
+      transactionIndex: 0,
+      status: 1,
+      timestamp,
+      tokenTransfers: [transfer(usdc), transfer(fakeUsdc)],
+    },
+    prices
+  );
+  assert.deepEqual(
+    rows.map((r) => [r.assetAddress, r.asset, r.amountUsd]),
+    [
+      [usdc, "USDC", "5.00"],
+      [fakeUsdc, "USDC", ""],
+    ]
+  );
+});
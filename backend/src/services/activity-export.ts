@@ -0,0 +1,421 @@
+import { ethers } from "ethers";
+import { logger } from "../setup/logger.js";
+import { CHAINS } from "../setup/chains.js";
+import type { Address, ChainConfig, ChainId } from "../setup/types.js";
+import { getBlockExplorerUrl } from "../utils/block-explorers.js";
+import { getHistoricalNativePriceUsd, getHistoricalPriceUsd } from "./price-oracle.js";
+import type { Transaction, TransactionCursor } from "./sqd-transactions.js";
+import { fetchTransactionPage, findBlockAtTime, type TransactionSource } from "./transaction-history.js";
+
+// Transactions per history page read by an export
+const EXPORT_PAGE_SIZE = 500;
+// Transactions an export covers at most, across its chains
+const EXPORT_MAX_TRANSACTIONS = Number(process.env.EXPORT_MAX_TRANSACTIONS) || 5000;
+// Intuit bank id written into QFX files (Quicken checks it against its list of institutions)
+const QFX_INTU_BID = process.env.QFX_INTU_BID || "";
+
+export type ExportFormat = "csv" | "ofx" | "qfx";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "ofx", "qfx"];
+
+// One asset movement of a transaction. A transaction that moved nothing (e.g. a failed one) has one row without an asset.
+export interface ActivityRow {
+  timestamp: number;                 // ms
+  chainId: ChainId;
+  chainName: string;
+  txHash: string;
+  blockNumber: number;
+  status: "success" | "failed";
+  direction: "in" | "out" | "self";
+  counterparty: string;
+  asset: string;                     // symbol, or token address when its metadata is unknown; "" when nothing moved
+  assetAddress: string;              // "" for the native asset
+  amount: string;                    // in the asset's units; negative when it left the wallet
+  amountUsd: string;                 // at the asset's price on the transaction's day; "" when unknown
+  gasPaid: string;                   // native asset, on the first row of transactions the wallet sent; "" otherwise
+  gasPaidUsd: string;                // at the native asset's price on the transaction's day; "" when unknown
+  nativeSymbol: string;
+  explorerUrl: string;
+}
+
+export interface ActivityExport {
+  rows: ActivityRow[];
+  sources: Record<number, TransactionSource>;
+}
+
+export class ExportTooLargeError extends Error {}
+
+// USD prices looked up during one export, by "<chainId>:<asset>:<day>"; failed lookups stay failed so they aren't repeated per row
+type ExportPrices = Map<string, Promise<number>>;
+
+/**
+ * Activity of an address between two dates on a set of chains, as accounting rows (oldest first per chain).
+ * History comes from the same sources as /transactions.
+ * @param from - ms timestamp, inclusive
+ * @param to - ms timestamp, exclusive
+ * @throws ExportTooLargeError when the range holds more than EXPORT_MAX_TRANSACTIONS transactions
+ */
+export async function collectActivity(
+  address: Address,
+  options: { from: number; to: number; chainIds: ChainId[] }
+): Promise<ActivityExport> {
+  const { from, to, chainIds } = options;
+  const rows: ActivityRow[] = [];
+  const sources: Record<number, TransactionSource> = {};
+  const prices: ExportPrices = new Map();
+  let transactionCount = 0;
+
+  for (const chainId of chainIds) {
+    const chain = CHAINS[chainId]!;
+    const fromBlock = await findBlockAtTime(chainId, from);
+    const toBlock = await findBlockAtTime(chainId, to);
+    if (toBlock !== undefined && toBlock <= (fromBlock ?? 0)) {
+      continue;
+    }
+
+    let after: TransactionCursor | undefined;
+    for (;;) {
+      const page = await fetchTransactionPage(chainId, address, {
+        fromBlock,
+        ...(toBlock !== undefined ? { toBlock: toBlock - 1 } : {}),
+        limit: EXPORT_PAGE_SIZE,
+        after,
+      });
+      sources[chainId] = page.source;
+
+      for (const transaction of page.transactions) {
+        const timestamp = (transaction.timestamp ?? 0) * 1000;
+        if (timestamp < from || timestamp >= to) {
+          continue;
+        }
+        if (++transactionCount > EXPORT_MAX_TRANSACTIONS) {
+          throw new ExportTooLargeError(
+            `More than ${EXPORT_MAX_TRANSACTIONS} transactions in the range, export a shorter range or fewer chains`
+          );
+        }
+        rows.push(...(await toActivityRows(chain, address, transaction, prices)));
+      }
+
+      // Stop at the end of the range, or when the source makes no progress
+      if (
+        !page.hasMore ||
+        !page.nextCursor ||
+        (after &&
+          page.nextCursor.blockNumber === after.blockNumber &&
+          page.nextCursor.transactionIndex === after.transactionIndex)
+      ) {
+        break;
+      }
+      after = page.nextCursor;
+    }
+  }
+
+  logger.info("Collected activity for export", { address, chainIds, transactions: transactionCount, rows: rows.length });
+  return { rows, sources };
+}
+
+/**
+ * USD value of a signed decimal amount at the asset's price on the transaction's day; "" when there's no price
+ */
+async function toUsd(
+  amount: string,
+  prices: ExportPrices,
+  key: string,
+  lookup: () => Promise<number>,
+  context: Record<string, unknown>
+): Promise<string> {
+  let price = prices.get(key);
+  if (!price) {
+    price = lookup();
+    prices.set(key, price);
+  }
+  try {
+    return (Number(amount) * (await price)).toFixed(2);
+  } catch (error) {
+    logger.warn("No historical price, leaving the USD value empty", {
+      ...context,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return "";
+  }
+}
+
+/**
+ * The symbol a configured token (one of the chain's commonTokens) is priced by; undefined for any other token,
+ * since any contract can call itself "USDC"
+ */
+function getConfiguredTokenSymbol(chain: ChainConfig, address: string): string | undefined {
+  return Object.values(chain.commonTokens).find((token) => token.address.toLowerCase() === address.toLowerCase())?.symbol;
+}
+
+/**
+ * The export rows of one transaction: its native value and each token transfer, with gas on the first row
+ */
+export async function toActivityRows(
+  chain: ChainConfig,
+  address: Address,
+  transaction: Transaction,
+  prices: ExportPrices
+): Promise<ActivityRow[]> {
+  const addressLower = address.toLowerCase();
+  const from = transaction.from?.toLowerCase() ?? "";
+  const to = transaction.to?.toLowerCase() ?? "";
+  const timestamp = (transaction.timestamp ?? 0) * 1000;
+  const failed = transaction.status === 0;
+
+  // Gas is paid by the sender, whether the transaction succeeded or not
+  const sent = from === addressLower;
+  const gasPaid =
+    sent && transaction.gasUsed && transaction.gasPrice
+      ? BigInt(transaction.gasUsed) * BigInt(transaction.gasPrice)
+      : 0n;
+  const day = new Date(timestamp).toISOString().slice(0, 10);
+  const nativeKey = `${chain.id}:native:${day}`;
+  const nativePrice = () => getHistoricalNativePriceUsd(chain, timestamp);
+  const priceContext = { chainId: chain.id, txHash: transaction.hash };
+  const gasPaidUsd =
+    gasPaid > 0n
+      ? await toUsd(ethers.formatUnits(gasPaid, chain.native.decimals), prices, nativeKey, nativePrice, {
+          ...priceContext,
+          symbol: chain.native.symbol,
+        })
+      : "";
+
+  const base = {
+    timestamp,
+    chainId: chain.id,
+    chainName: chain.name,
+    txHash: transaction.hash,
+    blockNumber: transaction.blockNumber,
+    status: failed ? ("failed" as const) : ("success" as const),
+    nativeSymbol: chain.native.symbol,
+    explorerUrl: getBlockExplorerUrl(chain.id, transaction.hash),
+  };
+  const rows: Array<Omit<ActivityRow, "gasPaid" | "gasPaidUsd">> = [];
+
+  // Native value moves only when the transaction succeeded
+  const value = transaction.value ? BigInt(transaction.value) : 0n;
+  if (value > 0n && !failed) {
+    const direction = from === to ? "self" : sent ? "out" : "in";
+    const amount = signed(ethers.formatUnits(value, chain.native.decimals), direction);
+    rows.push({
+      ...base,
+      direction,
+      counterparty: sent ? to : from,
+      asset: chain.native.symbol,
+      assetAddress: "",
+      amount,
+      amountUsd: await toUsd(amount, prices, nativeKey, nativePrice, { ...priceContext, symbol: chain.native.symbol }),
+    });
+  }
+  for (const transfer of transaction.tokenTransfers ?? []) {
+    const amount = signed(transfer.amountFormatted ?? transfer.amount, transfer.direction);
+    const assetAddress = transfer.token.address.toLowerCase();
+    // Tokens are priced by symbol, so only the chain's configured tokens are priced
+    const { symbol } = transfer.token;
+    const pricedSymbol = getConfiguredTokenSymbol(chain, assetAddress);
+    rows.push({
+      ...base,
+      direction: transfer.direction,
+      counterparty: (transfer.direction === "in" ? transfer.from : transfer.to).toLowerCase(),
+      asset: symbol ?? transfer.token.address,
+      assetAddress,
+      amount,
+      amountUsd:
+        pricedSymbol && transfer.amountFormatted
+          ? await toUsd(amount, prices, `${chain.id}:${assetAddress}:${day}`, () => getHistoricalPriceUsd(pricedSymbol, timestamp), {
+              ...priceContext,
+              symbol: pricedSymbol,
+            })
+          : "",
+    });
+  }
+  if (rows.length === 0) {
+    rows.push({
+      ...base,
+      direction: sent ? "out" : "in",
+      counterparty: sent ? to : from,
+      asset: "",
+      assetAddress: "",
+      amount: "0",
+      amountUsd: "",
+    });
+  }
+
+  // Gas goes on the first row only, so summing the column doesn't count it twice
+  return rows.map((row, i) => ({
+    ...row,
+    gasPaid: i === 0 && gasPaid > 0n ? ethers.formatUnits(gasPaid, chain.native.decimals) : "",
+    gasPaidUsd: i === 0 ? gasPaidUsd : "",
+  }));
+}
+
+function signed(amount: string, direction: ActivityRow["direction"]): string {
+  return direction === "out" ? `-${amount}` : amount;
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+const CSV_COLUMNS: Array<[string, (row: ActivityRow) => string]> = [
+  ["Date", (row) => new Date(row.timestamp).toISOString()],
+  ["Chain", (row) => row.chainName],
+  ["Chain ID", (row) => String(row.chainId)],
+  ["Transaction Hash", (row) => row.txHash],
+  ["Block", (row) => String(row.blockNumber)],
+  ["Status", (row) => row.status],
+  ["Direction", (row) => row.direction],
+  ["Counterparty", (row) => row.counterparty],
+  ["Asset", (row) => row.asset],
+  ["Asset Address", (row) => row.assetAddress],
+  ["Amount", (row) => row.amount],
+  ["Amount (USD)", (row) => row.amountUsd],
+  ["Gas Paid", (row) => row.gasPaid],
+  ["Gas Asset", (row) => (row.gasPaid ? row.nativeSymbol : "")],
+  ["Gas Paid (USD)", (row) => row.gasPaidUsd],
+  ["Explorer URL", (row) => row.explorerUrl],
+];
+
+function csvField(value: string): string {
+  // Spreadsheets run fields starting with = + - @ or a tab as formulas: prefix a quote, except on plain numbers
+  const text = /^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Rows as CSV (RFC 4180, with a header line)
+ */
+export function formatActivityCsv(rows: ActivityRow[]): string {
+  const lines = [CSV_COLUMNS.map(([header]) => header).join(",")];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map(([, value]) => csvField(value(row))).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+// ============================================================================
+// OFX / QFX
+// ============================================================================
+
+function ofxDate(timestamp: number): string {
+  // YYYYMMDDHHMMSS[0:GMT]
+  return new Date(timestamp).toISOString().replace(/[-:T]/g, "").slice(0, 14) + "[0:GMT]";
+}
+
+function ofxText(value: string, maxLength: number): string {
+  return value.slice(0, maxLength).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Rows as an OFX 1.0.2 bank statement file; QFX adds Quicken's INTU.BID.
+ * Each chain and asset is its own account (ACCTID `<chainId>:<symbol>`). Amounts are in USD (the statements'
+ * CURDEF) at the asset's price on the transaction's day, and the memo has the amount in the asset's units.
+ * Rows without a USD value are left out (see countUnpricedRows). Gas is a FEE transaction in the chain's
+ * native asset account.
+ * @param from - ms timestamp of the range start
+ * @param to - ms timestamp of the range end
+ */
+export function formatActivityOfx(
+  rows: ActivityRow[],
+  options: { format: "ofx" | "qfx"; from: number; to: number }
+): string {
+  type StatementLine = { row: ActivityRow; type: "CREDIT" | "DEBIT" | "FEE"; amount: string; fitId: string; memo: string };
+  const accounts = new Map<string, { chainId: number; lines: StatementLine[] }>();
+  const addLine = (chainId: number, asset: string, line: StatementLine) => {
+    const accountId = `${chainId}:${asset}`.slice(0, 22);
+    const account = accounts.get(accountId) ?? { chainId, lines: [] };
+    account.lines.push(line);
+    accounts.set(accountId, account);
+  };
+
+  let previousTx = "";
+  let rowIndex = 0;
+  for (const row of rows) {
+    rowIndex = row.txHash === previousTx ? rowIndex + 1 : 0;
+    previousTx = row.txHash;
+    if (row.asset && row.amountUsd) {
+      addLine(row.chainId, row.asset, {
+        row,
+        type: row.amount.startsWith("-") ? "DEBIT" : "CREDIT",
+        amount: row.direction === "self" ? "0.00" : row.amountUsd,
+        fitId: `${row.chainId}-${row.txHash}-${rowIndex}`,
+        memo: `${row.direction} ${row.amount.replace(/^-/, "")} ${row.asset} on ${row.chainName} ${row.explorerUrl}`,
+      });
+    }
+    if (row.gasPaid && row.gasPaidUsd) {
+      addLine(row.chainId, row.nativeSymbol, {
+        row,
+        type: "FEE",
+        amount: `-${row.gasPaidUsd}`,
+        fitId: `${row.chainId}-${row.txHash}-gas`,
+        memo: `Gas ${row.gasPaid} ${row.nativeSymbol} on ${row.chainName} ${row.explorerUrl}`,
+      });
+    }
+  }
+
+  const now = ofxDate(Date.now());
+  const statements = [...accounts.entries()].map(([accountId, account], i) => {
+    const transactions = account.lines.map((line) =>
+      [
+        "<STMTTRN>",
+        `<TRNTYPE>${line.type}`,
+        `<DTPOSTED>${ofxDate(line.row.timestamp)}`,
+        `<TRNAMT>${line.amount}`,
+        `<FITID>${ofxText(line.fitId, 255)}`,
+        `<NAME>${ofxText(line.row.counterparty || line.row.chainName, 32)}`,
+        `<MEMO>${ofxText(line.memo, 255)}`,
+        "</STMTTRN>",
+      ].join("\n")
+    );
+    return [
+      "<STMTTRNRS>",
+      `<TRNUID>${i + 1}`,
+      "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+      "<STMTRS>",
+      "<CURDEF>USD",
+      `<BANKACCTFROM><BANKID>${String(account.chainId).slice(0, 9)}<ACCTID>${ofxText(accountId, 22)}<ACCTTYPE>CHECKING</BANKACCTFROM>`,
+      "<BANKTRANLIST>",
+      `<DTSTART>${ofxDate(options.from)}`,
+      `<DTEND>${ofxDate(options.to)}`,
+      ...transactions,
+      "</BANKTRANLIST>",
+      "</STMTRS>",
+      "</STMTTRNRS>",
+    ].join("\n");
+  });
+
+  return [
+    "OFXHEADER:100",
+    "DATA:OFXSGML",
+    "VERSION:102",
+    "SECURITY:NONE",
+    "ENCODING:USASCII",
+    "CHARSET:1252",
+    "COMPRESSION:NONE",
+    "OLDFILEUID:NONE",
+    "NEWFILEUID:NONE",
+    "",
+    "<OFX>",
+    "<SIGNONMSGSRSV1>",
+    "<SONRS>",
+    "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+    `<DTSERVER>${now}`,
+    "<LANGUAGE>ENG",
+    ...(options.format === "qfx" && QFX_INTU_BID ? [`<INTU.BID>${QFX_INTU_BID}`] : []),
+    "</SONRS>",
+    "</SIGNONMSGSRSV1>",
+    "<BANKMSGSRSV1>",
+    ...statements,
+    "</BANKMSGSRSV1>",
+    "</OFX>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Asset movements and gas payments an OFX/QFX export leaves out for lack of a USD price
+ */
+export function countUnpricedRows(rows: ActivityRow[]): number {
+  return rows.filter((row) => (row.asset && !row.amountUsd) || (row.gasPaid && !row.gasPaidUsd)).length;
+}
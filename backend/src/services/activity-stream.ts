@@ -0,0 +1,291 @@
+import { ethers } from "ethers";
+import { ChainId, type Address, type TokenConfig } from "../setup/types.js";
+import { CHAINS, onChainsReloaded } from "../setup/chains.js";
+import { providers } from "../setup/providers.js";
+import { logger } from "../setup/logger.js";
+import { getRegistryTokens } from "./token-registry.js";
+import { getCachedBalances, PLANNER_FRESHNESS } from "./balance-cache.js";
+import { scanTransfers } from "./transfer-scanner.js";
+
+// How often each chain's head block is polled while anyone is subscribed
+const STREAM_POLL_INTERVAL_MS = Number(process.env.STREAM_POLL_INTERVAL_MS) || 4000;
+// Blocks scanned per poll; a chain that got further ahead is caught up over the following polls
+const STREAM_MAX_BLOCK_RANGE = Number(process.env.STREAM_MAX_BLOCK_RANGE) || 10;
+// How long a subscriber's token list (registry and custom tokens) is reused
+const STREAM_TOKEN_REFRESH_MS = Number(process.env.STREAM_TOKEN_REFRESH_MS) || 60 * 1000;
+
+export interface StreamToken {
+  symbol: string;
+  address: Address;
+  decimals: number;
+}
+
+// A balance that differs from the last one sent
+export interface BalanceChangeActivity {
+  chainId: ChainId;
+  chainName: string;
+  blockNumber: number;
+  token: StreamToken;
+  balance: string;              // smallest unit
+  balanceFormatted: string;
+  previousBalance: string;
+}
+
+// A native or ERC-20 transfer to or from the subscribed address, in a new block
+export interface TransferActivity {
+  chainId: ChainId;
+  chainName: string;
+  blockNumber: number;
+  txHash: string;
+  direction: "in" | "out";
+  from: Address;
+  to: Address;
+  token: StreamToken;
+  amount: string;               // smallest unit
+  amountFormatted: string;
+}
+
+export type ActivityEvent =
+  | { type: "balance"; data: BalanceChangeActivity }
+  | { type: "transfer"; data: TransferActivity };
+
+export type ActivityListener = (event: ActivityEvent) => void;
+
+interface Subscription {
+  address: Address;
+  listeners: Set<ActivityListener>;
+  registryTokens: Array<TokenConfig & { chainId: ChainId }>;
+  tokensLoadedAt: number;
+  // Last balance sent (or seen, before the first change), keyed by chain and lowercase token address
+  balances: Map<string, bigint>;
+}
+
+interface ChainWatcher {
+  timer: NodeJS.Timeout;
+  lastBlock: number | null;
+  polling: boolean;
+}
+
+// Keyed by lowercase address
+const subscriptions = new Map<string, Subscription>();
+const watchers = new Map<ChainId, ChainWatcher>();
+
+onChainsReloaded(() => {
+  if (watchers.size > 0) {
+    stopWatchers();
+    startWatchers();
+  }
+});
+
+/**
+ * Receive balance changes and transfers of `address` as blocks arrive on each configured chain.
+ * Chains are only polled while at least one listener is subscribed. The first read of each balance
+ * sets its baseline and isn't sent.
+ * @returns Function that unsubscribes the listener
+ */
+export function subscribeToActivity(address: Address, listener: ActivityListener): () => void {
+  const key = address.toLowerCase();
+  let subscription = subscriptions.get(key);
+  if (!subscription) {
+    subscription = {
+      address: ethers.getAddress(address) as Address,
+      listeners: new Set(),
+      registryTokens: [],
+      tokensLoadedAt: 0,
+      balances: new Map(),
+    };
+    subscriptions.set(key, subscription);
+  }
+  subscription.listeners.add(listener);
+  if (watchers.size === 0) {
+    startWatchers();
+  }
+
+  return () => {
+    subscription.listeners.delete(listener);
+    if (subscription.listeners.size === 0) {
+      subscriptions.delete(key);
+    }
+    if (subscriptions.size === 0 && watchers.size > 0) {
+      stopWatchers();
+      logger.info("Activity stream stopped, no subscribers left");
+    }
+  };
+}
+
+function startWatchers(): void {
+  for (const chain of Object.values(CHAINS)) {
+    if (!providers[chain.id]) {
+      continue;
+    }
+    const watcher: ChainWatcher = {
+      timer: setInterval(() => void pollChain(chain.id, watcher), STREAM_POLL_INTERVAL_MS),
+      lastBlock: null,
+      polling: false,
+    };
+    watcher.timer.unref();
+    watchers.set(chain.id, watcher);
+    void pollChain(chain.id, watcher);
+  }
+  logger.info("Activity stream started", { chains: [...watchers.keys()] });
+}
+
+function stopWatchers(): void {
+  for (const watcher of watchers.values()) {
+    clearInterval(watcher.timer);
+  }
+  watchers.clear();
+}
+
+function emit(subscription: Subscription, event: ActivityEvent): void {
+  for (const listener of subscription.listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      logger.warn("Activity listener failed", {
+        address: subscription.address,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * ERC-20 tokens a subscriber's portfolio covers (see getRegistryTokens), reloaded every STREAM_TOKEN_REFRESH_MS
+ */
+async function getSubscriptionTokens(subscription: Subscription): Promise<Array<TokenConfig & { chainId: ChainId }>> {
+  if (Date.now() - subscription.tokensLoadedAt >= STREAM_TOKEN_REFRESH_MS) {
+    subscription.registryTokens = await getRegistryTokens(subscription.address);
+    subscription.tokensLoadedAt = Date.now();
+  }
+  return subscription.registryTokens;
+}
+
+async function pollChain(chainId: ChainId, watcher: ChainWatcher): Promise<void> {
+  const provider = providers[chainId];
+  const chain = CHAINS[chainId];
+  // Skip while the previous poll is still running, or after the watcher was stopped
+  if (watcher.polling || watchers.get(chainId) !== watcher || !provider || !chain) {
+    return;
+  }
+  watcher.polling = true;
+
+  try {
+    const head = await provider.getBlockNumber();
+    // Lower than before: a reorg, or an endpoint behind the previous one; wait until the chain passes lastBlock
+    if (watcher.lastBlock !== null && head <= watcher.lastBlock) {
+      return;
+    }
+
+    const subscribers = [...subscriptions.values()];
+    const tokens = new Map<Subscription, TokenConfig[]>();
+    for (const subscription of subscribers) {
+      const registryTokens = await getSubscriptionTokens(subscription);
+      tokens.set(subscription, [chain.native, ...registryTokens.filter((token) => token.chainId === chainId)]);
+    }
+
+    // Transfers since the last poll (none on the first poll, it only sets the baseline).
+    // At most STREAM_MAX_BLOCK_RANGE blocks per poll: further behind, the next polls continue from where this one stopped.
+    let toBlock = head;
+    if (watcher.lastBlock !== null) {
+      const fromBlock = watcher.lastBlock + 1;
+      toBlock = Math.min(head, fromBlock + STREAM_MAX_BLOCK_RANGE - 1);
+      const transfers = await findTransfers(chainId, fromBlock, toBlock, tokens);
+      for (const [subscription, activity] of transfers) {
+        emit(subscription, { type: "transfer", data: activity });
+      }
+    }
+
+    // Balances are read at the head, so they're only compared once the transfers caught up with it
+    if (toBlock === head) {
+      await emitBalanceChanges(chainId, head, tokens);
+    }
+    watcher.lastBlock = toBlock;
+  } catch (error) {
+    logger.warn(`Activity stream poll failed on chain ${chainId}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  } finally {
+    watcher.polling = false;
+  }
+}
+
+/**
+ * Transfers to or from subscribed addresses in blocks fromBlock..toBlock (see scanTransfers), per subscriber
+ */
+async function findTransfers(
+  chainId: ChainId,
+  fromBlock: number,
+  toBlock: number,
+  tokens: Map<Subscription, TokenConfig[]>
+): Promise<Array<[Subscription, TransferActivity]>> {
+  const chain = CHAINS[chainId]!;
+  const byAddress = new Map([...tokens.keys()].map((subscription) => [subscription.address.toLowerCase(), subscription]));
+  const transfers = await scanTransfers(
+    chainId,
+    fromBlock,
+    toBlock,
+    [...tokens.keys()].map((subscription) => subscription.address),
+    [...tokens.values()].flat()
+  );
+
+  const activity: Array<[Subscription, TransferActivity]> = [];
+  for (const transfer of transfers) {
+    const base = {
+      chainId,
+      chainName: chain.name,
+      blockNumber: transfer.blockNumber,
+      txHash: transfer.txHash,
+      from: transfer.from,
+      to: transfer.to,
+      token: { symbol: transfer.token.symbol, address: transfer.token.address, decimals: transfer.token.decimals },
+      amount: transfer.amount.toString(),
+      amountFormatted: ethers.formatUnits(transfer.amount, transfer.token.decimals),
+    };
+    const sender = byAddress.get(transfer.from.toLowerCase());
+    const recipient = byAddress.get(transfer.to.toLowerCase());
+    if (sender) {
+      activity.push([sender, { ...base, direction: "out" }]);
+    }
+    if (recipient && recipient !== sender) {
+      activity.push([recipient, { ...base, direction: "in" }]);
+    }
+  }
+  return activity;
+}
+
+/**
+ * Read every subscriber's balances on a chain (one batch through the balance cache, as of `head`)
+ * and send the ones that changed
+ */
+async function emitBalanceChanges(chainId: ChainId, head: number, tokens: Map<Subscription, TokenConfig[]>): Promise<void> {
+  const chain = CHAINS[chainId]!;
+  const reads = [...tokens].flatMap(([subscription, list]) => list.map((token) => ({ subscription, token })));
+  const balances = await getCachedBalances(
+    chainId,
+    reads.map(({ subscription, token }) => ({ wallet: subscription.address, token })),
+    PLANNER_FRESHNESS
+  );
+
+  reads.forEach(({ subscription, token }, i) => {
+    const balance = balances[i]!;
+    const key = `${chainId}:${token.address.toLowerCase()}`;
+    const previous = subscription.balances.get(key);
+    subscription.balances.set(key, balance);
+    if (previous === undefined || previous === balance) {
+      return;
+    }
+    emit(subscription, {
+      type: "balance",
+      data: {
+        chainId,
+        chainName: chain.name,
+        blockNumber: head,
+        token: { symbol: token.symbol, address: token.address, decimals: token.decimals },
+        balance: balance.toString(),
+        balanceFormatted: ethers.formatUnits(balance, token.decimals),
+        previousBalance: previous.toString(),
+      },
+    });
+  });
+}
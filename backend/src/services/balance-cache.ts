@@ -0,0 +1,261 @@
+import { ChainId, type Address } from "../setup/types.js";
+import { providers } from "../setup/providers.js";
+import { onChainsReloaded } from "../setup/chains.js";
+import { isMongoConnected } from "../setup/mongodb.js";
+import { logger } from "../setup/logger.js";
+import { readBalances, type BalanceRequest } from "../handlers/multicall-balances.js";
+import { getBalanceSnapshots, saveBalanceSnapshots } from "../db/balance-snapshots.js";
+
+// How long a chain's head block number is reused before asking the RPC again
+const BALANCE_HEAD_TTL_MS = Number(process.env.BALANCE_HEAD_TTL_MS) || 1000;
+const BALANCE_CACHE_MAX_ENTRIES = Number(process.env.BALANCE_CACHE_MAX_ENTRIES) || 50_000;
+// Snapshots read from MongoDB at startup go back this far
+const BALANCE_SNAPSHOT_WARM_MS = Number(process.env.BALANCE_SNAPSHOT_WARM_MS) || 24 * 60 * 60 * 1000; // 1 day
+
+/**
+ * How stale a cached balance a reader accepts. A balance read at the chain's current head block is always
+ * served; once a newer block arrives it's only served while younger than `maxAgeMs`.
+ */
+export interface BalanceFreshness {
+  maxAgeMs: number;
+}
+
+// Planning and quote revalidation: balances as of the current head block
+export const PLANNER_FRESHNESS: BalanceFreshness = {
+  maxAgeMs: Number(process.env.BALANCE_PLANNER_MAX_AGE_MS) || 0,
+};
+
+// Portfolio routes; callers can ask for another bound with ?maxAge=<seconds>
+export const PORTFOLIO_FRESHNESS: BalanceFreshness = {
+  maxAgeMs: Number(process.env.BALANCE_PORTFOLIO_MAX_AGE_MS) || 15 * 1000,
+};
+
+export interface CachedBalance {
+  chainId: ChainId;
+  wallet: string;        // lowercase
+  token: string;         // lowercase token address (NATIVE_TOKEN_ADDRESS for the native token)
+  balance: bigint;
+  blockNumber: number;   // chain head when read (0 when unknown)
+  fetchedAt: number;     // ms since epoch
+}
+
+// Keyed by chain, wallet and token; Map order doubles as least-recently-written order for eviction
+const entries = new Map<string, CachedBalance>();
+
+// Latest head block seen per chain
+const heads = new Map<ChainId, { blockNumber: number; checkedAt: number }>();
+const pendingHeads = new Map<ChainId, Promise<number | null>>();
+
+onChainsReloaded(() => {
+  heads.clear();
+});
+
+function cacheKey(chainId: ChainId, wallet: string, token: string): string {
+  return `${chainId}:${wallet.toLowerCase()}:${token.toLowerCase()}`;
+}
+
+/**
+ * Add or replace a cached balance (an entry from an older block never replaces a newer one)
+ */
+export function setCachedBalance(entry: CachedBalance): void {
+  const key = cacheKey(entry.chainId, entry.wallet, entry.token);
+  const existing = entries.get(key);
+  if (existing && existing.blockNumber > entry.blockNumber) {
+    return;
+  }
+  entries.delete(key);
+  entries.set(key, { ...entry, wallet: entry.wallet.toLowerCase(), token: entry.token.toLowerCase() });
+  if (entries.size > BALANCE_CACHE_MAX_ENTRIES) {
+    entries.delete(entries.keys().next().value!);
+  }
+}
+
+/**
+ * Every cached balance
+ */
+export function getCachedBalanceEntries(): CachedBalance[] {
+  return [...entries.values()];
+}
+
+/**
+ * Drop cached balances of a wallet (e.g. after it sent a transaction), optionally on one chain only
+ */
+export function invalidateCachedBalances(wallet: Address, chainId?: ChainId): void {
+  const owner = wallet.toLowerCase();
+  for (const [key, entry] of entries) {
+    if (entry.wallet === owner && (chainId === undefined || entry.chainId === chainId)) {
+      entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Latest block number of a chain, reused for BALANCE_HEAD_TTL_MS (null without a provider or when the RPC fails)
+ */
+async function getHeadBlock(chainId: ChainId): Promise<number | null> {
+  const head = heads.get(chainId);
+  if (head && Date.now() - head.checkedAt < BALANCE_HEAD_TTL_MS) {
+    return head.blockNumber;
+  }
+
+  const provider = providers[chainId];
+  if (!provider) {
+    return null;
+  }
+
+  let pending = pendingHeads.get(chainId);
+  if (!pending) {
+    pending = provider
+      .getBlockNumber()
+      .then((blockNumber) => {
+        const previous = heads.get(chainId)?.blockNumber;
+        // Balances read before this block are no longer current
+        if (previous !== undefined && blockNumber > previous) {
+          logger.debug("New block, cached balances before it are stale", { chainId, blockNumber, previous });
+        }
+        heads.set(chainId, { blockNumber: Math.max(blockNumber, previous ?? 0), checkedAt: Date.now() });
+        return heads.get(chainId)!.blockNumber;
+      })
+      .catch((error) => {
+        logger.warn(`Failed to fetch head block on chain ${chainId}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return head?.blockNumber ?? null;
+      })
+      .finally(() => pendingHeads.delete(chainId));
+    pendingHeads.set(chainId, pending);
+  }
+  return pending;
+}
+
+/**
+ * Balances on one chain, read through the cache: cached balances within `freshness` are served as they are,
+ * the rest is read in one Multicall3 batch (see readBalances) and cached with the head block number.
+ * Balances that can't be read fall back to a stale cached balance, or 0n.
+ * @returns Balances in the order of `requests`
+ */
+export async function getCachedBalances(
+  chainId: ChainId,
+  requests: BalanceRequest[],
+  freshness: BalanceFreshness
+): Promise<bigint[]> {
+  const keys = requests.map(({ wallet, token }) => cacheKey(chainId, wallet, token.address));
+  const isYoungEnough = (entry: CachedBalance | undefined) =>
+    entry !== undefined && Date.now() - entry.fetchedAt <= freshness.maxAgeMs;
+
+  const balances: Array<bigint | null> = keys.map((key) => {
+    const entry = entries.get(key);
+    return isYoungEnough(entry) ? entry!.balance : null;
+  });
+  if (balances.every((balance) => balance !== null)) {
+    return balances as bigint[];
+  }
+
+  // Entries read at the current head block are still current
+  const head = await getHeadBlock(chainId);
+  const missing: number[] = [];
+  balances.forEach((balance, i) => {
+    if (balance !== null) {
+      return;
+    }
+    const entry = entries.get(keys[i]!);
+    if (entry && head !== null && entry.blockNumber >= head) {
+      balances[i] = entry.balance;
+    } else {
+      missing.push(i);
+    }
+  });
+
+  if (missing.length > 0) {
+    const read = await readBalances(chainId, missing.map((i) => requests[i]!));
+    const fetchedAt = Date.now();
+    const fresh: CachedBalance[] = [];
+
+    missing.forEach((requestIndex, j) => {
+      const balance = read[j];
+      const { wallet, token } = requests[requestIndex]!;
+      if (balance === null || balance === undefined) {
+        const stale = entries.get(keys[requestIndex]!);
+        if (stale) {
+          logger.warn("Serving stale cached balance, the balance couldn't be read", {
+            chainId,
+            wallet,
+            token: token.symbol,
+            blockNumber: stale.blockNumber,
+            fetchedAt: new Date(stale.fetchedAt).toISOString(),
+          });
+        }
+        balances[requestIndex] = stale?.balance ?? 0n;
+        return;
+      }
+      balances[requestIndex] = balance;
+      const entry: CachedBalance = {
+        chainId,
+        wallet: wallet.toLowerCase(),
+        token: token.address.toLowerCase(),
+        balance,
+        blockNumber: head ?? 0,
+        fetchedAt,
+      };
+      setCachedBalance(entry);
+      fresh.push(entry);
+    });
+
+    persistSnapshots(fresh);
+  }
+
+  return balances as bigint[];
+}
+
+/**
+ * Write snapshots to MongoDB in the background (skipped while it isn't connected)
+ */
+function persistSnapshots(snapshots: CachedBalance[]): void {
+  if (snapshots.length === 0 || !isMongoConnected()) {
+    return;
+  }
+  saveBalanceSnapshots(
+    snapshots.map((snapshot) => ({
+      chainId: snapshot.chainId,
+      wallet: snapshot.wallet,
+      token: snapshot.token,
+      balance: snapshot.balance.toString(),
+      blockNumber: snapshot.blockNumber,
+      fetchedAt: new Date(snapshot.fetchedAt),
+    }))
+  ).catch(() => {
+    // Logged by saveBalanceSnapshots; the in-memory cache is unaffected
+  });
+}
+
+/**
+ * Load recent snapshots from MongoDB so a restarted server starts with a warm cache.
+ * The snapshots are served like any cached balance, i.e. only to readers whose freshness bound allows their age.
+ */
+export async function warmBalanceCache(): Promise<number> {
+  const snapshots = await getBalanceSnapshots(new Date(Date.now() - BALANCE_SNAPSHOT_WARM_MS), BALANCE_CACHE_MAX_ENTRIES);
+  // Oldest first, so the newest end up last in eviction order
+  for (const snapshot of snapshots.reverse()) {
+    setCachedBalance({
+      chainId: snapshot.chainId,
+      wallet: snapshot.wallet,
+      token: snapshot.token,
+      balance: BigInt(snapshot.balance),
+      blockNumber: snapshot.blockNumber,
+      fetchedAt: snapshot.fetchedAt.getTime(),
+    });
+  }
+  logger.info("Balance cache warmed from snapshots", { count: snapshots.length });
+  return snapshots.length;
+}
+
+/**
+ * Freshness bound from a `maxAge` query parameter in seconds, or `defaults` when it's missing or invalid
+ */
+export function resolveFreshness(maxAgeSeconds: string | null | undefined, defaults: BalanceFreshness): BalanceFreshness {
+  if (maxAgeSeconds === null || maxAgeSeconds === undefined || maxAgeSeconds === "") {
+    return defaults;
+  }
+  const seconds = Number(maxAgeSeconds);
+  return Number.isFinite(seconds) && seconds >= 0 ? { maxAgeMs: seconds * 1000 } : defaults;
+}
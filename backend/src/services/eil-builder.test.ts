@@ -0,0 +1,23 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "url";
+import { defaultCrossChainConfig } from "@eil-protocol/sdk";
+import type { GetPaymasterStubDataParameters } from "viem/account-abstraction";
+import { ensurePaymasterConfig } from "./eil-builder.js";
+
+process.env.EIL_DEPLOYMENT_FILE = fileURLToPath(new URL("../../eil.local.json", import.meta.url));
+
+function stubDataFor(chainId: number) {
+  const { sourcePaymaster } = ensurePaymasterConfig({ ...defaultCrossChainConfig, chainInfos: [] });
+  assert.ok(sourcePaymaster);
+  return sourcePaymaster.getPaymasterStubData({ chainId } as unknown as GetPaymasterStubDataParameters);
+}
+
+test("source operations are sponsored by their own chain's sourcePaymaster", async () => {
+  assert.equal((await stubDataFor(84532)).paymaster, "0xe11b000000000000000000000000000000084532");
+  assert.equal((await stubDataFor(11155420)).paymaster, "0xe11b000000000000000000000000000011155420");
+});
+
+test("chains without an EIL sourcePaymaster can't be sponsored", async () => {
+  await assert.rejects(stubDataFor(1), /No EIL sourcePaymaster deployed on chain 1/);
+});
@@ -1,393 +1,558 @@
-// import { 
-//   CrossChainBuilder, 
-//   TransferAction, 
-//   MultichainToken,
-//   NetworkEnvironment,
-//   type CrossChainConfig,
-//   type ChainInfo,
-// } from "@eil-protocol/sdk";
-// import { Address, type PaymasterActions, type GetPaymasterDataParameters, type GetPaymasterDataReturnType, type GetPaymasterStubDataParameters, type GetPaymasterStubDataReturnType } from "viem";
-// import { ChainId, CHAINS, type Address as AppAddress } from "../index.js";
-// import type { SplitPlan, SplitLeg } from "../setup/types.js";
-// import { logger } from "../setup/logger.js";
-// import { readFileSync } from "fs";
-// import { fileURLToPath } from "url";
-// import { dirname, join } from "path";
-
-// const __filename = fileURLToPath(import.meta.url);
-// const __dirname = dirname(__filename);
-
-// /**
-//  * EIL Payload structure for multi-chain USDC transfers
-//  */
-// export interface EILPayload {
-//   builder: CrossChainBuilder;
-//   batches: Array<{
-//     chainId: number;
-//     chainName: string;
-//     actions: Array<{
-//       type: "transfer";
-//       token: string;
-//       recipient: Address;
-//       amount: string;
-//     }>;
-//   }>;
-// }
-
-// /**
-//  * Create a MultichainToken for USDC based on configured chains
-//  * Note: This requires the NetworkEnvironment to have an SDK instance
-//  */
-// function createUsdcToken(networkEnv: NetworkEnvironment): MultichainToken {
-//   const deployments: Record<string, Address> = {};
-
-//   // Map chain IDs to EIL format (bigint) and collect USDC addresses
-//   for (const [chainIdStr, chain] of Object.entries(CHAINS)) {
-//     const chainId = Number(chainIdStr) as ChainId;
-//     const usdc = chain.commonTokens.USDC;
-//     if (usdc) {
-//       // EIL uses bigint chain IDs as strings in the deployments object
-//       deployments[chainId.toString()] = usdc.address as Address;
-//     }
-//   }
-
-//   // Access SDK through the network environment's chains client
-//   // The SDK should be available through CrossChainSdk instance
-//   // For now, we'll create the token directly using MultichainToken constructor
-//   // In practice, you'd use: networkEnv.sdk.createToken("USDC", deployments)
-  
-//   // Convert Record to AddressPerChain format (array of [chainId, address] tuples)
-//   const addressPerChain = Object.entries(deployments) as [string | number | bigint, Address][];
-  
-//   return new MultichainToken("USDC", networkEnv.chains, addressPerChain);
-// }
-
-// /**
-//  * Convert our ChainId to EIL's expected format (bigint)
-//  */
-// function toEilChainId(chainId: ChainId): bigint {
-//   return BigInt(chainId);
-// }
-
-// /**
-//  * Load EIL deployment addresses from deployment.json
-//  * 
-//  * Tries multiple paths:
-//  * 1. From node_modules (development)
-//  * 2. From dist/assets (if bundled)
-//  * 3. Fallback to hardcoded addresses
-//  * 
-//  * File location: node_modules/@eil-protocol/sdk/dist/assets/deployment.json
-//  */
-// function loadEILDeployments(): any[] {
-//   const possiblePaths = [
-//     // Path 1: From source directory (development)
-//     join(__dirname, "../../node_modules/@eil-protocol/sdk/dist/assets/deployment.json"),
-//     // Path 2: From dist directory (after build)
-//     join(__dirname, "../node_modules/@eil-protocol/sdk/dist/assets/deployment.json"),
-//     // Path 3: Relative to project root
-//     join(process.cwd(), "node_modules/@eil-protocol/sdk/dist/assets/deployment.json"),
-//   ];
-
-//   for (const deploymentPath of possiblePaths) {
-//     try {
-//       const deploymentData = readFileSync(deploymentPath, "utf-8");
-//       const parsed = JSON.parse(deploymentData);
-//       logger.info("Successfully loaded EIL deployment.json", {
-//         path: deploymentPath,
-//         chainsCount: parsed.length,
-//       });
-//       return parsed;
-//     } catch (error) {
-//       // Try next path
-//       continue;
-//     }
-//   }
-
-//   // Fallback to known addresses from deployment.json if file can't be found
-//   logger.warn("Failed to load EIL deployment.json from any path, using fallback addresses");
-//   return [
-//     {
-//       chainId: 1,
-//       paymaster: "0x73Ca37d21Bb665df9899339ad31897747D782a7C",
-//       sourcePaymaster: "0xc7F3D98ed15c483C0f666d9F3EA0Dc7abEe77ca2",
-//       entryPoint: "0x433709009B8330FDa32311DF1C2AFA402eD8D009",
-//       bundlerUrl: "https://vnet.erc4337.io/bundler/1",
-//     },
-//     {
-//       chainId: 8453,
-//       paymaster: "0xDfA767774B04046e2Ad3aFDB6474475De6F7be1C",
-//       sourcePaymaster: "0xc7F3D98ed15c483C0f666d9F3EA0Dc7abEe77ca2",
-//       entryPoint: "0x433709009B8330FDa32311DF1C2AFA402eD8D009",
-//       bundlerUrl: "https://vnet.erc4337.io/bundler/8453",
-//     },
-//   ];
-// }
-
-// /**
-//  * Get EIL deployment info for a specific chain
-//  */
-// function getEILDeploymentForChain(chainId: ChainId): any | null {
-//   const deployments = loadEILDeployments();
-//   return deployments.find((d) => d.chainId === chainId) || null;
-// }
-
-// /**
-//  * Create a simple PaymasterActions implementation for source chain paymaster
-//  * This implements the PaymasterActions interface from viem
-//  */
-// function createSourcePaymaster(address: Address): PaymasterActions {
-//   const getPaymasterStubData = async (
-//     parameters: GetPaymasterStubDataParameters
-//   ): Promise<GetPaymasterStubDataReturnType> => {
-//     return {
-//       paymaster: address,
-//       paymasterVerificationGasLimit: 50000n,
-//       paymasterPostOpGasLimit: 0n,
-//       paymasterData: '0x' as `0x${string}`,
-//     };
-//   };
-
-//   return {
-//     async getPaymasterData(parameters: GetPaymasterDataParameters): Promise<GetPaymasterDataReturnType> {
-//       return getPaymasterStubData(parameters);
-//     },
-//     getPaymasterStubData,
-//   };
-// }
-
-// /**
-//  * Ensure paymaster configuration is present in CrossChainConfig
-//  * If sourcePaymaster is missing, it will be added using EIL deployment addresses
-//  * If ChainInfo entries are missing paymasterAddress, they will be updated
-//  * 
-//  * @param config - The CrossChainConfig to enhance
-//  * @returns Enhanced CrossChainConfig with paymaster configuration
-//  */
-// export function ensurePaymasterConfig(config: CrossChainConfig): CrossChainConfig {
-//   const deployments = loadEILDeployments();
-  
-//   // Find Ethereum L1 deployment for sourcePaymaster
-//   const ethereumDeployment = deployments.find((d) => d.chainId === 1);
-//   const sourcePaymasterAddress = ethereumDeployment?.sourcePaymaster || 
-//     "0xc7F3D98ed15c483C0f666d9F3EA0Dc7abEe77ca2"; // Fallback address
-
-//   // Enhance ChainInfo entries with paymaster addresses if missing
-//   const enhancedChainInfos: ChainInfo[] = config.chainInfos.map((chainInfo) => {
-//     // If paymasterAddress is missing or zero address, add it
-//     if (!chainInfo.paymasterAddress || chainInfo.paymasterAddress === "0x0000000000000000000000000000000000000000") {
-//       const deployment = deployments.find((d) => Number(d.chainId) === Number(chainInfo.chainId));
-      
-//       if (deployment?.paymaster) {
-//         logger.info("Adding paymaster address to ChainInfo", {
-//           chainId: chainInfo.chainId.toString(),
-//           paymasterAddress: deployment.paymaster,
-//         });
-        
-//         return {
-//           ...chainInfo,
-//           paymasterAddress: deployment.paymaster as Address,
-//           // Also update entryPoint if missing
-//           entryPointAddress: chainInfo.entryPointAddress || (deployment.entryPoint as Address),
-//           // Update bundlerUrl if missing
-//           bundlerUrl: chainInfo.bundlerUrl || deployment.bundlerUrl,
-//         };
-//       }
-//     }
-    
-//     return chainInfo;
-//   });
-
-//   // Add sourcePaymaster if missing
-//   let enhancedConfig: CrossChainConfig = {
-//     ...config,
-//     chainInfos: enhancedChainInfos,
-//   };
-
-//   if (!config.sourcePaymaster) {
-//     logger.info("Adding sourcePaymaster to CrossChainConfig", {
-//       sourcePaymasterAddress,
-//     });
-    
-//     enhancedConfig = {
-//       ...enhancedConfig,
-//       sourcePaymaster: createSourcePaymaster(sourcePaymasterAddress as Address),
-//     };
-//   }
-
-//   return enhancedConfig;
-// }
-
-// /**
-//  * Build EIL payload for multi-chain USDC transfer plan
-//  * 
-//  * This creates a CrossChainBuilder with batches for each chain in the plan.
-//  * Each batch contains a TransferAction to send USDC to the destination address.
-//  * 
-//  * **Gas Sponsorship Scenario:**
-//  * EIL can handle cases where the user has no native token (gas) on a destination chain:
-//  * 1. **Paymaster Sponsorship**: EIL paymasters can sponsor gas fees for UserOperations.
-//  *    The paymaster on the destination chain (e.g., Base) can pay for gas even if the
-//  *    user has no ETH on that chain. Payment can be made in tokens (USDC) or through vouchers.
-//  * 
-//  * 2. **Voucher System**: EIL can use vouchers to move native tokens (ETH) from one chain
-//  *    to another, then use that ETH for gas on the destination chain.
-//  * 
-//  * Example scenario:
-//  * - User has ETH only on Ethereum L1, none on Base
-//  * - Plan: Send 200 USDC on L1, 150 USDC on Base
-//  * - Solution: EIL paymaster on Base sponsors the Base transaction gas
-//  * 
-//  * @param plan - The multi-chain plan with legs for each chain
-//  * @param fromAddress - Source wallet address
-//  * @param toAddress - Destination wallet address
-//  * @param networkEnv - EIL NetworkEnvironment (must be initialized with chains)
-//  * @returns EIL payload with builder and batch information
-//  */
-// export async function buildEILPayload(
-//   plan: SplitPlan,
-//   fromAddress: AppAddress,
-//   toAddress: AppAddress,
-//   networkEnv: NetworkEnvironment
-// ): Promise<EILPayload> {
-//   logger.info("Building EIL payload for multi-chain USDC transfer", {
-//     legsCount: plan.legs.length,
-//     totalAmount: plan.totalAmount.toString(),
-//     fromAddress,
-//     toAddress,
-//   });
-
-//   // Ensure paymaster configuration is present
-//   // This will add paymaster addresses and sourcePaymaster if they're missing
-//   const enhancedConfig = ensurePaymasterConfig(networkEnv.input);
-  
-//   // Check if config was actually enhanced (sourcePaymaster added or ChainInfo updated)
-//   const wasEnhanced = 
-//     (!networkEnv.input.sourcePaymaster && enhancedConfig.sourcePaymaster) ||
-//     enhancedConfig.chainInfos.some((chainInfo, idx) => {
-//       const original = networkEnv.input.chainInfos[idx];
-//       return !original?.paymasterAddress && chainInfo.paymasterAddress;
-//     });
-  
-//   // If config was enhanced, create a new NetworkEnvironment
-//   let finalNetworkEnv = networkEnv;
-//   if (wasEnhanced) {
-//     logger.info("Paymaster configuration was enhanced, creating new NetworkEnvironment", {
-//       sourcePaymasterAdded: !!enhancedConfig.sourcePaymaster && !networkEnv.input.sourcePaymaster,
-//       chainsWithPaymaster: enhancedConfig.chainInfos.filter(c => c.paymasterAddress).length,
-//     });
-//     finalNetworkEnv = new NetworkEnvironment(enhancedConfig);
-//   }
-
-//   // Create CrossChainBuilder
-//   const builder = new CrossChainBuilder(finalNetworkEnv);
-
-//   // Create USDC token
-//   const usdcToken = createUsdcToken(finalNetworkEnv);
-
-//   const batches: EILPayload["batches"] = [];
-
-//   // Create a batch for each leg in the plan
-//   for (const leg of plan.legs) {
-//     const chainId = toEilChainId(leg.chainId);
-//     const chain = CHAINS[leg.chainId];
-
-//     logger.debug("Creating batch for chain", {
-//       chainId: leg.chainId,
-//       chainName: chain.name,
-//       amount: leg.amountUsdc.toString(),
-//     });
-
-//     // Start a new batch for this chain
-//     // Note: EIL paymaster (configured in NetworkEnvironment) will automatically
-//     // sponsor gas fees for this batch if the user has no native token on this chain.
-//     // The paymaster can accept payment in tokens (USDC) or through vouchers.
-//     const batch = builder.startBatch(chainId);
-
-//     // Create transfer action for USDC
-//     const transferAction = new TransferAction({
-//       token: usdcToken,
-//       recipient: toAddress as Address,
-//       amount: leg.amountUsdc,
-//     });
-
-//     // Add the transfer action to the batch
-//     // When built, EIL will create a UserOperation with paymaster sponsorship
-//     // if the user lacks native token balance on this chain
-//     batch.addAction(transferAction);
-
-//     batches.push({
-//       chainId: leg.chainId,
-//       chainName: chain.name,
-//       actions: [
-//         {
-//           type: "transfer",
-//           token: "USDC",
-//           recipient: toAddress as Address,
-//           amount: leg.amountUsdc.toString(),
-//         },
-//       ],
-//     });
-
-//     // End the batch (returns to the builder)
-//     batch.endBatch();
-//   }
-
-//   logger.success("EIL payload built successfully", {
-//     batchesCount: batches.length,
-//     totalAmount: plan.totalAmount.toString(),
-//   });
-
-//   return {
-//     builder,
-//     batches,
-//   };
-// }
-
-// /**
-//  * Get UserOperations to sign from the EIL builder
-//  * This returns the UserOperations that need to be signed by the wallet
-//  * 
-//  * @param builder - The CrossChainBuilder with all batches configured
-//  * @returns Array of UserOperations to sign
-//  */
-// export async function getEILUserOpsToSign(
-//   builder: CrossChainBuilder
-// ): Promise<any[]> {
-//   logger.info("Getting UserOperations to sign from EIL builder");
-  
-//   try {
-//     const userOps = await builder.getUserOpsToSign();
-//     logger.success("UserOperations retrieved", {
-//       count: userOps.length,
-//     });
-//     return userOps;
-//   } catch (error) {
-//     logger.error("Failed to get UserOperations", error);
-//     throw error;
-//   }
-// }
-
-// /**
-//  * Build and sign the EIL payload
-//  * This creates a CrossChainExecutor ready for execution
-//  * 
-//  * Note: This requires the builder to have a smart account configured
-//  * 
-//  * @param builder - The CrossChainBuilder with all batches configured
-//  * @returns CrossChainExecutor ready for execution
-//  */
-// export async function buildAndSignEILPayload(
-//   builder: CrossChainBuilder
-// ): Promise<any> {
-//   logger.info("Building and signing EIL payload");
-  
-//   try {
-//     const executor = await builder.buildAndSign();
-//     logger.success("EIL payload built and signed successfully");
-//     return executor;
-//   } catch (error) {
-//     logger.error("Failed to build and sign EIL payload", error);
-//     throw error;
-//   }
-// }
+import { randomUUID } from "crypto";
+import {
+  CallbackType,
+  CrossChainBuilder,
+  CrossChainSdk,
+  getUserOpHash,
+  TransferAction,
+  MultichainToken,
+  NetworkEnvironment,
+  defaultCrossChainConfig,
+  type CrossChainConfig,
+  type ChainInfo,
+  type CrossChainExecutor,
+  type UserOperation,
+} from "@eil-protocol/sdk";
+import { MultiChainSmartAccount } from "@eil-protocol/accounts";
+import { createPublicClient, fallback, http, recoverAddress, type Address, type Hex } from "viem";
+import { toAccount } from "viem/accounts";
+import type { PaymasterActions, GetPaymasterDataParameters, GetPaymasterDataReturnType, GetPaymasterStubDataParameters, GetPaymasterStubDataReturnType } from "viem/account-abstraction";
+import { CHAINS } from "../setup/chains.js";
+import type { ChainId, CrossChainPlan } from "../setup/types.js";
+import { logger } from "../setup/logger.js";
+import { findChainToken } from "./orchestrator.js";
+import { toRpcUserOperation } from "./user-operations.js";
+import { EIL_FEE_CONFIG, loadEILDeployments, getEILDeploymentForChain, type EILDeployment } from "./eil-deployments.js";
+
+/**
+ * EIL Payload structure for a cross-chain transfer
+ */
+export interface EILPayload {
+  builder: CrossChainBuilder;
+  batches: Array<{
+    chainId: number;
+    chainName: string;
+    actions: Array<
+      | { type: "voucherRequest"; ref: string; token: string; destinationChainId: number; amount: string }
+      | { type: "useVouchers" }
+      | { type: "transfer"; token: string; recipient: Address; amount: string }
+    >;
+  }>;
+}
+
+/**
+ * Create a MultichainToken for a token symbol based on configured chains
+ */
+function createMultichainToken(tokenSymbol: string, networkEnv: NetworkEnvironment): MultichainToken {
+  // Convert to AddressPerChain format (array of [chainId, address] tuples)
+  const addressPerChain: [bigint, Address][] = [];
+
+  for (const [chainIdStr, chain] of Object.entries(CHAINS)) {
+    const token = findChainToken(chain, tokenSymbol);
+    if (token) {
+      addressPerChain.push([BigInt(chainIdStr), token.address as Address]);
+    }
+  }
+
+  return new MultichainToken(tokenSymbol, networkEnv.chains, addressPerChain);
+}
+
+/**
+ * Convert our ChainId to EIL's expected format (bigint)
+ */
+function toEilChainId(chainId: ChainId): bigint {
+  return BigInt(chainId);
+}
+
+/**
+ * PaymasterActions for batches that redeem no vouchers (the source chains): the EIL sourcePaymaster
+ * deployed on the operation's own chain sponsors it
+ */
+function createSourcePaymaster(deployments: EILDeployment[]): PaymasterActions {
+  const getPaymasterStubData = async (
+    parameters: GetPaymasterStubDataParameters
+  ): Promise<GetPaymasterStubDataReturnType> => {
+    const chainId = Number(parameters.chainId);
+    const address = deployments.find((d) => Number(d.chainId) === chainId)?.sourcePaymaster;
+    if (!address) {
+      throw new Error(`No EIL sourcePaymaster deployed on chain ${chainId}`);
+    }
+    return {
+      paymaster: address as Address,
+      paymasterVerificationGasLimit: 50000n,
+      paymasterPostOpGasLimit: 0n,
+      paymasterData: '0x' as `0x${string}`,
+    };
+  };
+
+  return {
+    async getPaymasterData(parameters: GetPaymasterDataParameters): Promise<GetPaymasterDataReturnType> {
+      return getPaymasterStubData(parameters);
+    },
+    getPaymasterStubData,
+  };
+}
+
+/**
+ * Ensure paymaster configuration is present in CrossChainConfig
+ * If sourcePaymaster is missing, it will be added using each chain's EIL deployment
+ * If ChainInfo entries are missing paymasterAddress, they will be updated
+ *
+ * @param config - The CrossChainConfig to enhance
+ * @returns Enhanced CrossChainConfig with paymaster configuration
+ */
+export function ensurePaymasterConfig(config: CrossChainConfig): CrossChainConfig {
+  const deployments = loadEILDeployments();
+
+  // Enhance ChainInfo entries with paymaster addresses if missing
+  const enhancedChainInfos: ChainInfo[] = config.chainInfos.map((chainInfo) => {
+    // If paymasterAddress is missing or zero address, add it
+    if (!chainInfo.paymasterAddress || chainInfo.paymasterAddress === "0x0000000000000000000000000000000000000000") {
+      const deployment = getEILDeploymentForChain(Number(chainInfo.chainId));
+
+      if (deployment?.paymaster) {
+        logger.info("Adding paymaster address to ChainInfo", {
+          chainId: chainInfo.chainId.toString(),
+          paymasterAddress: deployment.paymaster,
+        });
+
+        return {
+          ...chainInfo,
+          paymasterAddress: deployment.paymaster as Address,
+          // Also update entryPoint if missing
+          entryPointAddress: chainInfo.entryPointAddress || (deployment.entryPoint as Address | undefined),
+          // Update bundlerUrl if missing
+          bundlerUrl: chainInfo.bundlerUrl || deployment.bundlerUrl,
+        };
+      }
+    }
+
+    return chainInfo;
+  });
+
+  if (config.sourcePaymaster || !deployments.some((d) => d.sourcePaymaster)) {
+    return { ...config, chainInfos: enhancedChainInfos };
+  }
+
+  logger.info("Adding sourcePaymaster to CrossChainConfig", {
+    sourcePaymasters: Object.fromEntries(deployments.map((d) => [d.chainId, d.sourcePaymaster ?? null])),
+  });
+
+  return {
+    ...config,
+    chainInfos: enhancedChainInfos,
+    sourcePaymaster: createSourcePaymaster(deployments),
+  };
+}
+
+/**
+ * Create the EIL CrossChainConfig for the configured chains that have an EIL deployment.
+ * Chains are read through our own RPC URLs; contract addresses come from the EIL deployments
+ * (see loadEILDeployments, which EIL_DEPLOYMENT_FILE can point at a local stand-in).
+ * Vouchers offer liquidity providers the fees of EIL_FEE_CONFIG.
+ */
+export function createEILConfig(): CrossChainConfig {
+  const chainInfos: ChainInfo[] = [];
+
+  for (const [chainIdStr, chain] of Object.entries(CHAINS)) {
+    const deployment = getEILDeploymentForChain(Number(chainIdStr));
+    if (!deployment) {
+      continue;
+    }
+    const rpcUrls = chain.rpcUrls.length > 0 ? chain.rpcUrls : deployment.nodeUrl ? [deployment.nodeUrl] : [];
+    if (rpcUrls.length === 0) {
+      logger.warn("No RPC URL for EIL chain, skipping", { chainId: chainIdStr });
+      continue;
+    }
+    chainInfos.push({
+      chainId: BigInt(chainIdStr),
+      // Fails over between the chain's RPC URLs like the ethers provider pool
+      publicClient: createPublicClient({ transport: fallback(rpcUrls.map((url) => http(url))) }),
+      bundlerUrl: deployment.bundlerUrl,
+      paymasterAddress: deployment.paymaster as Address,
+      entryPointAddress: deployment.entryPoint as Address | undefined,
+    });
+  }
+
+  return ensurePaymasterConfig({
+    ...defaultCrossChainConfig,
+    chainInfos,
+    feeConfig: EIL_FEE_CONFIG,
+  });
+}
+
+/**
+ * Create the EIL NetworkEnvironment for the configured chains that have an EIL deployment (see createEILConfig)
+ */
+export function createEILNetworkEnvironment(): NetworkEnvironment {
+  return new NetworkEnvironment(createEILConfig());
+}
+
+/**
+ * Batches of a plan that moves funds through EIL vouchers (a cross-chain send or a rebalance)
+ */
+export type EILBatchPlan = Pick<CrossChainPlan, "tokenSymbol" | "batches">;
+
+/**
+ * Build EIL payload for a cross-chain plan
+ *
+ * This creates a CrossChainBuilder with one batch per chain in the plan:
+ * - each source chain's batch requests a voucher that moves its share to the destination chain
+ * - the destination batch redeems all vouchers and transfers the full amount to the recipient
+ *   (a rebalance's destination batches only redeem, which leaves the funds in the account)
+ *
+ * **Gas Sponsorship Scenario:**
+ * EIL paymasters sponsor the UserOperations, so the sender needs no native token (gas) on the
+ * chains involved. On the destination chain the paymaster is paid out of the vouchers.
+ *
+ * @param plan - The cross-chain or rebalance plan (see buildCrossChainUsdcPlan, planRebalance)
+ * @param networkEnv - EIL NetworkEnvironment (see createEILNetworkEnvironment)
+ * @returns EIL payload with builder and batch information
+ */
+export function buildEILPayload(
+  plan: EILBatchPlan,
+  networkEnv: NetworkEnvironment
+): EILPayload {
+  logger.info("Building EIL payload for cross-chain transfer", {
+    batchesCount: plan.batches.length,
+    chains: plan.batches.map(b => b.chainId),
+    tokenSymbol: plan.tokenSymbol,
+  });
+
+  const builder = new CrossChainBuilder(networkEnv);
+  const token = createMultichainToken(plan.tokenSymbol, networkEnv);
+
+  const batches: EILPayload["batches"] = [];
+
+  for (const planBatch of plan.batches) {
+    const chainId = toEilChainId(planBatch.chainId);
+
+    logger.debug("Creating batch for chain", {
+      chainId: planBatch.chainId,
+      chainName: CHAINS[planBatch.chainId].name,
+      actions: planBatch.actions.map(a => a.type),
+    });
+
+    const batch = builder.startBatch(chainId);
+    const actions: EILPayload["batches"][number]["actions"] = [];
+
+    for (const action of planBatch.actions) {
+      if (action.type === "voucherRequest") {
+        const ref = `${plan.tokenSymbol}:${planBatch.chainId}->${action.destinationChainId}`;
+        batch.addVoucherRequest({
+          ref,
+          destinationChainId: toEilChainId(action.destinationChainId),
+          tokens: [{ token, amount: action.amount }],
+        });
+        actions.push({
+          type: "voucherRequest",
+          ref,
+          token: plan.tokenSymbol,
+          destinationChainId: action.destinationChainId,
+          amount: action.amount.toString(),
+        });
+      } else if (action.type === "useVouchers") {
+        batch.useAllVouchers();
+        actions.push({ type: "useVouchers" });
+      } else {
+        batch.addAction(new TransferAction({
+          token,
+          recipient: action.recipient,
+          amount: action.amount,
+        }));
+        actions.push({
+          type: "transfer",
+          token: plan.tokenSymbol,
+          recipient: action.recipient,
+          amount: action.amount.toString(),
+        });
+      }
+    }
+
+    batch.endBatch();
+
+    batches.push({
+      chainId: planBatch.chainId,
+      chainName: CHAINS[planBatch.chainId].name,
+      actions,
+    });
+  }
+
+  logger.success("EIL payload built successfully", {
+    batchesCount: batches.length,
+  });
+
+  return {
+    builder,
+    batches,
+  };
+}
+
+/**
+ * Get UserOperations to sign from the EIL builder
+ * This returns the UserOperations that need to be signed by the wallet
+ *
+ * Note: This requires the builder to have a smart account configured (builder.useAccount)
+ *
+ * @param builder - The CrossChainBuilder with all batches configured
+ * @returns Array of UserOperations to sign
+ */
+export async function getEILUserOpsToSign(
+  builder: CrossChainBuilder
+): Promise<UserOperation[]> {
+  logger.info("Getting UserOperations to sign from EIL builder");
+
+  try {
+    const userOps = await builder.getUserOpsToSign();
+    logger.success("UserOperations retrieved", {
+      count: userOps.length,
+    });
+    return userOps;
+  } catch (error) {
+    logger.error("Failed to get UserOperations", error);
+    throw error;
+  }
+}
+
+/**
+ * Build and sign the EIL payload
+ * This creates a CrossChainExecutor ready for execution
+ *
+ * Note: This requires the builder to have a smart account configured
+ *
+ * @param builder - The CrossChainBuilder with all batches configured
+ * @returns CrossChainExecutor ready for execution
+ */
+export async function buildAndSignEILPayload(
+  builder: CrossChainBuilder
+): Promise<Awaited<ReturnType<CrossChainBuilder["buildAndSign"]>>> {
+  logger.info("Building and signing EIL payload");
+
+  try {
+    const executor = await builder.buildAndSign();
+    logger.success("EIL payload built and signed successfully");
+    return executor;
+  } catch (error) {
+    logger.error("Failed to build and sign EIL payload", error);
+    throw error;
+  }
+}
+
+// How long a cross-chain session waits for the wallet's signatures before it is dropped
+const CROSSCHAIN_SESSION_TTL_MS = Number(process.env.CROSSCHAIN_SESSION_TTL_MS) || 10 * 60 * 1000;
+
+export class CrossChainSessionNotFoundError extends Error {}
+export class CrossChainSignatureError extends Error {}
+
+/**
+ * One UserOperation of a cross-chain session, as the wallet signs it
+ */
+export interface CrossChainUserOp {
+  chainId: ChainId;
+  entryPoint: Address;
+  userOperation: Record<string, string>;  // bundler JSON-RPC format, unsigned
+  userOpHash: Hex;                        // what the owner signs (EIP-712 digest, signed without a message prefix)
+}
+
+/**
+ * A cross-chain plan built into UserOperations, waiting for the owner's signatures (see executeCrossChainSession)
+ */
+export interface CrossChainSession {
+  sessionId: string;
+  owner: Address;
+  smartAccount: Address;
+  userOps: CrossChainUserOp[];
+  expiresAt: Date;
+}
+
+/**
+ * Outcome of one session UserOperation once execution stopped
+ */
+export interface CrossChainOpResult {
+  chainId: ChainId;
+  userOpHash: Hex;
+  status: "done" | "failed" | "pending";
+  txHash?: Hex;
+  revertReason?: string;
+}
+
+interface PendingSession {
+  session: CrossChainSession;
+  sign: (signatures: Hex[]) => void;
+  cancel: (error: Error) => void;
+  executor: Promise<CrossChainExecutor>;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const pendingSessions = new Map<string, PendingSession>();
+
+/**
+ * Multichain account whose owner signs in the wallet: signUserOps hands the operations over
+ * and waits for the signatures the wallet sends back
+ */
+class WalletSignedAccount extends MultiChainSmartAccount {
+  constructor(
+    account: MultiChainSmartAccount,
+    sdk: CrossChainSdk,
+    private readonly requestSignatures: (userOps: UserOperation[]) => Promise<Hex[]>
+  ) {
+    super(account.owner, sdk, [...account.accounts.values()]);
+  }
+
+  override async signUserOps(userOps: UserOperation[]): Promise<UserOperation[]> {
+    const signatures = await this.requestSignatures(userOps);
+    return userOps.map((userOp, index) => ({ ...userOp, signature: signatures[index] }));
+  }
+}
+
+/**
+ * The owner's multichain smart account (SimpleAccount on every EIL chain, same address everywhere).
+ * The backend never holds the owner's key: signing goes through a cross-chain session.
+ */
+export async function createCrossChainAccount(owner: Address): Promise<{ sdk: CrossChainSdk; account: MultiChainSmartAccount }> {
+  const signedInWallet = async (): Promise<never> => {
+    throw new Error("The owner signs in the wallet, through a cross-chain session");
+  };
+  const sdk = new CrossChainSdk(createEILConfig());
+  const account = await MultiChainSmartAccount.create(
+    toAccount({ address: owner, signMessage: signedInWallet, signTransaction: signedInWallet, signTypedData: signedInWallet }),
+    sdk
+  );
+  return { sdk, account };
+}
+
+/**
+ * Build a cross-chain plan into UserOperations for the wallet to sign.
+ *
+ * The EIL builder runs until it needs the owner's signatures and then waits; executeCrossChainSession
+ * hands them over and runs the operations. Sessions are dropped after CROSSCHAIN_SESSION_TTL_MS.
+ *
+ * @param plan - The cross-chain or rebalance plan, planned for the account's address (see buildCrossChainUsdcPlan, planRebalance)
+ * @param crossChainAccount - The owner's account (see createCrossChainAccount)
+ */
+export async function startCrossChainSession(
+  plan: EILBatchPlan,
+  { sdk, account }: { sdk: CrossChainSdk; account: MultiChainSmartAccount }
+): Promise<CrossChainSession> {
+  const { builder } = buildEILPayload(plan, sdk.getNetworkEnv());
+
+  let sign!: (signatures: Hex[]) => void;
+  let cancel!: (error: Error) => void;
+  const signatures = new Promise<Hex[]>((resolve, reject) => {
+    sign = resolve;
+    cancel = reject;
+  });
+  let handOver!: (userOps: UserOperation[]) => void;
+  const userOpsToSign = new Promise<UserOperation[]>((resolve) => {
+    handOver = resolve;
+  });
+
+  builder.useAccount(new WalletSignedAccount(account, sdk, (userOps) => {
+    handOver(userOps);
+    return signatures;
+  }));
+  const executor = builder.buildAndSign();
+  executor.catch((error) => {
+    logger.debug("Cross-chain session ended without executing", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
+
+  const userOps = await Promise.race([
+    userOpsToSign,
+    executor.then((): never => {
+      throw new Error("EIL builder finished without asking for signatures");
+    }),
+  ]);
+
+  const session: CrossChainSession = {
+    sessionId: randomUUID(),
+    owner: account.owner.address,
+    smartAccount: account.addressOn(BigInt(plan.batches[0]!.chainId)),
+    userOps: userOps.map((userOp) => ({
+      chainId: Number(userOp.chainId) as ChainId,
+      entryPoint: userOp.entryPointAddress!,
+      userOperation: toRpcUserOperation(userOp),
+      userOpHash: getUserOpHash(userOp),
+    })),
+    expiresAt: new Date(Date.now() + CROSSCHAIN_SESSION_TTL_MS),
+  };
+
+  const timer = setTimeout(() => {
+    pendingSessions.delete(session.sessionId);
+    cancel(new Error("Cross-chain session expired"));
+  }, CROSSCHAIN_SESSION_TTL_MS);
+  timer.unref();
+  pendingSessions.set(session.sessionId, { session, sign, cancel, executor, timer });
+
+  logger.info("Cross-chain session waiting for signatures", {
+    sessionId: session.sessionId,
+    smartAccount: session.smartAccount,
+    userOps: session.userOps.map((op) => ({ chainId: op.chainId, userOpHash: op.userOpHash })),
+  });
+
+  return session;
+}
+
+/**
+ * Sign and execute a cross-chain session's UserOperations.
+ * Each signature must be the owner's signature over the matching userOpHash, in the session's order.
+ * Execution waits for the vouchers between chains and stops when every operation finished or timed out.
+ *
+ * @throws CrossChainSessionNotFoundError when the session doesn't exist, expired or already ran
+ * @throws CrossChainSignatureError when a signature is missing or not the owner's
+ */
+export async function executeCrossChainSession(sessionId: string, signatures: Hex[]): Promise<CrossChainOpResult[]> {
+  const pending = pendingSessions.get(sessionId);
+  if (!pending) {
+    throw new CrossChainSessionNotFoundError(`Cross-chain session ${sessionId} not found or expired`);
+  }
+  const { session } = pending;
+  if (signatures.length !== session.userOps.length) {
+    throw new CrossChainSignatureError(`Expected ${session.userOps.length} signatures, got ${signatures.length}`);
+  }
+  for (const [index, op] of session.userOps.entries()) {
+    let signer: Address;
+    try {
+      signer = await recoverAddress({ hash: op.userOpHash, signature: signatures[index] });
+    } catch {
+      throw new CrossChainSignatureError(`Signature ${index} is malformed`);
+    }
+    if (signer.toLowerCase() !== session.owner.toLowerCase()) {
+      throw new CrossChainSignatureError(`Signature ${index} is not the owner's signature of UserOperation ${op.userOpHash}`);
+    }
+  }
+
+  // A session runs once
+  pendingSessions.delete(sessionId);
+  clearTimeout(pending.timer);
+  pending.sign(signatures);
+  const executor = await pending.executor;
+
+  const results: CrossChainOpResult[] = session.userOps.map((op) => ({
+    chainId: op.chainId,
+    userOpHash: op.userOpHash,
+    status: "pending",
+  }));
+  try {
+    await executor.execute((event) => {
+      const result = results[event.index];
+      if (event.type === CallbackType.Done || event.type === CallbackType.Failed) {
+        result.status = event.type;
+      }
+      result.txHash = event.txHash ?? result.txHash;
+      if (event.revertReason !== undefined) {
+        result.revertReason = event.revertReason instanceof Error ? event.revertReason.message : String(event.revertReason);
+      }
+    });
+  } catch (error) {
+    // Timed out waiting for vouchers or receipts; operations still pending are reported as such
+    logger.warn("Cross-chain session stopped before every UserOperation finished", {
+      sessionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  logger.info("Cross-chain session executed", { sessionId, results });
+  return results;
+}
@@ -0,0 +1,94 @@
+import { readFileSync } from "fs";
+import { fileURLToPath } from "url";
+import { dirname, join } from "path";
+import type { FeeConfig } from "@eil-protocol/sdk";
+import { logger } from "../setup/logger.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * EIL contracts deployed on one chain (entry of the SDK's deployment.json)
+ */
+export interface EILDeployment {
+  chainId: number;
+  nodeUrl?: string;
+  bundlerUrl?: string;
+  paymaster: string;
+  sourcePaymaster?: string;
+  entryPoint?: string;
+  accountFactory?: string;
+}
+
+let cachedDeployments: EILDeployment[] | null = null;
+
+/**
+ * Load EIL deployment addresses.
+ *
+ * EIL_DEPLOYMENT_FILE takes precedence, so a local stand-in for the paymaster/voucher
+ * contracts (e.g. deployed on anvil forks) can replace the public deployments.
+ * Otherwise deployment.json is read from the SDK package:
+ * node_modules/@eil-protocol/sdk/dist/assets/deployment.json
+ */
+export function loadEILDeployments(): EILDeployment[] {
+  if (cachedDeployments) {
+    return cachedDeployments;
+  }
+
+  const possiblePaths = [
+    ...(process.env.EIL_DEPLOYMENT_FILE ? [process.env.EIL_DEPLOYMENT_FILE] : []),
+    // From source directory (development)
+    join(__dirname, "../../node_modules/@eil-protocol/sdk/dist/assets/deployment.json"),
+    // From dist directory (after build)
+    join(__dirname, "../node_modules/@eil-protocol/sdk/dist/assets/deployment.json"),
+    // Relative to project root
+    join(process.cwd(), "node_modules/@eil-protocol/sdk/dist/assets/deployment.json"),
+  ];
+
+  for (const deploymentPath of possiblePaths) {
+    try {
+      const parsed = JSON.parse(readFileSync(deploymentPath, "utf-8")) as EILDeployment[];
+      logger.info("Loaded EIL deployments", {
+        path: deploymentPath,
+        chainsCount: parsed.length,
+      });
+      cachedDeployments = parsed;
+      return parsed;
+    } catch (error) {
+      // Try next path
+      continue;
+    }
+  }
+
+  logger.warn("No EIL deployment file found, cross-chain plans are unavailable");
+  cachedDeployments = [];
+  return cachedDeployments;
+}
+
+/**
+ * Get EIL deployment info for a specific chain, or null if EIL isn't deployed there
+ */
+export function getEILDeploymentForChain(chainId: number): EILDeployment | null {
+  return loadEILDeployments().find((d) => Number(d.chainId) === chainId) ?? null;
+}
+
+/**
+ * Fee liquidity providers are offered for each voucher, as a percentage of the amount it moves:
+ * it starts at EIL_START_FEE_PERCENT and grows by EIL_FEE_INCREASE_PER_SECOND until a provider
+ * takes the voucher, up to EIL_MAX_FEE_PERCENT
+ */
+export const EIL_FEE_CONFIG: FeeConfig = {
+  startFeePercent: Number(process.env.EIL_START_FEE_PERCENT) || 0.05,
+  maxFeePercent: Number(process.env.EIL_MAX_FEE_PERCENT) || 0.5,
+  feeIncreasePerSecond: Number(process.env.EIL_FEE_INCREASE_PER_SECOND) || 0.01,
+  unspentVoucherFeePercent: 0,
+};
+
+/**
+ * Worst-case liquidity provider fee of a voucher moving `amount` (same unit as `amount`, rounded up)
+ */
+export function getEILMaxVoucherFee(amount: bigint): bigint {
+  // The voucher's fee rule carries percentages as numerators over 1,000,000 (percent * 10,000)
+  const numerator = BigInt(Math.round(EIL_FEE_CONFIG.maxFeePercent * 10_000));
+  return (amount * numerator + 999_999n) / 1_000_000n;
+}
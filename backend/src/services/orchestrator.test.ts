@@ -0,0 +1,321 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { writeFileSync } from "fs";
+import type { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { decodeFunctionData, encodeAbiParameters, getAddress, parseAbi } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { formatUserOperationRequest, getUserOperationHash } from "viem/account-abstraction";
+import { CHAINS } from "../setup/chains.js";
+import { providers } from "../setup/providers.js";
+import type { RpcPoolProvider } from "../setup/rpc-pool.js";
+import { NATIVE_TOKEN_ADDRESS, type Address, type ChainConfig, type TokenConfig } from "../setup/types.js";
+import { setCachedBalance } from "./balance-cache.js";
+import { buildBatchPayoutPlan, buildSponsoredUsdcPlan, getTokenPlanDecimals, planRebalance, planUsdcSend, scaleAmount } from "./orchestrator.js";
+import { setPriceOracle, StaticPriceOracle } from "./price-oracle.js";
+import { createLocalBundlerServer, handleRpc } from "../scripts/local-bundler.js";
+import { revalidateQuote } from "./quotes.js";
+import { serializeLeg } from "../utils/serialize-plan-leg.js";
+
+// EIL is deployed on chains 1 and 2 only
+const EIL_DEPLOYMENT_FILE = join(tmpdir(), `eil-deployments-${process.pid}.json`);
+writeFileSync(EIL_DEPLOYMENT_FILE, JSON.stringify([1, 2].map((chainId) => ({ chainId, paymaster: `0x${"e".repeat(39)}${chainId}` }))));
+process.env.EIL_DEPLOYMENT_FILE = EIL_DEPLOYMENT_FILE;
+process.env.PRICE_ORACLE = "static";
+process.env.PRICE_USD_USDC = "1";
+
+const original = { ...CHAINS };
+const HEAD_BLOCK = 100;
+const WALLET: Address = "0x00000000000000000000000000000000000000a1";
+const gwei = (value: number) => BigInt(value) * 1_000_000_000n;
+
+function chain(id: number, tokens: ChainConfig["commonTokens"]): ChainConfig {
+  return {
+    id,
+    name: `Chain ${id}`,
+    rpcUrl: "",
+    rpcUrls: [],
+    native: { symbol: "ETH", decimals: 18, address: NATIVE_TOKEN_ADDRESS, isNative: true },
+    commonTokens: tokens,
+    minNativeBalance: 0n,
+    nativePrice: { type: "fixed", priceUsd: 3000 },
+  };
+}
+
+function setChains(chains: ChainConfig[]): void {
+  for (const key of Object.keys(CHAINS)) {
+    delete CHAINS[Number(key)];
+  }
+  for (const cfg of chains) {
+    CHAINS[cfg.id] = cfg;
+  }
+}
+
+/**
+ * Provider answering what planning asks: the head block, gas (by ERC-20 transfer recipient) and fee history
+ */
+function fakeProvider(options: { baseFee: bigint; transferGas: (recipient: string) => bigint }): RpcPoolProvider {
+  return {
+    getBlockNumber: async () => HEAD_BLOCK,
+    estimateGas: async (tx: { data: string }) => options.transferGas("0x" + tx.data.slice(34, 74)),
+    send: async (method: string) => {
+      assert.equal(method, "eth_feeHistory");
+      return { baseFeePerGas: ["0x" + options.baseFee.toString(16)], reward: [["0x0", "0x" + gwei(1).toString(16), "0x0"]] };
+    },
+  } as unknown as RpcPoolProvider;
+}
+
+function setBalance(chainId: number, token: TokenConfig, balance: bigint, wallet: Address = WALLET): void {
+  setCachedBalance({
+    chainId,
+    wallet,
+    token: token.address,
+    balance,
+    blockNumber: HEAD_BLOCK,
+    fetchedAt: Date.now(),
+  });
+}
+
+afterEach(() => {
+  setChains(Object.values(original));
+  for (const id of [1, 2]) {
+    delete providers[id];
+  }
+});
+
+test("scaleAmount scales up exactly and rounds down when reducing precision", () => {
+  assert.equal(scaleAmount(1_234_567n, 6, 6), 1_234_567n);
+  assert.equal(scaleAmount(1_234_567n, 6, 18), 1_234_567_000_000_000_000n);
+  assert.equal(scaleAmount(1_999_999_999_999_999_999n, 18, 6), 1_999_999n);
+  assert.equal(scaleAmount(999n, 6, 3), 0n);
+});
+
+test("getTokenPlanDecimals takes the smallest decimals across chains", () => {
+  setChains([
+    chain(1, { USDC: { symbol: "USDC", decimals: 6, address: "0x1111111111111111111111111111111111111111" } }),
+    chain(2, { USDC: { symbol: "USDC", decimals: 18, address: "0x2222222222222222222222222222222222222222" } }),
+    chain(3, {}),
+  ]);
+  assert.equal(getTokenPlanDecimals("USDC"), 6);
+});
+
+test("getTokenPlanDecimals covers native tokens and unknown symbols", () => {
+  setChains([chain(1, {}), chain(2, {})]);
+  assert.equal(getTokenPlanDecimals("ETH"), 18);
+  assert.equal(getTokenPlanDecimals("DAI"), null);
+});
+
+test("buildBatchPayoutPlan prices chains at the worst recipient and stops at their native balance", async () => {
+  const usdc = (id: number): TokenConfig => ({ symbol: "USDC", decimals: 6, address: `0x${String(id).repeat(40)}` as Address });
+  const cheap = chain(1, { USDC: usdc(1) });
+  const expensive = chain(2, { USDC: usdc(2) });
+  setChains([cheap, expensive]);
+  const newRecipient: Address = "0x00000000000000000000000000000000000000b1";
+  const knownRecipient: Address = "0x00000000000000000000000000000000000000b2";
+  const transferGas = (recipient: string) => (recipient === newRecipient ? 70_000n : 50_000n);
+  providers[1] = fakeProvider({ baseFee: gwei(1), transferGas });
+  providers[2] = fakeProvider({ baseFee: gwei(2), transferGas });
+
+  // Worst case on chain 1: 84,000 gas limit (70,000 + 20%) at 3 gwei = 0.000252 ETH a transfer; it holds gas for one
+  setBalance(1, cheap.commonTokens.USDC!, 100_000_000n);
+  setBalance(1, cheap.native, 300_000_000_000_000n);
+  setBalance(2, expensive.commonTokens.USDC!, 100_000_000n);
+  setBalance(2, expensive.native, 10n ** 18n);
+
+  const plan = await buildBatchPayoutPlan(WALLET, [
+    { recipient: knownRecipient, amount: 50_000_000n },
+    { recipient: newRecipient, amount: 40_000_000n },
+  ]);
+
+  assert.ok(plan);
+  assert.deepEqual(plan.payments.map(p => p.legs.map(l => l.chainId)), [[1], [2]]);
+  for (const payment of plan.payments) {
+    assert.equal(payment.legs[0]!.fees.gasLimit, 84_000n);
+  }
+  assert.deepEqual(
+    plan.gasChecks.map(({ chainId, nativeBalance, requiredNative, action }) => ({ chainId, nativeBalance, requiredNative, action })),
+    [{ chainId: 1, nativeBalance: 48_000_000_000_000n, requiredNative: 252_000_000_000_000n, action: "excluded" }],
+  );
+});
+
+test("buildBatchPayoutPlan pays a recipient a chain can't send to from the other chains", async () => {
+  const usdc = (id: number): TokenConfig => ({ symbol: "USDC", decimals: 6, address: `0x${String(id).repeat(40)}` as Address });
+  const cheap = chain(1, { USDC: usdc(1) });
+  const expensive = chain(2, { USDC: usdc(2) });
+  setChains([cheap, expensive]);
+  const blocked: Address = "0x00000000000000000000000000000000000000b1";
+  const other: Address = "0x00000000000000000000000000000000000000b2";
+  providers[1] = fakeProvider({
+    baseFee: gwei(1),
+    transferGas: (recipient) => {
+      if (recipient === blocked) {
+        throw new Error("execution reverted: Blacklistable: account is blacklisted");
+      }
+      return 50_000n;
+    },
+  });
+  providers[2] = fakeProvider({ baseFee: gwei(2), transferGas: () => 50_000n });
+  setBalance(1, cheap.commonTokens.USDC!, 100_000_000n);
+  setBalance(1, cheap.native, 10n ** 18n);
+  setBalance(2, expensive.commonTokens.USDC!, 100_000_000n);
+  setBalance(2, expensive.native, 10n ** 18n);
+
+  const plan = await buildBatchPayoutPlan(WALLET, [
+    { recipient: blocked, amount: 10_000_000n },
+    { recipient: other, amount: 10_000_000n },
+  ]);
+
+  assert.ok(plan);
+  assert.deepEqual(plan.payments.map(p => p.legs.map(l => l.chainId)), [[2], [1]]);
+  assert.deepEqual(plan.recipientChecks.map(({ recipient, chainId }) => ({ recipient, chainId })), [{ recipient: blocked, chainId: 1 }]);
+  assert.match(plan.recipientChecks[0]!.reason, /blacklisted/);
+});
+
+test("ERC-20 sends leave out chains short of native gas, and revalidation re-checks it", async () => {
+  const usdc = (id: number): TokenConfig => ({ symbol: "USDC", decimals: 6, address: `0x${String(id).repeat(40)}` as Address });
+  const cheap = chain(1, { USDC: usdc(1) });
+  const expensive = chain(2, { USDC: usdc(2) });
+  setChains([cheap, expensive]);
+  providers[1] = fakeProvider({ baseFee: gwei(1), transferGas: () => 50_000n });
+  providers[2] = fakeProvider({ baseFee: gwei(2), transferGas: () => 50_000n });
+  const recipient: Address = "0x00000000000000000000000000000000000000b1";
+
+  // Worst case: 60,000 gas limit (50,000 + 20%) at 3 gwei on chain 1 and 5 gwei on chain 2
+  setBalance(1, cheap.commonTokens.USDC!, 100_000_000n);
+  setBalance(1, cheap.native, 0n);
+  setBalance(2, expensive.commonTokens.USDC!, 100_000_000n);
+  setBalance(2, expensive.native, 10n ** 18n);
+
+  const plan = await planUsdcSend(WALLET, recipient, 10_000_000n);
+  assert.ok(plan?.type === "single");
+  assert.equal(plan.quote.chainId, 2);
+  assert.deepEqual(plan.quote.gasChecks, [
+    { chainId: 1, nativeBalance: 0n, requiredNative: 180_000_000_000_000n, action: "excluded", reason: "Native balance doesn't cover the leg's gas" },
+  ]);
+
+  const leg = serializeLeg(plan.quote, "USDC");
+  const quote = {
+    quoteId: "q1",
+    inputs: { sourceAddress: WALLET, destinationAddress: recipient, tokenSymbol: "USDC", amount: "10000000", decimals: 6, feeTier: "standard" as const },
+    plan: { type: "single" as const, tokenSymbol: "USDC", decimals: 6, legs: [leg], totalAmount: "10000000", totalGasCostUsdc: leg.gasCostUsdc },
+    createdAt: new Date(),
+    expiresAt: new Date(Date.now() + 60_000),
+  };
+  assert.equal((await revalidateQuote(quote)).valid, true);
+
+  setBalance(2, expensive.native, 100_000_000_000_000n);
+  const revalidation = await revalidateQuote(quote);
+  assert.equal(revalidation.valid, false);
+  assert.deepEqual(revalidation.reasons, ["Chain 2: native balance 100000000000000 doesn't cover the leg's gas of 300000000000000"]);
+});
+
+test("planRebalance moves funds through EIL vouchers and prices the liquidity provider fee", async () => {
+  const usdc = (id: number): TokenConfig => ({ symbol: "USDC", decimals: 6, address: `0x${String(id).repeat(40)}` as Address });
+  const source = chain(1, { USDC: usdc(1) });
+  const target = chain(2, { USDC: usdc(2) });
+  const withoutEIL = chain(3, { USDC: usdc(3) });
+  setChains([source, target, withoutEIL]);
+  providers[1] = fakeProvider({ baseFee: gwei(1), transferGas: () => 50_000n });
+  providers[2] = fakeProvider({ baseFee: gwei(1), transferGas: () => 50_000n });
+  setBalance(1, source.commonTokens.USDC!, 100_000_000n);
+  setBalance(2, target.commonTokens.USDC!, 0n);
+
+  const plan = await planRebalance(WALLET, { 2: 1 }, "USDC");
+
+  assert.ok(plan);
+  assert.deepEqual(plan.chains.map(c => c.chainId), [1, 2]);
+  assert.equal(plan.moves.length, 1);
+  const [move] = plan.moves;
+  assert.deepEqual({ from: move!.fromChainId, to: move!.toChainId, amount: move!.amount }, { from: 1, to: 2, amount: 100_000_000n });
+  // 0.5% worst-case fee (EIL_MAX_FEE_PERCENT default)
+  assert.equal(move!.lpFee, 500_000n);
+  assert.equal(move!.lpFeeUsdc, 500_000n);
+  assert.equal(plan.totalGasCostUsdc, move!.gasCostUsdc);
+  assert.deepEqual(plan.batches, [
+    { chainId: 1, actions: [{ type: "voucherRequest", destinationChainId: 2, amount: 100_000_000n }] },
+    { chainId: 2, actions: [{ type: "useVouchers" }] },
+  ]);
+
+  // The fee alone is above 0.1% of the value moved
+  const strict = await planRebalance(WALLET, { 2: 1 }, "USDC", { maxGasFraction: 0.001 });
+  assert.ok(strict);
+  assert.equal(strict.moves.length, 0);
+  assert.equal(strict.batches.length, 0);
+  assert.match(strict.skipped[0]!.reason, /Gas and fees of .* exceed 0.1%/);
+});
+
+test("buildSponsoredUsdcPlan sends from the owner's counterfactual account and approves the paymaster's charge in USDC", async () => {
+  const usdc: TokenConfig = { symbol: "USDC", decimals: 6, address: "0x1111111111111111111111111111111111111111" };
+  setChains([chain(1, { USDC: usdc })]);
+  const owner = privateKeyToAccount(generatePrivateKey());
+  const smartAccount = getAddress("0x00000000000000000000000000000000000000c1");
+  const recipient = getAddress("0x00000000000000000000000000000000000000b1");
+  const entryPoint = getAddress("0x0000000071727De22E5E9d8BAf0edAc6f37da032");
+  const paymaster: Address = "0x00000000000000000000000000000000000a4337";
+  // The account factory answers getAddress with the account, which has no code yet, and neither has the EntryPoint
+  providers[1] = {
+    ...fakeProvider({ baseFee: gwei(1), transferGas: () => 50_000n }),
+    getCode: async () => "0x",
+    call: async () => encodeAbiParameters([{ type: "address" }], [smartAccount]),
+  } as unknown as RpcPoolProvider;
+  setBalance(1, usdc, 100_000_000n, smartAccount);
+  // The paymaster charges in USDC, here worth $0.50
+  setPriceOracle(new StaticPriceOracle({ USDC: 0.5 }));
+
+  const bundler = createLocalBundlerServer();
+  await new Promise<void>((resolve) => bundler.listen(0, "127.0.0.1", resolve));
+  try {
+    const { port } = bundler.address() as AddressInfo;
+    const deploymentFile = join(tmpdir(), `paymaster-deployments-${process.pid}.json`);
+    writeFileSync(deploymentFile, JSON.stringify([
+      { chainId: 1, entryPoint, bundlerUrl: `http://127.0.0.1:${port}/1`, paymaster, gasToken: "USDC", markupBps: 1000 },
+    ]));
+    process.env.PAYMASTER_DEPLOYMENT_FILE = deploymentFile;
+
+    const plan = await buildSponsoredUsdcPlan(owner.address, recipient, 10_000_000n);
+    assert.ok(plan);
+    assert.equal(plan.legs.length, 1);
+    const [leg] = plan.legs;
+    const { userOperation } = leg!;
+    assert.equal(userOperation.sender, smartAccount);
+    assert.equal(userOperation.nonce, 0n);
+    assert.equal(userOperation.factory, "0x91E60e0613810449d098b0b5Ec8b51A0FE8c8985");
+    assert.ok(userOperation.factoryData?.includes(owner.address.slice(2).toLowerCase()));
+    assert.equal(userOperation.paymaster, paymaster);
+
+    // 470,000 gas at 3 gwei and $3,000 per ETH is $4.23, $4.653 with the 10% markup, or 9.306 USDC at $0.50
+    assert.equal(leg!.gasCostUsdc, 4_653_000n);
+    assert.equal(leg!.gasTokenCost, 9_306_000n);
+    assert.equal(leg!.gasTokenAddress, usdc.address);
+    assert.equal(leg!.fees.gasLimit, 470_000n);
+
+    const abi = parseAbi([
+      "function executeBatch(address[] dest, uint256[] value, bytes[] func)",
+      "function approve(address spender, uint256 value) returns (bool)",
+      "function transfer(address to, uint256 value) returns (bool)",
+    ]);
+    const batch = decodeFunctionData({ abi, data: userOperation.callData });
+    assert.equal(batch.functionName, "executeBatch");
+    const [targets, values, calls] = batch.args as readonly [readonly Address[], readonly bigint[], readonly `0x${string}`[]];
+    assert.deepEqual(targets, [usdc.address, usdc.address]);
+    assert.deepEqual(values, [0n, 0n]);
+    const approve = decodeFunctionData({ abi, data: calls[0]! });
+    assert.equal(approve.functionName, "approve");
+    assert.deepEqual(approve.args, [getAddress(paymaster), 9_306_000n]);
+    const transfer = decodeFunctionData({ abi, data: calls[1]! });
+    assert.equal(transfer.functionName, "transfer");
+    assert.deepEqual(transfer.args, [recipient, 10_000_000n]);
+
+    const userOpHash = getUserOperationHash({ userOperation, entryPointAddress: entryPoint, entryPointVersion: "0.7", chainId: 1 });
+    assert.equal(leg!.userOpHash, userOpHash);
+
+    // The owner's signature over the hash is what the bundler accepts the operation under
+    const signature = await owner.signMessage({ message: { raw: userOpHash } });
+    const sent = await handleRpc(1, "eth_sendUserOperation", [{ ...formatUserOperationRequest(userOperation), signature }, entryPoint]);
+    assert.equal(sent, userOpHash);
+  } finally {
+    bundler.close();
+    setPriceOracle(new StaticPriceOracle());
+  }
+});
@@ -1,8 +1,22 @@
-import { ChainId, Address, ChainQuote, SplitPlan, SplitLeg, UsdcSendPlan } from "../setup/types.js";
+import { ChainId, ChainConfig, Address, TokenConfig, ChainQuote, SplitPlan, SplitLeg, UsdcSendPlan, FeeTier, GasEstimate, LegFees, BatchPayment, BatchPaymentPlan, BatchPlan, CrossChainBatch, CrossChainPlan, RebalanceChainState, RebalanceMove, RebalancePlan, SkippedRebalanceMove, GasCheck, GasShortfallPolicy, RecipientCheck, SponsoredLeg, SponsoredPlan } from "../setup/types.js";
 import { CHAINS } from "../setup/chains.js";
-import { getErc20Balance } from "../handlers/get-balances.js";
-import { estimateUsdcTransferGas, gasCostInUsdc } from "../handlers/estimate-gas.js";
+import { getErc20Balance, getNativeBalance } from "../handlers/get-balances.js";
+import { estimateErc20TransferGas, estimateNativeTransferGas, getFeeTierPrices } from "../handlers/estimate-gas.js";
 import { logger } from "../setup/logger.js";
+import { solveCheapestSplit, type SplitCandidate, type SplitSolverOptions } from "./split-solver.js";
+import { getEILDeploymentForChain, getEILMaxVoucherFee } from "./eil-deployments.js";
+import { nativeValueInUsdc, usdcValueToAmount, valueInUsdc } from "./price-oracle.js";
+import { getPaymasterDeploymentForChain, type PaymasterDeployment } from "./paymaster-deployments.js";
+import {
+  buildSponsoredTransferCallData,
+  buildSponsoredUserOperation,
+  getAccountNonce,
+  getSmartAccount,
+  hashUserOperation,
+  totalUserOperationGas,
+  SIMPLE_ACCOUNT_FACTORY,
+  type SmartAccount,
+} from "./user-operations.js";
 
 /**
  * Format a BigInt amount to human-readable format with specified decimals
@@ -27,21 +41,178 @@ function formatAmount(amount: bigint, decimals: number): string {
   return `${whole}.${trimmed}`;
 }
 
-// Scenario 1: Select best single chain for USDC send
+/**
+ * Map items through `fn`, at most `concurrency` calls at a time
+ * @returns The results, in the order of `items`
+ */
+async function mapWithConcurrency<T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Find a token in a chain's commonTokens by symbol (case-insensitive)
+ * @param chain - The chain configuration
+ * @param tokenSymbol - Token symbol, e.g. "USDC", "DAI", "wCRC"
+ * @returns The token configuration, or undefined if the chain doesn't list it
+ */
+export function findChainToken(chain: ChainConfig, tokenSymbol: string): TokenConfig | undefined {
+  const wanted = tokenSymbol.toUpperCase();
+  const key = Object.keys(chain.commonTokens).find(symbol => symbol.toUpperCase() === wanted);
+  return key ? chain.commonTokens[key] : undefined;
+}
+
+/**
+ * Return the chain's native token if its symbol matches (case-insensitive)
+ * @param chain - The chain configuration
+ * @param tokenSymbol - Native token symbol, e.g. "ETH", "xDAI"
+ */
+export function findNativeToken(chain: ChainConfig, tokenSymbol: string): TokenConfig | undefined {
+  return chain.native.symbol.toUpperCase() === tokenSymbol.toUpperCase() ? chain.native : undefined;
+}
+
+/**
+ * Whether the symbol names the native token of at least one configured chain
+ */
+export function isNativeTokenSymbol(tokenSymbol: string): boolean {
+  return Object.values(CHAINS).some(cfg => findNativeToken(cfg, tokenSymbol) !== undefined);
+}
+
+/**
+ * Decimals used to express plan amounts for a token (ERC-20 or native).
+ * This is the smallest decimals value across the chains that list the token, so
+ * an amount in plan units converts exactly into every chain's own units.
+ * @returns The plan decimals, or null if no configured chain lists the token
+ */
+export function getTokenPlanDecimals(tokenSymbol: string): number | null {
+  let decimals: number | null = null;
+  for (const cfg of Object.values(CHAINS)) {
+    const token = findChainToken(cfg, tokenSymbol) ?? findNativeToken(cfg, tokenSymbol);
+    if (token && (decimals === null || token.decimals < decimals)) {
+      decimals = token.decimals;
+    }
+  }
+  return decimals;
+}
+
+export interface PlanOptions extends SplitSolverOptions {
+  // Fee tier used to price and sign every leg (default: "standard")
+  feeTier?: FeeTier;
+  // ERC-20 sends: what to do with a chain that holds the token but can't pay the gas (default and only policy: "exclude")
+  gasShortfall?: GasShortfallPolicy;
+}
+
+// Headroom added to estimated gas when setting a leg's gas limit
+const GAS_LIMIT_BUFFER_PERCENT = 20n;
+
+/**
+ * Fee parameters a leg is signed with, taken from the estimate at the chosen tier
+ */
+function buildLegFees(estimate: GasEstimate, tier: FeeTier): LegFees {
+  const { maxFeePerGas, maxPriorityFeePerGas } = estimate.feeTiers[tier];
+  return {
+    tier,
+    gasLimit: estimate.gas + (estimate.gas * GAS_LIMIT_BUFFER_PERCENT) / 100n,
+    maxFeePerGas,
+    maxPriorityFeePerGas,
+    eip1559: estimate.eip1559,
+  };
+}
+
+/**
+ * Convert an amount between decimal precisions (rounds down when reducing precision)
+ */
+export function scaleAmount(amount: bigint, fromDecimals: number, toDecimals: number): bigint {
+  if (toDecimals === fromDecimals) {
+    return amount;
+  }
+  if (toDecimals > fromDecimals) {
+    return amount * 10n ** BigInt(toDecimals - fromDecimals);
+  }
+  return amount / 10n ** BigInt(fromDecimals - toDecimals);
+}
+
+/**
+ * Worst-case native cost of a leg: gasLimit * maxFeePerGas, plus the L1 data fee OP-stack chains charge on top
+ */
+function legNativeCost(estimate: GasEstimate, fees: LegFees): bigint {
+  return fees.gasLimit * fees.maxFeePerGas + (estimate.l1FeeInGas ? 0n : estimate.l1Fee);
+}
+
+export type GasShortfall = {
+  chainId: ChainId;
+  nativeBalance: bigint;
+  requiredNative: bigint;
+};
+
+/**
+ * Check that the wallet's native balance pays for a leg's gas
+ * @returns The shortfall, or null when the balance covers the worst-case cost
+ */
+export async function checkLegGas(
+  chainId: ChainId,
+  wallet: Address,
+  estimate: GasEstimate,
+  fees: LegFees,
+): Promise<GasShortfall | null> {
+  const requiredNative = legNativeCost(estimate, fees);
+  const nativeBalance = await getNativeBalance(chainId, wallet);
+  if (nativeBalance >= requiredNative) {
+    return null;
+  }
+  logger.debug("Native balance doesn't cover leg gas", {
+    chainId,
+    nativeBalance: nativeBalance.toString(),
+    requiredNative: requiredNative.toString(),
+  });
+  return { chainId, nativeBalance, requiredNative };
+}
+
+/**
+ * Record a chain left out of a plan because it can't pay its leg's gas
+ */
+function excludeShortOfGas(shortfall: GasShortfall): GasCheck {
+  const reason = "Native balance doesn't cover the leg's gas";
+  logger.info("Chain excluded for lack of native gas", { chainId: shortfall.chainId, reason });
+  return { ...shortfall, action: "excluded", reason };
+}
+
+// Scenario 1: Select best single chain for a token send
+// `amount` is expressed in the token's plan decimals (see getTokenPlanDecimals)
 export async function selectBestSingleChainForUsdcSend(
   fromWallet: Address,
   toWallet: Address,
-  amountUsdc: bigint,
+  amount: bigint,
+  tokenSymbol: string = "USDC",
+  feeTier: FeeTier = "standard",
 ): Promise<ChainQuote | null> {
-  const amountUsdcFormatted = formatAmount(amountUsdc, 6);
-  logger.info("Starting single chain selection for USDC send", {
+  const planDecimals = getTokenPlanDecimals(tokenSymbol);
+  if (planDecimals === null) {
+    logger.warn("Token is not configured on any chain", { tokenSymbol });
+    return null;
+  }
+
+  const amountFormatted = formatAmount(amount, planDecimals);
+  logger.info("Starting single chain selection for token send", {
     fromWallet,
     toWallet,
-    amountUsdc: amountUsdc.toString(),
-    amountUsdcFormatted,
+    tokenSymbol,
+    amount: amount.toString(),
+    amountFormatted,
+    feeTier,
   });
 
   const candidates: ChainQuote[] = [];
+  // Chains whose native balance can't pay their gas
+  const checks: GasCheck[] = [];
 
   // Only iterate over chains that are actually configured in CHAINS
   for (const [chainIdStr, cfg] of Object.entries(CHAINS)) {
@@ -50,56 +221,73 @@ export async function selectBestSingleChainForUsdcSend(
       chainId: chainIdNum,
       chainName: cfg.name,
     });
-    const usdc = cfg.commonTokens.USDC;
-    if (!usdc) {
-      logger.debug("Chain has no USDC token configured", { chainId: chainIdNum });
+    const token = findChainToken(cfg, tokenSymbol);
+    if (!token) {
+      logger.debug("Chain has no such token configured", { chainId: chainIdNum, tokenSymbol });
       continue;
     }
 
-    const balance = await getErc20Balance(chainIdNum, usdc, fromWallet);
-    const balanceFormatted = formatAmount(balance, 6);
-    const amountUsdcFormatted = formatAmount(amountUsdc, 6);
+    // Express the requested amount in this chain's token units
+    const chainAmount = scaleAmount(amount, planDecimals, token.decimals);
+    const balance = await getErc20Balance(chainIdNum, token, fromWallet);
+    const balanceFormatted = formatAmount(balance, token.decimals);
     logger.debug("Balance check for chain", {
       chainId: chainIdNum,
       balance: balance.toString(),
       balanceFormatted,
-      required: amountUsdc.toString(),
-      requiredFormatted: amountUsdcFormatted,
-      sufficient: balance >= amountUsdc,
+      required: chainAmount.toString(),
+      requiredFormatted: amountFormatted,
+      sufficient: balance >= chainAmount,
     });
 
-    if (balance < amountUsdc) {
+    if (balance < chainAmount) {
       logger.debug("Insufficient balance on chain", {
         chainId: chainIdNum,
         balance: balance.toString(),
         balanceFormatted,
-        required: amountUsdc.toString(),
-        requiredFormatted: amountUsdcFormatted,
+        required: chainAmount.toString(),
+        requiredFormatted: amountFormatted,
       });
       continue;
     }
 
     try {
-      const { gas, gasPrice } = await estimateUsdcTransferGas(
+      const estimate = await estimateErc20TransferGas(
         chainIdNum,
+        token,
         fromWallet,
         toWallet,
-        amountUsdc,
+        chainAmount,
       );
-      const nativeCost = gas * gasPrice;
-      const gasCostUsdc = await gasCostInUsdc(chainIdNum, nativeCost);
+      const fees = buildLegFees(estimate, feeTier);
+      const gasCostUsdc = estimate.feeTiers[feeTier].gasCostUsdc;
       const gasCostUsdcFormatted = formatAmount(gasCostUsdc, 6);
 
       logger.success("Chain candidate found", {
         chainId: chainIdNum,
         chainName: cfg.name,
-        estimatedGas: gas.toString(),
-        gasPrice: gasPrice.toString(),
+        estimatedGas: estimate.gas.toString(),
+        feeTier,
+        maxFeePerGas: fees.maxFeePerGas.toString(),
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
         gasCostUsdc: gasCostUsdc.toString(),
         gasCostUsdcFormatted,
       });
 
-      candidates.push({ chainId: chainIdNum, gasCostUsdc });
+      const quote: ChainQuote = {
+        chainId: chainIdNum,
+        tokenSymbol,
+        decimals: token.decimals,
+        amount: chainAmount,
+        gasCostUsdc,
+        fees,
+      };
+      const shortfall = await checkLegGas(chainIdNum, fromWallet, estimate, fees);
+      if (shortfall) {
+        checks.push(excludeShortOfGas(shortfall));
+        continue;
+      }
+      candidates.push(quote);
     } catch (error) {
       // Gas estimation failed - already logged in gas.ts, just note we're skipping
       // No need to log again to avoid duplication
@@ -108,17 +296,17 @@ export async function selectBestSingleChainForUsdcSend(
   }
 
   if (!candidates.length) {
-    const amountUsdcFormatted = formatAmount(amountUsdc, 6);
     logger.warn("No suitable chains found for single chain send", {
       fromWallet,
-      amountUsdc: amountUsdc.toString(),
-      amountUsdcFormatted,
+      tokenSymbol,
+      amount: amount.toString(),
+      amountFormatted,
     });
     return null;
   }
 
   candidates.sort((a, b) => Number(a.gasCostUsdc - b.gasCostUsdc));
-  const best = candidates[0];
+  const best: ChainQuote = { ...candidates[0], gasChecks: checks };
   
   const gasCostUsdcFormatted = formatAmount(best.gasCostUsdc, 6);
   logger.success("Best single chain selected", {
@@ -133,52 +321,70 @@ export async function selectBestSingleChainForUsdcSend(
 }
 
 // Scenario 2: User doesn't have 100 USDC on any single chain, but has enough in total
+// `amount` is expressed in the token's plan decimals (see getTokenPlanDecimals)
+// Legs are chosen to minimize total gas cost (see solveCheapestSplit), optionally capped by options.maxLegs
+// and priced at options.feeTier
 export async function buildMultiChainUsdcPlan(
   fromWallet: Address,
   toWallet: Address,
-  amountUsdc: bigint,
+  amount: bigint,
+  tokenSymbol: string = "USDC",
+  options: PlanOptions = {},
 ): Promise<SplitPlan | null> {
-  const amountUsdcFormatted = formatAmount(amountUsdc, 6);
-  logger.info("Starting multi-chain USDC plan building", {
+  const { feeTier = "standard", ...splitOptions } = options;
+  const planDecimals = getTokenPlanDecimals(tokenSymbol);
+  if (planDecimals === null) {
+    logger.warn("Token is not configured on any chain", { tokenSymbol });
+    return null;
+  }
+
+  const amountFormatted = formatAmount(amount, planDecimals);
+  logger.info("Starting multi-chain plan building", {
     fromWallet,
     toWallet,
-    amountUsdc: amountUsdc.toString(),
-    amountUsdcFormatted,
+    tokenSymbol,
+    amount: amount.toString(),
+    amountFormatted,
   });
 
   type ChainInfo = {
     chainId: ChainId;
-    balance: bigint;
-    maxSpendable: bigint;
-    gasCostUsdc: bigint;  // for "one transfer tx"
+    token: TokenConfig;
+    balance: bigint;       // in chain token units
+    maxSpendable: bigint;  // in plan units
+    gasCostUsdc: bigint;   // for "one transfer tx"
+    fees: LegFees;
   };
 
   // Step 1: Quick balance check - collect balances WITHOUT gas estimation
   // This allows fast rejection if total balance is insufficient
   logger.debug("Quick balance check across all chains");
-  const quickBalanceCheck: Array<{ chainId: ChainId; balance: bigint; maxSpendable: bigint }> = [];
+  const quickBalanceCheck: Array<{ chainId: ChainId; token: TokenConfig; balance: bigint; maxSpendable: bigint }> = [];
   let quickTotalAvailable = 0n;
 
   for (const [chainIdStr, cfg] of Object.entries(CHAINS)) {
     const chainIdNum = Number(chainIdStr) as ChainId;
-    const usdc = cfg.commonTokens.USDC;
-    if (!usdc) {
+    const token = findChainToken(cfg, tokenSymbol);
+    if (!token) {
       continue;
     }
 
-    const balance = await getErc20Balance(chainIdNum, usdc, fromWallet);
+    const balance = await getErc20Balance(chainIdNum, token, fromWallet);
     if (balance === 0n) {
       continue;
     }
 
     const buffer = BigInt(0);
-    const maxSpendable = balance > buffer ? balance - buffer : 0n;
+    const spendable = balance > buffer ? balance - buffer : 0n;
+    // Dust below plan precision can't be sent as part of a plan amount
+    const maxSpendable = scaleAmount(spendable, token.decimals, planDecimals);
     if (maxSpendable === 0n) {
       continue;
     }
 
     quickBalanceCheck.push({
       chainId: chainIdNum,
+      token,
       balance,
       maxSpendable,
     });
@@ -186,29 +392,34 @@ export async function buildMultiChainUsdcPlan(
   }
 
   // Fast rejection: if total balance is insufficient, return immediately
-  if (quickTotalAvailable < amountUsdc) {
-    const quickTotalFormatted = formatAmount(quickTotalAvailable, 6);
+  if (quickTotalAvailable < amount) {
+    const quickTotalFormatted = formatAmount(quickTotalAvailable, planDecimals);
     logger.warn("Insufficient total balance across all chains (quick check)", {
+      tokenSymbol,
       totalAvailable: quickTotalAvailable.toString(),
       totalAvailableFormatted: quickTotalFormatted,
-      required: amountUsdc.toString(),
-      requiredFormatted: amountUsdcFormatted,
+      required: amount.toString(),
+      requiredFormatted: amountFormatted,
     });
     return null; // Return immediately without gas estimation
   }
 
   logger.info("Sufficient balance found, proceeding with gas estimation", {
+    tokenSymbol,
     totalAvailable: quickTotalAvailable.toString(),
-    totalAvailableFormatted: formatAmount(quickTotalAvailable, 6),
+    totalAvailableFormatted: formatAmount(quickTotalAvailable, planDecimals),
     chainsWithBalance: quickBalanceCheck.length,
   });
 
   // Step 2: Now estimate gas only for chains with sufficient balance
   const perChain: ChainInfo[] = [];
+  // Chains whose native balance can't pay their gas
+  const checks: GasCheck[] = [];
 
   for (const chainBalance of quickBalanceCheck) {
     const chainIdNum = chainBalance.chainId;
     const cfg = CHAINS[chainIdNum];
+    const token = chainBalance.token;
     
     logger.debug("Estimating gas for chain", {
       chainId: chainIdNum,
@@ -217,16 +428,17 @@ export async function buildMultiChainUsdcPlan(
     });
 
     try {
-      const { gas, gasPrice } = await estimateUsdcTransferGas(
+      const estimate = await estimateErc20TransferGas(
         chainIdNum,
+        token,
         fromWallet,
         toWallet,
-        chainBalance.maxSpendable,
+        scaleAmount(chainBalance.maxSpendable, planDecimals, token.decimals),
       );
-      const nativeCost = gas * gasPrice;
-      const gasCostUsdc = await gasCostInUsdc(chainIdNum, nativeCost);
-      const balanceFormatted = formatAmount(chainBalance.balance, 6);
-      const maxSpendableFormatted = formatAmount(chainBalance.maxSpendable, 6);
+      const fees = buildLegFees(estimate, feeTier);
+      const gasCostUsdc = estimate.feeTiers[feeTier].gasCostUsdc;
+      const balanceFormatted = formatAmount(chainBalance.balance, token.decimals);
+      const maxSpendableFormatted = formatAmount(chainBalance.maxSpendable, planDecimals);
       const gasCostUsdcFormatted = formatAmount(gasCostUsdc, 6);
 
       logger.success("Chain added to multi-chain plan", {
@@ -236,18 +448,27 @@ export async function buildMultiChainUsdcPlan(
         balanceFormatted,
         maxSpendable: chainBalance.maxSpendable.toString(),
         maxSpendableFormatted,
-        estimatedGas: gas.toString(),
-        gasPrice: gasPrice.toString(),
+        estimatedGas: estimate.gas.toString(),
+        feeTier,
+        maxFeePerGas: fees.maxFeePerGas.toString(),
         gasCostUsdc: gasCostUsdc.toString(),
         gasCostUsdcFormatted,
       });
 
-      perChain.push({
+      const info: ChainInfo = {
         chainId: chainIdNum,
+        token,
         balance: chainBalance.balance,
         maxSpendable: chainBalance.maxSpendable,
         gasCostUsdc,
-      });
+        fees,
+      };
+      const shortfall = await checkLegGas(chainIdNum, fromWallet, estimate, fees);
+      if (shortfall) {
+        checks.push(excludeShortOfGas(shortfall));
+        continue;
+      }
+      perChain.push(info);
     } catch (error) {
       // Gas estimation failed - already logged in gas.ts, just skip this chain
       // No need to log again to avoid duplication
@@ -255,86 +476,91 @@ export async function buildMultiChainUsdcPlan(
     }
   }
 
-  // Re-check total after gas estimation (in case some chains failed)
+  // Re-check total after gas estimation (in case some chains failed or were excluded for lack of gas)
   const totalAvailable = perChain.reduce(
     (acc, c) => acc + c.maxSpendable,
     0n,
   );
 
-  const totalAvailableFormatted = formatAmount(totalAvailable, 6);
+  const totalAvailableFormatted = formatAmount(totalAvailable, planDecimals);
   logger.info("Total available balance calculated", {
+    tokenSymbol,
     totalAvailable: totalAvailable.toString(),
     totalAvailableFormatted,
-    required: amountUsdc.toString(),
-    requiredFormatted: amountUsdcFormatted,
-    sufficient: totalAvailable >= amountUsdc,
+    required: amount.toString(),
+    requiredFormatted: amountFormatted,
+    sufficient: totalAvailable >= amount,
     chainsWithBalance: perChain.length,
   });
 
-  if (totalAvailable < amountUsdc) {
-    const totalAvailableFormatted = formatAmount(totalAvailable, 6);
-    const amountUsdcFormatted = formatAmount(amountUsdc, 6);
+  if (totalAvailable < amount) {
     logger.warn("Insufficient total balance across all chains", {
+      tokenSymbol,
       totalAvailable: totalAvailable.toString(),
       totalAvailableFormatted,
-      required: amountUsdc.toString(),
-      requiredFormatted: amountUsdcFormatted,
+      required: amount.toString(),
+      requiredFormatted: amountFormatted,
     });
     return null; // user actually doesn't have enough in total
   }
 
-  // 2. Sort by "cheapest per transfer". You can refine this
-  perChain.sort((a, b) => Number(a.gasCostUsdc - b.gasCostUsdc));
-  logger.debug("Chains sorted by gas cost", {
-    sortedChains: perChain.map(c => ({
-      chainId: c.chainId,
-      gasCostUsdc: c.gasCostUsdc.toString(),
-      gasCostUsdcFormatted: formatAmount(c.gasCostUsdc, 6),
-    })),
-  });
+  // 2. Pick the chains and amounts with the lowest total cost
+  const solution = solveCheapestSplit(perChain, amount, splitOptions);
+  if (!solution) {
+    logger.warn("No split covers the amount within the leg limit", {
+      tokenSymbol,
+      required: amount.toString(),
+      requiredFormatted: amountFormatted,
+      maxLegs: splitOptions.maxLegs,
+      chainsWithBalance: perChain.length,
+    });
+    return null;
+  }
 
-  // 3. Build greedy allocation
+  // 3. Build legs from the solver's allocation
   const legs: SplitLeg[] = [];
-  let remaining = amountUsdc;
   let totalGasCostUsdc = 0n;
 
-  logger.debug("Building greedy allocation plan");
-  for (const c of perChain) {
-    if (remaining === 0n) break;
-    const take = c.maxSpendable >= remaining ? remaining : c.maxSpendable;
-    remaining -= take;
+  logger.debug("Building cost-optimal allocation plan", {
+    totalCostUsdc: solution.totalCostUsdc.toString(),
+    totalCostUsdcFormatted: formatAmount(solution.totalCostUsdc, 6),
+  });
+  for (const allocation of solution.allocations) {
+    const c = perChain.find(p => p.chainId === allocation.chainId)!;
 
-    const takeFormatted = formatAmount(take, 6);
-    const gasCostUsdcFormatted = formatAmount(c.gasCostUsdc, 6);
-    const remainingFormatted = formatAmount(remaining, 6);
     logger.debug("Adding leg to plan", {
       chainId: c.chainId,
-      amountUsdc: take.toString(),
-      amountUsdcFormatted: takeFormatted,
+      amount: allocation.amount.toString(),
+      amountFormatted: formatAmount(allocation.amount, planDecimals),
       gasCostUsdc: c.gasCostUsdc.toString(),
-      gasCostUsdcFormatted,
-      remaining: remaining.toString(),
-      remainingFormatted,
+      gasCostUsdcFormatted: formatAmount(c.gasCostUsdc, 6),
     });
 
-    // Note: gasCostUsdc is per tx; you might want to pro-rate if you send smaller than maxSpendable
+    // Note: gasCostUsdc is per tx; it was estimated for maxSpendable, which costs the same as a smaller transfer
     legs.push({
       chainId: c.chainId,
-      amountUsdc: take,
+      decimals: c.token.decimals,
+      amount: scaleAmount(allocation.amount, planDecimals, c.token.decimals),
       gasCostUsdc: c.gasCostUsdc,
+      fees: c.fees,
     });
     totalGasCostUsdc += c.gasCostUsdc;
   }
+  const allocated = solution.allocations.reduce((acc, a) => acc + a.amount, 0n);
 
   const plan: SplitPlan = {
+    tokenSymbol,
+    decimals: planDecimals,
     legs,
-    totalAmount: amountUsdc - remaining,
+    totalAmount: allocated,
     totalGasCostUsdc,
+    gasChecks: checks,
   };
 
-  const totalAmountFormatted = formatAmount(plan.totalAmount, 6);
+  const totalAmountFormatted = formatAmount(plan.totalAmount, planDecimals);
   const totalGasCostUsdcFormatted = formatAmount(plan.totalGasCostUsdc, 6);
   logger.success("Multi-chain plan built successfully", {
+    tokenSymbol,
     totalAmount: plan.totalAmount.toString(),
     totalAmountFormatted,
     totalGasCostUsdc: plan.totalGasCostUsdc.toString(),
@@ -343,8 +569,8 @@ export async function buildMultiChainUsdcPlan(
     legs: plan.legs.map(l => ({
       chainId: l.chainId,
       chainName: CHAINS[l.chainId].name,
-      amountUsdc: l.amountUsdc.toString(),
-      amountUsdcFormatted: formatAmount(l.amountUsdc, 6),
+      amount: l.amount.toString(),
+      amountFormatted: formatAmount(l.amount, l.decimals),
       gasCostUsdc: l.gasCostUsdc.toString(),
       gasCostUsdcFormatted: formatAmount(l.gasCostUsdc, 6),
     })),
@@ -355,49 +581,61 @@ export async function buildMultiChainUsdcPlan(
 
 // Scenario 3: Automatically choose between single-chain or multi-chain approach
 // based on whether sufficient balance exists on one chain or needs to be summed from multiple chains
+// `amount` is expressed in the token's plan decimals (see getTokenPlanDecimals)
 export async function planUsdcSend(
   fromWallet: Address,
   toWallet: Address,
-  amountUsdc: bigint,
+  amount: bigint,
+  tokenSymbol: string = "USDC",
+  options: PlanOptions = {},
 ): Promise<UsdcSendPlan | null> {
-  const amountUsdcFormatted = formatAmount(amountUsdc, 6);
-  logger.info("Starting automatic USDC send planning", {
+  const planDecimals = getTokenPlanDecimals(tokenSymbol);
+  if (planDecimals === null) {
+    logger.warn("Token is not configured on any chain", { tokenSymbol });
+    return null;
+  }
+
+  const amountFormatted = formatAmount(amount, planDecimals);
+  logger.info("Starting automatic token send planning", {
     fromWallet,
     toWallet,
-    amountUsdc: amountUsdc.toString(),
-    amountUsdcFormatted,
+    tokenSymbol,
+    amount: amount.toString(),
+    amountFormatted,
   });
 
-  // Quick balance check: sum all USDC balances across chains
+  // Quick balance check: sum all token balances across chains
   // This allows fast rejection if total balance is insufficient
   logger.debug("Quick total balance check");
   let quickTotalBalance = 0n;
   for (const [chainIdStr, cfg] of Object.entries(CHAINS)) {
     const chainIdNum = Number(chainIdStr) as ChainId;
-    const usdc = cfg.commonTokens.USDC;
-    if (usdc) {
-      const balance = await getErc20Balance(chainIdNum, usdc, fromWallet);
-      quickTotalBalance += balance;
+    const token = findChainToken(cfg, tokenSymbol);
+    if (token) {
+      const balance = await getErc20Balance(chainIdNum, token, fromWallet);
+      quickTotalBalance += scaleAmount(balance, token.decimals, planDecimals);
     }
   }
 
   // Fast rejection: if total balance is insufficient, return immediately
-  if (quickTotalBalance < amountUsdc) {
-    const quickTotalFormatted = formatAmount(quickTotalBalance, 6);
+  if (quickTotalBalance < amount) {
+    const quickTotalFormatted = formatAmount(quickTotalBalance, planDecimals);
     logger.warn("Insufficient total balance across all chains (quick check)", {
+      tokenSymbol,
       totalBalance: quickTotalBalance.toString(),
       totalBalanceFormatted: quickTotalFormatted,
-      required: amountUsdc.toString(),
-      requiredFormatted: amountUsdcFormatted,
+      required: amount.toString(),
+      requiredFormatted: amountFormatted,
     });
     return null; // Return immediately without any gas estimation
   }
 
   logger.info("Sufficient total balance found, proceeding with planning", {
+    tokenSymbol,
     totalBalance: quickTotalBalance.toString(),
-    totalBalanceFormatted: formatAmount(quickTotalBalance, 6),
-    required: amountUsdc.toString(),
-    requiredFormatted: amountUsdcFormatted,
+    totalBalanceFormatted: formatAmount(quickTotalBalance, planDecimals),
+    required: amount.toString(),
+    requiredFormatted: amountFormatted,
   });
 
   // First, try to find a single chain with sufficient balance
@@ -405,7 +643,9 @@ export async function planUsdcSend(
   const singleChainQuote = await selectBestSingleChainForUsdcSend(
     fromWallet,
     toWallet,
-    amountUsdc,
+    amount,
+    tokenSymbol,
+    options.feeTier,
   );
 
   if (singleChainQuote) {
@@ -427,12 +667,14 @@ export async function planUsdcSend(
   const multiChainPlan = await buildMultiChainUsdcPlan(
     fromWallet,
     toWallet,
-    amountUsdc,
+    amount,
+    tokenSymbol,
+    options,
   );
 
   if (multiChainPlan) {
     const totalGasCostUsdcFormatted = formatAmount(multiChainPlan.totalGasCostUsdc, 6);
-    const totalAmountFormatted = formatAmount(multiChainPlan.totalAmount, 6);
+    const totalAmountFormatted = formatAmount(multiChainPlan.totalAmount, planDecimals);
     logger.success("Multi-chain approach selected", {
       numberOfLegs: multiChainPlan.legs.length,
       totalGasCostUsdc: multiChainPlan.totalGasCostUsdc.toString(),
@@ -447,11 +689,1044 @@ export async function planUsdcSend(
   }
 
   // Neither approach is viable
-  logger.warn("No viable plan found for USDC send", {
+  logger.warn("No viable plan found for token send", {
     fromWallet,
     toWallet,
-    amountUsdc: amountUsdc.toString(),
-    amountUsdcFormatted,
+    tokenSymbol,
+    amount: amount.toString(),
+    amountFormatted,
   });
   return null;
 }
+
+// Scenario 4: Send the native token (ETH, xDAI) across the chains where it is native.
+// Each chain keeps at least its minNativeBalance after paying for its own leg's gas:
+//   spendable = balance - minNativeBalance - legGasCost
+// legGasCost is the worst case at the chosen fee tier (gasLimit * maxFeePerGas, plus the L1 data fee on OP-stack chains)
+// `amount` is expressed in the token's plan decimals (see getTokenPlanDecimals)
+export async function planNativeSend(
+  fromWallet: Address,
+  toWallet: Address,
+  amount: bigint,
+  tokenSymbol: string,
+  options: PlanOptions = {},
+): Promise<UsdcSendPlan | null> {
+  const { feeTier = "standard", ...splitOptions } = options;
+  const planDecimals = getTokenPlanDecimals(tokenSymbol);
+  if (planDecimals === null || !isNativeTokenSymbol(tokenSymbol)) {
+    logger.warn("Token is not native on any chain", { tokenSymbol });
+    return null;
+  }
+
+  const amountFormatted = formatAmount(amount, planDecimals);
+  logger.info("Starting native token send planning", {
+    fromWallet,
+    toWallet,
+    tokenSymbol,
+    amount: amount.toString(),
+    amountFormatted,
+  });
+
+  type NativeChainInfo = {
+    chainId: ChainId;
+    token: TokenConfig;
+    maxSpendable: bigint;  // in plan units
+    gasCostUsdc: bigint;
+    fees: LegFees;
+  };
+
+  const perChain: NativeChainInfo[] = [];
+
+  for (const [chainIdStr, cfg] of Object.entries(CHAINS)) {
+    const chainIdNum = Number(chainIdStr) as ChainId;
+    const token = findNativeToken(cfg, tokenSymbol);
+    if (!token) {
+      continue;
+    }
+
+    const balance = await getNativeBalance(chainIdNum, fromWallet);
+    if (balance <= cfg.minNativeBalance) {
+      logger.debug("Native balance at or below reserve", {
+        chainId: chainIdNum,
+        balance: balance.toString(),
+        minNativeBalance: cfg.minNativeBalance.toString(),
+      });
+      continue;
+    }
+
+    try {
+      const estimate = await estimateNativeTransferGas(chainIdNum, fromWallet, toWallet);
+      const fees = buildLegFees(estimate, feeTier);
+      // OP-stack chains also deduct the L1 data fee from the sender's balance
+      const nativeCost = legNativeCost(estimate, fees);
+      const reserved = cfg.minNativeBalance + nativeCost;
+      if (balance <= reserved) {
+        logger.debug("Native balance doesn't cover reserve plus leg gas", {
+          chainId: chainIdNum,
+          balance: balance.toString(),
+          minNativeBalance: cfg.minNativeBalance.toString(),
+          legGasCost: nativeCost.toString(),
+        });
+        continue;
+      }
+
+      const maxSpendable = scaleAmount(balance - reserved, token.decimals, planDecimals);
+      const gasCostUsdc = estimate.feeTiers[feeTier].gasCostUsdc;
+
+      logger.success("Chain can fund native send", {
+        chainId: chainIdNum,
+        chainName: cfg.name,
+        balance: balance.toString(),
+        balanceFormatted: formatAmount(balance, token.decimals),
+        maxSpendable: maxSpendable.toString(),
+        maxSpendableFormatted: formatAmount(maxSpendable, planDecimals),
+        gasCostUsdc: gasCostUsdc.toString(),
+        gasCostUsdcFormatted: formatAmount(gasCostUsdc, 6),
+      });
+
+      perChain.push({ chainId: chainIdNum, token, maxSpendable, gasCostUsdc, fees });
+    } catch (error) {
+      // Gas estimation failed - already logged in estimate-gas.ts, just skip this chain
+      continue;
+    }
+  }
+
+  // Prefer a single chain when one can cover the whole amount
+  const singleCandidates = perChain
+    .filter(c => c.maxSpendable >= amount)
+    .sort((a, b) => Number(a.gasCostUsdc - b.gasCostUsdc));
+
+  if (singleCandidates.length) {
+    const best = singleCandidates[0];
+    logger.success("Single-chain native send selected", {
+      chainId: best.chainId,
+      chainName: CHAINS[best.chainId].name,
+      gasCostUsdc: best.gasCostUsdc.toString(),
+      gasCostUsdcFormatted: formatAmount(best.gasCostUsdc, 6),
+    });
+    return {
+      type: "single",
+      quote: {
+        chainId: best.chainId,
+        tokenSymbol,
+        decimals: best.token.decimals,
+        amount: scaleAmount(amount, planDecimals, best.token.decimals),
+        gasCostUsdc: best.gasCostUsdc,
+        fees: best.fees,
+      },
+    };
+  }
+
+  const solution = solveCheapestSplit(perChain, amount, splitOptions);
+  if (!solution) {
+    const totalAvailable = perChain.reduce((acc, c) => acc + c.maxSpendable, 0n);
+    logger.warn("No viable plan found for native send", {
+      fromWallet,
+      tokenSymbol,
+      totalAvailable: totalAvailable.toString(),
+      totalAvailableFormatted: formatAmount(totalAvailable, planDecimals),
+      required: amount.toString(),
+      requiredFormatted: amountFormatted,
+      maxLegs: splitOptions.maxLegs,
+    });
+    return null;
+  }
+
+  const legs: SplitLeg[] = solution.allocations.map(allocation => {
+    const c = perChain.find(p => p.chainId === allocation.chainId)!;
+    return {
+      chainId: c.chainId,
+      decimals: c.token.decimals,
+      amount: scaleAmount(allocation.amount, planDecimals, c.token.decimals),
+      gasCostUsdc: c.gasCostUsdc,
+      fees: c.fees,
+    };
+  });
+
+  const plan: SplitPlan = {
+    tokenSymbol,
+    decimals: planDecimals,
+    legs,
+    totalAmount: solution.allocations.reduce((acc, a) => acc + a.amount, 0n),
+    totalGasCostUsdc: legs.reduce((acc, l) => acc + l.gasCostUsdc, 0n),
+  };
+
+  logger.success("Multi-chain native send selected", {
+    tokenSymbol,
+    numberOfLegs: plan.legs.length,
+    totalAmount: plan.totalAmount.toString(),
+    totalAmountFormatted: formatAmount(plan.totalAmount, planDecimals),
+    totalGasCostUsdc: plan.totalGasCostUsdc.toString(),
+    totalGasCostUsdcFormatted: formatAmount(plan.totalGasCostUsdc, 6),
+  });
+
+  return { type: "multi", plan };
+}
+
+// Transfer gas estimates a batch payout runs at once on each chain
+const BATCH_ESTIMATE_CONCURRENCY = Number(process.env.BATCH_ESTIMATE_CONCURRENCY) || 8;
+
+// Scenario 5: Pay many recipients of one ERC-20 token in a single plan.
+// Chain balances are read once and shared: every payment draws on what earlier payments left,
+// so one chain can fund several transfers. Each payment is split at the lowest gas cost over the
+// remaining balances (see solveCheapestSplit); larger payments are placed first so they find room.
+// Each chain's transfers are priced at the worst case of its per-recipient estimates (a recipient without
+// a balance yet costs more gas), and a chain only funds as many legs as its native balance pays gas for.
+// A recipient whose transfer can't be estimated on a chain (e.g. blacklisted by the token) is paid from the
+// other chains, and listed under recipientChecks.
+// `payments[].amount` is expressed in the token's plan decimals (see getTokenPlanDecimals)
+export async function buildBatchPayoutPlan(
+  fromWallet: Address,
+  payments: BatchPayment[],
+  tokenSymbol: string = "USDC",
+  options: PlanOptions = {},
+): Promise<BatchPlan | null> {
+  const { feeTier = "standard", ...splitOptions } = options;
+  const planDecimals = getTokenPlanDecimals(tokenSymbol);
+  if (planDecimals === null || !payments.length) {
+    logger.warn("Token is not configured on any chain or no payments given", {
+      tokenSymbol,
+      payments: payments.length,
+    });
+    return null;
+  }
+
+  const totalRequired = payments.reduce((acc, p) => acc + p.amount, 0n);
+  logger.info("Starting batch payout planning", {
+    fromWallet,
+    tokenSymbol,
+    payments: payments.length,
+    totalRequired: totalRequired.toString(),
+    totalRequiredFormatted: formatAmount(totalRequired, planDecimals),
+    feeTier,
+  });
+
+  type BatchChainInfo = {
+    chainId: ChainId;
+    token: TokenConfig;
+    remaining: bigint;        // spendable balance left for later payments, in plan units
+    nativeRemaining: bigint;  // native balance left for the gas of later legs
+    nativeCost: bigint;       // worst-case native gas of one transfer
+    gasCostUsdc: bigint;
+    fees: LegFees;
+    unpayable: Set<number>;   // indexes of the payments whose transfer couldn't be estimated on this chain
+  };
+
+  // Step 1: Read every chain's balance once
+  const balances: Array<{ chainId: ChainId; token: TokenConfig; maxSpendable: bigint }> = [];
+  let totalAvailable = 0n;
+  for (const [chainIdStr, cfg] of Object.entries(CHAINS)) {
+    const chainIdNum = Number(chainIdStr) as ChainId;
+    const token = findChainToken(cfg, tokenSymbol);
+    if (!token) {
+      continue;
+    }
+    const balance = await getErc20Balance(chainIdNum, token, fromWallet);
+    const maxSpendable = scaleAmount(balance, token.decimals, planDecimals);
+    if (maxSpendable === 0n) {
+      continue;
+    }
+    balances.push({ chainId: chainIdNum, token, maxSpendable });
+    totalAvailable += maxSpendable;
+  }
+
+  if (totalAvailable < totalRequired) {
+    logger.warn("Insufficient total balance for batch payout", {
+      tokenSymbol,
+      totalAvailable: totalAvailable.toString(),
+      totalAvailableFormatted: formatAmount(totalAvailable, planDecimals),
+      required: totalRequired.toString(),
+      requiredFormatted: formatAmount(totalRequired, planDecimals),
+    });
+    return null;
+  }
+
+  // Step 2: Estimate a transfer to every recipient on each chain, BATCH_ESTIMATE_CONCURRENCY at a time, and keep
+  // the most expensive one. A recipient whose transfer can't be estimated isn't paid from that chain.
+  const perChain: BatchChainInfo[] = [];
+  const recipientChecks: RecipientCheck[] = [];
+  for (const chainBalance of balances) {
+    const { chainId, token, maxSpendable } = chainBalance;
+    const estimates = await mapWithConcurrency(payments, BATCH_ESTIMATE_CONCURRENCY, async payment => {
+      try {
+        return await estimateErc20TransferGas(
+          chainId,
+          token,
+          fromWallet,
+          payment.recipient,
+          scaleAmount(payment.amount < maxSpendable ? payment.amount : maxSpendable, planDecimals, token.decimals),
+        );
+      } catch (error) {
+        return error instanceof Error ? error : new Error(String(error));
+      }
+    });
+
+    let worst: { estimate: GasEstimate; fees: LegFees; nativeCost: bigint } | null = null;
+    const unpayable = new Set<number>();
+    for (const [index, estimate] of estimates.entries()) {
+      if (estimate instanceof Error) {
+        unpayable.add(index);
+        recipientChecks.push({ recipient: payments[index]!.recipient, chainId, reason: estimate.message });
+        continue;
+      }
+      const fees = buildLegFees(estimate, feeTier);
+      const nativeCost = legNativeCost(estimate, fees);
+      if (!worst || nativeCost > worst.nativeCost) {
+        worst = { estimate, fees, nativeCost };
+      }
+    }
+    if (unpayable.size > 0) {
+      logger.warn("Batch payout recipients can't be paid from chain", {
+        chainId,
+        recipients: [...unpayable].map(index => payments[index]!.recipient),
+      });
+    }
+    if (!worst) {
+      continue;
+    }
+    const { estimate, fees, nativeCost } = worst;
+
+    let nativeRemaining: bigint;
+    try {
+      nativeRemaining = await getNativeBalance(chainId, fromWallet);
+    } catch (error) {
+      logger.warn("Native balance unavailable, leaving chain out of the batch payout", {
+        chainId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+    perChain.push({
+      chainId,
+      token,
+      remaining: maxSpendable,
+      nativeRemaining,
+      nativeCost,
+      gasCostUsdc: estimate.feeTiers[feeTier].gasCostUsdc,
+      fees,
+      unpayable,
+    });
+  }
+
+  // Step 3: Fund payments, largest first, from what is left on each chain
+  const order = payments
+    .map((payment, index) => ({ payment, index }))
+    .sort((a, b) => (a.payment.amount === b.payment.amount ? a.index - b.index : a.payment.amount > b.payment.amount ? -1 : 1));
+
+  const gasChecks: GasCheck[] = [];
+  const planned: BatchPaymentPlan[] = new Array(payments.length);
+  for (const { payment, index } of order) {
+    const candidates: SplitCandidate[] = [];
+    for (const c of perChain) {
+      if (c.remaining === 0n || c.unpayable.has(index)) {
+        continue;
+      }
+      if (c.nativeRemaining < c.nativeCost) {
+        // Reported once, when the chain first has to be left out
+        if (!gasChecks.some(check => check.chainId === c.chainId)) {
+          logger.info("Chain excluded for lack of native gas", { chainId: c.chainId, recipient: payment.recipient });
+          gasChecks.push({
+            chainId: c.chainId,
+            nativeBalance: c.nativeRemaining,
+            requiredNative: c.nativeCost,
+            action: "excluded",
+            reason: "Native balance left doesn't cover the gas of another transfer",
+          });
+        }
+        continue;
+      }
+      candidates.push({ chainId: c.chainId, maxSpendable: c.remaining, gasCostUsdc: c.gasCostUsdc });
+    }
+    const solution = solveCheapestSplit(candidates, payment.amount, splitOptions);
+    if (!solution) {
+      logger.warn("Batch payout can't fund recipient from remaining balances", {
+        tokenSymbol,
+        recipient: payment.recipient,
+        amount: payment.amount.toString(),
+        amountFormatted: formatAmount(payment.amount, planDecimals),
+        maxLegs: splitOptions.maxLegs,
+        gasChecks: gasChecks.map(check => check.chainId),
+        unpayableFrom: recipientChecks.filter(check => check.recipient === payment.recipient).map(check => check.chainId),
+      });
+      return null;
+    }
+
+    const legs: SplitLeg[] = solution.allocations.map(allocation => {
+      const c = perChain.find(p => p.chainId === allocation.chainId)!;
+      c.remaining -= allocation.amount;
+      c.nativeRemaining -= c.nativeCost;
+      return {
+        chainId: c.chainId,
+        decimals: c.token.decimals,
+        amount: scaleAmount(allocation.amount, planDecimals, c.token.decimals),
+        gasCostUsdc: c.gasCostUsdc,
+        fees: c.fees,
+      };
+    });
+
+    planned[index] = {
+      recipient: payment.recipient,
+      amount: payment.amount,
+      legs,
+      gasCostUsdc: legs.reduce((acc, l) => acc + l.gasCostUsdc, 0n),
+    };
+  }
+
+  const plan: BatchPlan = {
+    tokenSymbol,
+    decimals: planDecimals,
+    payments: planned,
+    totalAmount: totalRequired,
+    totalGasCostUsdc: planned.reduce((acc, p) => acc + p.gasCostUsdc, 0n),
+    gasChecks,
+    recipientChecks,
+  };
+
+  logger.success("Batch payout plan built successfully", {
+    tokenSymbol,
+    payments: plan.payments.length,
+    legs: plan.payments.reduce((acc, p) => acc + p.legs.length, 0),
+    totalAmount: plan.totalAmount.toString(),
+    totalAmountFormatted: formatAmount(plan.totalAmount, planDecimals),
+    totalGasCostUsdc: plan.totalGasCostUsdc.toString(),
+    totalGasCostUsdcFormatted: formatAmount(plan.totalGasCostUsdc, 6),
+  });
+
+  return plan;
+}
+
+// Scenario 6: EIL cross-chain send. The recipient receives the full amount on `destinationChainId`,
+// while the funds may come from several chains with an EIL deployment:
+//   - each other source chain runs one batch that locks its share in a voucher request for the destination
+//   - the destination batch redeems the vouchers and transfers the whole amount in one transfer
+// Sources are chosen like a multi-chain split (see solveCheapestSplit). The sender's own balance on the
+// destination chain is free to use, since the destination transfer is paid for anyway.
+// Source gas is approximated by a plain transfer on that chain; EIL liquidity provider fees are not included.
+// EIL paymasters pay every batch's gas, so the account's native balance isn't checked (options.gasShortfall doesn't apply).
+// `fromWallet` must be the sender's multichain smart account (same address on every chain, see createCrossChainAccount).
+// `amount` is expressed in the token's plan decimals (see getTokenPlanDecimals)
+export async function buildCrossChainUsdcPlan(
+  fromWallet: Address,
+  toWallet: Address,
+  amount: bigint,
+  destinationChainId: ChainId,
+  tokenSymbol: string = "USDC",
+  options: PlanOptions = {},
+): Promise<CrossChainPlan | null> {
+  const { feeTier = "standard", ...splitOptions } = options;
+  const planDecimals = getTokenPlanDecimals(tokenSymbol);
+  const destinationChain = CHAINS[destinationChainId];
+  const destinationToken = destinationChain ? findChainToken(destinationChain, tokenSymbol) : undefined;
+  if (planDecimals === null || !destinationToken || !getEILDeploymentForChain(destinationChainId)) {
+    logger.warn("Token or destination chain can't be used for an EIL cross-chain plan", {
+      tokenSymbol,
+      destinationChainId,
+    });
+    return null;
+  }
+
+  const amountFormatted = formatAmount(amount, planDecimals);
+  logger.info("Starting cross-chain plan building", {
+    fromWallet,
+    toWallet,
+    tokenSymbol,
+    destinationChainId,
+    amount: amount.toString(),
+    amountFormatted,
+  });
+
+  type SourceInfo = {
+    chainId: ChainId;
+    token: TokenConfig;
+    maxSpendable: bigint;  // in plan units
+    gasCostUsdc: bigint;
+    fees: LegFees;
+  };
+
+  // Step 1: Balances on every chain where EIL is deployed
+  const balances: Array<{ chainId: ChainId; token: TokenConfig; maxSpendable: bigint }> = [];
+  let totalAvailable = 0n;
+  for (const [chainIdStr, cfg] of Object.entries(CHAINS)) {
+    const chainIdNum = Number(chainIdStr) as ChainId;
+    const token = findChainToken(cfg, tokenSymbol);
+    if (!token || !getEILDeploymentForChain(chainIdNum)) {
+      continue;
+    }
+    const balance = await getErc20Balance(chainIdNum, token, fromWallet);
+    const maxSpendable = scaleAmount(balance, token.decimals, planDecimals);
+    if (maxSpendable === 0n) {
+      continue;
+    }
+    balances.push({ chainId: chainIdNum, token, maxSpendable });
+    totalAvailable += maxSpendable;
+  }
+
+  if (totalAvailable < amount) {
+    logger.warn("Insufficient total balance across EIL chains", {
+      tokenSymbol,
+      totalAvailable: totalAvailable.toString(),
+      totalAvailableFormatted: formatAmount(totalAvailable, planDecimals),
+      required: amount.toString(),
+      requiredFormatted: amountFormatted,
+    });
+    return null;
+  }
+
+  // Step 2: The destination transfer always runs; estimate it with what the destination chain holds
+  const destinationBalance = balances.find(b => b.chainId === destinationChainId)?.maxSpendable ?? 0n;
+  let destinationGasCostUsdc: bigint;
+  let destinationFees: LegFees;
+  try {
+    const estimate = await estimateErc20TransferGas(
+      destinationChainId,
+      destinationToken,
+      fromWallet,
+      toWallet,
+      scaleAmount(destinationBalance < amount ? destinationBalance : amount, planDecimals, destinationToken.decimals),
+    );
+    destinationGasCostUsdc = estimate.feeTiers[feeTier].gasCostUsdc;
+    destinationFees = buildLegFees(estimate, feeTier);
+  } catch (error) {
+    // Gas estimation failed - already logged in estimate-gas.ts
+    return null;
+  }
+
+  const sources: SourceInfo[] = [];
+  for (const { chainId, token, maxSpendable } of balances) {
+    if (chainId === destinationChainId) {
+      sources.push({ chainId, token, maxSpendable, gasCostUsdc: destinationGasCostUsdc, fees: destinationFees });
+      continue;
+    }
+    try {
+      const estimate = await estimateErc20TransferGas(
+        chainId,
+        token,
+        fromWallet,
+        toWallet,
+        scaleAmount(maxSpendable, planDecimals, token.decimals),
+      );
+      sources.push({
+        chainId,
+        token,
+        maxSpendable,
+        gasCostUsdc: estimate.feeTiers[feeTier].gasCostUsdc,
+        fees: buildLegFees(estimate, feeTier),
+      });
+    } catch (error) {
+      // Gas estimation failed - already logged in estimate-gas.ts, just skip this chain
+      continue;
+    }
+  }
+
+  // Step 3: Pick the sources; drawing on the destination chain adds no batch, so it costs nothing extra
+  const solution = solveCheapestSplit(
+    sources.map(s => ({
+      chainId: s.chainId,
+      maxSpendable: s.maxSpendable,
+      gasCostUsdc: s.chainId === destinationChainId ? 0n : s.gasCostUsdc,
+    })),
+    amount,
+    splitOptions,
+  );
+  if (!solution) {
+    logger.warn("No cross-chain split covers the amount within the leg limit", {
+      tokenSymbol,
+      required: amount.toString(),
+      requiredFormatted: amountFormatted,
+      maxLegs: splitOptions.maxLegs,
+      sources: sources.length,
+    });
+    return null;
+  }
+
+  // Step 4: One batch per source chain locking its share, then the destination batch
+  const legs: SplitLeg[] = [];
+  const batches: CrossChainBatch[] = [];
+  for (const allocation of solution.allocations) {
+    const source = sources.find(s => s.chainId === allocation.chainId)!;
+    const legAmount = scaleAmount(allocation.amount, planDecimals, source.token.decimals);
+    const isDestination = source.chainId === destinationChainId;
+    // The destination leg carries the destination transfer's gas
+    legs.push({
+      chainId: source.chainId,
+      decimals: source.token.decimals,
+      amount: legAmount,
+      gasCostUsdc: source.gasCostUsdc,
+      fees: source.fees,
+    });
+    if (!isDestination) {
+      batches.push({
+        chainId: source.chainId,
+        actions: [{ type: "voucherRequest", destinationChainId, amount: legAmount }],
+      });
+    }
+  }
+
+  batches.push({
+    chainId: destinationChainId,
+    actions: [
+      ...(batches.length ? [{ type: "useVouchers" as const }] : []),
+      {
+        type: "transfer",
+        recipient: toWallet,
+        amount: scaleAmount(amount, planDecimals, destinationToken.decimals),
+      },
+    ],
+  });
+
+  const plan: CrossChainPlan = {
+    tokenSymbol,
+    decimals: planDecimals,
+    destinationChainId,
+    legs,
+    batches,
+    totalAmount: amount,
+    totalGasCostUsdc: legs.reduce((acc, l) => acc + l.gasCostUsdc, 0n)
+      + (legs.some(l => l.chainId === destinationChainId) ? 0n : destinationGasCostUsdc),
+  };
+
+  logger.success("Cross-chain plan built successfully", {
+    tokenSymbol,
+    destinationChainId,
+    destinationChainName: destinationChain.name,
+    totalAmount: plan.totalAmount.toString(),
+    totalAmountFormatted: formatAmount(plan.totalAmount, planDecimals),
+    totalGasCostUsdc: plan.totalGasCostUsdc.toString(),
+    totalGasCostUsdcFormatted: formatAmount(plan.totalGasCostUsdc, 6),
+    sources: plan.legs.map(l => ({
+      chainId: l.chainId,
+      chainName: CHAINS[l.chainId].name,
+      amount: l.amount.toString(),
+      amountFormatted: formatAmount(l.amount, l.decimals),
+    })),
+  });
+
+  return plan;
+}
+
+export interface RebalanceOptions {
+  // Fee tier used to price and sign every move (default: "standard")
+  feeTier?: FeeTier;
+  // Skip moves whose gas and liquidity provider fees cost more than this fraction of the value moved
+  // (default: REBALANCE_MAX_GAS_FRACTION or 0.05)
+  maxGasFraction?: number;
+}
+
+const DEFAULT_REBALANCE_MAX_GAS_FRACTION = Number(process.env.REBALANCE_MAX_GAS_FRACTION) || 0.05;
+
+// Scenario 7: Consolidate or rebalance a wallet's own balances across chains with an EIL deployment.
+// `allocation` maps chain ids to weights; each chain's target is its share of the wallet's total balance
+// (chains without a weight target 0, so { [chainId]: 1 } consolidates everything onto one chain).
+// Deficits are filled largest first from the chains with a surplus, cheapest gas first.
+// Every move goes through an EIL voucher: the source chain's batch locks the amount in a voucher request
+// for the destination chain, whose batch redeems it into the same account. A move costs the gas of both
+// batches (each approximated by a transfer on its chain, as in buildCrossChainUsdcPlan) plus the voucher's
+// worst-case liquidity provider fee (see getEILMaxVoucherFee); it is skipped when that costs more than
+// options.maxGasFraction of the value it moves. A move is priced as if it ran alone; a batch several moves
+// share is counted once in the plan's totalGasCostUsdc. EIL paymasters pay the batches' gas, so the
+// account's native balance isn't checked.
+// `wallet` must be the owner's multichain smart account (see createCrossChainAccount)
+export async function planRebalance(
+  wallet: Address,
+  allocation: Partial<Record<ChainId, number>>,
+  tokenSymbol: string = "USDC",
+  options: RebalanceOptions = {},
+): Promise<RebalancePlan | null> {
+  const { feeTier = "standard", maxGasFraction = DEFAULT_REBALANCE_MAX_GAS_FRACTION } = options;
+  const planDecimals = getTokenPlanDecimals(tokenSymbol);
+  if (planDecimals === null) {
+    logger.warn("Token is not configured on any chain", { tokenSymbol });
+    return null;
+  }
+
+  // Weights as integers (millionths) so targets can be computed in BigInt
+  const weights = new Map<ChainId, bigint>();
+  for (const [chainIdStr, weight] of Object.entries(allocation)) {
+    if (weight && weight > 0) {
+      weights.set(Number(chainIdStr) as ChainId, BigInt(Math.round(weight * 1_000_000)));
+    }
+  }
+  const totalWeight = [...weights.values()].reduce((acc, w) => acc + w, 0n);
+  if (totalWeight === 0n) {
+    logger.warn("Rebalance allocation has no positive weight", { tokenSymbol, allocation });
+    return null;
+  }
+
+  logger.info("Starting rebalance planning", {
+    wallet,
+    tokenSymbol,
+    allocation,
+    maxGasFraction,
+    feeTier,
+  });
+
+  // Step 1: Current balance on every EIL chain listing the token (funds elsewhere can't move through vouchers)
+  type RebalanceChainInfo = RebalanceChainState & { token: TokenConfig };
+  const chains: RebalanceChainInfo[] = [];
+  for (const [chainIdStr, cfg] of Object.entries(CHAINS)) {
+    const chainIdNum = Number(chainIdStr) as ChainId;
+    const token = findChainToken(cfg, tokenSymbol);
+    if (!token || !getEILDeploymentForChain(chainIdNum)) {
+      continue;
+    }
+    const balance = await getErc20Balance(chainIdNum, token, wallet);
+    chains.push({
+      chainId: chainIdNum,
+      token,
+      balance: scaleAmount(balance, token.decimals, planDecimals),
+      target: 0n,
+    });
+  }
+
+  // Step 2: Targets; the rounding remainder goes to the heaviest weighted chain
+  const total = chains.reduce((acc, c) => acc + c.balance, 0n);
+  let assigned = 0n;
+  for (const c of chains) {
+    c.target = (total * (weights.get(c.chainId) ?? 0n)) / totalWeight;
+    assigned += c.target;
+  }
+  const heaviest = chains
+    .filter(c => weights.has(c.chainId))
+    .sort((a, b) => (weights.get(b.chainId)! > weights.get(a.chainId)! ? 1 : -1))[0];
+  if (heaviest) {
+    heaviest.target += total - assigned;
+  }
+
+  // Step 3: Gas of each chain's batch: a voucher request on the chains with a surplus (cheapest first),
+  // redeeming the vouchers on the chains with a deficit
+  type Source = { chain: RebalanceChainInfo; surplus: bigint; gasCostUsdc: bigint; fees: LegFees };
+  const sources: Source[] = [];
+  const deficits: Array<{ chain: RebalanceChainInfo; missing: bigint; gasCostUsdc: bigint }> = [];
+  for (const c of chains) {
+    if (c.balance === c.target) {
+      continue;
+    }
+    const isSource = c.balance > c.target;
+    const difference = isSource ? c.balance - c.target : c.target - c.balance;
+    try {
+      const estimate = await estimateErc20TransferGas(
+        c.chainId,
+        c.token,
+        wallet,
+        wallet,
+        scaleAmount(difference, planDecimals, c.token.decimals),
+      );
+      const gasCostUsdc = estimate.feeTiers[feeTier].gasCostUsdc;
+      if (isSource) {
+        sources.push({ chain: c, surplus: difference, gasCostUsdc, fees: buildLegFees(estimate, feeTier) });
+      } else {
+        deficits.push({ chain: c, missing: difference, gasCostUsdc });
+      }
+    } catch (error) {
+      // Gas estimation failed - already logged in estimate-gas.ts, the chain is left as it is
+      continue;
+    }
+  }
+  sources.sort((a, b) => (a.gasCostUsdc < b.gasCostUsdc ? -1 : a.gasCostUsdc > b.gasCostUsdc ? 1 : 0));
+
+  // Step 4: Fill deficits, largest first
+  deficits.sort((a, b) => (a.missing > b.missing ? -1 : a.missing < b.missing ? 1 : 0));
+
+  const maxGasBps = BigInt(Math.round(maxGasFraction * 10000));
+  const moves: RebalanceMove[] = [];
+  const skipped: SkippedRebalanceMove[] = [];
+  let totalMoved = 0n;
+
+  for (const deficit of deficits) {
+    for (const source of sources) {
+      if (deficit.missing === 0n) {
+        break;
+      }
+      if (source.surplus === 0n) {
+        continue;
+      }
+      const moveAmount = source.surplus < deficit.missing ? source.surplus : deficit.missing;
+      const chainAmount = scaleAmount(moveAmount, planDecimals, source.chain.token.decimals);
+      const lpFee = getEILMaxVoucherFee(chainAmount);
+      const move: RebalanceMove = {
+        fromChainId: source.chain.chainId,
+        toChainId: deficit.chain.chainId,
+        decimals: source.chain.token.decimals,
+        amount: chainAmount,
+        valueUsdc: await valueInUsdc(chainAmount, source.chain.token.decimals, tokenSymbol),
+        gasCostUsdc: source.gasCostUsdc + deficit.gasCostUsdc,
+        lpFee,
+        lpFeeUsdc: await valueInUsdc(lpFee, source.chain.token.decimals, tokenSymbol),
+        fees: source.fees,
+      };
+
+      const costUsdc = move.gasCostUsdc + move.lpFeeUsdc;
+      if (costUsdc * 10000n > move.valueUsdc * maxGasBps) {
+        skipped.push({
+          ...move,
+          reason: `Gas and fees of ${formatAmount(costUsdc, 6)} USDC exceed ${maxGasFraction * 100}% of the ${formatAmount(move.valueUsdc, 6)} USDC moved`,
+        });
+        continue;
+      }
+
+      moves.push(move);
+      source.surplus -= moveAmount;
+      deficit.missing -= moveAmount;
+      totalMoved += moveAmount;
+    }
+  }
+
+  // Step 5: One batch per source chain with its voucher requests, then one per destination redeeming them
+  const batches: CrossChainBatch[] = [];
+  for (const source of sources) {
+    const outgoing = moves.filter(m => m.fromChainId === source.chain.chainId);
+    if (outgoing.length > 0) {
+      batches.push({
+        chainId: source.chain.chainId,
+        actions: outgoing.map(m => ({ type: "voucherRequest" as const, destinationChainId: m.toChainId, amount: m.amount })),
+      });
+    }
+  }
+  for (const deficit of deficits) {
+    if (moves.some(m => m.toChainId === deficit.chain.chainId)) {
+      batches.push({ chainId: deficit.chain.chainId, actions: [{ type: "useVouchers" }] });
+    }
+  }
+  const batchGasCostUsdc = (chainId: ChainId) =>
+    sources.find(s => s.chain.chainId === chainId)?.gasCostUsdc
+    ?? deficits.find(d => d.chain.chainId === chainId)?.gasCostUsdc
+    ?? 0n;
+
+  const plan: RebalancePlan = {
+    tokenSymbol,
+    decimals: planDecimals,
+    chains: chains.map(({ chainId, balance, target }) => ({ chainId, balance, target })),
+    moves,
+    skipped,
+    batches,
+    totalMoved,
+    totalGasCostUsdc: batches.reduce((acc, b) => acc + batchGasCostUsdc(b.chainId), 0n),
+    totalLpFeeUsdc: moves.reduce((acc, m) => acc + m.lpFeeUsdc, 0n),
+  };
+
+  logger.success("Rebalance plan built", {
+    tokenSymbol,
+    moves: moves.length,
+    skipped: skipped.length,
+    batches: batches.length,
+    totalMoved: totalMoved.toString(),
+    totalMovedFormatted: formatAmount(totalMoved, planDecimals),
+    totalGasCostUsdc: plan.totalGasCostUsdc.toString(),
+    totalGasCostUsdcFormatted: formatAmount(plan.totalGasCostUsdc, 6),
+    totalLpFeeUsdcFormatted: formatAmount(plan.totalLpFeeUsdc, 6),
+  });
+
+  return plan;
+}
+
+/**
+ * Worst-case paymaster charge for `totalGas` at `maxFeePerGas`: its USD value (with the paymaster's markup,
+ * rounded up) and that value in the gas token at its current price
+ */
+export async function priceSponsoredGas(
+  chain: ChainConfig,
+  deployment: PaymasterDeployment,
+  gasToken: TokenConfig,
+  totalGas: bigint,
+  maxFeePerGas: bigint,
+): Promise<{ gasCostUsdc: bigint; gasTokenCost: bigint }> {
+  const markupBps = BigInt(deployment.markupBps ?? 0);
+  const baseCostUsdc = await nativeValueInUsdc(chain, totalGas * maxFeePerGas);
+  const gasCostUsdc = (baseCostUsdc * (10000n + markupBps) + 9999n) / 10000n;
+  const gasTokenCost = await usdcValueToAmount(gasCostUsdc, gasToken.decimals, gasToken.symbol);
+  return { gasCostUsdc, gasTokenCost };
+}
+
+// Scenario 8: Sponsored send - gas is paid in USDC through an ERC-4337 token paymaster.
+// `owner` owns the sending smart account: on each chain its SimpleAccount (EntryPoint v0.7) is derived
+// from the deployment's accountFactory, holds the funds, and is deployed by its first UserOperation.
+// Only chains with a paymaster deployment (see loadPaymasterDeployments) take part. Each leg is one
+// UserOperation that approves the paymaster for the leg's worst-case gas charge and transfers the token.
+// The charge is the operation's total gas at the tier's maxFeePerGas, valued in USD, plus the paymaster's
+// markup, converted into the gas token at its price (see priceSponsoredGas). When the token sent is the gas
+// token, the charge comes out of the same balance, so a chain can spend at most balance - charge.
+// The paymaster pays the operations' native gas, so no native balance is checked (options.gasShortfall doesn't apply).
+// `amount` is expressed in the token's plan decimals (see getTokenPlanDecimals)
+export async function buildSponsoredUsdcPlan(
+  owner: Address,
+  toWallet: Address,
+  amount: bigint,
+  tokenSymbol: string = "USDC",
+  options: PlanOptions = {},
+): Promise<SponsoredPlan | null> {
+  const { feeTier = "standard", ...splitOptions } = options;
+  const planDecimals = getTokenPlanDecimals(tokenSymbol);
+  if (planDecimals === null) {
+    logger.warn("Token is not configured on any chain", { tokenSymbol });
+    return null;
+  }
+
+  logger.info("Starting sponsored send planning", {
+    owner,
+    toWallet,
+    tokenSymbol,
+    amount: amount.toString(),
+    amountFormatted: formatAmount(amount, planDecimals),
+    feeTier,
+  });
+
+  type SponsoredChainInfo = {
+    chainId: ChainId;
+    token: TokenConfig;
+    gasToken: TokenConfig;
+    deployment: PaymasterDeployment;
+    account: SmartAccount;
+    nonce: bigint;
+    maxSpendable: bigint;  // in plan units
+    gasCostUsdc: bigint;
+    gasTokenCost: bigint;  // in gas token units
+    fees: LegFees;
+  };
+
+  const perChain: SponsoredChainInfo[] = [];
+
+  for (const [chainIdStr, cfg] of Object.entries(CHAINS)) {
+    const chainIdNum = Number(chainIdStr) as ChainId;
+    const deployment = getPaymasterDeploymentForChain(chainIdNum);
+    const token = findChainToken(cfg, tokenSymbol);
+    const gasToken = deployment && findChainToken(cfg, deployment.gasToken ?? "USDC");
+    if (!deployment || !token || !gasToken) {
+      continue;
+    }
+
+    try {
+      const account = await getSmartAccount(chainIdNum, (deployment.accountFactory ?? SIMPLE_ACCOUNT_FACTORY) as Address, owner);
+      const balance = await getErc20Balance(chainIdNum, token, account.address);
+      if (balance === 0n) {
+        continue;
+      }
+      const paysGasFromBalance = gasToken.address.toLowerCase() === token.address.toLowerCase();
+      const gasTokenBalance = paysGasFromBalance ? balance : await getErc20Balance(chainIdNum, gasToken, account.address);
+
+      const { tiers } = await getFeeTierPrices(chainIdNum);
+      const { maxFeePerGas, maxPriorityFeePerGas } = tiers[feeTier];
+      const nonce = await getAccountNonce(chainIdNum, deployment.entryPoint as Address, account.address);
+      // Gas doesn't depend on the amounts, so estimate with the whole balance and allowance
+      const userOp = await buildSponsoredUserOperation(
+        deployment,
+        chainIdNum,
+        account,
+        nonce,
+        buildSponsoredTransferCallData(token, toWallet, balance, gasToken, deployment.paymaster as Address, gasTokenBalance),
+        { maxFeePerGas, maxPriorityFeePerGas },
+      );
+      const totalGas = totalUserOperationGas(userOp);
+      const { gasCostUsdc, gasTokenCost } = await priceSponsoredGas(cfg, deployment, gasToken, totalGas, maxFeePerGas);
+
+      if (gasTokenBalance <= gasTokenCost) {
+        logger.debug("Gas token balance doesn't cover the paymaster charge", {
+          chainId: chainIdNum,
+          gasToken: gasToken.symbol,
+          gasTokenBalance: gasTokenBalance.toString(),
+          gasTokenCost: gasTokenCost.toString(),
+        });
+        continue;
+      }
+      const spendable = paysGasFromBalance ? balance - gasTokenCost : balance;
+      const maxSpendable = scaleAmount(spendable, token.decimals, planDecimals);
+      if (maxSpendable === 0n) {
+        continue;
+      }
+
+      logger.success("Chain can fund sponsored send", {
+        chainId: chainIdNum,
+        chainName: cfg.name,
+        account: account.address,
+        maxSpendable: maxSpendable.toString(),
+        maxSpendableFormatted: formatAmount(maxSpendable, planDecimals),
+        totalGas: totalGas.toString(),
+        gasCostUsdc: gasCostUsdc.toString(),
+        gasCostUsdcFormatted: formatAmount(gasCostUsdc, 6),
+      });
+
+      perChain.push({
+        chainId: chainIdNum,
+        token,
+        gasToken,
+        deployment,
+        account,
+        nonce,
+        maxSpendable,
+        gasCostUsdc,
+        gasTokenCost,
+        fees: { tier: feeTier, gasLimit: totalGas, maxFeePerGas, maxPriorityFeePerGas, eip1559: true },
+      });
+    } catch (error) {
+      logger.info("Sponsored leg unavailable on chain", {
+        chainId: chainIdNum,
+        chainName: cfg.name,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+  }
+
+  const solution = solveCheapestSplit(perChain, amount, splitOptions);
+  if (!solution) {
+    const totalAvailable = perChain.reduce((acc, c) => acc + c.maxSpendable, 0n);
+    logger.warn("No viable plan found for sponsored send", {
+      owner,
+      tokenSymbol,
+      totalAvailable: totalAvailable.toString(),
+      totalAvailableFormatted: formatAmount(totalAvailable, planDecimals),
+      required: amount.toString(),
+      requiredFormatted: formatAmount(amount, planDecimals),
+      maxLegs: splitOptions.maxLegs,
+    });
+    return null;
+  }
+
+  // Rebuild each chosen leg's operation with its final amount and allowance; the paymaster signs it as-is
+  const legs: SponsoredLeg[] = [];
+  for (const allocation of solution.allocations) {
+    const c = perChain.find(p => p.chainId === allocation.chainId)!;
+    const legAmount = scaleAmount(allocation.amount, planDecimals, c.token.decimals);
+    const userOperation = await buildSponsoredUserOperation(
+      c.deployment,
+      c.chainId,
+      c.account,
+      c.nonce,
+      buildSponsoredTransferCallData(c.token, toWallet, legAmount, c.gasToken, c.deployment.paymaster as Address, c.gasTokenCost),
+      { maxFeePerGas: c.fees.maxFeePerGas, maxPriorityFeePerGas: c.fees.maxPriorityFeePerGas },
+    );
+    const entryPoint = c.deployment.entryPoint as Address;
+    legs.push({
+      chainId: c.chainId,
+      decimals: c.token.decimals,
+      amount: legAmount,
+      gasCostUsdc: c.gasCostUsdc,
+      fees: c.fees,
+      gasTokenSymbol: c.gasToken.symbol,
+      gasTokenAddress: c.gasToken.address,
+      gasTokenCost: c.gasTokenCost,
+      entryPoint,
+      bundlerUrl: c.deployment.bundlerUrl,
+      userOperation,
+      userOpHash: hashUserOperation(userOperation, entryPoint, c.chainId),
+    });
+  }
+
+  const plan: SponsoredPlan = {
+    tokenSymbol,
+    decimals: planDecimals,
+    legs,
+    totalAmount: solution.allocations.reduce((acc, a) => acc + a.amount, 0n),
+    totalGasCostUsdc: legs.reduce((acc, l) => acc + l.gasCostUsdc, 0n),
+  };
+
+  logger.success("Sponsored send planned", {
+    tokenSymbol,
+    numberOfLegs: legs.length,
+    totalAmount: plan.totalAmount.toString(),
+    totalAmountFormatted: formatAmount(plan.totalAmount, planDecimals),
+    totalGasCostUsdc: plan.totalGasCostUsdc.toString(),
+    totalGasCostUsdcFormatted: formatAmount(plan.totalGasCostUsdc, 6),
+  });
+
+  return plan;
+}
@@ -0,0 +1,59 @@
+import { readFileSync } from "fs";
+import { logger } from "../setup/logger.js";
+
+/**
+ * ERC-4337 infrastructure for sponsored (gas paid in USDC) legs on one chain
+ */
+export interface PaymasterDeployment {
+  chainId: number;
+  entryPoint: string;      // EntryPoint v0.7
+  bundlerUrl: string;      // eth_sendUserOperation / eth_estimateUserOperationGas
+  paymasterUrl?: string;   // ERC-7677 pm_getPaymasterStubData / pm_getPaymasterData (default: bundlerUrl)
+  paymaster: string;       // token paymaster, approved to take the gas token
+  accountFactory?: string; // SimpleAccountFactory v0.7 that derives and deploys the owners' accounts (default: SIMPLE_ACCOUNT_FACTORY)
+  gasToken?: string;       // token the paymaster charges (default: USDC)
+  markupBps?: number;      // paymaster's markup over the gas cost, in basis points (default: 0)
+}
+
+let cachedDeployments: PaymasterDeployment[] | null = null;
+
+/**
+ * Load token paymaster deployments from PAYMASTER_DEPLOYMENT_FILE (a JSON array of PaymasterDeployment).
+ * Point it at paymaster.local.json to plan against the local bundler/paymaster stand-in
+ * (npm run bundler:local). Without it, sponsored plans are unavailable.
+ */
+export function loadPaymasterDeployments(): PaymasterDeployment[] {
+  if (cachedDeployments) {
+    return cachedDeployments;
+  }
+
+  const deploymentPath = process.env.PAYMASTER_DEPLOYMENT_FILE;
+  if (!deploymentPath) {
+    logger.warn("PAYMASTER_DEPLOYMENT_FILE is not set, sponsored plans are unavailable");
+    cachedDeployments = [];
+    return cachedDeployments;
+  }
+
+  try {
+    const parsed = JSON.parse(readFileSync(deploymentPath, "utf-8")) as PaymasterDeployment[];
+    logger.info("Loaded paymaster deployments", {
+      path: deploymentPath,
+      chainsCount: parsed.length,
+    });
+    cachedDeployments = parsed;
+  } catch (error) {
+    logger.error("Failed to load paymaster deployments", {
+      path: deploymentPath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    cachedDeployments = [];
+  }
+  return cachedDeployments;
+}
+
+/**
+ * Get the token paymaster deployment for a chain, or null if sponsored legs aren't available there
+ */
+export function getPaymasterDeploymentForChain(chainId: number): PaymasterDeployment | null {
+  return loadPaymasterDeployments().find((d) => Number(d.chainId) === chainId) ?? null;
+}
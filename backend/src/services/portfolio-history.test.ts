@@ -0,0 +1,99 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import type { PortfolioHolding, PortfolioSnapshot } from "../db/portfolio-snapshots.js";
+import { NATIVE_TOKEN_ADDRESS } from "../setup/types.js";
+import { computeProfitAndLoss } from "./portfolio-history.js";
+
+function eth(balance: string, flows: { inflow?: string; outflow?: string; fee?: string }, priceUsd: number | null): PortfolioHolding {
+  return {
+    chainId: 1,
+    token: NATIVE_TOKEN_ADDRESS.toLowerCase(),
+    symbol: "ETH",
+    decimals: 18,
+    balance: ethers.parseEther(balance).toString(),
+    inflow: ethers.parseEther(flows.inflow ?? "0").toString(),
+    outflow: ethers.parseEther(flows.outflow ?? "0").toString(),
+    fee: ethers.parseEther(flows.fee ?? "0").toString(),
+    priceUsd,
+  };
+}
+
+function snapshot(day: string, holdings: PortfolioHolding[]): PortfolioSnapshot {
+  return { address: "0xabc", day, holdings, totalValueUsd: 0, updatedAt: new Date(0) };
+}
+
+test("no snapshots give empty totals", () => {
+  const pnl = computeProfitAndLoss([]);
+  assert.equal(pnl.since, null);
+  assert.deepEqual(pnl.tokens, []);
+  assert.equal(pnl.totals.valueUsd, "0.00");
+});
+
+test("the opening balance is valued at the first day's price", () => {
+  const pnl = computeProfitAndLoss([
+    snapshot("2026-01-01", [eth("1", {}, 2000)]),
+    snapshot("2026-01-02", [eth("1", {}, 2500)]),
+  ]);
+  assert.equal(pnl.since, "2026-01-01");
+  assert.deepEqual(pnl.tokens, [
+    {
+      chainId: 1,
+      token: NATIVE_TOKEN_ADDRESS.toLowerCase(),
+      symbol: "ETH",
+      balance: "1",
+      priceUsd: "2500",
+      valueUsd: "2500.00",
+      costBasisUsd: "2000.00",
+      realizedUsd: "0.00",
+      unrealizedUsd: "500.00",
+    },
+  ]);
+});
+
+test("outflows realize against the average cost and gas realizes its cost as a loss", () => {
+  const pnl = computeProfitAndLoss([
+    snapshot("2026-01-01", [eth("1", {}, 2000)]),
+    // Bought 1 more at 4000: average cost 3000
+    snapshot("2026-01-02", [eth("2", { inflow: "1" }, 4000)]),
+    // Sold 1 at 5000 and paid 0.1 in gas
+    snapshot("2026-01-03", [eth("0.9", { outflow: "1", fee: "0.1" }, 5000)]),
+  ]);
+  const [token] = pnl.tokens;
+  assert.equal(token!.realizedUsd, (2000 - 300).toFixed(2));
+  assert.equal(token!.costBasisUsd, "2700.00");
+  assert.equal(token!.valueUsd, "4500.00");
+  assert.equal(token!.unrealizedUsd, "1800.00");
+  assert.equal(pnl.totals.realizedUsd, "1700.00");
+});
+
+test("days without a price value the token at 0", () => {
+  const pnl = computeProfitAndLoss([snapshot("2026-01-01", [eth("1", {}, null)])]);
+  assert.equal(pnl.tokens[0]!.priceUsd, null);
+  assert.equal(pnl.tokens[0]!.valueUsd, "0.00");
+});
+
+test("tokens sharing a symbol are kept apart by chain and address", () => {
+  const usdc = (token: string, balance: string, priceUsd: number | null): PortfolioHolding => ({
+    chainId: 1,
+    token,
+    symbol: "USDC",
+    decimals: 6,
+    balance,
+    inflow: "0",
+    outflow: "0",
+    fee: "0",
+    priceUsd,
+  });
+  const pnl = computeProfitAndLoss([
+    snapshot("2026-01-01", [usdc("0xa0b8", "1000000", 1), usdc("0xbad0", "5000000000", null)]),
+  ]);
+  assert.deepEqual(
+    pnl.tokens.map((token) => [token.token, token.balance, token.valueUsd]),
+    [
+      ["0xa0b8", "1", "1.00"],
+      ["0xbad0", "5000", "0.00"],
+    ]
+  );
+  assert.equal(pnl.totals.valueUsd, "1.00");
+});
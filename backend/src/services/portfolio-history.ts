@@ -0,0 +1,617 @@
+import { ethers } from "ethers";
+import { CHAINS } from "../setup/chains.js";
+import { isMongoConnected } from "../setup/mongodb.js";
+import { logger } from "../setup/logger.js";
+import { providers } from "../setup/providers.js";
+import type { Address, ChainConfig, ChainId, TokenConfig } from "../setup/types.js";
+import { getCachedBalances, PORTFOLIO_FRESHNESS } from "./balance-cache.js";
+import { getHistoricalNativePriceUsd, getHistoricalPriceUsd } from "./price-oracle.js";
+import { getRegistryTokens } from "./token-registry.js";
+import type { Transaction, TransactionCursor } from "./sqd-transactions.js";
+import { fetchTransactionPage, findBlockAtTime, TransactionSourceUnavailableError } from "./transaction-history.js";
+import {
+  getLatestPortfolioSnapshotDay,
+  getPortfolioSnapshots,
+  listTrackedPortfolios,
+  savePortfolioSnapshots,
+  trackPortfolio,
+  updatePortfolioBackfill,
+  type PortfolioHolding,
+  type PortfolioSnapshot,
+  type TrackedPortfolio,
+} from "../db/portfolio-snapshots.js";
+
+// Days of history rebuilt when an address is first tracked
+const PORTFOLIO_BACKFILL_DAYS = Number(process.env.PORTFOLIO_BACKFILL_DAYS) || 90;
+// How often every tracked address's snapshots are brought up to date
+const PORTFOLIO_SNAPSHOT_INTERVAL_MS = Number(process.env.PORTFOLIO_SNAPSHOT_INTERVAL_MS) || 60 * 60 * 1000;
+// Transactions per history page read by a rebuild
+const PORTFOLIO_HISTORY_PAGE_SIZE = 500;
+// Transactions a rebuild reads per chain at most
+const PORTFOLIO_MAX_TRANSACTIONS = Number(process.env.PORTFOLIO_MAX_TRANSACTIONS) || 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PortfolioValuePoint {
+  day: string;
+  valueUsd: string;
+}
+
+// Profit and loss of a token on a chain over the history's days, at average cost
+export interface TokenProfitAndLoss {
+  chainId: ChainId;
+  token: string;            // lowercase token address (NATIVE_TOKEN_ADDRESS for the native asset)
+  symbol: string;
+  balance: string;
+  priceUsd: string | null;
+  valueUsd: string;
+  costBasisUsd: string;     // of the balance held
+  realizedUsd: string;      // from what left the wallet, gas included
+  unrealizedUsd: string;    // value minus cost basis
+}
+
+export interface PortfolioHistory {
+  address: Address;
+  backfill: TrackedPortfolio["backfill"];
+  points: PortfolioValuePoint[];
+  pnl: {
+    since: string | null;   // first day of the history, whose holdings are valued at that day's price
+    tokens: TokenProfitAndLoss[];
+    totals: {
+      valueUsd: string;
+      costBasisUsd: string;
+      realizedUsd: string;
+      unrealizedUsd: string;
+    };
+  };
+}
+
+export class PortfolioHistoryUnavailableError extends Error {}
+
+// A token a portfolio's snapshots cover
+interface PortfolioToken extends TokenConfig {
+  chain: ChainConfig;
+  key: string;              // "<chainId>:<lowercase address>"
+  native: boolean;
+  configured: boolean;      // one of the chain's commonTokens, whose address vouches for its symbol
+}
+
+// What a token gained and lost during a day, smallest unit
+interface DailyFlow {
+  inflow: bigint;
+  outflow: bigint;
+  fee: bigint;
+}
+
+let snapshotTimer: NodeJS.Timeout | null = null;
+let updating = false;
+// Rebuilds in flight by address, so a backfill and a scheduled update of one address don't overlap
+const rebuilds = new Map<string, Promise<string | undefined>>();
+
+/**
+ * Start bringing every tracked address's snapshots up to date every PORTFOLIO_SNAPSHOT_INTERVAL_MS (needs MongoDB)
+ */
+export function startPortfolioSnapshotJob(): void {
+  if (snapshotTimer) {
+    return;
+  }
+  snapshotTimer = setInterval(() => void updateTrackedPortfolios(), PORTFOLIO_SNAPSHOT_INTERVAL_MS);
+  snapshotTimer.unref();
+  logger.info("Portfolio snapshot job started", {
+    intervalMs: PORTFOLIO_SNAPSHOT_INTERVAL_MS,
+    backfillDays: PORTFOLIO_BACKFILL_DAYS,
+  });
+}
+
+/**
+ * Stop the portfolio snapshot job
+ */
+export function stopPortfolioSnapshotJob(): void {
+  if (snapshotTimer) {
+    clearInterval(snapshotTimer);
+  }
+  snapshotTimer = null;
+}
+
+/**
+ * Value over time and profit/loss of an address's portfolio over its last `days` days, from its daily snapshots.
+ * The first request tracks the address and starts rebuilding its last PORTFOLIO_BACKFILL_DAYS days in the
+ * background; until then the history is empty and `backfill.status` is "pending" or "running".
+ * @throws PortfolioHistoryUnavailableError without MongoDB
+ */
+export async function getPortfolioHistory(address: Address, days: number): Promise<PortfolioHistory> {
+  if (!isMongoConnected()) {
+    throw new PortfolioHistoryUnavailableError("Portfolio history needs MongoDB");
+  }
+
+  const today = toDay(Date.now());
+  const tracked = await trackPortfolio(address, addDays(today, 1 - PORTFOLIO_BACKFILL_DAYS));
+  if (tracked.backfill.status === "pending" || tracked.backfill.status === "failed") {
+    void backfillPortfolio(address, tracked.backfill.from);
+  }
+
+  const snapshots = await getPortfolioSnapshots(address, addDays(today, 1 - days));
+  return {
+    address,
+    backfill: rebuilds.has(address.toLowerCase()) ? { ...tracked.backfill, status: "running" } : tracked.backfill,
+    points: snapshots.map((snapshot) => ({ day: snapshot.day, valueUsd: snapshot.totalValueUsd.toFixed(2) })),
+    pnl: computeProfitAndLoss(snapshots),
+  };
+}
+
+/**
+ * Rebuild an address's snapshots from its backfill start in the background, e.g. after tokens were added to its
+ * portfolio. A rebuild already in flight is left to finish.
+ * @returns The backfill as recorded when it started
+ * @throws PortfolioHistoryUnavailableError without MongoDB
+ */
+export async function restartPortfolioBackfill(address: Address): Promise<TrackedPortfolio["backfill"]> {
+  if (!isMongoConnected()) {
+    throw new PortfolioHistoryUnavailableError("Portfolio history needs MongoDB");
+  }
+  const tracked = await trackPortfolio(address, addDays(toDay(Date.now()), 1 - PORTFOLIO_BACKFILL_DAYS));
+  void backfillPortfolio(address, tracked.backfill.from);
+  return { status: "running", from: tracked.backfill.from };
+}
+
+/**
+ * Rebuild an address's history from `fromDay`, recording the outcome on its tracking entry
+ */
+async function backfillPortfolio(address: Address, fromDay: string): Promise<void> {
+  if (rebuilds.has(address.toLowerCase())) {
+    return;
+  }
+  try {
+    await updatePortfolioBackfill(address, { status: "running", from: fromDay });
+    const coveredFrom = await rebuildSnapshots(address, fromDay);
+    await updatePortfolioBackfill(address, {
+      status: "done",
+      from: fromDay,
+      ...(coveredFrom ? { coveredFrom } : {}),
+      finishedAt: new Date(),
+    });
+  } catch (error) {
+    logger.warn("Portfolio backfill failed", {
+      address,
+      fromDay,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    await updatePortfolioBackfill(address, {
+      status: "failed",
+      from: fromDay,
+      error: error instanceof Error ? error.message : String(error),
+      finishedAt: new Date(),
+    }).catch(() => {
+      // Logged by updatePortfolioBackfill; the next job run retries the backfill
+    });
+  }
+}
+
+/**
+ * Snapshot every tracked address: addresses whose backfill is done are updated from their latest snapshot's day
+ * (which was taken before the day ended), the others are backfilled again
+ */
+async function updateTrackedPortfolios(): Promise<void> {
+  if (updating || !isMongoConnected()) {
+    return;
+  }
+  updating = true;
+  try {
+    for (const tracked of await listTrackedPortfolios()) {
+      const address = tracked.address as Address;
+      if (tracked.backfill.status !== "done") {
+        await backfillPortfolio(address, tracked.backfill.from);
+        continue;
+      }
+      try {
+        const latestDay = await getLatestPortfolioSnapshotDay(address);
+        await rebuildSnapshots(address, latestDay ?? tracked.backfill.from);
+      } catch (error) {
+        logger.warn("Failed to update portfolio snapshots", {
+          address,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  } catch (error) {
+    logger.warn("Portfolio snapshot job failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  } finally {
+    updating = false;
+  }
+}
+
+/**
+ * One rebuild per address at a time; a rebuild already in flight is awaited instead
+ */
+function rebuildSnapshots(address: Address, fromDay: string): Promise<string | undefined> {
+  const key = address.toLowerCase();
+  let pending = rebuilds.get(key);
+  if (!pending) {
+    pending = buildSnapshots(address, fromDay).finally(() => rebuilds.delete(key));
+    rebuilds.set(key, pending);
+  }
+  return pending;
+}
+
+/**
+ * Compute and save an address's snapshots from `fromDay` to today. Balances are walked back from the current
+ * ones through each day's transfers (native value, gas and Transfer logs of the portfolio's tokens), and each
+ * day is valued at that day's prices. A chain without a history source keeps its current balances throughout.
+ * Days before a history source's coverage (the RPC index starts at the address's first scan) are left out,
+ * since their flows aren't known.
+ * @returns The first day saved, when coverage made it later than `fromDay`
+ * @throws when a day's price can't be read, so no day is saved without its prices
+ */
+async function buildSnapshots(address: Address, fromDay: string): Promise<string | undefined> {
+  const today = toDay(Date.now());
+  const from = Date.parse(`${fromDay}T00:00:00Z`);
+  const tokens = await getPortfolioTokens(address);
+  const chainIds = [...new Set(tokens.map((token) => token.chain.id))];
+
+  // Current balances, where the walk back starts
+  const balances = new Map<string, bigint>();
+  await Promise.all(
+    chainIds.map(async (chainId) => {
+      const chainTokens = tokens.filter((token) => token.chain.id === chainId);
+      const read = await getCachedBalances(
+        chainId,
+        chainTokens.map((token) => ({ wallet: address, token })),
+        PORTFOLIO_FRESHNESS
+      );
+      chainTokens.forEach((token, i) => balances.set(token.key, read[i]!));
+    })
+  );
+
+  // Flows by day, then token
+  const flows = new Map<string, Map<string, DailyFlow>>();
+  const tokensByKey = new Map(tokens.map((token) => [token.key, token]));
+  let transactionCount = 0;
+  let firstDay = fromDay;
+  for (const chainId of chainIds) {
+    try {
+      const read = await addChainFlows(CHAINS[chainId]!, address, from, tokensByKey, flows);
+      transactionCount += read.transactionCount;
+      if (read.coveredFrom && read.coveredFrom > firstDay) {
+        logger.warn("Transaction history starts after the backfill start, leaving out the days before it", {
+          chainId,
+          address,
+          fromDay,
+          coveredFrom: read.coveredFrom,
+        });
+        firstDay = read.coveredFrom;
+      }
+    } catch (error) {
+      if (!(error instanceof TransactionSourceUnavailableError)) {
+        throw error;
+      }
+      logger.warn("No transaction history for chain, keeping its current balances for past days", {
+        chainId,
+        address,
+        error: error.message,
+      });
+    }
+  }
+
+  // Walk back from today: a day ends with the running balances, which then lose that day's flows
+  const snapshots: Omit<PortfolioSnapshot, "_id">[] = [];
+  for (let day = today; day >= firstDay; day = addDays(day, -1)) {
+    const dayFlows = flows.get(day);
+    const timestamp = Math.min(Date.parse(`${day}T12:00:00Z`), Date.now());
+    const holdings: PortfolioHolding[] = [];
+    let totalValueUsd = 0;
+
+    for (const token of tokens) {
+      const balance = balances.get(token.key) ?? 0n;
+      const flow = dayFlows?.get(token.key) ?? { inflow: 0n, outflow: 0n, fee: 0n };
+      if (balance > 0n || flow.inflow > 0n || flow.outflow > 0n || flow.fee > 0n) {
+        const priceUsd = await getDailyPrice(token, timestamp);
+        holdings.push({
+          chainId: token.chain.id,
+          token: token.address.toLowerCase(),
+          symbol: token.symbol,
+          decimals: token.decimals,
+          balance: balance.toString(),
+          inflow: flow.inflow.toString(),
+          outflow: flow.outflow.toString(),
+          fee: flow.fee.toString(),
+          priceUsd,
+        });
+        totalValueUsd += toUnits(balance, token.decimals) * (priceUsd ?? 0);
+      }
+
+      // The balance at the start of the day; balances that history doesn't fully explain stop at zero
+      const opening = balance - flow.inflow + flow.outflow + flow.fee;
+      balances.set(token.key, opening > 0n ? opening : 0n);
+    }
+
+    snapshots.push({ address: address.toLowerCase(), day, holdings, totalValueUsd, updatedAt: new Date() });
+  }
+
+  await savePortfolioSnapshots(snapshots);
+  logger.info("Rebuilt portfolio snapshots", { address, fromDay: firstDay, days: snapshots.length, transactions: transactionCount });
+  return firstDay > fromDay ? firstDay : undefined;
+}
+
+/**
+ * The native asset of every chain and the ERC-20 tokens of the address's portfolio (see getRegistryTokens)
+ */
+async function getPortfolioTokens(address: Address): Promise<PortfolioToken[]> {
+  const tokens: PortfolioToken[] = Object.values(CHAINS).map((chain) => ({
+    ...chain.native,
+    chain,
+    key: `${chain.id}:${chain.native.address.toLowerCase()}`,
+    native: true,
+    configured: true,
+  }));
+  for (const token of await getRegistryTokens(address)) {
+    tokens.push({
+      address: token.address,
+      symbol: token.symbol,
+      decimals: token.decimals,
+      chain: CHAINS[token.chainId]!,
+      key: `${token.chainId}:${token.address.toLowerCase()}`,
+      native: false,
+      configured: token.source === "config",
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Add the flows of an address's transactions on a chain since `from` (ms) to `flows`
+ * @returns The number of transactions read, and the first day the source fully covers when it starts after `from`
+ */
+async function addChainFlows(
+  chain: ChainConfig,
+  address: Address,
+  from: number,
+  tokensByKey: Map<string, PortfolioToken>,
+  flows: Map<string, Map<string, DailyFlow>>
+): Promise<{ transactionCount: number; coveredFrom?: string }> {
+  const fromBlock = await findBlockAtTime(chain.id, from);
+  let transactionCount = 0;
+  let startBlock: number | undefined;
+  let after: TransactionCursor | undefined;
+  for (;;) {
+    const page = await fetchTransactionPage(chain.id, address, {
+      fromBlock,
+      limit: PORTFOLIO_HISTORY_PAGE_SIZE,
+      after,
+    });
+    if (page.startBlock !== undefined && page.startBlock > (fromBlock ?? 0)) {
+      startBlock = page.startBlock;
+    }
+
+    for (const transaction of page.transactions) {
+      const timestamp = (transaction.timestamp ?? 0) * 1000;
+      if (timestamp < from) {
+        continue;
+      }
+      if (++transactionCount > PORTFOLIO_MAX_TRANSACTIONS) {
+        throw new Error(
+          `More than ${PORTFOLIO_MAX_TRANSACTIONS} transactions on chain ${chain.id} since ${toDay(from)}, backfill fewer days`
+        );
+      }
+      addTransactionFlows(chain, address, transaction, tokensByKey, flows);
+    }
+
+    // Stop at the head, or when the source makes no progress
+    if (
+      !page.hasMore ||
+      !page.nextCursor ||
+      (after &&
+        page.nextCursor.blockNumber === after.blockNumber &&
+        page.nextCursor.transactionIndex === after.transactionIndex)
+    ) {
+      break;
+    }
+    after = page.nextCursor;
+  }
+
+  if (startBlock === undefined) {
+    return { transactionCount };
+  }
+  // The first day that starts at or after the source's first block
+  const block = await providers[chain.id]?.getBlock(startBlock);
+  if (!block) {
+    throw new Error(`Block ${startBlock} not found on chain ${chain.id}`);
+  }
+  return { transactionCount, coveredFrom: toDay(block.timestamp * 1000 + DAY_MS - 1) };
+}
+
+function addTransactionFlows(
+  chain: ChainConfig,
+  address: Address,
+  transaction: Transaction,
+  tokensByKey: Map<string, PortfolioToken>,
+  flows: Map<string, Map<string, DailyFlow>>
+): void {
+  const addressLower = address.toLowerCase();
+  const day = toDay((transaction.timestamp ?? 0) * 1000);
+  const dayFlows = flows.get(day) ?? new Map<string, DailyFlow>();
+  flows.set(day, dayFlows);
+  const flowOf = (key: string) => {
+    let flow = dayFlows.get(key);
+    if (!flow) {
+      flow = { inflow: 0n, outflow: 0n, fee: 0n };
+      dayFlows.set(key, flow);
+    }
+    return flow;
+  };
+
+  // Gas is paid by the sender, whether the transaction succeeded or not; value only moves when it succeeded
+  const nativeKey = `${chain.id}:${chain.native.address.toLowerCase()}`;
+  const sent = transaction.from?.toLowerCase() === addressLower;
+  if (sent && transaction.gasUsed && transaction.gasPrice) {
+    flowOf(nativeKey).fee += BigInt(transaction.gasUsed) * BigInt(transaction.gasPrice);
+  }
+  const value = transaction.value ? BigInt(transaction.value) : 0n;
+  if (value > 0n && transaction.status !== 0) {
+    if (sent) {
+      flowOf(nativeKey).outflow += value;
+    }
+    if (transaction.to?.toLowerCase() === addressLower) {
+      flowOf(nativeKey).inflow += value;
+    }
+  }
+
+  // Transfers of tokens outside the portfolio are left out, like their balances
+  for (const transfer of transaction.tokenTransfers ?? []) {
+    const key = `${chain.id}:${transfer.token.address.toLowerCase()}`;
+    if (!tokensByKey.has(key)) {
+      continue;
+    }
+    const amount = BigInt(transfer.amount);
+    if (transfer.direction !== "in") {
+      flowOf(key).outflow += amount;
+    }
+    if (transfer.direction !== "out") {
+      flowOf(key).inflow += amount;
+    }
+  }
+}
+
+/**
+ * A token's USD price on the day of `timestamp` (ms). Prices are looked up by symbol, so only native assets and
+ * the chains' commonTokens are priced; other tokens (any contract can call itself "USDC") get null.
+ * @throws when the price can't be read, so the rebuild fails and is retried rather than saving the day at $0
+ */
+async function getDailyPrice(token: PortfolioToken, timestamp: number): Promise<number | null> {
+  if (!token.configured) {
+    return null;
+  }
+  try {
+    return token.native
+      ? await getHistoricalNativePriceUsd(token.chain, timestamp)
+      : await getHistoricalPriceUsd(token.symbol, timestamp);
+  } catch (error) {
+    throw new Error(
+      `No USD price for ${token.symbol} on chain ${token.chain.id} on ${toDay(timestamp)}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Profit and loss per token (chain and address) at average cost over consecutive snapshots. The first day's
+ * opening balance is valued at that day's price; inflows add to the cost basis at their day's price; outflows
+ * realize their value at the day's price minus their share of the cost basis, and gas realizes its share of the
+ * cost basis as a loss.
+ * Tokens that aren't priced are valued at 0.
+ */
+export function computeProfitAndLoss(snapshots: PortfolioSnapshot[]): PortfolioHistory["pnl"] {
+  const positions = new Map<
+    string,
+    { chainId: ChainId; token: string; symbol: string; quantity: number; cost: number; realized: number; priceUsd: number | null }
+  >();
+
+  snapshots.forEach((snapshot, dayIndex) => {
+    // Holdings by "<chainId>:<token>", in token units
+    const groups = new Map<string, { holding: PortfolioHolding; balance: number; inflow: number; outflow: number; fee: number }>();
+    for (const holding of snapshot.holdings) {
+      groups.set(`${holding.chainId}:${holding.token}`, {
+        holding,
+        balance: toUnits(BigInt(holding.balance), holding.decimals),
+        inflow: toUnits(BigInt(holding.inflow), holding.decimals),
+        outflow: toUnits(BigInt(holding.outflow), holding.decimals),
+        fee: toUnits(BigInt(holding.fee), holding.decimals),
+      });
+    }
+    // Tokens held before but absent today were emptied by history the snapshots don't cover
+    for (const [key, position] of positions) {
+      if (!groups.has(key)) {
+        position.quantity = 0;
+        position.cost = 0;
+        position.priceUsd = null;
+      }
+    }
+
+    for (const [key, group] of groups) {
+      const { holding } = group;
+      const price = holding.priceUsd ?? 0;
+      let position = positions.get(key);
+      if (!position) {
+        // The opening balance of the first day a token appears; later, one that appeared with an inflow
+        const opening = dayIndex === 0 ? Math.max(group.balance - group.inflow + group.outflow + group.fee, 0) : 0;
+        position = {
+          chainId: holding.chainId,
+          token: holding.token,
+          symbol: holding.symbol,
+          quantity: opening,
+          cost: opening * price,
+          realized: 0,
+          priceUsd: null,
+        };
+        positions.set(key, position);
+      }
+
+      position.quantity += group.inflow;
+      position.cost += group.inflow * price;
+      const averageCost = position.quantity > 0 ? position.cost / position.quantity : 0;
+      const outflow = Math.min(group.outflow, position.quantity);
+      const fee = Math.min(group.fee, position.quantity - outflow);
+      position.realized += outflow * (price - averageCost) - fee * averageCost;
+      position.quantity -= outflow + fee;
+      position.cost -= (outflow + fee) * averageCost;
+
+      // Balances the flows don't explain (e.g. clamped at zero) are taken as bought or dropped at cost
+      if (group.balance > position.quantity) {
+        position.cost += (group.balance - position.quantity) * price;
+      } else if (position.quantity > 0) {
+        position.cost *= group.balance / position.quantity;
+      }
+      position.quantity = group.balance;
+      position.priceUsd = holding.priceUsd;
+    }
+  });
+
+  const tokens: TokenProfitAndLoss[] = [];
+  const totals = { valueUsd: 0, costBasisUsd: 0, realizedUsd: 0, unrealizedUsd: 0 };
+  for (const position of positions.values()) {
+    const valueUsd = position.quantity * (position.priceUsd ?? 0);
+    const unrealizedUsd = valueUsd - position.cost;
+    if (position.quantity === 0 && position.realized === 0) {
+      continue;
+    }
+    tokens.push({
+      chainId: position.chainId,
+      token: position.token,
+      symbol: position.symbol,
+      balance: String(position.quantity),
+      priceUsd: position.priceUsd === null ? null : String(position.priceUsd),
+      valueUsd: valueUsd.toFixed(2),
+      costBasisUsd: position.cost.toFixed(2),
+      realizedUsd: position.realized.toFixed(2),
+      unrealizedUsd: unrealizedUsd.toFixed(2),
+    });
+    totals.valueUsd += valueUsd;
+    totals.costBasisUsd += position.cost;
+    totals.realizedUsd += position.realized;
+    totals.unrealizedUsd += unrealizedUsd;
+  }
+  tokens.sort((a, b) => Number(b.valueUsd) - Number(a.valueUsd));
+
+  return {
+    since: snapshots[0]?.day ?? null,
+    tokens,
+    totals: {
+      valueUsd: totals.valueUsd.toFixed(2),
+      costBasisUsd: totals.costBasisUsd.toFixed(2),
+      realizedUsd: totals.realizedUsd.toFixed(2),
+      unrealizedUsd: totals.unrealizedUsd.toFixed(2),
+    },
+  };
+}
+
+function toUnits(amount: bigint, decimals: number): number {
+  return Number(ethers.formatUnits(amount, decimals));
+}
+
+function toDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function addDays(day: string, days: number): string {
+  return toDay(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS);
+}
@@ -0,0 +1,481 @@
+import { Contract } from "ethers";
+import { ChainId, type Address, type ChainConfig } from "../setup/types.js";
+import { CHAINS } from "../setup/chains.js";
+import { providers } from "../setup/providers.js";
+import { logger } from "../setup/logger.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PriceQuote {
+  symbol: string;      // upper-cased asset symbol, e.g. "ETH"
+  priceUsd: number;
+  updatedAt: number;   // ms timestamp the source reports for the price
+  source: string;      // name of the oracle that produced the price
+}
+
+/**
+ * A source of USD prices for asset symbols (ETH, XDAI, USDC, ...)
+ */
+export interface PriceOracle {
+  readonly name: string;
+  getPrice(symbol: string): Promise<PriceQuote>;
+}
+
+// ============================================================================
+// Staleness policy
+// ============================================================================
+
+// Cached prices younger than this are served without asking the source again
+const PRICE_CACHE_TTL_MS = Number(process.env.PRICE_CACHE_TTL_MS) || 5 * 60 * 1000; // 5 minutes
+// Prices older than this are never used, neither from the cache nor from a source
+const PRICE_MAX_STALENESS_MS = Number(process.env.PRICE_MAX_STALENESS_MS) || 60 * 60 * 1000; // 1 hour
+
+function assertFresh(quote: PriceQuote): PriceQuote {
+  const age = Date.now() - quote.updatedAt;
+  if (age > PRICE_MAX_STALENESS_MS) {
+    throw new Error(
+      `${quote.source} price for ${quote.symbol} is stale (${Math.round(age / 1000)}s old, max ${PRICE_MAX_STALENESS_MS / 1000}s)`
+    );
+  }
+  return quote;
+}
+
+// ============================================================================
+// CoinGecko
+// ============================================================================
+
+// CoinGecko coin ids by asset symbol
+const COINGECKO_IDS: Record<string, string> = {
+  ETH: "ethereum",
+  XDAI: "xdai",
+  DAI: "dai",
+  USDC: "usd-coin",
+};
+
+export class CoinGeckoPriceOracle implements PriceOracle {
+  readonly name = "coingecko";
+
+  async getPrice(symbol: string): Promise<PriceQuote> {
+    const asset = symbol.toUpperCase();
+    const coinId = COINGECKO_IDS[asset];
+    if (!coinId) {
+      throw new Error(`No CoinGecko id configured for ${asset}`);
+    }
+
+    logger.debug("Fetching price from CoinGecko", { symbol: asset, coinId });
+    const response = await fetch(
+      `https://api.coingecko.com/api/v3/simple/price?ids=${coinId}&vs_currencies=usd&include_last_updated_at=true`,
+      {
+        headers: {
+          "Accept": "application/json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as Record<string, { usd?: number; last_updated_at?: number }>;
+    const price = data[coinId]?.usd;
+    if (!price) {
+      throw new Error("Invalid response from CoinGecko: missing price data");
+    }
+
+    const lastUpdatedAt = data[coinId]?.last_updated_at;
+    return {
+      symbol: asset,
+      priceUsd: price,
+      updatedAt: lastUpdatedAt ? lastUpdatedAt * 1000 : Date.now(),
+      source: this.name,
+    };
+  }
+}
+
+// ============================================================================
+// Chainlink
+// ============================================================================
+
+const AGGREGATOR_V3_ABI = [
+  "function decimals() view returns (uint8)",
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+];
+
+/**
+ * The <ASSET>/USD aggregator of the first configured chain that lists one (its `priceFeeds`) and has a provider
+ */
+function findChainlinkFeed(asset: string): { chainId: ChainId; address: Address } | undefined {
+  for (const chain of Object.values(CHAINS)) {
+    const address = chain.priceFeeds?.[asset];
+    if (address && providers[chain.id]) {
+      return { chainId: chain.id, address };
+    }
+  }
+  return undefined;
+}
+
+export class ChainlinkPriceOracle implements PriceOracle {
+  readonly name = "chainlink";
+
+  async getPrice(symbol: string): Promise<PriceQuote> {
+    const asset = symbol.toUpperCase();
+    const feed = findChainlinkFeed(asset);
+    if (!feed) {
+      throw new Error(`No Chainlink feed for ${asset} on a chain with a provider (set priceFeeds in the chain config)`);
+    }
+    const provider = providers[feed.chainId]!;
+
+    logger.debug("Reading price from Chainlink aggregator", { symbol: asset, ...feed });
+    const aggregator = new Contract(feed.address, AGGREGATOR_V3_ABI, provider);
+    const [decimals, roundData] = await Promise.all([
+      aggregator.decimals() as Promise<bigint>,
+      aggregator.latestRoundData() as Promise<[bigint, bigint, bigint, bigint, bigint]>,
+    ]);
+    const [, answer, , updatedAt] = roundData;
+    if (answer <= 0n) {
+      throw new Error(`Chainlink feed for ${asset} returned a non-positive answer`);
+    }
+
+    return {
+      symbol: asset,
+      priceUsd: Number(answer) / 10 ** Number(decimals),
+      updatedAt: Number(updatedAt) * 1000,
+      source: this.name,
+    };
+  }
+}
+
+// ============================================================================
+// Static / env
+// ============================================================================
+
+/**
+ * Fixed prices, for tests and local development.
+ * Prices passed to the constructor win; otherwise PRICE_USD_<SYMBOL> is read from the environment
+ * (e.g. PRICE_USD_ETH=2500).
+ */
+export class StaticPriceOracle implements PriceOracle {
+  readonly name = "static";
+
+  constructor(private readonly prices: Record<string, number> = {}) {}
+
+  async getPrice(symbol: string): Promise<PriceQuote> {
+    const asset = symbol.toUpperCase();
+    const configured = Object.entries(this.prices).find(([key]) => key.toUpperCase() === asset)?.[1];
+    const price = configured ?? Number(process.env[`PRICE_USD_${asset}`]);
+    if (!price || price <= 0) {
+      throw new Error(`No static price configured for ${asset} (set PRICE_USD_${asset})`);
+    }
+    return { symbol: asset, priceUsd: price, updatedAt: Date.now(), source: this.name };
+  }
+}
+
+// ============================================================================
+// Median
+// ============================================================================
+
+/**
+ * Median of several sources. Sources that fail or report stale prices are left out;
+ * at least `minSources` must answer.
+ */
+export class MedianPriceOracle implements PriceOracle {
+  readonly name: string;
+
+  constructor(
+    private readonly sources: PriceOracle[],
+    private readonly minSources: number = 1,
+  ) {
+    this.name = `median(${sources.map(s => s.name).join(",")})`;
+  }
+
+  async getPrice(symbol: string): Promise<PriceQuote> {
+    const results = await Promise.allSettled(
+      this.sources.map(async source => assertFresh(await source.getPrice(symbol)))
+    );
+
+    const quotes: PriceQuote[] = [];
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        quotes.push(result.value);
+      } else {
+        logger.warn("Price source failed", {
+          source: this.sources[index].name,
+          symbol,
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        });
+      }
+    });
+
+    if (quotes.length < this.minSources) {
+      throw new Error(
+        `Only ${quotes.length} of ${this.sources.length} price sources answered for ${symbol} (need ${this.minSources})`
+      );
+    }
+
+    const prices = quotes.map(q => q.priceUsd).sort((a, b) => a - b);
+    const middle = Math.floor(prices.length / 2);
+    const priceUsd = prices.length % 2 ? prices[middle] : (prices[middle - 1] + prices[middle]) / 2;
+
+    return {
+      symbol: symbol.toUpperCase(),
+      priceUsd,
+      updatedAt: Math.min(...quotes.map(q => q.updatedAt)),
+      source: this.name,
+    };
+  }
+}
+
+// ============================================================================
+// Shared cache
+// ============================================================================
+
+interface CachedPrice {
+  quote: PriceQuote;
+  fetchedAt: number;
+}
+
+// Shared by every CachedPriceOracle, keyed by "<oracle name>:<SYMBOL>"
+const PRICE_CACHE: Map<string, CachedPrice> = new Map();
+
+/**
+ * Serve prices from the shared cache for PRICE_CACHE_TTL_MS, then refresh from `source`.
+ * When a refresh fails, the cached price is still used as long as it is within PRICE_MAX_STALENESS_MS.
+ */
+export class CachedPriceOracle implements PriceOracle {
+  readonly name: string;
+
+  constructor(private readonly source: PriceOracle) {
+    this.name = source.name;
+  }
+
+  async getPrice(symbol: string): Promise<PriceQuote> {
+    const cacheKey = `${this.source.name}:${symbol.toUpperCase()}`;
+    const cached = PRICE_CACHE.get(cacheKey);
+
+    if (cached && Date.now() - cached.fetchedAt < PRICE_CACHE_TTL_MS) {
+      logger.debug("Using cached price", {
+        symbol,
+        source: cached.quote.source,
+        price: cached.quote.priceUsd,
+        age: Date.now() - cached.fetchedAt,
+      });
+      return cached.quote;
+    }
+
+    try {
+      const quote = assertFresh(await this.source.getPrice(symbol));
+      PRICE_CACHE.set(cacheKey, { quote, fetchedAt: Date.now() });
+      logger.debug("Price fetched", { symbol, source: quote.source, price: quote.priceUsd });
+      return quote;
+    } catch (error) {
+      // If we have a cached price, use it even if expired, within the staleness bound
+      if (cached && Date.now() - cached.quote.updatedAt <= PRICE_MAX_STALENESS_MS) {
+        logger.warn("Failed to refresh price, using expired cache", {
+          symbol,
+          source: this.source.name,
+          error: error instanceof Error ? error.message : String(error),
+          cachedPrice: cached.quote.priceUsd,
+        });
+        return cached.quote;
+      }
+
+      logger.error("Failed to fetch price", { symbol, source: this.source.name, error });
+      throw new Error(
+        `Failed to fetch ${symbol} price: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+// ============================================================================
+// Configured oracle
+// ============================================================================
+
+function createSource(name: string): PriceOracle {
+  switch (name.trim().toLowerCase()) {
+    case "coingecko":
+      return new CoinGeckoPriceOracle();
+    case "chainlink":
+      return new ChainlinkPriceOracle();
+    case "static":
+      return new StaticPriceOracle();
+    default:
+      throw new Error(`Unknown price source: ${name}`);
+  }
+}
+
+/**
+ * Build the oracle selected by PRICE_ORACLE ("coingecko" by default, "chainlink", "static", or "median").
+ * "median" combines the sources listed in PRICE_ORACLE_SOURCES (default "coingecko,chainlink").
+ */
+function createPriceOracle(): PriceOracle {
+  const kind = (process.env.PRICE_ORACLE || "coingecko").toLowerCase();
+  if (kind === "median") {
+    const sources = (process.env.PRICE_ORACLE_SOURCES || "coingecko,chainlink")
+      .split(",")
+      .filter(Boolean)
+      .map(createSource);
+    return new CachedPriceOracle(
+      new MedianPriceOracle(sources, Number(process.env.PRICE_ORACLE_MIN_SOURCES) || 1)
+    );
+  }
+  return new CachedPriceOracle(createSource(kind));
+}
+
+let priceOracle: PriceOracle | null = null;
+
+/**
+ * The oracle every USD valuation goes through
+ */
+export function getPriceOracle(): PriceOracle {
+  if (!priceOracle) {
+    priceOracle = createPriceOracle();
+    logger.info("Price oracle initialized", { oracle: priceOracle.name });
+  }
+  return priceOracle;
+}
+
+/**
+ * Replace the configured oracle (e.g. with a StaticPriceOracle in tests)
+ */
+export function setPriceOracle(oracle: PriceOracle): void {
+  priceOracle = oracle;
+  PRICE_CACHE.clear();
+  HISTORICAL_PRICE_CACHE.clear();
+}
+
+/**
+ * USD price of an asset from the configured oracle
+ */
+export async function getPriceUsd(symbol: string): Promise<number> {
+  const quote = await getPriceOracle().getPrice(symbol);
+  return quote.priceUsd;
+}
+
+/**
+ * USD price of a chain's native asset, from its configured price source
+ */
+export async function getNativePriceUsd(chain: ChainConfig): Promise<number> {
+  if (chain.nativePrice.type === "fixed") {
+    return chain.nativePrice.priceUsd;
+  }
+  return getPriceUsd(chain.nativePrice.symbol);
+}
+
+/**
+ * Value `amount` (in the asset's smallest unit) in USDC smallest unit (6 decimals)
+ * @param amount - Amount in smallest unit (e.g., wei)
+ * @param decimals - Decimals of the asset (e.g., 18 for ETH)
+ * @param symbol - Asset symbol to price (e.g., "ETH")
+ */
+export async function valueInUsdc(amount: bigint, decimals: number, symbol: string): Promise<bigint> {
+  return priceToUsdc(amount, decimals, await getPriceUsd(symbol));
+}
+
+/**
+ * Amount of an asset (in its smallest unit) worth `usdcAmount` USDC smallest units (rounds up)
+ * @param usdcAmount - USD value in USDC smallest unit (6 decimals)
+ * @param decimals - Decimals of the asset
+ * @param symbol - Asset symbol to price (e.g., "USDC")
+ */
+export async function usdcValueToAmount(usdcAmount: bigint, decimals: number, symbol: string): Promise<bigint> {
+  const PRICE_SCALE_FACTOR = 1e8;
+  const priceScaled = BigInt(Math.round((await getPriceUsd(symbol)) * PRICE_SCALE_FACTOR));
+  const numerator = usdcAmount * BigInt(PRICE_SCALE_FACTOR) * 10n ** BigInt(decimals);
+  const denominator = priceScaled * 10n ** 6n;
+  return (numerator + denominator - 1n) / denominator;
+}
+
+/**
+ * Value an amount of a chain's native asset (in wei) in USDC smallest unit
+ */
+export async function nativeValueInUsdc(chain: ChainConfig, amountWei: bigint): Promise<bigint> {
+  return priceToUsdc(amountWei, chain.native.decimals, await getNativePriceUsd(chain));
+}
+
+// ============================================================================
+// Historical prices
+// ============================================================================
+
+// Daily prices of past days by "<SYMBOL>:<YYYY-MM-DD>" (they don't change), and lookups in flight
+const HISTORICAL_PRICE_CACHE: Map<string, Promise<number>> = new Map();
+
+/**
+ * USD price of an asset on the (UTC) day of `timestamp`, for valuing past activity.
+ * Today's price comes from the configured oracle. Past days come from CoinGecko's daily history,
+ * or the static price with PRICE_ORACLE=static.
+ * @param timestamp - ms timestamp
+ */
+export async function getHistoricalPriceUsd(symbol: string, timestamp: number): Promise<number> {
+  const asset = symbol.toUpperCase();
+  const day = new Date(timestamp).toISOString().slice(0, 10);
+  if (day >= new Date().toISOString().slice(0, 10)) {
+    return getPriceUsd(asset);
+  }
+  if (getPriceOracle().name === "static") {
+    return getPriceUsd(asset);
+  }
+
+  const cacheKey = `${asset}:${day}`;
+  let price = HISTORICAL_PRICE_CACHE.get(cacheKey);
+  if (!price) {
+    price = fetchCoinGeckoDailyPrice(asset, day);
+    HISTORICAL_PRICE_CACHE.set(cacheKey, price);
+    // Failed lookups are retried on the next call
+    price.catch(() => HISTORICAL_PRICE_CACHE.delete(cacheKey));
+  }
+  return price;
+}
+
+/**
+ * USD price of a chain's native asset on the day of `timestamp` (ms), from its configured price source
+ */
+export async function getHistoricalNativePriceUsd(chain: ChainConfig, timestamp: number): Promise<number> {
+  if (chain.nativePrice.type === "fixed") {
+    return chain.nativePrice.priceUsd;
+  }
+  return getHistoricalPriceUsd(chain.nativePrice.symbol, timestamp);
+}
+
+async function fetchCoinGeckoDailyPrice(asset: string, day: string): Promise<number> {
+  const coinId = COINGECKO_IDS[asset];
+  if (!coinId) {
+    throw new Error(`No CoinGecko id configured for ${asset}`);
+  }
+
+  // CoinGecko takes dd-mm-yyyy
+  const [year, month, date] = day.split("-");
+  logger.debug("Fetching historical price from CoinGecko", { symbol: asset, coinId, day });
+  const response = await fetch(
+    `https://api.coingecko.com/api/v3/coins/${coinId}/history?date=${date}-${month}-${year}&localization=false`,
+    {
+      headers: {
+        "Accept": "application/json",
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json() as { market_data?: { current_price?: { usd?: number } } };
+  const price = data.market_data?.current_price?.usd;
+  if (!price) {
+    throw new Error(`Invalid response from CoinGecko: no ${asset} price for ${day}`);
+  }
+  return price;
+}
+
+function priceToUsdc(amount: bigint, decimals: number, priceUsd: number): bigint {
+  // Scale price to 8 decimal places for precision (e.g., 2500.50 -> 250050000000)
+  const PRICE_SCALE_FACTOR = 1e8;
+  const priceScaled = BigInt(Math.round(priceUsd * PRICE_SCALE_FACTOR));
+  const usdcDecimals = BigInt(10 ** 6);
+  const assetDecimals = 10n ** BigInt(decimals);
+
+  // (amount * priceScaled * usdcDecimals) / (assetDecimals * priceScaleFactor)
+  return (amount * priceScaled * usdcDecimals) / (assetDecimals * BigInt(PRICE_SCALE_FACTOR));
+}
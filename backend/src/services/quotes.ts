@@ -0,0 +1,211 @@
+import { CHAINS } from "../setup/chains.js";
+import { ChainId, type Address } from "../setup/types.js";
+import { logger } from "../setup/logger.js";
+import { getErc20Balance, getNativeBalance } from "../handlers/get-balances.js";
+import { formatUserOperation, type RpcUserOperation } from "viem/account-abstraction";
+import { estimateErc20TransferGas, estimateNativeTransferGas, getFeeTierPrices } from "../handlers/estimate-gas.js";
+import { checkLegGas, findChainToken, priceSponsoredGas } from "./orchestrator.js";
+import { getPaymasterDeploymentForChain } from "./paymaster-deployments.js";
+import { getAccountNonce, totalUserOperationGas, type SponsoredUserOperation } from "./user-operations.js";
+import { isQuoteExpired, type Quote, type QuoteLeg } from "../db/quote.js";
+
+// A leg's gas may rise this much (in basis points) over the quoted cost before the quote must be re-planned
+const QUOTE_GAS_TOLERANCE_BPS = BigInt(process.env.QUOTE_GAS_TOLERANCE_BPS || "2000"); // 20%
+
+export type QuoteStatus = "valid" | "expired" | "executed" | "replan";
+
+export interface LegRevalidation {
+  chainId: number;
+  balance?: string;             // current balance on the chain, smallest unit
+  required?: string;            // balance the leg needs (native legs include reserve and gas)
+  balanceOk: boolean;
+  quotedGasCostUsdc: string;
+  currentGasCostUsdc?: string;
+  gasOk: boolean;
+  nativeGasOk?: boolean;        // ERC-20 legs paying their own gas: the native balance covers it
+  nativeBalance?: string;       // set when it doesn't: native balance on the chain
+  requiredNative?: string;      // and the leg's worst-case gas
+  nonceOk?: boolean;            // sponsored legs: the UserOperation's nonce is still the account's next
+  gasTokenCost?: string;        // sponsored legs: the paymaster charge the operation approves
+  currentGasTokenCost?: string; // and the worst-case charge at the gas token's current price
+  allowanceOk?: boolean;        // the charge still fits the approval
+  gasTokenBalance?: string;     // sponsored legs whose gas token isn't the token sent
+  gasTokenBalanceOk?: boolean;
+  error?: string;
+}
+
+export interface QuoteRevalidation {
+  quoteId: string;
+  status: QuoteStatus;
+  valid: boolean;
+  reasons: string[];
+  legs: LegRevalidation[];
+  expiresAt: string;
+  checkedAt: string;
+}
+
+/**
+ * Re-check one leg: the sender still holds the amount, gas didn't rise past the tolerance,
+ * and an ERC-20 leg's native balance still pays its gas (crosschain plans' gas is paid by EIL paymasters).
+ * A sponsored leg's smart account must still hold the amount and the paymaster charge, its signed nonce
+ * must still be unused, and the charge at the gas token's current price must fit the approved gasTokenCost.
+ */
+async function revalidateLeg(quote: Quote, leg: QuoteLeg): Promise<LegRevalidation> {
+  const chainId = leg.chainId as ChainId;
+  const chain = CHAINS[chainId];
+  // Cross-chain plans spend from the owner's smart account
+  const from = (quote.plan.smartAccountAddress ?? quote.inputs.sourceAddress) as Address;
+  const to = quote.inputs.destinationAddress as Address;
+  const amount = BigInt(leg.amount);
+  const tier = leg.fees.tier;
+
+  const result: LegRevalidation = {
+    chainId: leg.chainId,
+    balanceOk: false,
+    quotedGasCostUsdc: leg.gasCostUsdc,
+    gasOk: false,
+  };
+
+  if (!chain) {
+    result.error = `Chain ${leg.chainId} is no longer configured`;
+    return result;
+  }
+
+  try {
+    let balance: bigint;
+    let required: bigint;
+    let gasCostUsdc: bigint;
+
+    if (leg.isNative) {
+      balance = await getNativeBalance(chainId, from);
+      const estimate = await estimateNativeTransferGas(chainId, from, to);
+      const { maxFeePerGas } = estimate.feeTiers[tier];
+      const legGas = BigInt(leg.fees.gasLimit) * maxFeePerGas + (estimate.l1FeeInGas ? 0n : estimate.l1Fee);
+      required = amount + chain.minNativeBalance + legGas;
+      gasCostUsdc = estimate.feeTiers[tier].gasCostUsdc;
+    } else if (leg.userOperation && leg.entryPoint) {
+      const token = findChainToken(chain, leg.tokenSymbol);
+      const deployment = getPaymasterDeploymentForChain(chainId);
+      const gasToken = deployment && findChainToken(chain, leg.gasTokenSymbol ?? "USDC");
+      if (!token || !deployment || !gasToken) {
+        result.error = `Sponsored ${leg.tokenSymbol} legs are no longer available on chain ${leg.chainId}`;
+        return result;
+      }
+      const userOperation = formatUserOperation(leg.userOperation as unknown as RpcUserOperation) as SponsoredUserOperation;
+      const account = userOperation.sender;
+      const gasTokenCost = BigInt(leg.gasTokenCost ?? "0");
+      const paysGasFromBalance = gasToken.address.toLowerCase() === token.address.toLowerCase();
+      balance = await getErc20Balance(chainId, token, account);
+      required = paysGasFromBalance ? amount + gasTokenCost : amount;
+      if (!paysGasFromBalance) {
+        const gasTokenBalance = await getErc20Balance(chainId, gasToken, account);
+        result.gasTokenBalance = gasTokenBalance.toString();
+        result.gasTokenBalanceOk = gasTokenBalance >= gasTokenCost;
+      }
+
+      const nonce = await getAccountNonce(chainId, leg.entryPoint as Address, account);
+      result.nonceOk = nonce === userOperation.nonce;
+
+      const totalGas = totalUserOperationGas(userOperation);
+      const { tiers } = await getFeeTierPrices(chainId);
+      gasCostUsdc = (await priceSponsoredGas(chain, deployment, gasToken, totalGas, tiers[tier].maxFeePerGas)).gasCostUsdc;
+      // The signed maxFeePerGas caps the gas; the gas token's price decides what the paymaster takes for it
+      const current = await priceSponsoredGas(chain, deployment, gasToken, totalGas, userOperation.maxFeePerGas);
+      result.gasTokenCost = gasTokenCost.toString();
+      result.currentGasTokenCost = current.gasTokenCost.toString();
+      result.allowanceOk = current.gasTokenCost <= gasTokenCost;
+    } else {
+      const token = findChainToken(chain, leg.tokenSymbol);
+      if (!token) {
+        result.error = `${leg.tokenSymbol} is no longer configured on chain ${leg.chainId}`;
+        return result;
+      }
+      balance = await getErc20Balance(chainId, token, from);
+      required = amount;
+      const estimate = await estimateErc20TransferGas(chainId, token, from, to, amount);
+      gasCostUsdc = estimate.feeTiers[tier].gasCostUsdc;
+      if (quote.plan.type === "single" || quote.plan.type === "multi") {
+        const { maxFeePerGas, maxPriorityFeePerGas } = estimate.feeTiers[tier];
+        const fees = { tier, gasLimit: BigInt(leg.fees.gasLimit), maxFeePerGas, maxPriorityFeePerGas, eip1559: estimate.eip1559 };
+        const shortfall = await checkLegGas(chainId, from, estimate, fees);
+        result.nativeGasOk = shortfall === null;
+        if (shortfall) {
+          result.nativeBalance = shortfall.nativeBalance.toString();
+          result.requiredNative = shortfall.requiredNative.toString();
+        }
+      }
+    }
+
+    const quotedGasCostUsdc = BigInt(leg.gasCostUsdc);
+    const maxGasCostUsdc = quotedGasCostUsdc + (quotedGasCostUsdc * QUOTE_GAS_TOLERANCE_BPS) / 10000n;
+
+    result.balance = balance.toString();
+    result.required = required.toString();
+    result.balanceOk = balance >= required;
+    result.currentGasCostUsdc = gasCostUsdc.toString();
+    result.gasOk = gasCostUsdc <= maxGasCostUsdc;
+    return result;
+  } catch (error) {
+    // Gas estimation reverts once the balance is gone, so report it on the leg
+    result.error = error instanceof Error ? error.message : String(error);
+    return result;
+  }
+}
+
+/**
+ * Check whether a stored quote can still be executed as planned.
+ * Expired and already executed quotes are rejected without touching the chains;
+ * otherwise every leg's balance and gas cost are re-read.
+ */
+export async function revalidateQuote(quote: Quote): Promise<QuoteRevalidation> {
+  const base = {
+    quoteId: quote.quoteId,
+    expiresAt: quote.expiresAt.toISOString(),
+    checkedAt: new Date().toISOString(),
+  };
+
+  if (quote.executedAt) {
+    return { ...base, status: "executed", valid: false, reasons: ["Quote was already executed"], legs: [] };
+  }
+  if (isQuoteExpired(quote)) {
+    return { ...base, status: "expired", valid: false, reasons: ["Quote has expired"], legs: [] };
+  }
+
+  const legs = await Promise.all(quote.plan.legs.map(leg => revalidateLeg(quote, leg)));
+
+  const reasons: string[] = [];
+  for (const leg of legs) {
+    const chainName = CHAINS[leg.chainId as ChainId]?.name ?? String(leg.chainId);
+    if (leg.error) {
+      reasons.push(`${chainName}: ${leg.error}`);
+      continue;
+    }
+    if (!leg.balanceOk) {
+      reasons.push(`${chainName}: balance ${leg.balance} is below the required ${leg.required}`);
+    }
+    if (!leg.gasOk) {
+      reasons.push(`${chainName}: gas cost rose from ${leg.quotedGasCostUsdc} to ${leg.currentGasCostUsdc} USDC units`);
+    }
+    if (leg.nativeGasOk === false) {
+      reasons.push(`${chainName}: native balance ${leg.nativeBalance} doesn't cover the leg's gas of ${leg.requiredNative}`);
+    }
+    if (leg.nonceOk === false) {
+      reasons.push(`${chainName}: the UserOperation's nonce was already used`);
+    }
+    if (leg.allowanceOk === false) {
+      reasons.push(`${chainName}: paymaster charge of ${leg.currentGasTokenCost} exceeds the approved ${leg.gasTokenCost}`);
+    }
+    if (leg.gasTokenBalanceOk === false) {
+      reasons.push(`${chainName}: gas token balance ${leg.gasTokenBalance} is below the paymaster charge of ${leg.gasTokenCost}`);
+    }
+  }
+
+  const valid = reasons.length === 0;
+  logger.info("Quote revalidated", {
+    quoteId: quote.quoteId,
+    valid,
+    reasons,
+  });
+
+  return { ...base, status: valid ? "valid" : "replan", valid, reasons, legs };
+}
@@ -0,0 +1,406 @@
+import { ethers } from "ethers";
+import { logger } from "../setup/logger.js";
+import { providers } from "../setup/providers.js";
+import { isMongoConnected } from "../setup/mongodb.js";
+import type { Address, ChainId } from "../setup/types.js";
+import {
+  decodeTokenTransfers,
+  type Transaction,
+  type TransactionCursor,
+  type TransactionPage,
+  type TransferLog,
+} from "./sqd-transactions.js";
+import {
+  getAddressHistoryCheckpoint,
+  getIndexedTransactions,
+  saveAddressHistoryCheckpoint,
+  saveIndexedTransactions,
+  type IndexedTransaction,
+} from "../db/address-history.js";
+
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+// Blocks per eth_getLogs request (split in halves when the RPC rejects it)
+const RPC_HISTORY_CHUNK_SIZE = Number(process.env.RPC_HISTORY_CHUNK_SIZE) || 2000;
+// An address's first scan starts this many blocks before the head
+const RPC_HISTORY_LOOKBACK_BLOCKS = Number(process.env.RPC_HISTORY_LOOKBACK_BLOCKS) || 10000;
+// Blocks scanned per request at most; later requests scan the rest
+const RPC_HISTORY_MAX_SCAN_BLOCKS = Number(process.env.RPC_HISTORY_MAX_SCAN_BLOCKS) || 20000;
+// Blocks behind the head that aren't scanned yet, so indexed blocks aren't reorged out
+const RPC_HISTORY_CONFIRMATIONS = Number(process.env.RPC_HISTORY_CONFIRMATIONS ?? 12);
+
+// Blocks of a chain indexed for an address, and the newest block that can be indexed
+interface AddressHistoryScan {
+  startBlock: number;
+  lastBlock: number;
+  safeHead: number;
+}
+
+// A page of the RPC index, with the first block it covers for the address
+export interface IndexedTransactionPage extends TransactionPage {
+  startBlock: number;
+}
+
+// Receipt fields read from eth_getBlockReceipts (or eth_getTransactionReceipt)
+interface BlockReceipt {
+  gasUsed: bigint;
+  gasPrice?: bigint;
+  status?: number;
+  logs: TransferLog[];
+}
+
+interface RawReceipt {
+  transactionHash: string;
+  gasUsed: string;
+  effectiveGasPrice?: string;
+  status?: string;
+  logs: Array<{ address: string; topics: string[]; data: string; logIndex: string }>;
+}
+
+// Scans running per chain and address, shared by concurrent requests
+const scansInFlight = new Map<string, Promise<AddressHistoryScan>>();
+// Chains whose RPC doesn't serve eth_getBlockReceipts
+const blockReceiptsUnsupported = new Set<ChainId>();
+
+/**
+ * Whether a chain's history can be indexed over RPC (it has a provider, and MongoDB is connected)
+ */
+export function isRpcHistoryAvailable(chainId: ChainId): boolean {
+  return isMongoConnected() && providers[chainId] !== undefined;
+}
+
+/**
+ * Fetch a page of an address's transactions from the RPC history index, oldest first. The index is brought
+ * up to date first (from its checkpoint to the head, minus RPC_HISTORY_CONFIRMATIONS blocks).
+ * Same paging as fetchTransactionPageFromSQD, so cursors from either source can be passed to the other.
+ * Only blocks from the address's first scan on are indexed (`startBlock`).
+ */
+export async function fetchTransactionPageFromRPC(
+  chainId: ChainId,
+  address: Address,
+  options: {
+    fromBlock?: number;
+    toBlock?: number;
+    limit?: number;
+    direction?: "from" | "to" | "both";
+    after?: TransactionCursor;
+  } = {}
+): Promise<IndexedTransactionPage> {
+  const { fromBlock, toBlock, limit = 100, direction = "both", after } = options;
+
+  const scan = await indexAddressHistory(chainId, address);
+  const transactions = await getIndexedTransactions(chainId, address, { after, fromBlock, toBlock, direction, limit });
+
+  if (transactions.length >= limit) {
+    const last = transactions[transactions.length - 1]!;
+    return {
+      transactions,
+      nextCursor: { blockNumber: last.blockNumber, transactionIndex: last.transactionIndex },
+      hasMore: true,
+      startBlock: scan.startBlock,
+    };
+  }
+  if (toBlock !== undefined && scan.lastBlock >= toBlock) {
+    return { transactions, nextCursor: null, hasMore: false, startBlock: scan.startBlock };
+  }
+  // Every indexed transaction was returned: the next page starts after the last indexed block
+  const resumeAt = Math.max(scan.lastBlock + 1, fromBlock ?? 0);
+  return {
+    transactions,
+    nextCursor: after && after.blockNumber >= resumeAt ? after : { blockNumber: resumeAt, transactionIndex: -1 },
+    hasMore: scan.lastBlock < scan.safeHead,
+    startBlock: scan.startBlock,
+  };
+}
+
+/**
+ * Scan the blocks since an address's checkpoint on a chain and index its transactions.
+ * Concurrent calls for the same chain and address share one scan.
+ */
+export function indexAddressHistory(chainId: ChainId, address: Address): Promise<AddressHistoryScan> {
+  const key = `${chainId}:${address.toLowerCase()}`;
+  let scan = scansInFlight.get(key);
+  if (!scan) {
+    scan = scanAddressHistory(chainId, address).finally(() => scansInFlight.delete(key));
+    scansInFlight.set(key, scan);
+  }
+  return scan;
+}
+
+async function scanAddressHistory(chainId: ChainId, address: Address): Promise<AddressHistoryScan> {
+  const provider = providers[chainId];
+  if (!provider) {
+    throw new Error(`Provider not configured for chain ${chainId}`);
+  }
+
+  const safeHead = (await provider.getBlockNumber()) - RPC_HISTORY_CONFIRMATIONS;
+  const checkpoint = await getAddressHistoryCheckpoint(chainId, address);
+  const startBlock = checkpoint?.startBlock ?? Math.max(0, safeHead - RPC_HISTORY_LOOKBACK_BLOCKS + 1);
+  const firstBlock = checkpoint ? checkpoint.lastBlock + 1 : startBlock;
+  const scanTo = Math.min(safeHead, firstBlock + RPC_HISTORY_MAX_SCAN_BLOCKS - 1);
+
+  let lastBlock = firstBlock - 1;
+  let found = 0;
+  for (let fromBlock = firstBlock; fromBlock <= scanTo; fromBlock += RPC_HISTORY_CHUNK_SIZE) {
+    const toBlock = Math.min(scanTo, fromBlock + RPC_HISTORY_CHUNK_SIZE - 1);
+    const transactions = await scanBlocks(chainId, address, fromBlock, toBlock);
+    await saveIndexedTransactions(transactions);
+    await saveAddressHistoryCheckpoint(chainId, address, startBlock, toBlock);
+    lastBlock = toBlock;
+    found += transactions.length;
+  }
+
+  if (lastBlock >= firstBlock) {
+    logger.info("Indexed address history over RPC", {
+      chainId,
+      address,
+      fromBlock: firstBlock,
+      toBlock: lastBlock,
+      transactions: found,
+      caughtUp: lastBlock >= safeHead,
+    });
+  }
+
+  return { startBlock, lastBlock, safeHead };
+}
+
+/**
+ * Transactions of an address in blocks fromBlock..toBlock: the ones with Transfer logs from or to it
+ * (eth_getLogs), and the ones sent from or to it in blocks where its nonce or native balance changed
+ * (see findActivityBlocks), which covers plain native transfers.
+ */
+async function scanBlocks(
+  chainId: ChainId,
+  address: Address,
+  fromBlock: number,
+  toBlock: number
+): Promise<IndexedTransaction[]> {
+  const provider = providers[chainId]!;
+  const addressTopic = ethers.zeroPadValue(address.toLowerCase(), 32);
+
+  let logs: ethers.Log[];
+  try {
+    const [sent, received] = await Promise.all([
+      provider.getLogs({ fromBlock, toBlock, topics: [TRANSFER_TOPIC, addressTopic] }),
+      provider.getLogs({ fromBlock, toBlock, topics: [TRANSFER_TOPIC, null, addressTopic] }),
+    ]);
+    logs = [...sent, ...received];
+  } catch (error) {
+    // Too many results or too wide a range for the RPC: scan each half
+    if (fromBlock === toBlock) {
+      throw error;
+    }
+    const middle = Math.floor((fromBlock + toBlock) / 2);
+    return [
+      ...(await scanBlocks(chainId, address, fromBlock, middle)),
+      ...(await scanBlocks(chainId, address, middle + 1, toBlock)),
+    ];
+  }
+
+  const logTransactions = new Set(logs.map((log) => log.transactionHash.toLowerCase()));
+  const blocks = new Set(logs.map((log) => log.blockNumber));
+  for (const blockNumber of await findActivityBlocks(chainId, address, fromBlock, toBlock)) {
+    blocks.add(blockNumber);
+  }
+
+  const transactions: IndexedTransaction[] = [];
+  for (const blockNumber of [...blocks].sort((a, b) => a - b)) {
+    transactions.push(...(await readBlockTransactions(chainId, address, blockNumber, logTransactions)));
+  }
+  return transactions;
+}
+
+/**
+ * Blocks in fromBlock..toBlock where the address's nonce or native balance changed, found by bisecting on both:
+ * the blocks it sent a transaction in, and the ones it received native tokens in. An account's balance only
+ * goes down through transactions it sends, so for an EOA no block is missed; a contract account whose balance
+ * goes up and back down within a range without a nonce change can be. Needs the RPC to serve historical state;
+ * when it doesn't, none are found.
+ */
+async function findActivityBlocks(chainId: ChainId, address: Address, fromBlock: number, toBlock: number): Promise<number[]> {
+  const provider = providers[chainId]!;
+  const readState = async (blockNumber: number): Promise<string> => {
+    if (blockNumber < 0) {
+      return "0:0";
+    }
+    const [nonce, balance] = await Promise.all([
+      provider.getTransactionCount(address, blockNumber),
+      provider.getBalance(address, blockNumber),
+    ]);
+    return `${nonce}:${balance}`;
+  };
+  const bisect = async (from: number, to: number, stateBefore: string, stateAfter: string): Promise<number[]> => {
+    if (stateAfter === stateBefore) {
+      return [];
+    }
+    if (from === to) {
+      return [from];
+    }
+    const middle = Math.floor((from + to) / 2);
+    const stateAtMiddle = await readState(middle);
+    return [
+      ...(await bisect(from, middle, stateBefore, stateAtMiddle)),
+      ...(await bisect(middle + 1, to, stateAtMiddle, stateAfter)),
+    ];
+  };
+
+  try {
+    const [stateBefore, stateAfter] = await Promise.all([readState(fromBlock - 1), readState(toBlock)]);
+    return await bisect(fromBlock, toBlock, stateBefore, stateAfter);
+  } catch (error) {
+    logger.warn("Failed to read historical nonces and balances, transactions without Transfer logs are missed", {
+      chainId,
+      address,
+      fromBlock,
+      toBlock,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+/**
+ * The address's transactions in a block: sent from or to it, or listed in `logTransactions`
+ */
+async function readBlockTransactions(
+  chainId: ChainId,
+  address: Address,
+  blockNumber: number,
+  logTransactions: Set<string>
+): Promise<IndexedTransaction[]> {
+  const provider = providers[chainId]!;
+  const addressLower = address.toLowerCase();
+  const addressTopic = ethers.zeroPadValue(addressLower, 32);
+
+  const block = await provider.getBlock(blockNumber, true);
+  if (!block) {
+    throw new Error(`Block ${blockNumber} not found on chain ${chainId}`);
+  }
+  const candidates = block.prefetchedTransactions.filter(
+    (tx) =>
+      logTransactions.has(tx.hash.toLowerCase()) ||
+      tx.from.toLowerCase() === addressLower ||
+      tx.to?.toLowerCase() === addressLower
+  );
+  if (candidates.length === 0) {
+    return [];
+  }
+  const receipts = await getReceipts(chainId, blockNumber, candidates.map((tx) => tx.hash));
+
+  const indexed: IndexedTransaction[] = [];
+  const transferLogs = new Map<Transaction, TransferLog[]>();
+  for (const tx of candidates) {
+    const receipt = receipts.get(tx.hash.toLowerCase());
+    if (!receipt) {
+      throw new Error(`Receipt of ${tx.hash} not found on chain ${chainId}`);
+    }
+    const logs = receipt.logs.filter(
+      (log) =>
+        log.topics[0] === TRANSFER_TOPIC &&
+        (log.topics[1]?.toLowerCase() === addressTopic || log.topics[2]?.toLowerCase() === addressTopic)
+    );
+    // Quantities are hex strings, as SQD Network returns them
+    const transaction: Transaction = {
+      hash: tx.hash,
+      from: tx.from.toLowerCase(),
+      ...(tx.to ? { to: tx.to.toLowerCase() } : {}),
+      value: ethers.toQuantity(tx.value),
+      blockNumber,
+      blockHash: block.hash!,
+      transactionIndex: tx.index,
+      gasPrice: ethers.toQuantity(receipt.gasPrice ?? tx.gasPrice),
+      gasLimit: ethers.toQuantity(tx.gasLimit),
+      gasUsed: ethers.toQuantity(receipt.gasUsed),
+      ...(receipt.status !== undefined ? { status: receipt.status } : {}),
+      timestamp: block.timestamp,
+    };
+    transferLogs.set(transaction, logs);
+    indexed.push({
+      chainId,
+      address: addressLower,
+      hash: tx.hash.toLowerCase(),
+      blockNumber,
+      transactionIndex: tx.index,
+      sent: tx.from.toLowerCase() === addressLower || logs.some((log) => log.topics[1]?.toLowerCase() === addressTopic),
+      received: tx.to?.toLowerCase() === addressLower || logs.some((log) => log.topics[2]?.toLowerCase() === addressTopic),
+      transaction,
+    });
+  }
+
+  await decodeTokenTransfers(chainId, address, transferLogs);
+  return indexed;
+}
+
+/**
+ * Whether an RPC error says the method isn't served (JSON-RPC -32601, or the messages nodes use instead)
+ */
+function isMethodNotFound(error: unknown): boolean {
+  const rpcError = (error as { error?: { code?: number; message?: string } } | null)?.error;
+  if (rpcError?.code === -32601) {
+    return true;
+  }
+  const message = `${rpcError?.message ?? ""} ${error instanceof Error ? error.message : String(error)}`;
+  return /method.*(not found|not supported|does not exist|not available)|unsupported method/i.test(message);
+}
+
+/**
+ * Receipts of transactions in a block, by lowercase hash: one eth_getBlockReceipts call,
+ * or one eth_getTransactionReceipt per transaction where the RPC doesn't serve it (or the call failed)
+ */
+async function getReceipts(chainId: ChainId, blockNumber: number, hashes: string[]): Promise<Map<string, BlockReceipt>> {
+  const provider = providers[chainId]!;
+  const receipts = new Map<string, BlockReceipt>();
+
+  if (!blockReceiptsUnsupported.has(chainId)) {
+    try {
+      const raw = (await provider.send("eth_getBlockReceipts", [ethers.toQuantity(blockNumber)])) as RawReceipt[];
+      for (const receipt of raw) {
+        receipts.set(receipt.transactionHash.toLowerCase(), {
+          gasUsed: BigInt(receipt.gasUsed),
+          ...(receipt.effectiveGasPrice ? { gasPrice: BigInt(receipt.effectiveGasPrice) } : {}),
+          ...(receipt.status !== undefined ? { status: Number(receipt.status) } : {}),
+          logs: receipt.logs.map((log) => ({
+            address: log.address,
+            topics: log.topics,
+            data: log.data,
+            logIndex: Number(log.logIndex),
+          })),
+        });
+      }
+      return receipts;
+    } catch (error) {
+      // Only a missing method is remembered; other failures fall back for this block alone
+      const unsupported = isMethodNotFound(error);
+      if (unsupported) {
+        blockReceiptsUnsupported.add(chainId);
+      }
+      logger.warn(
+        unsupported
+          ? "eth_getBlockReceipts isn't served, reading receipts one by one"
+          : "eth_getBlockReceipts failed, reading this block's receipts one by one",
+        {
+          chainId,
+          blockNumber,
+          error: error instanceof Error ? error.message : String(error),
+        }
+      );
+    }
+  }
+
+  for (const hash of hashes) {
+    const receipt = await provider.getTransactionReceipt(hash);
+    if (receipt) {
+      receipts.set(hash.toLowerCase(), {
+        gasUsed: receipt.gasUsed,
+        gasPrice: receipt.gasPrice,
+        ...(receipt.status !== null ? { status: receipt.status } : {}),
+        logs: receipt.logs.map((log) => ({
+          address: log.address,
+          topics: [...log.topics],
+          data: log.data,
+          logIndex: log.index,
+        })),
+      });
+    }
+  }
+  return receipts;
+}
@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { solveCheapestSplit, type SplitCandidate } from "./split-solver.js";
+
+const candidates: SplitCandidate[] = [
+  { chainId: 1, maxSpendable: 100n, gasCostUsdc: 50n },
+  { chainId: 2, maxSpendable: 60n, gasCostUsdc: 10n },
+  { chainId: 3, maxSpendable: 60n, gasCostUsdc: 15n },
+];
+
+test("uses a single chain when it is the cheapest cover", () => {
+  const solution = solveCheapestSplit(candidates, 50n);
+  assert.deepEqual(solution, {
+    allocations: [{ chainId: 2, amount: 50n, gasCostUsdc: 10n }],
+    totalCostUsdc: 10n,
+  });
+});
+
+test("prefers two cheap legs over one expensive one", () => {
+  const solution = solveCheapestSplit(candidates, 100n);
+  assert.equal(solution?.totalCostUsdc, 25n);
+  assert.deepEqual(solution?.allocations, [
+    { chainId: 2, amount: 60n, gasCostUsdc: 10n },
+    { chainId: 3, amount: 40n, gasCostUsdc: 15n },
+  ]);
+});
+
+test("leg overhead favours fewer legs", () => {
+  const solution = solveCheapestSplit(candidates, 100n, { legOverheadUsdc: 30n });
+  assert.deepEqual(solution, {
+    allocations: [{ chainId: 1, amount: 100n, gasCostUsdc: 50n }],
+    totalCostUsdc: 80n,
+  });
+});
+
+test("respects maxLegs", () => {
+  assert.equal(solveCheapestSplit(candidates, 150n, { maxLegs: 1 }), null);
+  const solution = solveCheapestSplit(candidates, 150n, { maxLegs: 2 });
+  assert.equal(solution?.allocations.length, 2);
+  assert.equal(solution?.allocations.reduce((sum, a) => sum + a.amount, 0n), 150n);
+});
+
+test("returns null when the balances can't cover the amount", () => {
+  assert.equal(solveCheapestSplit(candidates, 221n), null);
+});
@@ -0,0 +1,117 @@
+import { ChainId } from "../setup/types.js";
+
+/**
+ * A chain that can contribute to a multi-chain split
+ */
+export interface SplitCandidate {
+  chainId: ChainId;
+  maxSpendable: bigint;  // in plan units
+  gasCostUsdc: bigint;   // cost of one transfer on this chain
+}
+
+export interface SplitSolverOptions {
+  // Maximum number of legs the plan may use (default: no limit)
+  maxLegs?: number;
+  // Fixed cost added to every leg on top of its chain's gas cost, in USDC smallest unit.
+  // Use it to express the overhead of one more signature/transaction for the user.
+  legOverheadUsdc?: bigint;
+}
+
+export interface SplitAllocation {
+  chainId: ChainId;
+  amount: bigint;        // in plan units
+  gasCostUsdc: bigint;
+}
+
+export interface SplitSolution {
+  allocations: SplitAllocation[];
+  totalCostUsdc: bigint;  // gas plus leg overhead
+}
+
+/**
+ * Pick the set of chains that covers `amount` at the lowest total cost.
+ *
+ * Transfer gas does not depend on the amount moved, so the problem reduces to choosing
+ * a subset of chains whose spendable balances add up to `amount` while minimizing the sum
+ * of their per-leg costs. The number of configured chains is small, so the search is
+ * exhaustive (depth-first with branch-and-bound pruning) and always returns the optimum.
+ * On equal cost, fewer legs win.
+ *
+ * Amounts are then filled from the cheapest chosen chain upwards; every chosen chain is
+ * needed for coverage, so none ends up with a zero leg.
+ *
+ * @returns The cheapest allocation, or null if the amount can't be covered within maxLegs
+ */
+export function solveCheapestSplit(
+  candidates: SplitCandidate[],
+  amount: bigint,
+  options: SplitSolverOptions = {},
+): SplitSolution | null {
+  const { maxLegs = candidates.length, legOverheadUsdc = 0n } = options;
+
+  const usable = candidates
+    .filter(c => c.maxSpendable > 0n)
+    .map(c => ({ ...c, legCost: c.gasCostUsdc + legOverheadUsdc }))
+    .sort((a, b) => (a.legCost === b.legCost ? Number(b.maxSpendable - a.maxSpendable) : Number(a.legCost - b.legCost)));
+
+  if (amount <= 0n || maxLegs < 1) {
+    return null;
+  }
+
+  // suffixCapacity[i] = total spendable of usable[i..], used to prune branches that can't cover
+  const suffixCapacity: bigint[] = new Array(usable.length + 1).fill(0n);
+  for (let i = usable.length - 1; i >= 0; i--) {
+    suffixCapacity[i] = suffixCapacity[i + 1] + usable[i].maxSpendable;
+  }
+
+  let bestCost: bigint | null = null;
+  let bestSet: number[] = [];
+  const chosen: number[] = [];
+
+  const search = (index: number, covered: bigint, cost: bigint): void => {
+    if (covered >= amount) {
+      if (
+        bestCost === null ||
+        cost < bestCost ||
+        (cost === bestCost && chosen.length < bestSet.length)
+      ) {
+        bestCost = cost;
+        bestSet = [...chosen];
+      }
+      return;
+    }
+    if (index >= usable.length || chosen.length >= maxLegs) {
+      return;
+    }
+    if (covered + suffixCapacity[index] < amount) {
+      return;
+    }
+    // Costs are sorted ascending, so any completion costs at least cost + next leg
+    if (bestCost !== null && cost + usable[index].legCost > bestCost) {
+      return;
+    }
+
+    chosen.push(index);
+    search(index + 1, covered + usable[index].maxSpendable, cost + usable[index].legCost);
+    chosen.pop();
+    search(index + 1, covered, cost);
+  };
+
+  search(0, 0n, 0n);
+
+  if (bestCost === null) {
+    return null;
+  }
+
+  const allocations: SplitAllocation[] = [];
+  let remaining = amount;
+  for (const i of bestSet) {
+    if (remaining === 0n) break;
+    const c = usable[i];
+    const take = c.maxSpendable >= remaining ? remaining : c.maxSpendable;
+    remaining -= take;
+    allocations.push({ chainId: c.chainId, amount: take, gasCostUsdc: c.gasCostUsdc });
+  }
+
+  return { allocations, totalCostUsdc: bestCost };
+}
@@ -1,39 +1,28 @@
+import { ethers } from "ethers";
 import { logger } from "../setup/logger.js";
 import { CHAINS } from "../setup/chains.js";
 import { ChainId, Address } from "../setup/types.js";
+import { getRegistryTokens, getTokenMetadata } from "./token-registry.js";
 
-/**
- * SQD Network Router URLs for different chains
- * Based on: https://docs.sqd.ai/subsquid-network/reference/networks/
- */
-const SQD_ROUTERS: Record<ChainId, string> = {
-  // [ChainId.ETHEREUM]: "https://rb05.sqd-archive.net",
-  // [ChainId.BASE]: "https://rb05.sqd-archive.net", // Base uses same router, different dataset
-  // [ChainId.OPTIMISM]: "https://rb05.sqd-archive.net",
-  // [ChainId.ARBITRUM_ONE]: "https://rb05.sqd-archive.net",
-  [ChainId.ARBITRUM_SEPOLIA]: "https://rb05.sqd-archive.net",
-  [ChainId.OPTIMISM_SEPOLIA]: "https://rb05.sqd-archive.net",
-  [ChainId.GNOSIS]: "https://rb05.sqd-archive.net",
-  [ChainId.ETHEREUM_SEPOLIA]: "https://rb05.sqd-archive.net",
-  [ChainId.BASE_SEPOLIA]: "https://rb05.sqd-archive.net",
-  // Add more chains as needed
-};
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+// Worker queries per page; each worker serves a limited block range, later ranges need another query
+const SQD_MAX_QUERIES_PER_PAGE = Number(process.env.SQD_MAX_QUERIES_PER_PAGE) || 5;
 
-/**
- * Dataset identifiers for SQD Network
- * These are base64-encoded dataset URLs
- */
-const SQD_DATASETS: Record<ChainId, string> = {
-  // [ChainId.ETHEREUM]: "czM6Ly9ldGhlcmV1bS1tYWlubmV0", // base64("s3://ethereum-mainnet")
-  // [ChainId.BASE]: "czM6Ly9iYXNlLW1haW5uZXQ", // base64("s3://base-mainnet") - adjust as needed
-  // [ChainId.OPTIMISM]: "czM6Ly9vcHRpbW9yZS1tYWlubmV0", // base64("s3://optimism-mainnet")
-  // [ChainId.ARBITRUM_ONE]: "czM6Ly9hcmJ5dG9yZS1tYWlubmV0", // base64("s3://arbitrum-mainnet")
-  [ChainId.ARBITRUM_SEPOLIA]: "czM6Ly9hcmJ5dG9yZS1zZXBvZWxhLW1haW5uZXQ", // base64("s3://arbitrum-sepolia-mainnet")
-  [ChainId.OPTIMISM_SEPOLIA]: "czM6Ly9vcHRpbW9yZS1zZXBvZWxhLW1haW5uZXQ", // base64("s3://optimism-sepolia-mainnet")
-  [ChainId.GNOSIS]: "czM6Ly9nb25zaXMtbWFpbm5ldA==", // base64("s3://gnosis-mainnet")
-  [ChainId.ETHEREUM_SEPOLIA]: "czM6Ly9ldGhlcmV1bS1zZXBvZWxhLW1haW5uZXQ", // base64("s3://ethereum-sepolia-mainnet")
-  [ChainId.BASE_SEPOLIA]: "czM6Ly9iYXNlLXNlcG9lbGEtbWFpbm5ldA==", // base64("s3://base-sepolia-mainnet")
-};
+// ERC-20 tokens moved by a transaction, decoded from its Transfer logs
+export interface TokenTransfer {
+  logIndex: number;
+  token: {
+    address: string;
+    symbol?: string;      // symbol, name and decimals are unset when the token's metadata can't be read
+    name?: string;
+    decimals?: number;
+  };
+  from: string;
+  to: string;
+  amount: string;             // smallest unit
+  amountFormatted?: string;
+  direction: "in" | "out" | "self";
+}
 
 export interface Transaction {
   hash: string;
@@ -48,6 +37,33 @@ export interface Transaction {
   gasUsed?: string;
   status?: number; // 1 = success, 0 = failure
   timestamp?: number;
+  tokenTransfers?: TokenTransfer[]; // Transfer logs to or from the address
+}
+
+// Where a page of transactions ends: the next page starts after this transaction
+// (transactionIndex -1: at the start of the block)
+export interface TransactionCursor {
+  blockNumber: number;
+  transactionIndex: number;
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  nextCursor: TransactionCursor | null;   // null once toBlock was reached
+  hasMore: boolean;                       // false once toBlock or the end of the SQD dataset was reached
+}
+
+// A log as decodeTokenTransfers reads it
+export interface TransferLog {
+  address: string;
+  topics: string[];
+  data: string;
+  logIndex: number;
+}
+
+interface SQDLog extends TransferLog {
+  transactionIndex: number;
+  transactionHash: string;
 }
 
 interface SQDBlockResponse {
@@ -68,10 +84,12 @@ interface SQDBlockResponse {
     gasUsed?: string;
     status?: number;
   }>;
+  logs?: SQDLog[];
 }
 
 interface SQDQueryRequest {
   fromBlock: number;
+  toBlock?: number;
   fields: {
     transaction?: {
       hash?: boolean;
@@ -89,11 +107,25 @@ interface SQDQueryRequest {
       hash?: boolean;
       timestamp?: boolean;
     };
+    log?: {
+      address?: boolean;
+      topics?: boolean;
+      data?: boolean;
+      logIndex?: boolean;
+      transactionIndex?: boolean;
+      transactionHash?: boolean;
+    };
   };
   transactions?: Array<{
     from?: string[];
     to?: string[];
   }>;
+  logs?: Array<{
+    topic0?: string[];
+    topic1?: string[];
+    topic2?: string[];
+    transaction?: boolean;   // include the log's transaction
+  }>;
 }
 
 /**
@@ -101,7 +133,9 @@ interface SQDQueryRequest {
  * Based on: https://docs.sqd.ai/subsquid-network/reference/evm-api/
  */
 async function getWorkerUrl(chainId: ChainId, blockNumber: number): Promise<string | null> {
-  const router = SQD_ROUTERS[chainId];
+  // Router and dataset per chain come from the chain config (sqd)
+  // Based on: https://docs.sqd.ai/subsquid-network/reference/networks/
+  const router = CHAINS[chainId]?.sqd?.router;
   if (!router) {
     logger.warn(`SQD router not configured for chain ${chainId}`);
     return null;
@@ -182,13 +216,15 @@ async function queryTransactionsFromWorker(
 }
 
 /**
- * Fetch transactions for an address from SQD Network
+ * Fetch a page of an address's transactions from SQD Network, oldest first: transactions sent from or to
+ * the address, and transactions that moved ERC-20 tokens from or to it. Each transaction's Transfer logs
+ * involving the address are decoded into `tokenTransfers`.
  * @param chainId - The chain ID
  * @param address - The wallet address to fetch transactions for
- * @param options - Query options
- * @returns Array of transactions
+ * @param options - Query options; `after` resumes from a previous page's nextCursor (and takes precedence over fromBlock)
+ * @returns The page, with the cursor the next page starts from
  */
-export async function fetchTransactionsFromSQD(
+export async function fetchTransactionPageFromSQD(
   chainId: ChainId,
   address: Address,
   options: {
@@ -196,41 +232,32 @@ export async function fetchTransactionsFromSQD(
     toBlock?: number;
     limit?: number;
     direction?: "from" | "to" | "both"; // Filter by sender, receiver, or both
+    after?: TransactionCursor;
   } = {}
-): Promise<Transaction[]> {
-  // Use a reasonable default fromBlock if not provided (e.g., recent blocks)
-  // Block 0 might not be available, so we'll use latest if fromBlock is 0
-  const { fromBlock, toBlock, limit = 100, direction = "both" } = options;
+): Promise<TransactionPage> {
+  const { fromBlock, toBlock, limit = 100, direction = "both", after } = options;
 
   logger.info("Fetching transactions from SQD Network", {
     chainId,
     address,
-    fromBlock: fromBlock ?? "latest",
+    fromBlock: after ? after.blockNumber : fromBlock ?? "latest",
     toBlock,
     limit,
     direction,
   });
 
-  const dataset = SQD_DATASETS[chainId];
+  const dataset = CHAINS[chainId]?.sqd?.dataset;
   if (!dataset) {
     logger.warn(`SQD dataset not configured for chain ${chainId}`);
-    return [];
-  }
-
-  // Get worker URL - use latest if fromBlock is not specified or is 0
-  const effectiveFromBlock = fromBlock && fromBlock > 0 ? fromBlock : undefined;
-  const workerUrl = await getWorkerUrl(chainId, effectiveFromBlock ?? 0);
-  if (!workerUrl) {
-    logger.error(`Failed to get worker URL for chain ${chainId}`);
-    return [];
+    return { transactions: [], nextCursor: null, hasMore: false };
   }
 
-  // Build query request
-  // If fromBlock is not specified, we'll query from a recent block
-  // SQD Network requires fromBlock, so we'll use a reasonable default if not provided
-  const queryFromBlock = fromBlock && fromBlock > 0 ? fromBlock : 0;
+  // Transactions from/to the address, and Transfer logs from/to it (with their transactions)
+  const addressLower = address.toLowerCase();
+  const addressTopic = ethers.zeroPadValue(addressLower, 32);
   const query: SQDQueryRequest = {
-    fromBlock: queryFromBlock,
+    fromBlock: 0,
+    ...(toBlock !== undefined ? { toBlock } : {}),
     fields: {
       transaction: {
         hash: true,
@@ -248,36 +275,56 @@ export async function fetchTransactionsFromSQD(
         hash: true,
         timestamp: true,
       },
+      log: {
+        address: true,
+        topics: true,
+        data: true,
+        logIndex: true,
+        transactionIndex: true,
+        transactionHash: true,
+      },
     },
     transactions: [],
+    logs: [],
   };
-
-  // Add address filters based on direction
-  const addressLower = address.toLowerCase();
   if (direction === "from" || direction === "both") {
     query.transactions!.push({ from: [addressLower] });
+    query.logs!.push({ topic0: [TRANSFER_TOPIC], topic1: [addressTopic], transaction: true });
   }
   if (direction === "to" || direction === "both") {
     query.transactions!.push({ to: [addressLower] });
+    query.logs!.push({ topic0: [TRANSFER_TOPIC], topic2: [addressTopic], transaction: true });
   }
 
-  try {
-    const blocks = await queryTransactionsFromWorker(workerUrl, dataset, query);
-    
-    // Flatten transactions from all blocks
-    const transactions: Transaction[] = [];
-    for (const block of blocks) {
-      for (const tx of block.transactions) {
-        if (transactions.length >= limit) {
-          break;
-        }
+  const transactions: Transaction[] = [];
+  const logs = new Map<Transaction, SQDLog[]>();
+  // Block range left to scan starts here; undefined once toBlock or the dataset's end was reached
+  let nextBlock: number | undefined = after ? after.blockNumber : fromBlock && fromBlock > 0 ? fromBlock : 0;
+  let skipUpTo = after?.transactionIndex ?? -1;
+  let nextCursor: TransactionCursor | null = null;
+
+  for (let queries = 0; queries < SQD_MAX_QUERIES_PER_PAGE && nextBlock !== undefined && !nextCursor; queries++) {
+    // Block 0 is not available on the router, it falls back to the latest worker
+    const workerUrl = await getWorkerUrl(chainId, nextBlock);
+    if (!workerUrl) {
+      throw new Error(`Failed to get SQD worker URL for chain ${chainId}`);
+    }
+
+    const blocks = await queryTransactionsFromWorker(workerUrl, dataset, { ...query, fromBlock: nextBlock });
+    if (blocks.length === 0) {
+      // End of the dataset: the next page starts here again
+      nextCursor = { blockNumber: nextBlock, transactionIndex: -1 };
+      nextBlock = undefined;
+      break;
+    }
 
-        // Apply block range filter if specified
-        if (toBlock && block.header.number > toBlock) {
+    for (const block of blocks) {
+      const blockLogs = (block.logs ?? []).filter((log) => log.topics[0] === TRANSFER_TOPIC);
+      for (const tx of [...block.transactions].sort((a, b) => a.transactionIndex - b.transactionIndex)) {
+        if (block.header.number === nextBlock && tx.transactionIndex <= skipUpTo) {
           continue;
         }
-
-        transactions.push({
+        const transaction: Transaction = {
           hash: tx.hash,
           from: tx.from,
           to: tx.to,
@@ -290,21 +337,133 @@ export async function fetchTransactionsFromSQD(
           gasUsed: tx.gasUsed,
           status: tx.status,
           timestamp: block.header.timestamp,
-        });
-      }
+        };
+        transactions.push(transaction);
+        logs.set(transaction, blockLogs.filter((log) => log.transactionIndex === tx.transactionIndex));
 
-      if (transactions.length >= limit) {
+        if (transactions.length >= limit) {
+          nextCursor = { blockNumber: block.header.number, transactionIndex: tx.transactionIndex };
+          break;
+        }
+      }
+      if (nextCursor) {
         break;
       }
     }
 
-    logger.info(`Fetched ${transactions.length} transactions from SQD Network`, {
-      chainId,
-      address,
-      count: transactions.length,
-    });
+    // The worker's response ends with the last block it scanned
+    const lastBlock = blocks[blocks.length - 1]!.header.number;
+    skipUpTo = -1;
+    nextBlock = toBlock !== undefined && lastBlock >= toBlock ? undefined : lastBlock + 1;
+  }
+
+  const hasMore = nextCursor !== null ? transactions.length >= limit : nextBlock !== undefined;
+  if (!nextCursor && nextBlock !== undefined) {
+    nextCursor = { blockNumber: nextBlock, transactionIndex: -1 };
+  }
+
+  await decodeTokenTransfers(chainId, address, logs);
+
+  logger.info(`Fetched ${transactions.length} transactions from SQD Network`, {
+    chainId,
+    address,
+    count: transactions.length,
+    hasMore,
+  });
+
+  return { transactions, nextCursor, hasMore };
+}
+
+/**
+ * Decode Transfer logs into each transaction's tokenTransfers. Token metadata comes from the address's
+ * registry tokens, then the token metadata cache (read on-chain on a miss).
+ * ERC-721 Transfer logs (the token id indexed as a 4th topic) are skipped. Also used by the RPC history index.
+ */
+export async function decodeTokenTransfers(
+  chainId: ChainId,
+  address: Address,
+  logs: Map<Transaction, TransferLog[]>
+): Promise<void> {
+  const addressLower = address.toLowerCase();
+  const erc20Logs = [...logs.values()].flat().filter((log) => log.topics.length === 3 && ethers.dataLength(log.data) === 32);
+
+  const metadata = new Map<string, TokenTransfer["token"]>();
+  const tokenAddresses = [...new Set(erc20Logs.map((log) => log.address.toLowerCase()))];
+  if (tokenAddresses.length > 0) {
+    for (const token of await getRegistryTokens(address)) {
+      if (token.chainId === chainId) {
+        metadata.set(token.address.toLowerCase(), { address: token.address, symbol: token.symbol, name: token.name, decimals: token.decimals });
+      }
+    }
+    await Promise.all(
+      tokenAddresses
+        .filter((tokenAddress) => !metadata.has(tokenAddress))
+        .map(async (tokenAddress) => {
+          try {
+            const token = await getTokenMetadata(chainId, tokenAddress as Address);
+            metadata.set(tokenAddress, { address: ethers.getAddress(tokenAddress), symbol: token.symbol, name: token.name, decimals: token.decimals });
+          } catch (error) {
+            logger.debug("Token metadata unavailable for transfer", {
+              chainId,
+              token: tokenAddress,
+              error: error instanceof Error ? error.message : String(error),
+            });
+            metadata.set(tokenAddress, { address: ethers.getAddress(tokenAddress) });
+          }
+        })
+    );
+  }
+
+  for (const [transaction, transactionLogs] of logs) {
+    const transfers: TokenTransfer[] = [];
+    for (const log of transactionLogs) {
+      if (log.topics.length !== 3 || ethers.dataLength(log.data) !== 32) {
+        continue;
+      }
+      const from = ethers.getAddress(ethers.dataSlice(log.topics[1]!, 12));
+      const to = ethers.getAddress(ethers.dataSlice(log.topics[2]!, 12));
+      const isFrom = from.toLowerCase() === addressLower;
+      const isTo = to.toLowerCase() === addressLower;
+      if (!isFrom && !isTo) {
+        continue;
+      }
+      const token = metadata.get(log.address.toLowerCase())!;
+      const amount = BigInt(log.data);
+      transfers.push({
+        logIndex: log.logIndex,
+        token,
+        from,
+        to,
+        amount: amount.toString(),
+        ...(token.decimals !== undefined ? { amountFormatted: ethers.formatUnits(amount, token.decimals) } : {}),
+        direction: isFrom && isTo ? "self" : isFrom ? "out" : "in",
+      });
+    }
+    if (transfers.length > 0) {
+      transaction.tokenTransfers = transfers.sort((a, b) => a.logIndex - b.logIndex);
+    }
+  }
+}
 
-    return transactions;
+/**
+ * Fetch transactions for an address from SQD Network (the first page of fetchTransactionPageFromSQD)
+ * @param chainId - The chain ID
+ * @param address - The wallet address to fetch transactions for
+ * @param options - Query options
+ * @returns Array of transactions
+ */
+export async function fetchTransactionsFromSQD(
+  chainId: ChainId,
+  address: Address,
+  options: {
+    fromBlock?: number;
+    toBlock?: number;
+    limit?: number;
+    direction?: "from" | "to" | "both"; // Filter by sender, receiver, or both
+  } = {}
+): Promise<Transaction[]> {
+  try {
+    return (await fetchTransactionPageFromSQD(chainId, address, options)).transactions;
   } catch (error) {
     logger.error("Failed to fetch transactions from SQD Network", error);
     return [];
@@ -0,0 +1,252 @@
+import { ethers } from "ethers";
+import { CHAINS } from "../setup/chains.js";
+import { providers } from "../setup/providers.js";
+import { logger } from "../setup/logger.js";
+import type { Address, ChainId, TokenConfig } from "../setup/types.js";
+import { ERC20_ABI } from "../utils/decode-and-verify-erc20-transfer.js";
+import { getCachedBalances, PORTFOLIO_FRESHNESS, type BalanceFreshness } from "./balance-cache.js";
+import {
+  addCustomToken,
+  getCachedTokenMetadata,
+  getCustomTokens,
+  getListedTokens,
+  getTokenMetadataFor,
+  upsertTokenMetadata,
+  type TokenMetadata,
+} from "../db/tokens.js";
+
+// Custom tokens one wallet may add; each is one more balance read on every portfolio request
+const CUSTOM_TOKENS_MAX_PER_WALLET = Number(process.env.CUSTOM_TOKENS_MAX_PER_WALLET) || 50;
+
+// Pre-ERC-20-standard tokens (e.g. MKR) return symbol() and name() as bytes32
+const BYTES32_METADATA_ABI = [
+  "function symbol() view returns (bytes32)",
+  "function name() view returns (bytes32)",
+];
+
+/**
+ * Where a token in a wallet's token list comes from
+ * - config: ChainConfig.commonTokens
+ * - registry: the shared registry (POST /tokens)
+ * - custom: added by the wallet itself (POST /tokens/custom/:address)
+ */
+export type TokenSource = "config" | "registry" | "custom";
+
+export interface RegistryToken extends TokenConfig {
+  chainId: ChainId;
+  name?: string;
+  source: TokenSource;
+}
+
+export interface RegistryTokenBalance extends RegistryToken {
+  balance: bigint;
+}
+
+/**
+ * The address isn't an ERC-20 token the registry can use (no contract, unreadable or invalid metadata)
+ */
+export class TokenRegistryError extends Error {}
+
+/**
+ * The wallet already has CUSTOM_TOKENS_MAX_PER_WALLET custom tokens
+ */
+export class CustomTokenLimitError extends Error {}
+
+/**
+ * Read symbol, name and decimals from the token contract
+ * @throws TokenRegistryError when the address has no contract or the metadata can't be read
+ */
+export async function fetchTokenMetadata(
+  chainId: ChainId,
+  address: Address
+): Promise<{ symbol: string; name: string; decimals: number }> {
+  const provider = providers[chainId];
+  if (!provider) {
+    throw new TokenRegistryError(`Provider not configured for chain ${chainId}`);
+  }
+
+  const code = await provider.getCode(address);
+  if (!code || code === "0x") {
+    throw new TokenRegistryError(`No contract at ${address} on chain ${chainId}`);
+  }
+
+  const contract = new ethers.Contract(address, ERC20_ABI, provider);
+  const readText = async (field: "symbol" | "name"): Promise<string> => {
+    try {
+      return (await contract[field]()) as string;
+    } catch {
+      const legacy = new ethers.Contract(address, BYTES32_METADATA_ABI, provider);
+      return ethers.decodeBytes32String(await legacy[field]());
+    }
+  };
+
+  let symbol: string;
+  let name: string;
+  let decimals: number;
+  try {
+    [symbol, name, decimals] = await Promise.all([
+      readText("symbol"),
+      readText("name").catch(() => ""),
+      contract.decimals().then(Number),
+    ]);
+  } catch (error) {
+    throw new TokenRegistryError(
+      `Could not read ERC-20 metadata at ${address} on chain ${chainId}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  symbol = symbol.trim();
+  if (!symbol) {
+    throw new TokenRegistryError(`Token at ${address} on chain ${chainId} has an empty symbol`);
+  }
+  if (!Number.isInteger(decimals) || decimals > 36) {
+    throw new TokenRegistryError(`Token at ${address} on chain ${chainId} reports invalid decimals ${decimals}`);
+  }
+
+  return { symbol, name: name.trim() || symbol, decimals };
+}
+
+/**
+ * Token metadata from the Mongo cache, read on-chain and cached on a miss.
+ * Without MongoDB the metadata is read on-chain every time (and `listed` fails).
+ * @param listed - Add the token to the shared registry
+ */
+export async function getTokenMetadata(
+  chainId: ChainId,
+  address: Address,
+  listed: boolean = false
+): Promise<Omit<TokenMetadata, "_id">> {
+  let cached: TokenMetadata | null = null;
+  try {
+    cached = await getCachedTokenMetadata(chainId, address);
+  } catch (error) {
+    // Registering a token needs the registry itself
+    if (listed) {
+      throw error;
+    }
+    logger.warn("Token metadata cache unavailable, reading on-chain", {
+      chainId,
+      address,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    const metadata = await fetchTokenMetadata(chainId, address);
+    return { chainId, address: address.toLowerCase(), ...metadata, listed, fetchedAt: new Date() };
+  }
+
+  if (cached && (cached.listed || !listed)) {
+    return cached;
+  }
+
+  const metadata = cached ?? { chainId, address, ...(await fetchTokenMetadata(chainId, address)) };
+  const stored = await upsertTokenMetadata(
+    { chainId, address, symbol: metadata.symbol, name: metadata.name, decimals: metadata.decimals },
+    listed
+  );
+  logger.info("Token metadata cached", {
+    chainId,
+    address,
+    symbol: stored.symbol,
+    decimals: stored.decimals,
+    listed: stored.listed,
+  });
+  return stored;
+}
+
+/**
+ * Add a token to the shared registry, so every wallet's portfolio checks it
+ */
+export async function registerToken(chainId: ChainId, address: Address): Promise<RegistryToken> {
+  const metadata = await getTokenMetadata(chainId, address, true);
+  return toRegistryToken(metadata, "registry");
+}
+
+/**
+ * Add a token to one wallet's custom tokens
+ * @throws CustomTokenLimitError when the wallet already has CUSTOM_TOKENS_MAX_PER_WALLET other custom tokens
+ */
+export async function addCustomTokenForWallet(owner: Address, chainId: ChainId, address: Address): Promise<RegistryToken> {
+  const custom = await getCustomTokens(owner);
+  const added = custom.some((t) => t.chainId === chainId && t.address === address.toLowerCase());
+  if (!added && custom.length >= CUSTOM_TOKENS_MAX_PER_WALLET) {
+    throw new CustomTokenLimitError(`${owner} already has ${custom.length} custom tokens (at most ${CUSTOM_TOKENS_MAX_PER_WALLET})`);
+  }
+  const metadata = await getTokenMetadata(chainId, address);
+  await addCustomToken(owner, chainId, address);
+  return toRegistryToken(metadata, "custom");
+}
+
+function toRegistryToken(metadata: Omit<TokenMetadata, "_id">, source: TokenSource): RegistryToken {
+  return {
+    chainId: metadata.chainId,
+    symbol: metadata.symbol,
+    name: metadata.name,
+    decimals: metadata.decimals,
+    address: ethers.getAddress(metadata.address) as Address,
+    source,
+  };
+}
+
+/**
+ * Every ERC-20 token a wallet's portfolio covers on the configured chains: the chains' commonTokens,
+ * the shared registry and, with `owner`, the wallet's custom tokens. Each (chain, address) appears once,
+ * in that order of precedence. Without MongoDB only the commonTokens are returned.
+ */
+export async function getRegistryTokens(owner?: Address): Promise<RegistryToken[]> {
+  const tokens = new Map<string, RegistryToken>();
+  const add = (token: RegistryToken) => {
+    const key = `${token.chainId}:${token.address.toLowerCase()}`;
+    if (CHAINS[token.chainId] && !tokens.has(key)) {
+      tokens.set(key, token);
+    }
+  };
+
+  for (const chain of Object.values(CHAINS)) {
+    for (const token of Object.values(chain.commonTokens)) {
+      add({ ...token, chainId: chain.id, source: "config" });
+    }
+  }
+
+  try {
+    for (const metadata of await getListedTokens()) {
+      add(toRegistryToken(metadata, "registry"));
+    }
+    if (owner) {
+      const custom = await getCustomTokens(owner);
+      for (const metadata of await getTokenMetadataFor(custom)) {
+        add(toRegistryToken(metadata, "custom"));
+      }
+    }
+  } catch (error) {
+    logger.warn("Token registry unavailable, using configured tokens only", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return [...tokens.values()];
+}
+
+/**
+ * Balances of a wallet's registry tokens (see getRegistryTokens), excluding zero balances.
+ * Balances are read through the balance cache, each chain's uncached ones in one Multicall3 batch;
+ * balances that can't be read count as zero.
+ */
+export async function getRegistryTokenBalances(
+  owner: Address,
+  filter: (token: RegistryToken) => boolean = () => true,
+  freshness: BalanceFreshness = PORTFOLIO_FRESHNESS
+): Promise<RegistryTokenBalance[]> {
+  const tokens = (await getRegistryTokens(owner)).filter(filter);
+  const chainIds = [...new Set(tokens.map((token) => token.chainId))];
+  const balances = await Promise.all(
+    chainIds.map(async (chainId) => {
+      const chainTokens = tokens.filter((token) => token.chainId === chainId);
+      const chainBalances = await getCachedBalances(
+        chainId,
+        chainTokens.map((token) => ({ wallet: owner, token })),
+        freshness
+      );
+      return chainTokens.map((token, i) => ({ ...token, balance: chainBalances[i]! }));
+    })
+  );
+  return balances.flat().filter((token) => token.balance > 0n);
+}
@@ -0,0 +1,92 @@
+import { logger } from "../setup/logger.js";
+import { CHAINS } from "../setup/chains.js";
+import { providers } from "../setup/providers.js";
+import type { Address, ChainId } from "../setup/types.js";
+import { fetchTransactionPageFromSQD, type TransactionCursor, type TransactionPage } from "./sqd-transactions.js";
+import { fetchTransactionPageFromRPC, isRpcHistoryAvailable } from "./rpc-history.js";
+
+// Where a chain's transaction history comes from
+export type TransactionSource = "sqd" | "rpc";
+
+export interface SourcedTransactionPage extends TransactionPage {
+  source: TransactionSource;
+  // First block the source has for the address: the RPC index only covers blocks from the address's first scan on
+  startBlock?: number;
+}
+
+export class TransactionSourceUnavailableError extends Error {}
+
+/**
+ * Fetch a page of an address's transactions from the chain's history source: SQD Network when the chain
+ * has an SQD dataset, otherwise (or when SQD fails) the RPC history index, when MongoDB is connected.
+ * Both page the same way, so a cursor stays valid when the source changes.
+ * @throws TransactionSourceUnavailableError when the chain has no usable source
+ */
+export async function fetchTransactionPage(
+  chainId: ChainId,
+  address: Address,
+  options: {
+    fromBlock?: number;
+    toBlock?: number;
+    limit?: number;
+    direction?: "from" | "to" | "both";
+    after?: TransactionCursor;
+  } = {}
+): Promise<SourcedTransactionPage> {
+  if (CHAINS[chainId]?.sqd?.dataset) {
+    try {
+      return { ...(await fetchTransactionPageFromSQD(chainId, address, options)), source: "sqd" };
+    } catch (error) {
+      if (!isRpcHistoryAvailable(chainId)) {
+        throw error;
+      }
+      logger.warn("SQD Network failed, falling back to the RPC history index", {
+        chainId,
+        address,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  } else if (!isRpcHistoryAvailable(chainId)) {
+    throw new TransactionSourceUnavailableError(
+      `No transaction history source for chain ${chainId}: no SQD dataset, and the RPC index needs a provider and MongoDB`
+    );
+  }
+
+  return { ...(await fetchTransactionPageFromRPC(chainId, address, options)), source: "rpc" };
+}
+
+/**
+ * First block of a chain at or after `timestamp` (ms), by bisecting on block timestamps.
+ * The block after the head when `timestamp` is past it. Undefined when the chain has no provider
+ * (callers then filter transactions on their timestamps).
+ */
+export async function findBlockAtTime(chainId: ChainId, timestamp: number): Promise<number | undefined> {
+  const provider = providers[chainId];
+  if (!provider) {
+    return undefined;
+  }
+  const target = Math.floor(timestamp / 1000);
+  const head = await provider.getBlock("latest");
+  if (!head) {
+    throw new Error(`Latest block not found on chain ${chainId}`);
+  }
+  if (head.timestamp < target) {
+    return head.number + 1;
+  }
+
+  let low = 0;
+  let high = head.number;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    const block = await provider.getBlock(middle);
+    if (!block) {
+      throw new Error(`Block ${middle} not found on chain ${chainId}`);
+    }
+    if (block.timestamp < target) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
@@ -0,0 +1,110 @@
+import { ethers } from "ethers";
+import { ChainId, type Address, NATIVE_TOKEN_ADDRESS, type TokenConfig } from "../setup/types.js";
+import { CHAINS } from "../setup/chains.js";
+import { providers } from "../setup/providers.js";
+
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+
+// A native or ERC-20 transfer found on-chain
+export interface ScannedTransfer {
+  chainId: ChainId;
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number | null;   // null for native transfers
+  from: Address;
+  to: Address;
+  token: TokenConfig;
+  amount: bigint;
+}
+
+/**
+ * Native and ERC-20 transfers from or to any of `addresses` in blocks fromBlock..toBlock, read over RPC.
+ * ERC-20 transfers come from the Transfer logs of `tokens`; native transfers from the blocks' transactions
+ * (successful ones only). Internal native transfers by contracts aren't seen.
+ * @returns Transfers in block order; throws when the RPC fails, so the range can be scanned again
+ */
+export async function scanTransfers(
+  chainId: ChainId,
+  fromBlock: number,
+  toBlock: number,
+  addresses: Address[],
+  tokens: TokenConfig[]
+): Promise<ScannedTransfer[]> {
+  const chain = CHAINS[chainId];
+  const provider = providers[chainId];
+  if (!chain || !provider) {
+    throw new Error(`Provider not configured for chain ${chainId}`);
+  }
+  if (addresses.length === 0 || fromBlock > toBlock) {
+    return [];
+  }
+
+  const watched = new Set(addresses.map((address) => address.toLowerCase()));
+  const transfers: ScannedTransfer[] = [];
+
+  // ERC-20 transfers from and to the addresses
+  const erc20s = new Map<string, TokenConfig>();
+  for (const token of tokens) {
+    if (!token.isNative && token.address.toLowerCase() !== NATIVE_TOKEN_ADDRESS.toLowerCase()) {
+      erc20s.set(token.address.toLowerCase(), token);
+    }
+  }
+  if (erc20s.size > 0) {
+    const addressTopics = [...watched].map((address) => ethers.zeroPadValue(address, 32));
+    const [sent, received] = await Promise.all([
+      provider.getLogs({ address: [...erc20s.keys()], fromBlock, toBlock, topics: [TRANSFER_TOPIC, addressTopics] }),
+      provider.getLogs({ address: [...erc20s.keys()], fromBlock, toBlock, topics: [TRANSFER_TOPIC, null, addressTopics] }),
+    ]);
+    const seen = new Set<string>();
+    for (const log of [...sent, ...received]) {
+      const key = `${log.transactionHash}:${log.index}`;
+      // Transfer with 3 topics and a uint256: ERC-20 (ERC-721 indexes the token id as a 4th topic)
+      if (seen.has(key) || log.topics.length !== 3 || log.data.length !== 66) {
+        continue;
+      }
+      seen.add(key);
+      transfers.push({
+        chainId,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        txHash: log.transactionHash,
+        logIndex: log.index,
+        from: ethers.getAddress(ethers.dataSlice(log.topics[1]!, 12)) as Address,
+        to: ethers.getAddress(ethers.dataSlice(log.topics[2]!, 12)) as Address,
+        token: erc20s.get(log.address.toLowerCase())!,
+        amount: BigInt(log.data),
+      });
+    }
+  }
+
+  // Native transfers, from the blocks' transactions
+  for (let blockNumber = fromBlock; blockNumber <= toBlock; blockNumber++) {
+    const block = await provider.getBlock(blockNumber, true);
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not found on chain ${chainId}`);
+    }
+    for (const tx of block.prefetchedTransactions) {
+      if (tx.value === 0n || !tx.to || (!watched.has(tx.from.toLowerCase()) && !watched.has(tx.to.toLowerCase()))) {
+        continue;
+      }
+      const receipt = await provider.getTransactionReceipt(tx.hash);
+      if (receipt?.status !== 1) {
+        continue;
+      }
+      transfers.push({
+        chainId,
+        blockNumber,
+        blockHash: block.hash!,
+        txHash: tx.hash,
+        logIndex: null,
+        from: ethers.getAddress(tx.from) as Address,
+        to: ethers.getAddress(tx.to) as Address,
+        token: chain.native,
+        amount: tx.value,
+      });
+    }
+  }
+
+  return transfers.sort((a, b) => a.blockNumber - b.blockNumber || (a.logIndex ?? -1) - (b.logIndex ?? -1));
+}
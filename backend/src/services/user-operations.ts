@@ -0,0 +1,267 @@
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  numberToHex,
+  parseAbi,
+  type Address,
+  type Hex,
+} from "viem";
+import {
+  formatUserOperationRequest,
+  getUserOperationHash,
+  type UserOperation,
+} from "viem/account-abstraction";
+import { ethers } from "ethers";
+import { providers } from "../setup/providers.js";
+import { logger } from "../setup/logger.js";
+import type { ChainId, TokenConfig } from "../setup/types.js";
+import type { PaymasterDeployment } from "./paymaster-deployments.js";
+
+// Smart accounts are expected to expose SimpleAccount's executeBatch (EntryPoint v0.7)
+const ACCOUNT_ABI = parseAbi([
+  "function executeBatch(address[] dest, uint256[] value, bytes[] func)",
+]);
+
+// SimpleAccountFactory (EntryPoint v0.7): one account per owner and salt, at a counterfactual address
+const ACCOUNT_FACTORY_ABI = parseAbi([
+  "function createAccount(address owner, uint256 salt) returns (address)",
+  "function getAddress(address owner, uint256 salt) view returns (address)",
+]);
+
+// eth-infinitism's SimpleAccountFactory v0.7, used when a paymaster deployment doesn't name one
+export const SIMPLE_ACCOUNT_FACTORY: Address = "0x91E60e0613810449d098b0b5Ec8b51A0FE8c8985";
+
+const ERC20_ABI = parseAbi([
+  "function approve(address spender, uint256 value) returns (bool)",
+  "function transfer(address to, uint256 value) returns (bool)",
+]);
+
+// Placeholder signature with the length and shape of an ECDSA signature, used while estimating gas
+const DUMMY_SIGNATURE: Hex =
+  "0xfffffffffffffffffffffffffffffff0000000000000000000000000000000007aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1c";
+
+// How long a bundler or paymaster service may take to answer
+const USER_OPERATION_RPC_TIMEOUT_MS = Number(process.env.USER_OPERATION_RPC_TIMEOUT_MS) || 15 * 1000;
+
+export type SponsoredUserOperation = UserOperation<"0.7">;
+
+// The owner's smart account on one chain
+export interface SmartAccount {
+  address: Address;
+  // Set while the account has no code: the first UserOperation deploys it through the factory
+  factory?: Address;
+  factoryData?: Hex;
+}
+
+/**
+ * Send a JSON-RPC request to a bundler or paymaster service
+ */
+async function jsonRpc<T>(url: string, method: string, params: unknown[]): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+    signal: AbortSignal.timeout(USER_OPERATION_RPC_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`${method} failed: HTTP ${response.status}`);
+  }
+  const body = (await response.json()) as { result?: T; error?: { code: number; message: string } };
+  if (body.error) {
+    throw new Error(`${method} failed: ${body.error.message}`);
+  }
+  return body.result as T;
+}
+
+/**
+ * Call data for a sponsored transfer: approve the paymaster to take up to `gasTokenAllowance`
+ * of the gas token, then transfer `amount` of the token to `to`, in one executeBatch call.
+ */
+export function buildSponsoredTransferCallData(
+  token: TokenConfig,
+  to: Address,
+  amount: bigint,
+  gasToken: TokenConfig,
+  paymaster: Address,
+  gasTokenAllowance: bigint,
+): Hex {
+  return encodeFunctionData({
+    abi: ACCOUNT_ABI,
+    functionName: "executeBatch",
+    args: [
+      [gasToken.address, token.address],
+      [0n, 0n],
+      [
+        encodeFunctionData({ abi: ERC20_ABI, functionName: "approve", args: [paymaster, gasTokenAllowance] }),
+        encodeFunctionData({ abi: ERC20_ABI, functionName: "transfer", args: [to, amount] }),
+      ],
+    ],
+  });
+}
+
+/**
+ * The owner's SimpleAccount on a chain (salt 0), as the factory derives it.
+ * An account without code yet comes with the factory call that deploys it.
+ */
+export async function getSmartAccount(chainId: ChainId, accountFactory: Address, owner: Address): Promise<SmartAccount> {
+  const provider = providers[chainId];
+  if (!provider) {
+    throw new Error(`Provider not configured for chain ${chainId}`);
+  }
+  const result = await provider.call({
+    to: accountFactory,
+    data: encodeFunctionData({ abi: ACCOUNT_FACTORY_ABI, functionName: "getAddress", args: [owner, 0n] }),
+  });
+  if (result === "0x") {
+    throw new Error(`Account factory ${accountFactory} is not deployed on chain ${chainId}`);
+  }
+  const address = decodeFunctionResult({ abi: ACCOUNT_FACTORY_ABI, functionName: "getAddress", data: result as Hex });
+  const code = await provider.getCode(address);
+  if (code && code !== "0x") {
+    return { address };
+  }
+  return {
+    address,
+    factory: accountFactory,
+    factoryData: encodeFunctionData({ abi: ACCOUNT_FACTORY_ABI, functionName: "createAccount", args: [owner, 0n] }),
+  };
+}
+
+/**
+ * The account's next EntryPoint nonce (key 0).
+ * When the EntryPoint isn't deployed on the chain (local stand-in), the account can't have used it yet.
+ */
+export async function getAccountNonce(chainId: ChainId, entryPoint: Address, sender: Address): Promise<bigint> {
+  const provider = providers[chainId];
+  if (!provider) {
+    throw new Error(`Provider not configured for chain ${chainId}`);
+  }
+  const code = await provider.getCode(entryPoint);
+  if (!code || code === "0x") {
+    logger.debug("EntryPoint not deployed on chain, using nonce 0", { chainId, entryPoint });
+    return 0n;
+  }
+  const contract = new ethers.Contract(
+    entryPoint,
+    ["function getNonce(address sender, uint192 key) view returns (uint256)"],
+    provider,
+  );
+  return (await contract.getNonce(sender, 0n)) as bigint;
+}
+
+/**
+ * Build a UserOperation with token paymaster data and bundler gas limits.
+ *
+ * Follows ERC-7677: paymaster stub data for estimation, eth_estimateUserOperationGas on the bundler,
+ * then the final paymaster data for the estimated operation. The returned operation is unsigned;
+ * the wallet signs its hash (see hashUserOperation).
+ */
+export async function buildSponsoredUserOperation(
+  deployment: PaymasterDeployment,
+  chainId: ChainId,
+  account: SmartAccount,
+  nonce: bigint,
+  callData: Hex,
+  fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint },
+): Promise<SponsoredUserOperation> {
+  const entryPoint = deployment.entryPoint as Address;
+  const paymasterUrl = deployment.paymasterUrl ?? deployment.bundlerUrl;
+  const chainIdHex = numberToHex(chainId);
+  const context = { token: deployment.gasToken ?? "USDC" };
+
+  const userOp: SponsoredUserOperation = {
+    sender: account.address,
+    nonce,
+    factory: account.factory,
+    factoryData: account.factoryData,
+    callData,
+    callGasLimit: 0n,
+    verificationGasLimit: 0n,
+    preVerificationGas: 0n,
+    maxFeePerGas: fees.maxFeePerGas,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    signature: DUMMY_SIGNATURE,
+  };
+
+  const stub = await jsonRpc<{
+    paymaster: Address;
+    paymasterData: Hex;
+    paymasterVerificationGasLimit?: Hex;
+    paymasterPostOpGasLimit?: Hex;
+  }>(paymasterUrl, "pm_getPaymasterStubData", [formatUserOperationRequest(userOp), entryPoint, chainIdHex, context]);
+  userOp.paymaster = stub.paymaster;
+  userOp.paymasterData = stub.paymasterData;
+  userOp.paymasterVerificationGasLimit = BigInt(stub.paymasterVerificationGasLimit ?? "0x0");
+  userOp.paymasterPostOpGasLimit = BigInt(stub.paymasterPostOpGasLimit ?? "0x0");
+
+  const gas = await jsonRpc<{
+    callGasLimit: Hex;
+    verificationGasLimit: Hex;
+    preVerificationGas: Hex;
+    paymasterVerificationGasLimit?: Hex;
+    paymasterPostOpGasLimit?: Hex;
+  }>(deployment.bundlerUrl, "eth_estimateUserOperationGas", [formatUserOperationRequest(userOp), entryPoint]);
+  userOp.callGasLimit = BigInt(gas.callGasLimit);
+  userOp.verificationGasLimit = BigInt(gas.verificationGasLimit);
+  userOp.preVerificationGas = BigInt(gas.preVerificationGas);
+  if (gas.paymasterVerificationGasLimit) {
+    userOp.paymasterVerificationGasLimit = BigInt(gas.paymasterVerificationGasLimit);
+  }
+  if (gas.paymasterPostOpGasLimit) {
+    userOp.paymasterPostOpGasLimit = BigInt(gas.paymasterPostOpGasLimit);
+  }
+
+  const final = await jsonRpc<{ paymaster: Address; paymasterData: Hex }>(
+    paymasterUrl,
+    "pm_getPaymasterData",
+    [formatUserOperationRequest(userOp), entryPoint, chainIdHex, context],
+  );
+  userOp.paymaster = final.paymaster;
+  userOp.paymasterData = final.paymasterData;
+  userOp.signature = "0x";
+
+  logger.debug("Sponsored UserOperation built", {
+    chainId,
+    sender: account.address,
+    deploysAccount: account.factory !== undefined,
+    nonce: nonce.toString(),
+    paymaster: userOp.paymaster,
+    totalGas: totalUserOperationGas(userOp).toString(),
+  });
+
+  return userOp;
+}
+
+/**
+ * Gas the EntryPoint may charge for an operation: every gas limit plus preVerificationGas
+ */
+export function totalUserOperationGas(userOp: SponsoredUserOperation): bigint {
+  return (
+    userOp.callGasLimit +
+    userOp.verificationGasLimit +
+    userOp.preVerificationGas +
+    (userOp.paymasterVerificationGasLimit ?? 0n) +
+    (userOp.paymasterPostOpGasLimit ?? 0n)
+  );
+}
+
+/**
+ * Hash the wallet signs for a UserOperation (EntryPoint v0.7)
+ */
+export function hashUserOperation(userOp: SponsoredUserOperation, entryPoint: Address, chainId: ChainId): Hex {
+  return getUserOperationHash({
+    userOperation: userOp,
+    entryPointAddress: entryPoint,
+    entryPointVersion: "0.7",
+    chainId,
+  });
+}
+
+/**
+ * UserOperation in the bundler's JSON-RPC format (quantities as hex strings)
+ */
+export function toRpcUserOperation(userOp: Parameters<typeof formatUserOperationRequest>[0]): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(formatUserOperationRequest(userOp)).filter(([, value]) => value !== undefined),
+  ) as Record<string, string>;
+}
@@ -0,0 +1,363 @@
+import { createHash, createHmac } from "crypto";
+import { ethers } from "ethers";
+import { Agent, fetch } from "undici";
+import { ChainId, type Address, type TokenConfig } from "../setup/types.js";
+import { CHAINS } from "../setup/chains.js";
+import { providers } from "../setup/providers.js";
+import { logger } from "../setup/logger.js";
+import { getRegistryTokens } from "./token-registry.js";
+import { scanTransfers, type ScannedTransfer } from "./transfer-scanner.js";
+import { assertPublicUrl, lookupPublicAddress } from "../utils/public-url.js";
+import {
+  getDueWebhookDeliveries,
+  getRecentTransferDeliveries,
+  getWebhookCheckpoint,
+  listWebhooks,
+  markWebhookDeliveriesRetracted,
+  queueWebhookDelivery,
+  recordWebhookAttempt,
+  saveWebhookCheckpoint,
+  type ScannedBlock,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookEvent,
+} from "../db/webhooks.js";
+
+// How often every chain is scanned for new transfers of registered addresses
+const WEBHOOK_POLL_INTERVAL_MS = Number(process.env.WEBHOOK_POLL_INTERVAL_MS) || 10 * 1000;
+// How often due deliveries are sent
+const WEBHOOK_DELIVERY_INTERVAL_MS = Number(process.env.WEBHOOK_DELIVERY_INTERVAL_MS) || 2000;
+// Blocks scanned per chain and poll; a chain further ahead is caught up over several polls
+const WEBHOOK_MAX_BLOCK_RANGE = Number(process.env.WEBHOOK_MAX_BLOCK_RANGE) || 50;
+// Blocks below the head whose hashes are checked for reorgs
+const WEBHOOK_REORG_DEPTH = Number(process.env.WEBHOOK_REORG_DEPTH) || 12;
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8;
+// Delay before the second attempt; doubles with every attempt, up to an hour
+const WEBHOOK_RETRY_BASE_MS = Number(process.env.WEBHOOK_RETRY_BASE_MS) || 10 * 1000;
+const WEBHOOK_RETRY_MAX_MS = 60 * 60 * 1000;
+const WEBHOOK_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS) || 10 * 1000;
+// Local development only: let webhook URLs resolve to loopback and private addresses
+export const WEBHOOK_ALLOW_PRIVATE_URLS = process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true";
+const WEBHOOK_DELIVERY_BATCH_SIZE = 20;
+// Deliveries connect only to public addresses, checked on the address each connection is made to
+const publicAddressAgent = new Agent({ connect: { lookup: lookupPublicAddress } });
+// How long the registered addresses' token lists are reused
+const WEBHOOK_TOKEN_REFRESH_MS = 60 * 1000;
+
+let scanTimer: NodeJS.Timeout | null = null;
+let deliveryTimer: NodeJS.Timeout | null = null;
+let scanning = false;
+let delivering = false;
+let watchedTokens: { tokens: Array<TokenConfig & { chainId: ChainId }>; loadedAt: number } | null = null;
+
+/**
+ * Signature of a callback: hex HMAC-SHA256 of `<timestamp>.<body>`, keyed with the webhook's secret.
+ * Sent as `X-Webhook-Signature: sha256=<signature>`, with the timestamp in `X-Webhook-Timestamp`.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * Start scanning chains for transfers of registered addresses and delivering callbacks (needs MongoDB)
+ */
+export function startWebhookWorkers(): void {
+  if (scanTimer) {
+    return;
+  }
+  scanTimer = setInterval(() => void scanChains(), WEBHOOK_POLL_INTERVAL_MS);
+  deliveryTimer = setInterval(() => void deliverDueWebhooks(), WEBHOOK_DELIVERY_INTERVAL_MS);
+  scanTimer.unref();
+  deliveryTimer.unref();
+  logger.info("Webhook workers started", {
+    pollIntervalMs: WEBHOOK_POLL_INTERVAL_MS,
+    reorgDepth: WEBHOOK_REORG_DEPTH,
+    maxAttempts: WEBHOOK_MAX_ATTEMPTS,
+  });
+}
+
+/**
+ * Stop the webhook workers (pending deliveries stay queued in MongoDB)
+ */
+export function stopWebhookWorkers(): void {
+  if (scanTimer) {
+    clearInterval(scanTimer);
+  }
+  if (deliveryTimer) {
+    clearInterval(deliveryTimer);
+  }
+  scanTimer = null;
+  deliveryTimer = null;
+}
+
+/**
+ * ERC-20 tokens the registered addresses' portfolios cover (see getRegistryTokens), reloaded every WEBHOOK_TOKEN_REFRESH_MS
+ */
+async function getWatchedTokens(addresses: Address[]): Promise<Array<TokenConfig & { chainId: ChainId }>> {
+  if (!watchedTokens || Date.now() - watchedTokens.loadedAt >= WEBHOOK_TOKEN_REFRESH_MS) {
+    const tokens = new Map<string, TokenConfig & { chainId: ChainId }>();
+    for (const address of addresses) {
+      for (const token of await getRegistryTokens(address)) {
+        tokens.set(`${token.chainId}:${token.address.toLowerCase()}`, token);
+      }
+    }
+    watchedTokens = { tokens: [...tokens.values()], loadedAt: Date.now() };
+  }
+  return watchedTokens.tokens;
+}
+
+async function scanChains(): Promise<void> {
+  if (scanning) {
+    return;
+  }
+  scanning = true;
+  try {
+    const webhooks = await listWebhooks();
+    const addresses = [...new Set(webhooks.flatMap((webhook) => webhook.addresses))] as Address[];
+    const tokens = addresses.length > 0 ? await getWatchedTokens(addresses) : [];
+    await Promise.all(
+      Object.values(CHAINS)
+        .filter((chain) => providers[chain.id])
+        .map((chain) =>
+          scanChain(
+            chain.id,
+            webhooks.filter((webhook) => !webhook.chainIds || webhook.chainIds.includes(chain.id)),
+            tokens.filter((token) => token.chainId === chain.id)
+          )
+        )
+    );
+  } catch (error) {
+    logger.warn("Webhook scan failed", { error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    scanning = false;
+  }
+}
+
+/**
+ * Scan a chain from its checkpoint on: retract transfers whose block was reorged out, then queue
+ * an event per new transfer and webhook. Without webhooks for the chain the checkpoint just follows
+ * the head, so a new webhook isn't sent old transfers.
+ */
+async function scanChain(chainId: ChainId, webhooks: Webhook[], tokens: TokenConfig[]): Promise<void> {
+  const chain = CHAINS[chainId]!;
+  const provider = providers[chainId]!;
+  try {
+    const head = await provider.getBlockNumber();
+    const saved = await getWebhookCheckpoint(chainId);
+    if (saved === null || webhooks.length === 0) {
+      if (saved === null || head > saved.blockNumber) {
+        await saveWebhookCheckpoint(chainId, head, []);
+      }
+      return;
+    }
+
+    let checkpoint = saved.blockNumber;
+    let recentBlocks = saved.recentBlocks ?? [];
+    const reorgedFrom = await retractReorgedTransfers(chainId, head, recentBlocks);
+    if (reorgedFrom !== null && reorgedFrom <= checkpoint) {
+      // Scan the reorged blocks again, their new transfers get new events
+      checkpoint = reorgedFrom - 1;
+      recentBlocks = recentBlocks.filter((block) => block.number < reorgedFrom);
+    }
+    if (head <= checkpoint) {
+      return;
+    }
+
+    const fromBlock = checkpoint + 1;
+    const toBlock = Math.min(head, checkpoint + WEBHOOK_MAX_BLOCK_RANGE);
+    const addresses = [...new Set(webhooks.flatMap((webhook) => webhook.addresses))] as Address[];
+    const transfers = await scanTransfers(chainId, fromBlock, toBlock, addresses, [chain.native, ...tokens]);
+
+    let queued = 0;
+    for (const transfer of transfers) {
+      for (const webhook of webhooks) {
+        for (const direction of ["out", "in"] as const) {
+          const address = (direction === "out" ? transfer.from : transfer.to).toLowerCase();
+          if (webhook.addresses.includes(address) && (await queueWebhookDelivery(webhook.webhookId, toEvent(transfer, address, direction)))) {
+            queued++;
+          }
+        }
+      }
+    }
+
+    // Remember the hashes of the scanned blocks within WEBHOOK_REORG_DEPTH of the new checkpoint
+    const keepFrom = toBlock - WEBHOOK_REORG_DEPTH + 1;
+    const scanned: ScannedBlock[] = [];
+    for (let number = Math.max(fromBlock, keepFrom); number <= toBlock; number++) {
+      const block = await provider.getBlock(number);
+      if (block?.hash) {
+        scanned.push({ number, hash: block.hash });
+      }
+    }
+    recentBlocks = [...recentBlocks.filter((block) => block.number >= keepFrom && block.number < fromBlock), ...scanned];
+
+    await saveWebhookCheckpoint(chainId, toBlock, recentBlocks);
+    if (queued > 0) {
+      logger.info("Webhook events queued", { chainId, fromBlock, toBlock, transfers: transfers.length, queued });
+    }
+  } catch (error) {
+    logger.warn(`Webhook scan failed on chain ${chainId}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+function toEvent(transfer: ScannedTransfer, address: string, direction: "in" | "out"): WebhookEvent {
+  // Same transfer, block and address: same id, so a rescanned block doesn't queue it twice
+  const id = createHash("sha256")
+    .update([transfer.chainId, transfer.blockHash, transfer.txHash, transfer.logIndex ?? "native", address, direction].join(":"))
+    .digest("hex")
+    .slice(0, 32);
+  return {
+    id: `evt_${id}`,
+    type: "transfer",
+    createdAt: new Date().toISOString(),
+    data: {
+      chainId: transfer.chainId,
+      chainName: CHAINS[transfer.chainId]?.name ?? String(transfer.chainId),
+      blockNumber: transfer.blockNumber,
+      blockHash: transfer.blockHash,
+      txHash: transfer.txHash,
+      logIndex: transfer.logIndex,
+      address: ethers.getAddress(address),
+      direction,
+      from: transfer.from,
+      to: transfer.to,
+      token: { symbol: transfer.token.symbol, address: transfer.token.address, decimals: transfer.token.decimals },
+      amount: transfer.amount.toString(),
+      amountFormatted: ethers.formatUnits(transfer.amount, transfer.token.decimals),
+    },
+  };
+}
+
+/**
+ * Compare the checkpoint's recent blocks, and the blocks of transfers within WEBHOOK_REORG_DEPTH of the head,
+ * with the chain. A changed hash is a reorg, whether or not the block had transfers. Transfers whose block hash
+ * changed are retracted: a `transfer.retracted` event follows every one that was sent, and the ones not yet
+ * sent are dropped.
+ * @returns Lowest reorged block number, or null without reorgs
+ */
+async function retractReorgedTransfers(chainId: ChainId, head: number, recentBlocks: ScannedBlock[]): Promise<number | null> {
+  const deliveries = await getRecentTransferDeliveries(chainId, head - WEBHOOK_REORG_DEPTH);
+  const recordedHashes = new Map(recentBlocks.map((block) => [block.number, block.hash]));
+  const blockNumbers = [...new Set([...recordedHashes.keys(), ...deliveries.map((delivery) => delivery.blockNumber)])].sort(
+    (a, b) => a - b
+  );
+  const reorged: WebhookDelivery[] = [];
+  let reorgedFrom: number | null = null;
+
+  for (const blockNumber of blockNumbers) {
+    const block = await providers[chainId]!.getBlock(blockNumber);
+    // Missing: the endpoint is behind, check again next time
+    if (!block) {
+      continue;
+    }
+    const retracted = deliveries.filter((delivery) => delivery.blockNumber === blockNumber && delivery.blockHash !== block.hash);
+    const recordedHash = recordedHashes.get(blockNumber);
+    reorged.push(...retracted);
+    if (reorgedFrom === null && (retracted.length > 0 || (recordedHash !== undefined && recordedHash !== block.hash))) {
+      reorgedFrom = blockNumber;
+    }
+  }
+  if (reorgedFrom === null) {
+    return null;
+  }
+
+  for (const delivery of reorged) {
+    if (delivery.status === "delivered" || delivery.attempts > 0) {
+      await queueWebhookDelivery(delivery.webhookId, {
+        id: `${delivery.eventId}_retracted`,
+        type: "transfer.retracted",
+        createdAt: new Date().toISOString(),
+        data: { ...delivery.event.data, retractsEventId: delivery.eventId },
+      });
+    }
+  }
+  if (reorged.length > 0) {
+    await markWebhookDeliveriesRetracted(reorged.map((delivery) => delivery._id!));
+  }
+
+  logger.warn(`Reorg on chain ${chainId}, webhook transfers retracted`, { reorgedFrom, retracted: reorged.length });
+  return reorgedFrom;
+}
+
+async function deliverDueWebhooks(): Promise<void> {
+  if (delivering) {
+    return;
+  }
+  delivering = true;
+  try {
+    const due = await getDueWebhookDeliveries(WEBHOOK_DELIVERY_BATCH_SIZE);
+    if (due.length === 0) {
+      return;
+    }
+    const webhooks = new Map((await listWebhooks()).map((webhook) => [webhook.webhookId, webhook]));
+    await Promise.all(due.map((delivery) => deliverWebhook(delivery, webhooks.get(delivery.webhookId))));
+  } catch (error) {
+    logger.warn("Webhook delivery failed", { error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    delivering = false;
+  }
+}
+
+/**
+ * POST a delivery's event to its webhook. Any 2xx response counts as delivered; anything else is retried
+ * with exponential backoff until WEBHOOK_MAX_ATTEMPTS attempts were made.
+ */
+async function deliverWebhook(delivery: WebhookDelivery, webhook: Webhook | undefined): Promise<void> {
+  if (!webhook) {
+    await recordWebhookAttempt(delivery._id!, { delivered: false, error: "Webhook deleted" });
+    return;
+  }
+
+  const body = JSON.stringify(delivery.event);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  let statusCode: number | undefined;
+  let error: string;
+  try {
+    // Checked on every attempt: the host may resolve elsewhere than when the webhook was registered
+    if (!WEBHOOK_ALLOW_PRIVATE_URLS) {
+      await assertPublicUrl(webhook.url);
+    }
+    const response = await fetch(webhook.url, {
+      ...(WEBHOOK_ALLOW_PRIVATE_URLS ? {} : { dispatcher: publicAddressAgent }),
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Id": webhook.webhookId,
+        "X-Webhook-Event": delivery.event.type,
+        "X-Webhook-Event-Id": delivery.eventId,
+        "X-Webhook-Timestamp": timestamp,
+        "X-Webhook-Signature": `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    statusCode = response.status;
+    // Only the status matters; release the connection without reading the body
+    await response.body?.cancel();
+    if (response.ok) {
+      await recordWebhookAttempt(delivery._id!, { delivered: true, statusCode });
+      logger.debug("Webhook delivered", { webhookId: webhook.webhookId, eventId: delivery.eventId });
+      return;
+    }
+    error = `HTTP ${response.status}`;
+  } catch (caught) {
+    error = caught instanceof Error ? caught.message : String(caught);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const nextAttemptAt =
+    attempts < WEBHOOK_MAX_ATTEMPTS
+      ? new Date(Date.now() + Math.min(WEBHOOK_RETRY_BASE_MS * 2 ** (attempts - 1), WEBHOOK_RETRY_MAX_MS))
+      : undefined;
+  await recordWebhookAttempt(delivery._id!, { delivered: false, statusCode, error, nextAttemptAt });
+  logger.warn("Webhook delivery attempt failed", {
+    webhookId: webhook.webhookId,
+    eventId: delivery.eventId,
+    attempts,
+    error,
+    nextAttemptAt: nextAttemptAt?.toISOString() ?? "none, giving up",
+  });
+}
@@ -0,0 +1,105 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ChainConfigError, parseChainConfig } from "./chain-config.js";
+import { NATIVE_TOKEN_ADDRESS } from "./types.js";
+
+const validChain = {
+  id: 11155111,
+  name: "Ethereum Sepolia",
+  rpcUrl: "https://rpc.example",
+  native: { symbol: "ETH", decimals: 18 },
+  commonTokens: { USDC: { decimals: 6, address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238" } },
+  minNativeBalance: "10000000000000000",
+  nativePrice: { type: "oracle", symbol: "ETH" },
+};
+
+function issuesOf(raw: unknown): string[] {
+  try {
+    parseChainConfig(raw, "test.yaml");
+  } catch (error) {
+    assert.ok(error instanceof ChainConfigError);
+    return error.issues;
+  }
+  assert.fail("expected a ChainConfigError");
+}
+
+test("parses a valid chain, defaulting token symbols and the native address", () => {
+  const [chain] = parseChainConfig({ chains: [validChain] }, "test.yaml");
+  assert.equal(chain!.id, 11155111);
+  assert.equal(chain!.rpcUrl, "https://rpc.example");
+  assert.deepEqual(chain!.rpcUrls, ["https://rpc.example"]);
+  assert.deepEqual(chain!.native, { symbol: "ETH", decimals: 18, address: NATIVE_TOKEN_ADDRESS, isNative: true });
+  assert.equal(chain!.commonTokens.USDC!.symbol, "USDC");
+  assert.equal(chain!.minNativeBalance, 10_000_000_000_000_000n);
+});
+
+test("rpcUrlEnv takes precedence over rpcUrl and splits on commas", () => {
+  process.env.TEST_CHAIN_RPC = "https://a.example, https://b.example";
+  try {
+    const [chain] = parseChainConfig(
+      { chains: [{ ...validChain, rpcUrlEnv: ["TEST_CHAIN_RPC"], rpcUrls: ["https://b.example", "https://c.example"] }] },
+      "test.yaml"
+    );
+    assert.deepEqual(chain!.rpcUrls, ["https://a.example", "https://b.example", "https://c.example"]);
+  } finally {
+    delete process.env.TEST_CHAIN_RPC;
+  }
+});
+
+test("rejects a missing or empty chain list", () => {
+  assert.deepEqual(issuesOf({}), ["chains: must be a list of chains"]);
+  assert.deepEqual(issuesOf({ chains: [] }), ["chains: at least one chain is required"]);
+});
+
+test("reports every invalid field with its path", () => {
+  const issues = issuesOf({
+    chains: [
+      {
+        ...validChain,
+        name: "",
+        rpcUrl: "ftp://rpc.example",
+        native: { symbol: "ETH", decimals: 40 },
+        minNativeBalance: -1,
+        nativePrice: { type: "fixed", priceUsd: 0 },
+        rollup: "zk",
+      },
+    ],
+  });
+  assert.deepEqual(issues, [
+    "chains[0] (11155111).name: must be a non-empty string",
+    "chains[0] (11155111).rpcUrl: must be an http(s) URL",
+    "chains[0] (11155111).native.decimals: must be an integer between 0 and 36",
+    "chains[0] (11155111).minNativeBalance: must be a non-negative integer amount in wei (quote large values as strings)",
+    "chains[0] (11155111).nativePrice: must be { type: oracle, symbol } or { type: fixed, priceUsd > 0 }",
+    "chains[0] (11155111).rollup: must be one of: op-stack, arbitrum",
+  ]);
+});
+
+test("rejects duplicate chain ids and bad token addresses", () => {
+  const issues = issuesOf({
+    chains: [
+      validChain,
+      { ...validChain, commonTokens: { DAI: { decimals: 18, address: "0x1234" } } },
+    ],
+  });
+  assert.deepEqual(issues, [
+    "chains[1].id: chain 11155111 is listed more than once",
+    "chains[1] (11155111).commonTokens.DAI.address: must be a 0x-prefixed 20-byte address",
+  ]);
+});
+
+test("requires an RPC source", () => {
+  const { rpcUrl: _rpcUrl, ...withoutRpc } = validChain;
+  assert.deepEqual(issuesOf({ chains: [withoutRpc] }), ["chains[0] (11155111): rpcUrl, rpcUrls or rpcUrlEnv is required"]);
+});
+
+test("price feeds are keyed by upper-case symbol and must be addresses", () => {
+  const [chain] = parseChainConfig(
+    { chains: [{ ...validChain, priceFeeds: { eth: "0x694AA1769357215DE4FAC081bf1f309aDC325306" } }] },
+    "test.yaml"
+  );
+  assert.deepEqual(chain!.priceFeeds, { ETH: "0x694AA1769357215DE4FAC081bf1f309aDC325306" });
+  assert.deepEqual(issuesOf({ chains: [{ ...validChain, priceFeeds: { ETH: "feed" } }] }), [
+    "chains[0] (11155111).priceFeeds.ETH: must be a 0x-prefixed 20-byte address",
+  ]);
+});
@@ -0,0 +1,279 @@
+import { readFileSync } from "fs";
+import { extname } from "path";
+import { fileURLToPath } from "url";
+import { parse as parseYaml } from "yaml";
+import {
+  NATIVE_TOKEN_ADDRESS,
+  type Address,
+  type ChainConfig,
+  type NativePriceSource,
+  type RollupType,
+  type SqdSource,
+  type TokenConfig,
+} from "./types.js";
+import { logger } from "./logger.js";
+
+// Environments with a bundled config file (config/chains.<env>.yaml)
+export const CHAIN_CONFIG_ENVS = ["testnet", "mainnet", "local"] as const;
+
+export type ChainConfigEnv = (typeof CHAIN_CONFIG_ENVS)[number];
+
+const ROLLUP_TYPES: RollupType[] = ["op-stack", "arbitrum"];
+
+/**
+ * The chain config file failed validation; `issues` lists every problem found, one per line
+ */
+export class ChainConfigError extends Error {
+  constructor(public source: string, public issues: string[]) {
+    super(`Invalid chain config ${source}:\n  - ${issues.join("\n  - ")}`);
+    this.name = "ChainConfigError";
+  }
+}
+
+/**
+ * Path of the chain config file: CHAIN_CONFIG_FILE, or the bundled file for CHAIN_CONFIG_ENV (default: testnet)
+ */
+export function getChainConfigPath(): string {
+  if (process.env.CHAIN_CONFIG_FILE) {
+    return process.env.CHAIN_CONFIG_FILE;
+  }
+  const env = process.env.CHAIN_CONFIG_ENV || "testnet";
+  if (!(CHAIN_CONFIG_ENVS as readonly string[]).includes(env)) {
+    throw new ChainConfigError("CHAIN_CONFIG_ENV", [
+      `unknown environment "${env}", expected one of: ${CHAIN_CONFIG_ENVS.join(", ")}`,
+    ]);
+  }
+  // Resolved from this module so it works from both src/ and dist/
+  return fileURLToPath(new URL(`../../config/chains.${env}.yaml`, import.meta.url));
+}
+
+/**
+ * Read and validate the chain config file
+ * @throws ChainConfigError listing every invalid field
+ */
+export function loadChainConfig(path: string = getChainConfigPath()): ChainConfig[] {
+  let raw: unknown;
+  try {
+    const text = readFileSync(path, "utf-8");
+    raw = extname(path) === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new ChainConfigError(path, [error instanceof Error ? error.message : String(error)]);
+  }
+  return parseChainConfig(raw, path);
+}
+
+/**
+ * Validate a parsed chain config document ({ chains: [...] }) and resolve it into ChainConfigs
+ * @throws ChainConfigError listing every invalid field
+ */
+export function parseChainConfig(raw: unknown, source: string): ChainConfig[] {
+  const issues: string[] = [];
+
+  if (!isObject(raw) || !Array.isArray(raw.chains)) {
+    throw new ChainConfigError(source, ["chains: must be a list of chains"]);
+  }
+  if (raw.chains.length === 0) {
+    throw new ChainConfigError(source, ["chains: at least one chain is required"]);
+  }
+
+  const chains: ChainConfig[] = [];
+  const seenIds = new Set<number>();
+
+  raw.chains.forEach((entry: unknown, index: number) => {
+    const at = `chains[${index}]`;
+    if (!isObject(entry)) {
+      issues.push(`${at}: must be an object`);
+      return;
+    }
+    const before = issues.length;
+
+    const id = entry.id;
+    if (!Number.isSafeInteger(id) || (id as number) <= 0) {
+      issues.push(`${at}.id: must be a positive integer chain id`);
+    } else if (seenIds.has(id as number)) {
+      issues.push(`${at}.id: chain ${id} is listed more than once`);
+    } else {
+      seenIds.add(id as number);
+    }
+    const label = Number.isSafeInteger(id) ? `${at} (${id})` : at;
+
+    if (typeof entry.name !== "string" || entry.name.trim() === "") {
+      issues.push(`${label}.name: must be a non-empty string`);
+    }
+
+    const rpcUrls = resolveRpcUrls(entry, label, issues);
+    const native = parseToken(entry.native, `${label}.native`, issues, { native: true });
+
+    const commonTokens: Record<string, TokenConfig> = {};
+    if (entry.commonTokens !== undefined && !isObject(entry.commonTokens)) {
+      issues.push(`${label}.commonTokens: must be a map of symbol to token`);
+    } else {
+      for (const [symbol, token] of Object.entries(entry.commonTokens ?? {})) {
+        const parsed = parseToken(token, `${label}.commonTokens.${symbol}`, issues, { symbol });
+        if (parsed) {
+          commonTokens[symbol] = parsed;
+        }
+      }
+    }
+
+    let minNativeBalance = 0n;
+    if (typeof entry.minNativeBalance === "string" && /^\d+$/.test(entry.minNativeBalance)) {
+      minNativeBalance = BigInt(entry.minNativeBalance);
+    } else if (Number.isSafeInteger(entry.minNativeBalance) && (entry.minNativeBalance as number) >= 0) {
+      minNativeBalance = BigInt(entry.minNativeBalance as number);
+    } else {
+      issues.push(`${label}.minNativeBalance: must be a non-negative integer amount in wei (quote large values as strings)`);
+    }
+
+    const nativePrice = parseNativePrice(entry.nativePrice, `${label}.nativePrice`, issues);
+
+    if (entry.rollup !== undefined && !ROLLUP_TYPES.includes(entry.rollup as RollupType)) {
+      issues.push(`${label}.rollup: must be one of: ${ROLLUP_TYPES.join(", ")}`);
+    }
+
+    let sqd: SqdSource | undefined;
+    if (entry.sqd !== undefined) {
+      if (!isObject(entry.sqd) || !isHttpUrl(entry.sqd.router) || typeof entry.sqd.dataset !== "string" || !entry.sqd.dataset) {
+        issues.push(`${label}.sqd: must have an http(s) router URL and a dataset`);
+      } else {
+        sqd = { router: entry.sqd.router as string, dataset: entry.sqd.dataset };
+      }
+    }
+
+    const priceFeeds: Record<string, Address> = {};
+    if (entry.priceFeeds !== undefined && !isObject(entry.priceFeeds)) {
+      issues.push(`${label}.priceFeeds: must be a map of asset symbol to aggregator address`);
+    } else {
+      for (const [symbol, address] of Object.entries(entry.priceFeeds ?? {})) {
+        if (typeof address !== "string" || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+          issues.push(`${label}.priceFeeds.${symbol}: must be a 0x-prefixed 20-byte address`);
+        } else {
+          priceFeeds[symbol.toUpperCase()] = address as Address;
+        }
+      }
+    }
+
+    if (issues.length === before) {
+      chains.push({
+        id: id as number,
+        name: entry.name as string,
+        rpcUrl: rpcUrls[0] ?? "",
+        rpcUrls,
+        native: native!,
+        commonTokens,
+        minNativeBalance,
+        nativePrice: nativePrice!,
+        ...(entry.rollup !== undefined ? { rollup: entry.rollup as RollupType } : {}),
+        ...(sqd ? { sqd } : {}),
+        ...(Object.keys(priceFeeds).length > 0 ? { priceFeeds } : {}),
+      });
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new ChainConfigError(source, issues);
+  }
+  return chains;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isHttpUrl(value: unknown): value is string {
+  return typeof value === "string" && /^https?:\/\/\S+$/.test(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+/**
+ * RPC URLs from the first set variable in rpcUrlEnv (comma-separated for several endpoints),
+ * falling back to rpcUrl, followed by the rpcUrls fallbacks
+ */
+function resolveRpcUrls(entry: Record<string, unknown>, label: string, issues: string[]): string[] {
+  const { rpcUrlEnv, rpcUrl, rpcUrls: fallbacks } = entry;
+  if (rpcUrlEnv !== undefined && !isStringList(rpcUrlEnv)) {
+    issues.push(`${label}.rpcUrlEnv: must be a list of environment variable names`);
+    return [];
+  }
+  if (rpcUrl !== undefined && !isHttpUrl(rpcUrl)) {
+    issues.push(`${label}.rpcUrl: must be an http(s) URL`);
+    return [];
+  }
+  if (fallbacks !== undefined && (!isStringList(fallbacks) || !fallbacks.every(isHttpUrl))) {
+    issues.push(`${label}.rpcUrls: must be a list of http(s) URLs`);
+    return [];
+  }
+
+  const envNames = rpcUrlEnv ?? [];
+  const envName = envNames.find((name) => !!process.env[name]);
+  const fromEnv = envName
+    ? process.env[envName]!.split(",").map((url) => url.trim()).filter((url) => url !== "")
+    : [];
+  const invalid = fromEnv.filter((url) => !isHttpUrl(url));
+  if (invalid.length > 0) {
+    issues.push(`${label}: ${envName} must hold comma-separated http(s) URLs`);
+    return [];
+  }
+
+  const primary = fromEnv.length > 0 ? fromEnv : rpcUrl ? [rpcUrl] : [];
+  const rpcUrls = [...new Set([...primary, ...(fallbacks ?? [])])];
+  if (envNames.length === 0 && rpcUrls.length === 0) {
+    issues.push(`${label}: rpcUrl, rpcUrls or rpcUrlEnv is required`);
+    return [];
+  }
+  if (rpcUrls.length === 0) {
+    // The chain stays configured (mock balances work without RPC), but has no provider
+    logger.warn(`${label} has no RPC URL; set one of ${envNames.join(", ")}`);
+  }
+  return rpcUrls;
+}
+
+function parseToken(
+  raw: unknown,
+  at: string,
+  issues: string[],
+  options: { native?: boolean; symbol?: string }
+): TokenConfig | undefined {
+  if (!isObject(raw)) {
+    issues.push(`${at}: must be an object with symbol, decimals and address`);
+    return undefined;
+  }
+  const symbol = raw.symbol ?? options.symbol;
+  const address = raw.address ?? (options.native ? NATIVE_TOKEN_ADDRESS : undefined);
+  const { decimals } = raw;
+  const before = issues.length;
+
+  if (typeof symbol !== "string" || symbol === "") {
+    issues.push(`${at}.symbol: must be a non-empty string`);
+  }
+  if (typeof decimals !== "number" || !Number.isInteger(decimals) || decimals < 0 || decimals > 36) {
+    issues.push(`${at}.decimals: must be an integer between 0 and 36`);
+  }
+  if (typeof address !== "string" || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    issues.push(`${at}.address: must be a 0x-prefixed 20-byte address`);
+  }
+  // The type checks repeat the ones above so TypeScript narrows symbol and decimals
+  if (issues.length > before || typeof symbol !== "string" || typeof decimals !== "number") {
+    return undefined;
+  }
+  return {
+    symbol,
+    decimals,
+    address: address as Address,
+    ...(options.native ? { isNative: true } : {}),
+  };
+}
+
+function parseNativePrice(raw: unknown, at: string, issues: string[]): NativePriceSource | undefined {
+  if (isObject(raw) && raw.type === "oracle" && typeof raw.symbol === "string" && raw.symbol !== "") {
+    return { type: "oracle", symbol: raw.symbol };
+  }
+  if (isObject(raw) && raw.type === "fixed" && typeof raw.priceUsd === "number" && raw.priceUsd > 0) {
+    return { type: "fixed", priceUsd: raw.priceUsd };
+  }
+  issues.push(`${at}: must be { type: oracle, symbol } or { type: fixed, priceUsd > 0 }`);
+  return undefined;
+}
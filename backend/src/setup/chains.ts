@@ -1,215 +1,69 @@
-import { ChainId, ChainConfig, NATIVE_TOKEN_ADDRESS } from "./types.js";
+import { ChainId, ChainConfig } from "./types.js";
+import { getChainConfigPath, loadChainConfig } from "./chain-config.js";
 import { logger } from "./logger.js";
 
-export const CHAINS: Record<ChainId, ChainConfig> = {
-  // Mainnet chains (commented out)
-  // [ChainId.ETHEREUM]: {
-  //   id: ChainId.ETHEREUM,
-  //   name: "Ethereum",
-  //   rpcUrl: process.env.RPC_ETHEREUM!,
-  //   native: {
-  //     symbol: "ETH",
-  //     decimals: 18,
-  //     address: NATIVE_TOKEN_ADDRESS,
-  //     isNative: true,
-  //   },
-  //   commonTokens: {
-  //     USDC: {
-  //       symbol: "USDC",
-  //       decimals: 6,
-  //       // Ethereum USDC
-  //       address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
-  //     },
-  //   },
-  //   // e.g. keep at least 0.03 ETH (~few swaps + sends)
-  //   minNativeBalance: BigInt("30000000000000000"), // 0.03 ETH
-  // },
-  // [ChainId.ARBITRUM_ONE]: {
-  //   id: ChainId.ARBITRUM_ONE,
-  //   name: "Arbitrum One",
-  //   rpcUrl: process.env.RPC_ARBITRUM!,
-  //   native: {
-  //     symbol: "ETH",
-  //     decimals: 18,
-  //     address: NATIVE_TOKEN_ADDRESS,
-  //     isNative: true,
-  //   },
-  //   commonTokens: {
-  //     USDC: {
-  //       symbol: "USDC",
-  //       decimals: 6,
-  //       // Native USDC on Arbitrum One
-  //       address: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
-  //     },
-  //   },
-  //   minNativeBalance: BigInt("5000000000000000"), // 0.005 ETH
-  // },
-  // [ChainId.BASE]: {
-  //   id: ChainId.BASE,
-  //   name: "Base",
-  //   rpcUrl: process.env.RPC_BASE!,
-  //   native: {
-  //     symbol: "ETH",
-  //     decimals: 18,
-  //     address: NATIVE_TOKEN_ADDRESS,
-  //     isNative: true,
-  //   },
-  //   commonTokens: {
-  //     USDC: {
-  //       symbol: "USDC",
-  //       decimals: 6,
-  //       // Native USDC on Base
-  //       address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-  //     },
-  //   },
-  //   minNativeBalance: BigInt("3000000000000000"), // 0.003 ETH
-  // },
-  // [ChainId.OPTIMISM]: {
-  //   id: ChainId.OPTIMISM,
-  //   name: "Optimism",
-  //   rpcUrl: process.env.RPC_OPTIMISM!,
-  //   native: {
-  //     symbol: "ETH",
-  //     decimals: 18,
-  //     address: NATIVE_TOKEN_ADDRESS,
-  //     isNative: true,
-  //   },
-  //   commonTokens: {
-  //     USDC: {
-  //       symbol: "USDC",
-  //       decimals: 6,
-  //       // Native USDC on OP Mainnet
-  //       address: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85",
-  //     },
-  //   },
-  //   minNativeBalance: BigInt("3000000000000000"), // 0.003 ETH
-  // },
-  // [ChainId.ARBITRUM_ONE]: {
-  //   id: ChainId.ARBITRUM_ONE,
-  //   name: "Arbitrum One",
-  //   rpcUrl: process.env.RPC_ARBITRUM_ONE || process.env.RPC_ARBITRUM!,
-  //   native: {
-  //     symbol: "ETH",
-  //     decimals: 18,
-  //     address: NATIVE_TOKEN_ADDRESS,
-  //     isNative: true,
-  //   },
-  //   commonTokens: {
-  //     USDC: {
-  //       symbol: "USDC",
-  //       decimals: 6,
-  //       // Arbitrum One USDC
-  //       address: "0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8",
-  //     },
-  //   },
-  //   minNativeBalance: BigInt("5000000000000000"), // 0.005 ETH
-  // },
-  // Sepolia testnet chains
-  [ChainId.ETHEREUM_SEPOLIA]: {
-    id: ChainId.ETHEREUM_SEPOLIA,
-    name: "Ethereum Sepolia",
-    rpcUrl: process.env.RPC_ETHEREUM_SEPOLIA || process.env.RPC_ETHEREUM!,
-    native: {
-      symbol: "ETH",
-      decimals: 18,
-      address: NATIVE_TOKEN_ADDRESS,
-      isNative: true,
-    },
-    commonTokens: {
-      USDC: {
-        symbol: "USDC",
-        decimals: 6,
-        // Ethereum Sepolia USDC
-        address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
-      },
-    },
-    minNativeBalance: BigInt("10000000000000000"), // 0.01 ETH
-  },
-  [ChainId.ARBITRUM_SEPOLIA]: {
-    id: ChainId.ARBITRUM_SEPOLIA,
-    name: "Arbitrum Sepolia",
-    rpcUrl: process.env.RPC_ARBITRUM_SEPOLIA || process.env.RPC_ARBITRUM!,
-    native: {
-      symbol: "ETH",
-      decimals: 18,
-      address: NATIVE_TOKEN_ADDRESS,
-      isNative: true,
-    },
-    commonTokens: {
-      USDC: {
-        symbol: "USDC",
-        decimals: 6,
-        // Arbitrum Sepolia USDC
-        address: "0x75faf114eafb1BDbe2F0316DF893fd58cE45AF0F",
-      },
-    },
-    minNativeBalance: BigInt("5000000000000000"), // 0.005 ETH
-  },
-  [ChainId.BASE_SEPOLIA]: {
-    id: ChainId.BASE_SEPOLIA,
-    name: "Base Sepolia",
-    rpcUrl: process.env.RPC_BASE_SEPOLIA || process.env.RPC_BASE!,
-    native: {
-      symbol: "ETH",
-      decimals: 18,
-      address: NATIVE_TOKEN_ADDRESS,
-      isNative: true,
-    },
-    commonTokens: {
-      USDC: {
-        symbol: "USDC",
-        decimals: 6,
-        // Base Sepolia USDC
-        address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-      },
-    },
-    minNativeBalance: BigInt("3000000000000000"), // 0.003 ETH
-  },
-  [ChainId.OPTIMISM_SEPOLIA]: {
-    id: ChainId.OPTIMISM_SEPOLIA,
-    name: "Optimism Sepolia",
-    rpcUrl: process.env.RPC_OPTIMISM_SEPOLIA || process.env.RPC_OPTIMISM!,
-    native: {
-      symbol: "ETH",
-      decimals: 18,
-      address: NATIVE_TOKEN_ADDRESS,
-      isNative: true,
-    },
-    commonTokens: {
-      USDC: {
-        symbol: "USDC",
-        decimals: 6,
-        // Optimism Sepolia USDC
-        address: "0x5fd84259d66Cd46123540766Be93DFE6D43130D7",
-      },
-    },
-    minNativeBalance: BigInt("3000000000000000"), // 0.003 ETH
-  },
-  [ChainId.GNOSIS]: {
-    id: ChainId.GNOSIS,
-    name: "Gnosis",
-    rpcUrl: process.env.RPC_GNOSIS!,
-    native: {
-      symbol: "xDAI",
-      decimals: 18,
-      address: "0xaA7ec943fc665162D5adc0a23dF5B8F983F3F253",
-      isNative: true,
-    },
-    commonTokens: {
-      USDC: {
-        symbol: "USDC",
-        decimals: 6,
-        // Gnosis xDAI Bridged USDC
-        address: "0xddafbb505ad214d7b80b1f830fccc89b60fb7a83",
-      },
-    },
-    minNativeBalance: BigInt("100000000000000000"), // 0.1 xDAI
-  },
-};
+// Chains loaded from the chain config file (see setup/chain-config.ts and config/chains.<env>.yaml).
+// The object is updated in place on reload, so modules holding a reference see the new chains.
+export const CHAINS: Record<ChainId, ChainConfig> = {};
+
+type ChainsReloadListener = (chains: Record<ChainId, ChainConfig>) => void;
+
+const reloadListeners: ChainsReloadListener[] = [];
+
+let chainConfigPath = "";
+
+function applyChains(configs: ChainConfig[]): void {
+  for (const id of Object.keys(CHAINS)) {
+    delete CHAINS[Number(id)];
+  }
+  for (const config of configs) {
+    CHAINS[config.id] = config;
+  }
+}
+
+/**
+ * Run `listener` after every successful reload (e.g. to rebuild providers)
+ */
+export function onChainsReloaded(listener: ChainsReloadListener): void {
+  reloadListeners.push(listener);
+}
+
+/**
+ * Re-read and validate the chain config file, then swap it in.
+ * An invalid file leaves the current chains untouched.
+ * @throws ChainConfigError listing every invalid field
+ */
+export function reloadChains(): { path: string; chains: ChainConfig[] } {
+  const path = getChainConfigPath();
+  const configs = loadChainConfig(path);
+  applyChains(configs);
+  chainConfigPath = path;
+
+  logger.info("Reloaded chain configurations", {
+    path,
+    chains: configs.map(c => ({ id: c.id, name: c.name, hasRpcUrl: !!c.rpcUrl })),
+  });
+  for (const listener of reloadListeners) {
+    listener(CHAINS);
+  }
+  return { path, chains: configs };
+}
+
+/**
+ * Path of the chain config file currently loaded
+ */
+export function getLoadedChainConfigPath(): string {
+  return chainConfigPath;
+}
+
+// Load at startup; an invalid file stops the process with the list of problems
+chainConfigPath = getChainConfigPath();
+applyChains(loadChainConfig(chainConfigPath));
 
 // Log chain initialization
 
 logger.info("Initializing chain configurations", {
+  path: chainConfigPath,
   chains: Object.values(CHAINS).map(c => ({
     id: c.id,
     name: c.name,
@@ -42,6 +42,13 @@ export function getDb(): Db {
   return db;
 }
 
+/**
+ * Whether MongoDB is connected (for optional persistence that shouldn't log errors without it)
+ */
+export function isMongoConnected(): boolean {
+  return db !== null;
+}
+
 /**
  * Close MongoDB connection
  */
@@ -1,22 +1,49 @@
-import { JsonRpcProvider } from "ethers";
 import { ChainId } from "./types.js";
-import { CHAINS } from "./chains.js";
+import { CHAINS, onChainsReloaded } from "./chains.js";
 import { logger } from "./logger.js";
+import { RpcPoolProvider, redactRpcUrl, type RpcEndpointHealth } from "./rpc-pool.js";
 
-// Dynamically build providers only for chains that are defined in CHAINS
-export const providers: Partial<Record<ChainId, JsonRpcProvider>> = Object.entries(CHAINS).reduce(
-  (acc, [chainId, chainConfig]) => {
+// Providers only for chains that are defined in CHAINS and have at least one RPC URL.
+// Each one pools the chain's rpcUrls (failover, retries, health scoring; see rpc-pool.ts).
+// Updated in place when the chain config is reloaded.
+export const providers: Partial<Record<ChainId, RpcPoolProvider>> = {};
+
+function buildProviders(): void {
+  for (const id of Object.keys(providers)) {
+    const chainId = Number(id) as ChainId;
+    const chainConfig = CHAINS[chainId];
+    // Keep providers whose chain and RPC URLs didn't change
+    if (!chainConfig || chainConfig.rpcUrls.join(",") !== providers[chainId]?.urls.join(",")) {
+      providers[chainId]?.destroy();
+      delete providers[chainId];
+    }
+  }
+  for (const [chainId, chainConfig] of Object.entries(CHAINS)) {
     const id = Number(chainId) as ChainId;
-    acc[id] = new JsonRpcProvider(chainConfig.rpcUrl);
-    return acc;
-  },
-  {} as Partial<Record<ChainId, JsonRpcProvider>>
-);
+    if (chainConfig.rpcUrls.length > 0 && !providers[id]) {
+      providers[id] = new RpcPoolProvider(id, chainConfig.rpcUrls);
+    }
+  }
+}
+
+/**
+ * Health of every RPC endpoint, per configured chain (chains without RPC URLs have no endpoints)
+ */
+export function getProvidersHealth(): Array<{ chainId: ChainId; name: string; endpoints: RpcEndpointHealth[] }> {
+  return Object.values(CHAINS).map((chain) => ({
+    chainId: chain.id,
+    name: chain.name,
+    endpoints: providers[chain.id]?.getHealth() ?? [],
+  }));
+}
+
+buildProviders();
+onChainsReloaded(buildProviders);
 
 // Log provider initialization
 logger.info("Initializing Ethereum providers", {
   chains: Object.entries(providers).map(([id, provider]) => ({
     chainId: Number(id),
-    rpcUrl: CHAINS[Number(id) as ChainId]?.rpcUrl,
+    rpcUrls: provider?.urls.map(redactRpcUrl),
   })),
 });
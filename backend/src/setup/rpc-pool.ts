@@ -0,0 +1,325 @@
+import {
+  FetchRequest,
+  JsonRpcProvider,
+  Network,
+  type JsonRpcError,
+  type JsonRpcPayload,
+  type JsonRpcResult,
+} from "ethers";
+import { logger } from "./logger.js";
+
+const RPC_TIMEOUT_MS = Number(process.env.RPC_TIMEOUT_MS) || 8000;
+// Extra attempts after the first one; each goes to the next healthiest endpoint
+const RPC_MAX_RETRIES = Number(process.env.RPC_MAX_RETRIES ?? 2);
+const RPC_RETRY_BASE_MS = Number(process.env.RPC_RETRY_BASE_MS) || 250;
+const RPC_HEALTH_INTERVAL_MS = Number(process.env.RPC_HEALTH_INTERVAL_MS) || 30 * 1000;
+// Endpoints more than this many blocks behind the best one are only used as a last resort
+const RPC_MAX_BLOCK_LAG = Number(process.env.RPC_MAX_BLOCK_LAG) || 5;
+// Consecutive failures after which an endpoint sits out RPC_COOLDOWN_MS
+const RPC_FAILURE_THRESHOLD = 3;
+const RPC_COOLDOWN_MS = 60 * 1000;
+
+// Weight of the latest sample in the latency and error rate moving averages
+const EWMA_WEIGHT = 0.2;
+// Score penalty per block of lag, in milliseconds of latency
+const BLOCK_LAG_PENALTY_MS = 200;
+
+// JSON-RPC errors that come from the endpoint rather than the request (e.g. rate limits)
+const RETRYABLE_RPC_CODES = new Set([-32005, 429]);
+
+export interface RpcEndpointHealth {
+  url: string;                 // origin only, the path may carry an API key
+  healthy: boolean;
+  score: number;               // lower is better
+  latencyMs: number | null;
+  errorRate: number;           // 0..1, moving average
+  blockNumber: number | null;
+  blockLag: number | null;     // blocks behind the best endpoint of the chain
+  chainIdMismatch: boolean;
+  consecutiveFailures: number;
+  coolingDownUntil: string | null;
+  requests: number;
+  failures: number;
+  lastError: string | null;
+  lastCheckedAt: string | null;
+}
+
+/**
+ * The RPC request failed on every endpoint it was tried on
+ */
+export class RpcPoolError extends Error {}
+
+class RpcEndpoint {
+  latencyMs: number | null = null;
+  errorRate = 0;
+  blockNumber: number | null = null;
+  chainIdMismatch = false;
+  consecutiveFailures = 0;
+  coolingDownUntil = 0;
+  requests = 0;
+  failures = 0;
+  lastError: string | null = null;
+  lastCheckedAt: Date | null = null;
+
+  constructor(readonly url: string) {}
+
+  recordSuccess(latencyMs: number): void {
+    this.requests++;
+    this.latencyMs = this.latencyMs === null ? latencyMs : this.latencyMs + EWMA_WEIGHT * (latencyMs - this.latencyMs);
+    this.errorRate -= EWMA_WEIGHT * this.errorRate;
+    this.consecutiveFailures = 0;
+    this.coolingDownUntil = 0;
+  }
+
+  recordFailure(error: unknown): void {
+    this.requests++;
+    this.failures++;
+    this.errorRate += EWMA_WEIGHT * (1 - this.errorRate);
+    this.consecutiveFailures++;
+    this.lastError = describeRpcError(error);
+    if (this.consecutiveFailures >= RPC_FAILURE_THRESHOLD) {
+      this.coolingDownUntil = Date.now() + RPC_COOLDOWN_MS;
+    }
+  }
+
+  isCoolingDown(): boolean {
+    return this.coolingDownUntil > Date.now();
+  }
+
+  async send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult | JsonRpcError>> {
+    const request = new FetchRequest(this.url);
+    request.timeout = RPC_TIMEOUT_MS;
+    request.body = JSON.stringify(payload);
+    request.setHeader("content-type", "application/json");
+    // Throttled endpoints are retried by the pool on the next endpoint, not here
+    request.setThrottleParams({ maxAttempts: 1 });
+
+    const response = await request.send();
+    response.assertOk();
+    const body = response.bodyJson;
+    return Array.isArray(body) ? body : [body];
+  }
+}
+
+/**
+ * Origin of an RPC URL; paths and query strings of hosted RPCs usually hold the API key
+ */
+export function redactRpcUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const hasSecret = parsed.pathname.length > 1 || parsed.search !== "" || parsed.username !== "";
+    return `${parsed.protocol}//${parsed.host}${hasSecret ? "/…" : ""}`;
+  } catch {
+    return "(invalid URL)";
+  }
+}
+
+/**
+ * Error message without the request details ethers appends (they include the full URL)
+ */
+function describeRpcError(error: unknown): string {
+  if (error instanceof Error) {
+    return (error as Error & { shortMessage?: string }).shortMessage ?? error.message;
+  }
+  return String(error);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * JsonRpcProvider over several RPC endpoints of one chain.
+ * Each request goes to the healthiest endpoint (latency, error rate and block-height lag) with a timeout;
+ * failures are retried with exponential backoff on the next endpoint. A background check keeps the block
+ * heights current and verifies each endpoint serves the expected chain.
+ */
+export class RpcPoolProvider extends JsonRpcProvider {
+  readonly urls: string[];
+  private readonly endpoints: RpcEndpoint[];
+  private readonly healthTimer: NodeJS.Timeout;
+
+  constructor(readonly chainId: number, urls: string[]) {
+    if (urls.length === 0) {
+      throw new Error(`No RPC URLs for chain ${chainId}`);
+    }
+    // The chain id is known from the config, so skip network detection
+    const network = Network.from(chainId);
+    super(urls[0], network, { staticNetwork: network });
+    this.urls = [...urls];
+    this.endpoints = urls.map((url) => new RpcEndpoint(url));
+
+    this.healthTimer = setInterval(() => {
+      this.checkHealth().catch(() => {});
+    }, RPC_HEALTH_INTERVAL_MS);
+    this.healthTimer.unref();
+    this.checkHealth().catch(() => {});
+  }
+
+  override async _send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult>> {
+    const attempts = RPC_MAX_RETRIES + 1;
+    const tried = new Set<RpcEndpoint>();
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      if (attempt > 0) {
+        await sleep(RPC_RETRY_BASE_MS * 2 ** (attempt - 1) * (1 + Math.random() * 0.5));
+      }
+      // Healthiest endpoint not tried yet; once all were tried, start over from the healthiest
+      const ranked = this.rankEndpoints();
+      if (ranked.every((candidate) => tried.has(candidate))) {
+        tried.clear();
+      }
+      const endpoint = ranked.find((candidate) => !tried.has(candidate))!;
+      tried.add(endpoint);
+
+      const startedAt = Date.now();
+      try {
+        const results = await endpoint.send(payload);
+        const throttled = results.find(
+          (result): result is JsonRpcError => "error" in result && RETRYABLE_RPC_CODES.has(result.error.code)
+        );
+        if (throttled) {
+          throw new Error(`RPC error ${throttled.error.code}: ${throttled.error.message}`);
+        }
+        endpoint.recordSuccess(Date.now() - startedAt);
+        this.trackBlockNumber(endpoint, payload, results);
+        return results as Array<JsonRpcResult>;
+      } catch (error) {
+        lastError = error;
+        endpoint.recordFailure(error);
+        logger.warn("RPC request failed", {
+          chainId: this.chainId,
+          endpoint: redactRpcUrl(endpoint.url),
+          attempt: attempt + 1,
+          attempts,
+          error: endpoint.lastError,
+        });
+      }
+    }
+
+    throw new RpcPoolError(
+      `RPC request failed on chain ${this.chainId} after ${attempts} attempts: ${describeRpcError(lastError)}`
+    );
+  }
+
+  /**
+   * Current state of each endpoint, healthiest first
+   */
+  getHealth(): RpcEndpointHealth[] {
+    const bestBlock = this.getBestBlock();
+    return this.rankEndpoints().map((endpoint) => {
+      const blockLag = bestBlock !== null && endpoint.blockNumber !== null ? bestBlock - endpoint.blockNumber : null;
+      return {
+        url: redactRpcUrl(endpoint.url),
+        healthy: this.isUsable(endpoint, bestBlock),
+        score: Math.round(this.score(endpoint, bestBlock)),
+        latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+        errorRate: Number(endpoint.errorRate.toFixed(3)),
+        blockNumber: endpoint.blockNumber,
+        blockLag,
+        chainIdMismatch: endpoint.chainIdMismatch,
+        consecutiveFailures: endpoint.consecutiveFailures,
+        coolingDownUntil: endpoint.isCoolingDown() ? new Date(endpoint.coolingDownUntil).toISOString() : null,
+        requests: endpoint.requests,
+        failures: endpoint.failures,
+        lastError: endpoint.lastError,
+        lastCheckedAt: endpoint.lastCheckedAt?.toISOString() ?? null,
+      };
+    });
+  }
+
+  /**
+   * Probe every endpoint for its chain id and block height
+   */
+  async checkHealth(): Promise<void> {
+    await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        const startedAt = Date.now();
+        try {
+          const results = await endpoint.send([
+            { method: "eth_chainId", params: [], id: 1, jsonrpc: "2.0" },
+            { method: "eth_blockNumber", params: [], id: 2, jsonrpc: "2.0" },
+          ]);
+          const chainId = results.find((result) => result.id === 1);
+          const blockNumber = results.find((result) => result.id === 2);
+          if (!chainId || !("result" in chainId) || !blockNumber || !("result" in blockNumber)) {
+            throw new Error("Health check returned an error");
+          }
+          endpoint.chainIdMismatch = Number(chainId.result) !== this.chainId;
+          if (endpoint.chainIdMismatch) {
+            logger.warn("RPC endpoint serves a different chain", {
+              chainId: this.chainId,
+              endpoint: redactRpcUrl(endpoint.url),
+              servedChainId: Number(chainId.result),
+            });
+          }
+          endpoint.blockNumber = Number(blockNumber.result);
+          endpoint.recordSuccess(Date.now() - startedAt);
+        } catch (error) {
+          endpoint.recordFailure(error);
+        } finally {
+          endpoint.lastCheckedAt = new Date();
+        }
+      })
+    );
+  }
+
+  override destroy(): void {
+    clearInterval(this.healthTimer);
+    super.destroy();
+  }
+
+  // eth_blockNumber answers keep the endpoint's height current between health checks
+  private trackBlockNumber(
+    endpoint: RpcEndpoint,
+    payload: JsonRpcPayload | Array<JsonRpcPayload>,
+    results: Array<JsonRpcResult | JsonRpcError>
+  ): void {
+    for (const request of Array.isArray(payload) ? payload : [payload]) {
+      if (request.method !== "eth_blockNumber") {
+        continue;
+      }
+      const result = results.find((r) => r.id === request.id);
+      if (result && "result" in result) {
+        endpoint.blockNumber = Math.max(endpoint.blockNumber ?? 0, Number(result.result));
+      }
+    }
+  }
+
+  private getBestBlock(): number | null {
+    const heights = this.endpoints
+      .filter((endpoint) => !endpoint.chainIdMismatch && endpoint.blockNumber !== null)
+      .map((endpoint) => endpoint.blockNumber!);
+    return heights.length > 0 ? Math.max(...heights) : null;
+  }
+
+  private isUsable(endpoint: RpcEndpoint, bestBlock: number | null): boolean {
+    if (endpoint.chainIdMismatch || endpoint.isCoolingDown()) {
+      return false;
+    }
+    return bestBlock === null || endpoint.blockNumber === null || bestBlock - endpoint.blockNumber <= RPC_MAX_BLOCK_LAG;
+  }
+
+  private score(endpoint: RpcEndpoint, bestBlock: number | null): number {
+    // Endpoints never measured rank as average, so they get tried
+    const latency = endpoint.latencyMs ?? RPC_TIMEOUT_MS / 4;
+    const lag = bestBlock !== null && endpoint.blockNumber !== null ? bestBlock - endpoint.blockNumber : 0;
+    return latency * (1 + 4 * endpoint.errorRate) + lag * BLOCK_LAG_PENALTY_MS;
+  }
+
+  /**
+   * Usable endpoints by score, then the rest (still tried when nothing else is left)
+   */
+  private rankEndpoints(): RpcEndpoint[] {
+    const bestBlock = this.getBestBlock();
+    return [...this.endpoints].sort((a, b) => {
+      const usableA = this.isUsable(a, bestBlock);
+      const usableB = this.isUsable(b, bestBlock);
+      if (usableA !== usableB) {
+        return usableA ? -1 : 1;
+      }
+      return this.score(a, bestBlock) - this.score(b, bestBlock);
+    });
+  }
+}
@@ -45,8 +45,23 @@ const swaggerDefinition = {
       name: "Settlement",
       description: "Transaction settlement",
     },
+    {
+      name: "Chains",
+      description: "Chain and token configuration",
+    },
+    {
+      name: "Webhooks",
+      description: "Signed callbacks for address activity",
+    },
   ],
   components: {
+    securitySchemes: {
+      adminToken: {
+        type: "http",
+        scheme: "bearer",
+        description: "ADMIN_API_TOKEN, required by admin endpoints",
+      },
+    },
     schemas: {
       Error: {
         type: "object",
@@ -109,6 +124,22 @@ const swaggerDefinition = {
               },
             },
           },
+          tokens: {
+            type: "array",
+            description: "Other ERC-20 tokens (chain config, token registry or the wallet's custom tokens) with a non-zero balance",
+            items: {
+              type: "object",
+              properties: {
+                symbol: { type: "string", example: "DAI" },
+                name: { type: "string", example: "Dai Stablecoin" },
+                address: { type: "string" },
+                decimals: { type: "number", example: 18 },
+                balance: { type: "string", description: "Balance in smallest unit", example: "1500000000000000000" },
+                balanceFormatted: { type: "string", example: "1.5" },
+                source: { type: "string", enum: ["config", "registry", "custom"] },
+              },
+            },
+          },
         },
       },
       SummarizedAmountsResponse: {
@@ -183,9 +214,103 @@ const swaggerDefinition = {
           },
           tokenName: {
             type: "string",
-            description: "Token name (currently only 'USDC' is supported)",
+            description: "Token symbol as listed in the chains' commonTokens (e.g., 'USDC', 'DAI'), or a native token symbol (e.g., 'ETH', 'xDAI'). Native sends keep each chain's minNativeBalance after gas.",
             example: "USDC",
-            enum: ["USDC"],
+          },
+          maxLegs: {
+            type: "integer",
+            description: "Optional cap on the number of chains a multi-chain plan may use",
+            minimum: 1,
+            example: 2,
+          },
+          feeTier: {
+            type: "string",
+            enum: ["slow", "standard", "fast"],
+            description: "EIP-1559 fee tier used to price and sign every leg (default: standard)",
+            example: "standard",
+          },
+          destinationChainId: {
+            type: "integer",
+            description: "Optional chain the recipient receives the full amount on. Builds an EIL cross-chain plan; the chain needs an EIL deployment and the token must be an ERC-20.",
+            example: 8453,
+          },
+          gasShortfall: {
+            type: "string",
+            enum: ["exclude"],
+            description: "ERC-20 sends: what to do with a chain whose native balance can't pay its leg's gas. exclude (the default and only policy) leaves the chain out of the plan and lists it under gasChecks. Rejected with destinationChainId or gasPayment usdc, whose gas a paymaster pays.",
+            example: "exclude",
+          },
+          gasPayment: {
+            type: "string",
+            enum: ["native", "usdc"],
+            description: "usdc builds a sponsored plan: each leg is an ERC-4337 UserOperation whose gas a token paymaster charges in USDC, so no native gas is needed. ERC-20 sends only, without destinationChainId; sourceAddress must be a SimpleAccount-compatible smart account and only chains listed in PAYMASTER_DEPLOYMENT_FILE are used.",
+            example: "native",
+          },
+        },
+      },
+      GasCheck: {
+        type: "object",
+        description: "A chain whose native balance was short of its leg's worst-case gas, and was left out of the plan",
+        properties: {
+          chainId: { type: "number", example: 11155420 },
+          chainName: { type: "string", example: "Optimism Sepolia" },
+          nativeBalance: { type: "string", description: "Native balance in wei", example: "0" },
+          requiredNative: { type: "string", description: "Worst-case leg gas in wei (gasLimit * maxFeePerGas, plus the L1 data fee on OP-stack chains)", example: "93600000000000" },
+          action: { type: "string", enum: ["excluded"], example: "excluded" },
+          reason: { type: "string", description: "Why the chain was excluded" },
+        },
+      },
+      LegSimulation: {
+        type: "object",
+        description: "eth_call dry run of the leg against the latest block. Balances are in the token's smallest unit; on native legs the sender's after balance excludes gas. Sponsored legs run their UserOperation's executeBatch on the smart account, called by the EntryPoint, without the paymaster's USDC charge.",
+        properties: {
+          status: { type: "string", enum: ["success", "reverted", "error"], example: "success" },
+          blockNumber: { type: "number", description: "Block the call and balances were read at", example: 18234567 },
+          revertReason: { type: "string", description: "Decoded revert reason (status reverted)", example: "ERC20: transfer amount exceeds balance" },
+          error: { type: "string", description: "RPC failure (status error)" },
+          sender: {
+            type: "object",
+            properties: {
+              before: { type: "string", example: "150000000" },
+              after: { type: "string", description: "Expected balance after the transfer (status success)", example: "50000000" },
+            },
+          },
+          recipient: {
+            type: "object",
+            properties: {
+              before: { type: "string", example: "0" },
+              after: { type: "string", description: "Expected balance after the transfer (status success)", example: "100000000" },
+            },
+          },
+        },
+      },
+      LegFees: {
+        type: "object",
+        description: "Fee parameters the leg should be signed with",
+        properties: {
+          tier: {
+            type: "string",
+            enum: ["slow", "standard", "fast"],
+            example: "standard",
+          },
+          gasLimit: {
+            type: "string",
+            example: "78000",
+          },
+          maxFeePerGas: {
+            type: "string",
+            description: "Max fee per gas in wei (the legacy gasPrice when eip1559 is false)",
+            example: "30000000000",
+          },
+          maxPriorityFeePerGas: {
+            type: "string",
+            description: "Max priority fee per gas in wei",
+            example: "1500000000",
+          },
+          eip1559: {
+            type: "boolean",
+            description: "Whether the chain supports EIP-1559 transactions",
+            example: true,
           },
         },
       },
@@ -207,13 +332,37 @@ const swaggerDefinition = {
                 type: "string",
                 example: "Ethereum",
               },
+              tokenSymbol: {
+                type: "string",
+                example: "USDC",
+              },
+              decimals: {
+                type: "number",
+                description: "Token decimals on this chain",
+                example: 6,
+              },
+              amount: {
+                type: "string",
+                description: "Amount in the token's smallest unit on this chain",
+                example: "100500000",
+              },
               gasCostUsdc: {
                 type: "string",
-                description: "Gas cost in USDC (smallest unit)",
+                description: "Gas cost in USDC (smallest unit) at the chosen fee tier",
                 example: "5000000",
               },
+              fees: {
+                $ref: "#/components/schemas/LegFees",
+              },
+              simulation: {
+                $ref: "#/components/schemas/LegSimulation",
+              },
             },
           },
+          gasChecks: {
+            type: "array",
+            items: { $ref: "#/components/schemas/GasCheck" },
+          },
         },
       },
       MultiChainPlan: {
@@ -226,6 +375,15 @@ const swaggerDefinition = {
           plan: {
             type: "object",
             properties: {
+              tokenSymbol: {
+                type: "string",
+                example: "USDC",
+              },
+              decimals: {
+                type: "number",
+                description: "Decimals totalAmount is expressed in",
+                example: 6,
+              },
               legs: {
                 type: "array",
                 items: {
@@ -239,22 +397,33 @@ const swaggerDefinition = {
                       type: "string",
                       example: "Ethereum",
                     },
-                    amountUsdc: {
+                    decimals: {
+                      type: "number",
+                      description: "Token decimals on this chain",
+                      example: 6,
+                    },
+                    amount: {
                       type: "string",
-                      description: "Amount in USDC (smallest unit)",
+                      description: "Amount in the token's smallest unit on this chain",
                       example: "50000000",
                     },
                     gasCostUsdc: {
                       type: "string",
-                      description: "Gas cost in USDC (smallest unit)",
+                      description: "Gas cost in USDC (smallest unit) at the chosen fee tier",
                       example: "5000000",
                     },
+                    fees: {
+                      $ref: "#/components/schemas/LegFees",
+                    },
+                    simulation: {
+                      $ref: "#/components/schemas/LegSimulation",
+                    },
                   },
                 },
               },
               totalAmount: {
                 type: "string",
-                description: "Total amount in USDC (smallest unit)",
+                description: "Total amount in the token's smallest unit (see decimals)",
                 example: "100000000",
               },
               totalGasCostUsdc: {
@@ -262,10 +431,456 @@ const swaggerDefinition = {
                 description: "Total gas cost in USDC (smallest unit)",
                 example: "10000000",
               },
+              gasChecks: {
+                type: "array",
+                items: { $ref: "#/components/schemas/GasCheck" },
+              },
+            },
+          },
+        },
+      },
+      CrossChainPlan: {
+        type: "object",
+        description: "EIL cross-chain plan: legs are the funding sources, batches the UserOperations per chain. Sign every batch's userOpHash with the owner and send the signatures to POST /crosschain/{sessionId}/execute.",
+        properties: {
+          type: {
+            type: "string",
+            enum: ["crosschain"],
+          },
+          smartAccountAddress: {
+            type: "string",
+            description: "The owner's multichain smart account, which holds and sends the funds",
+          },
+          sessionId: {
+            type: "string",
+            description: "Session that executes the signed UserOperations",
+          },
+          sessionExpiresAt: {
+            type: "string",
+            format: "date-time",
+          },
+          tokenSymbol: {
+            type: "string",
+            example: "USDC",
+          },
+          decimals: {
+            type: "number",
+            description: "Decimals totalAmount is expressed in",
+            example: 6,
+          },
+          destinationChainId: {
+            type: "number",
+            example: 8453,
+          },
+          legs: {
+            type: "array",
+            description: "Amount taken from each chain (same shape as MultiChainPlan legs)",
+            items: { type: "object" },
+          },
+          batches: {
+            type: "array",
+            description: "Source chains first; the destination batch redeems the vouchers and transfers the full amount",
+            items: {
+              type: "object",
+              properties: {
+                chainId: { type: "number", example: 42161 },
+                chainName: { type: "string", example: "Arbitrum" },
+                entryPoint: { type: "string" },
+                userOperation: {
+                  type: "object",
+                  description: "Unsigned UserOperation (bundler JSON-RPC format)",
+                  additionalProperties: { type: "string" },
+                },
+                userOpHash: {
+                  type: "string",
+                  description: "EIP-712 digest the owner signs, without a message prefix",
+                },
+                actions: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      type: { type: "string", enum: ["voucherRequest", "useVouchers", "transfer"] },
+                      destinationChainId: { type: "number", description: "voucherRequest only" },
+                      recipient: { type: "string", description: "transfer only" },
+                      amount: { type: "string", description: "Amount in the token's smallest unit on this chain" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          totalAmount: {
+            type: "string",
+            example: "100000000",
+          },
+          totalGasCostUsdc: {
+            type: "string",
+            description: "Estimated gas of all batches in USDC (smallest unit); excludes EIL liquidity provider fees",
+            example: "10000000",
+          },
+        },
+      },
+      CrossChainExecutionResponse: {
+        type: "object",
+        properties: {
+          success: {
+            type: "boolean",
+            description: "Every UserOperation executed",
+          },
+          sessionId: { type: "string" },
+          results: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                chainId: { type: "number" },
+                userOpHash: { type: "string" },
+                status: { type: "string", enum: ["done", "failed", "pending"] },
+                txHash: { type: "string" },
+                revertReason: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+      SponsoredPlan: {
+        type: "object",
+        description: "Plan whose legs pay gas in USDC through a token paymaster. Each leg is sent by the owner's SimpleAccount on its chain; an account without code yet is deployed by the operation (factory, factoryData). Sign each leg's userOpHash (EIP-191) with the account owner and send the UserOperation with eth_sendUserOperation to a bundler for its chain.",
+        properties: {
+          type: {
+            type: "string",
+            enum: ["sponsored"],
+          },
+          tokenSymbol: {
+            type: "string",
+            example: "USDC",
+          },
+          decimals: {
+            type: "number",
+            description: "Decimals totalAmount is expressed in",
+            example: 6,
+          },
+          legs: {
+            type: "array",
+            description: "MultiChainPlan legs plus the UserOperation that executes them",
+            items: {
+              type: "object",
+              properties: {
+                chainId: { type: "number", example: 84532 },
+                amount: { type: "string", description: "Amount in the token's smallest unit on this chain" },
+                gasCostUsdc: { type: "string", description: "Paymaster charge in USDC (smallest unit), including its markup" },
+                gasTokenSymbol: { type: "string", example: "USDC" },
+                gasTokenAddress: { type: "string", example: "0x036CbD53842c5426634e7929541eC2318f3dCF7e" },
+                gasTokenCost: { type: "string", description: "Maximum the paymaster may take, in the gas token's smallest unit" },
+                entryPoint: { type: "string", example: "0x0000000071727De22E5E9d8BAf0edAc6f37da032" },
+                bundlerUrl: { type: "string", example: "http://localhost:4337/84532" },
+                userOperation: {
+                  type: "object",
+                  description: "Unsigned EntryPoint v0.7 UserOperation in bundler JSON-RPC format. sender is the owner's smart account; factory and factoryData are set while it isn't deployed.",
+                  additionalProperties: { type: "string" },
+                },
+                userOpHash: { type: "string", description: "Hash the account owner signs" },
+                simulation: {
+                  $ref: "#/components/schemas/LegSimulation",
+                },
+              },
+            },
+          },
+          totalAmount: {
+            type: "string",
+            example: "100000000",
+          },
+          totalGasCostUsdc: {
+            type: "string",
+            description: "Total paymaster charges in USDC (smallest unit)",
+            example: "120000",
+          },
+        },
+      },
+      ChainsResponse: {
+        type: "object",
+        properties: {
+          success: { type: "boolean", example: true },
+          path: { type: "string", description: "Chain config file the chains were loaded from", example: "config/chains.testnet.yaml" },
+          chains: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "number", example: 84532 },
+                name: { type: "string", example: "Base Sepolia" },
+                hasRpcUrl: { type: "boolean", description: "False when none of the chain's rpcUrlEnv variables is set" },
+                rpcEndpoints: { type: "number", description: "Number of RPC endpoints the chain's provider pool fails over between", example: 2 },
+                native: { type: "object", description: "Native token (symbol, decimals, address)" },
+                commonTokens: { type: "array", items: { type: "object" }, description: "ERC-20 tokens (symbol, decimals, address)" },
+                minNativeBalance: { type: "string", description: "Native amount kept for gas, in wei", example: "3000000000000000" },
+                nativePrice: { type: "object", description: "{ type: oracle, symbol } or { type: fixed, priceUsd }" },
+                rollup: { type: "string", enum: ["op-stack", "arbitrum"], nullable: true },
+                sqd: { type: "object", nullable: true, description: "SQD Network router and dataset" },
+              },
+            },
+          },
+        },
+      },
+      ChainsHealthResponse: {
+        type: "object",
+        properties: {
+          success: { type: "boolean", example: true },
+          chains: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                chainId: { type: "number", example: 84532 },
+                name: { type: "string", example: "Base Sepolia" },
+                healthy: { type: "boolean", description: "At least one endpoint is usable" },
+                endpoints: {
+                  type: "array",
+                  description: "Healthiest first",
+                  items: {
+                    type: "object",
+                    properties: {
+                      url: { type: "string", description: "Origin of the RPC URL (the path may hold an API key)", example: "https://base-sepolia.g.alchemy.com/…" },
+                      healthy: { type: "boolean", description: "Serves the chain, isn't cooling down after repeated failures and is within RPC_MAX_BLOCK_LAG blocks of the best endpoint" },
+                      score: { type: "number", description: "Routing score, lower is better" },
+                      latencyMs: { type: "number", nullable: true, description: "Moving average latency" },
+                      errorRate: { type: "number", description: "Moving average error rate, 0 to 1" },
+                      blockNumber: { type: "number", nullable: true },
+                      blockLag: { type: "number", nullable: true, description: "Blocks behind the best endpoint of the chain" },
+                      chainIdMismatch: { type: "boolean", description: "The endpoint reported a different chain id" },
+                      consecutiveFailures: { type: "number" },
+                      coolingDownUntil: { type: "string", format: "date-time", nullable: true },
+                      requests: { type: "number" },
+                      failures: { type: "number" },
+                      lastError: { type: "string", nullable: true },
+                      lastCheckedAt: { type: "string", format: "date-time", nullable: true },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      StreamToken: {
+        type: "object",
+        properties: {
+          symbol: { type: "string", example: "USDC" },
+          address: { type: "string", description: "ERC-20 address, or 0xEeee…EEeE for the native token", example: "0x036CbD53842c5426634e7929541eC2318f3dCF7e" },
+          decimals: { type: "number", example: 6 },
+        },
+      },
+      BalanceChangeEvent: {
+        type: "object",
+        description: "Data of a `balance` stream event",
+        properties: {
+          chainId: { type: "number", example: 84532 },
+          chainName: { type: "string", example: "Base Sepolia" },
+          blockNumber: { type: "number", description: "Head block the balance was read at" },
+          token: { $ref: "#/components/schemas/StreamToken" },
+          balance: { type: "string", description: "Smallest unit", example: "5000000" },
+          balanceFormatted: { type: "string", example: "5.0" },
+          previousBalance: { type: "string", description: "Last balance sent on the stream (smallest unit)", example: "2500000" },
+        },
+      },
+      TransferActivityEvent: {
+        type: "object",
+        description: "Data of a `transfer` stream event",
+        properties: {
+          chainId: { type: "number", example: 84532 },
+          chainName: { type: "string", example: "Base Sepolia" },
+          blockNumber: { type: "number" },
+          txHash: { type: "string" },
+          direction: { type: "string", enum: ["in", "out"] },
+          from: { type: "string" },
+          to: { type: "string" },
+          token: { $ref: "#/components/schemas/StreamToken" },
+          amount: { type: "string", description: "Smallest unit", example: "2500000" },
+          amountFormatted: { type: "string", example: "2.5" },
+        },
+      },
+      TokenTransfer: {
+        type: "object",
+        description: "ERC-20 Transfer log of a transaction, to or from the queried address",
+        properties: {
+          logIndex: { type: "number" },
+          token: {
+            type: "object",
+            description: "symbol, name and decimals are missing when the token's metadata can't be read",
+            properties: {
+              address: { type: "string" },
+              symbol: { type: "string", example: "USDC" },
+              name: { type: "string", example: "USD Coin" },
+              decimals: { type: "number", example: 6 },
+            },
+          },
+          from: { type: "string" },
+          to: { type: "string" },
+          amount: { type: "string", description: "Smallest unit", example: "2500000" },
+          amountFormatted: { type: "string", example: "2.5" },
+          direction: { type: "string", enum: ["in", "out", "self"] },
+        },
+      },
+      Transaction: {
+        type: "object",
+        properties: {
+          hash: { type: "string" },
+          from: { type: "string" },
+          to: { type: "string" },
+          value: { type: "string", description: "Native value in wei" },
+          blockNumber: { type: "number" },
+          blockHash: { type: "string" },
+          transactionIndex: { type: "number" },
+          gasPrice: { type: "string" },
+          gasLimit: { type: "string" },
+          gasUsed: { type: "string" },
+          status: { type: "number", description: "1 = success, 0 = failure" },
+          timestamp: { type: "number" },
+          tokenTransfers: { type: "array", items: { $ref: "#/components/schemas/TokenTransfer" } },
+        },
+      },
+      TransactionsResponse: {
+        type: "object",
+        description: "With chainId: `transactions` is a list and `total` its length. Without: both are keyed by chain id (`totals`).",
+        properties: {
+          success: { type: "boolean", example: true },
+          address: { type: "string" },
+          chainId: { type: "number" },
+          source: { type: "string", enum: ["sqd", "rpc"], description: "Where the history came from: SQD Network or the RPC history index" },
+          sources: {
+            type: "object",
+            description: "source per chain; null where the chain's history couldn't be fetched",
+            additionalProperties: { type: "string", enum: ["sqd", "rpc"], nullable: true },
+          },
+          transactions: { type: "array", items: { $ref: "#/components/schemas/Transaction" } },
+          total: { type: "number" },
+          totals: { type: "object", additionalProperties: { type: "number" } },
+          nextCursor: { type: "string", nullable: true, description: "Pass as `cursor` for the next page; null once toBlock was reached" },
+          hasMore: { type: "boolean", description: "Whether the next page may hold more transactions" },
+        },
+      },
+      PortfolioBackfill: {
+        type: "object",
+        description: "Rebuild of the address's past snapshots",
+        properties: {
+          status: { type: "string", enum: ["pending", "running", "done", "failed"] },
+          from: { type: "string", format: "date", description: "First day rebuilt" },
+          coveredFrom: { type: "string", format: "date", description: "First day the history sources cover, when later than `from` (e.g. the RPC index starts at the address's first scan); earlier days have no snapshot" },
+          error: { type: "string", description: "Why the last rebuild failed (retried by the snapshot job)" },
+          finishedAt: { type: "string", format: "date-time" },
+        },
+      },
+      TokenProfitAndLoss: {
+        type: "object",
+        properties: {
+          chainId: { type: "number", example: 1 },
+          token: { type: "string", description: "Lowercase token address (0xeeee...eeee for the native asset)" },
+          symbol: { type: "string", example: "ETH" },
+          balance: { type: "string", example: "1.25" },
+          priceUsd: { type: "string", nullable: true, description: "Latest day's price; null for tokens that aren't priced (only native assets and the chains' commonTokens are)" },
+          valueUsd: { type: "string", example: "3125.00" },
+          costBasisUsd: { type: "string", description: "Average cost of the balance held", example: "2875.00" },
+          realizedUsd: { type: "string", description: "From what left the wallet: value at the day's price minus cost; gas counts as a loss of its cost", example: "-12.40" },
+          unrealizedUsd: { type: "string", description: "valueUsd minus costBasisUsd", example: "250.00" },
+        },
+      },
+      PortfolioHistoryResponse: {
+        type: "object",
+        properties: {
+          success: { type: "boolean", example: true },
+          address: { type: "string" },
+          backfill: { $ref: "#/components/schemas/PortfolioBackfill" },
+          points: {
+            type: "array",
+            description: "Portfolio value at the end of each day, oldest first (today: now); tokens that aren't priced count as 0",
+            items: {
+              type: "object",
+              properties: {
+                day: { type: "string", format: "date", example: "2026-10-01" },
+                valueUsd: { type: "string", example: "13650.00" },
+              },
+            },
+          },
+          pnl: {
+            type: "object",
+            description: "Profit and loss since the first day of `points`, whose holdings are valued at that day's price",
+            properties: {
+              since: { type: "string", format: "date", nullable: true },
+              tokens: { type: "array", items: { $ref: "#/components/schemas/TokenProfitAndLoss" } },
+              totals: {
+                type: "object",
+                properties: {
+                  valueUsd: { type: "string" },
+                  costBasisUsd: { type: "string" },
+                  realizedUsd: { type: "string" },
+                  unrealizedUsd: { type: "string" },
+                },
+              },
             },
           },
         },
       },
+      WebhookRequest: {
+        type: "object",
+        required: ["url", "addresses"],
+        properties: {
+          url: { type: "string", description: "http(s) URL the callbacks are POSTed to", example: "https://example.com/hooks/wallet" },
+          addresses: {
+            type: "array",
+            items: { type: "string" },
+            description: "Addresses whose incoming and outgoing transfers are reported (at most WEBHOOK_MAX_ADDRESSES, default 100)",
+            example: ["0x13190e7028c5e7e70f87efe08a973c330b09f458"],
+          },
+          chainIds: {
+            type: "array",
+            items: { type: "integer" },
+            description: "Only report transfers on these chains (default: every configured chain)",
+          },
+        },
+      },
+      ChainConfigError: {
+        type: "object",
+        properties: {
+          error: { type: "string", example: "Invalid chain config" },
+          message: { type: "string" },
+          issues: {
+            type: "array",
+            items: { type: "string" },
+            example: ["chains[2] (84532).commonTokens.USDC.address: must be a 0x-prefixed 20-byte address"],
+          },
+        },
+      },
+      TokenRequest: {
+        type: "object",
+        required: ["chainId", "address"],
+        properties: {
+          chainId: { type: "number", example: 84532 },
+          address: { type: "string", description: "ERC-20 contract address", example: "0x036CbD53842c5426634e7929541eC2318f3dCF7e" },
+        },
+      },
+      RegistryToken: {
+        type: "object",
+        properties: {
+          chainId: { type: "number", example: 84532 },
+          symbol: { type: "string", example: "USDC" },
+          name: { type: "string", example: "USD Coin" },
+          decimals: { type: "number", example: 6 },
+          address: { type: "string", example: "0x036CbD53842c5426634e7929541eC2318f3dCF7e" },
+          source: {
+            type: "string",
+            enum: ["config", "registry", "custom"],
+            description: "config: the chain config's commonTokens; registry: added with POST /tokens; custom: added by the wallet",
+          },
+        },
+      },
+      TokenListResponse: {
+        type: "object",
+        properties: {
+          success: { type: "boolean", example: true },
+          tokens: { type: "array", items: { $ref: "#/components/schemas/RegistryToken" } },
+        },
+      },
       PlanResponse: {
         type: "object",
         properties: {
@@ -277,9 +892,21 @@ const swaggerDefinition = {
             oneOf: [
               { $ref: "#/components/schemas/SingleChainPlan" },
               { $ref: "#/components/schemas/MultiChainPlan" },
+              { $ref: "#/components/schemas/CrossChainPlan" },
+              { $ref: "#/components/schemas/SponsoredPlan" },
             ],
             nullable: true,
           },
+          quoteId: {
+            type: "string",
+            description: "Id of the stored quote; revalidate it with POST /quotes/{id}/revalidate before executing",
+            example: "3f1c9a52-2b8e-4c1e-9a57-0c2f4b7d8e11",
+          },
+          expiresAt: {
+            type: "string",
+            format: "date-time",
+            description: "When the quote expires",
+          },
           message: {
             type: "string",
             description: "Optional message (e.g., when no plan is found)",
@@ -287,6 +914,315 @@ const swaggerDefinition = {
           },
         },
       },
+      BatchPayoutRequest: {
+        type: "object",
+        required: ["sourceAddress", "tokenName"],
+        description: "Provide either payments or csv",
+        properties: {
+          sourceAddress: {
+            type: "string",
+            description: "Source wallet address",
+            example: "0x13190e7028c5e7e70f87efe08a973c330b09f458",
+          },
+          tokenName: {
+            type: "string",
+            description: "ERC-20 token symbol as listed in the chains' commonTokens (native tokens are not supported)",
+            example: "USDC",
+          },
+          payments: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["recipient", "amount"],
+              properties: {
+                recipient: {
+                  type: "string",
+                  example: "0x0A088759743B403eFB2e2F766f77Ec961f185e0f",
+                },
+                amount: {
+                  type: "string",
+                  description: "Amount to send (human-readable format, e.g., '100.5')",
+                  example: "100.5",
+                },
+              },
+            },
+          },
+          csv: {
+            type: "string",
+            description: "One 'recipient,amount' pair per line. A header line, blank lines and lines starting with # are skipped.",
+            example: "recipient,amount\n0x0A088759743B403eFB2e2F766f77Ec961f185e0f,100.5",
+          },
+          maxLegs: {
+            type: "integer",
+            description: "Optional cap on the number of chains used for each recipient",
+            minimum: 1,
+            example: 2,
+          },
+          feeTier: {
+            type: "string",
+            enum: ["slow", "standard", "fast"],
+            description: "EIP-1559 fee tier used to price and sign every leg (default: standard)",
+            example: "standard",
+          },
+        },
+      },
+      BatchPayoutResponse: {
+        type: "object",
+        properties: {
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          plan: {
+            type: "object",
+            nullable: true,
+            properties: {
+              type: {
+                type: "string",
+                enum: ["batch"],
+              },
+              tokenSymbol: {
+                type: "string",
+                example: "USDC",
+              },
+              decimals: {
+                type: "number",
+                description: "Decimals payment and total amounts are expressed in",
+                example: 6,
+              },
+              payments: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    recipient: {
+                      type: "string",
+                      example: "0x0A088759743B403eFB2e2F766f77Ec961f185e0f",
+                    },
+                    amount: {
+                      type: "string",
+                      description: "Amount in the token's smallest unit (see decimals)",
+                      example: "100500000",
+                    },
+                    legs: {
+                      type: "array",
+                      description: "Transfers to this recipient, one per chain (same shape as MultiChainPlan legs)",
+                      items: { type: "object" },
+                    },
+                    gasCostUsdc: {
+                      type: "string",
+                      description: "Gas cost of this recipient's legs in USDC (smallest unit)",
+                      example: "5000000",
+                    },
+                  },
+                },
+              },
+              totalAmount: {
+                type: "string",
+                description: "Sum of all payments in the token's smallest unit (see decimals)",
+                example: "200000000",
+              },
+              totalGasCostUsdc: {
+                type: "string",
+                description: "Total gas cost of all legs in USDC (smallest unit)",
+                example: "15000000",
+              },
+              gasChecks: {
+                type: "array",
+                description: "Chains left out of later payments because their native balance couldn't pay the gas of another transfer",
+                items: { $ref: "#/components/schemas/GasCheck" },
+              },
+              recipientChecks: {
+                type: "array",
+                description: "Recipients a chain can't pay because estimating the transfer to them failed (e.g. the token blacklists them); they are paid from the other chains",
+                items: {
+                  type: "object",
+                  properties: {
+                    recipient: { type: "string" },
+                    chainId: { type: "number", example: 84532 },
+                    reason: { type: "string", description: "Why the estimate failed" },
+                  },
+                },
+              },
+            },
+          },
+          message: {
+            type: "string",
+            description: "Optional message (e.g., when no plan is found)",
+            example: "No viable plan found. Balances across all chains can't fund every payment.",
+          },
+        },
+      },
+      RebalanceRequest: {
+        type: "object",
+        required: ["address", "tokenName"],
+        description: "Provide either targetChainId or targetAllocation",
+        properties: {
+          address: {
+            type: "string",
+            description: "Owner of the multichain smart account whose balances are rebalanced",
+            example: "0x13190e7028c5e7e70f87efe08a973c330b09f458",
+          },
+          tokenName: {
+            type: "string",
+            description: "ERC-20 token symbol as listed in the chains' commonTokens",
+            example: "USDC",
+          },
+          targetChainId: {
+            type: "integer",
+            description: "Consolidate the whole balance onto this chain",
+            example: 84532,
+          },
+          targetAllocation: {
+            type: "object",
+            additionalProperties: { type: "number" },
+            description: "Chain id to weight; each chain's target is its share of the total balance. Chains left out target 0.",
+            example: { "84532": 50, "11155420": 50 },
+          },
+          maxGasFraction: {
+            type: "number",
+            minimum: 0,
+            maximum: 1,
+            description: "Skip moves whose gas and liquidity provider fees cost more than this fraction of the value moved (default: REBALANCE_MAX_GAS_FRACTION or 0.05)",
+            example: 0.05,
+          },
+          feeTier: {
+            type: "string",
+            enum: ["slow", "standard", "fast"],
+            description: "EIP-1559 fee tier used to price and sign every move (default: standard)",
+            example: "standard",
+          },
+        },
+      },
+      RebalanceMove: {
+        type: "object",
+        properties: {
+          fromChainId: { type: "number", example: 11155420 },
+          fromChainName: { type: "string", example: "Optimism Sepolia" },
+          toChainId: { type: "number", example: 84532 },
+          toChainName: { type: "string", example: "Base Sepolia" },
+          decimals: { type: "number", description: "Token decimals on the source chain", example: 6 },
+          amount: { type: "string", description: "Amount in the token's smallest unit on the source chain", example: "25000000" },
+          valueUsdc: { type: "string", description: "Value moved in USDC (smallest unit)", example: "25000000" },
+          gasCostUsdc: { type: "string", description: "Gas of the source chain's voucher request and of redeeming it on the destination chain, in USDC (smallest unit)", example: "40000" },
+          lpFee: { type: "string", description: "Worst-case EIL liquidity provider fee, in the token's smallest unit on the source chain, taken out of amount", example: "125000" },
+          lpFeeUsdc: { type: "string", description: "lpFee in USDC (smallest unit)", example: "125000" },
+          fees: { $ref: "#/components/schemas/LegFees" },
+          reason: { type: "string", description: "Skipped moves only: why the move was skipped" },
+        },
+      },
+      RebalanceResponse: {
+        type: "object",
+        properties: {
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          plan: {
+            type: "object",
+            nullable: true,
+            properties: {
+              tokenSymbol: { type: "string", example: "USDC" },
+              smartAccountAddress: { type: "string", description: "The owner's multichain smart account, which holds and moves the funds" },
+              decimals: { type: "number", description: "Decimals balances, targets and totalMoved are expressed in", example: 6 },
+              chains: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    chainId: { type: "number", example: 84532 },
+                    chainName: { type: "string", example: "Base Sepolia" },
+                    balance: { type: "string", example: "10000000" },
+                    target: { type: "string", example: "35000000" },
+                  },
+                },
+              },
+              moves: {
+                type: "array",
+                items: { $ref: "#/components/schemas/RebalanceMove" },
+              },
+              skipped: {
+                type: "array",
+                description: "Moves whose gas and fees exceed maxGasFraction of the value moved",
+                items: { $ref: "#/components/schemas/RebalanceMove" },
+              },
+              batches: {
+                type: "array",
+                description: "The moves as EIL UserOperations, same shape as CrossChainPlan batches: the source chains' voucher requests, then the destinations redeeming them",
+                items: { type: "object" },
+              },
+              sessionId: { type: "string", description: "Session that executes the signed batches (POST /crosschain/{sessionId}/execute); absent when nothing moves" },
+              sessionExpiresAt: { type: "string", format: "date-time" },
+              totalMoved: { type: "string", example: "25000000" },
+              totalGasCostUsdc: { type: "string", description: "Gas of every batch, each counted once", example: "40000" },
+              totalLpFeeUsdc: { type: "string", example: "125000" },
+            },
+          },
+          message: {
+            type: "string",
+          },
+        },
+      },
+      QuoteRevalidation: {
+        type: "object",
+        properties: {
+          success: {
+            type: "boolean",
+            example: true,
+          },
+          quoteId: {
+            type: "string",
+          },
+          status: {
+            type: "string",
+            enum: ["valid", "expired", "executed", "replan"],
+            example: "valid",
+          },
+          valid: {
+            type: "boolean",
+            description: "Whether the quote can still be executed as planned",
+            example: true,
+          },
+          reasons: {
+            type: "array",
+            items: { type: "string" },
+            description: "Why the quote no longer holds (empty when valid)",
+          },
+          legs: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                chainId: { type: "number", example: 84532 },
+                balance: { type: "string", description: "Current balance in the smallest unit" },
+                required: { type: "string", description: "Balance the leg needs (native legs include reserve and gas)" },
+                balanceOk: { type: "boolean" },
+                quotedGasCostUsdc: { type: "string" },
+                currentGasCostUsdc: { type: "string" },
+                gasOk: { type: "boolean" },
+                nativeGasOk: { type: "boolean", description: "ERC-20 legs of single and multi plans: the native balance still pays the leg's worst-case gas" },
+                nativeBalance: { type: "string", description: "Native balance, when it doesn't cover the gas" },
+                requiredNative: { type: "string", description: "The leg's worst-case gas in native units, when the balance doesn't cover it" },
+                nonceOk: { type: "boolean", description: "Sponsored legs: the UserOperation's nonce is still the account's next" },
+                gasTokenCost: { type: "string", description: "Sponsored legs: paymaster charge the operation approves, in the gas token's smallest unit" },
+                currentGasTokenCost: { type: "string", description: "Sponsored legs: worst-case charge at the gas token's current price" },
+                allowanceOk: { type: "boolean", description: "Sponsored legs: the charge still fits the approval" },
+                gasTokenBalance: { type: "string", description: "Sponsored legs whose gas token isn't the token sent: the account's gas token balance" },
+                gasTokenBalanceOk: { type: "boolean" },
+                error: { type: "string" },
+              },
+            },
+          },
+          expiresAt: {
+            type: "string",
+            format: "date-time",
+          },
+          checkedAt: {
+            type: "string",
+            format: "date-time",
+          },
+        },
+      },
     },
   },
 };
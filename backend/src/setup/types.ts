@@ -1,10 +1,20 @@
-export enum ChainId {
-  ETHEREUM_SEPOLIA = 11155111,
-  OPTIMISM_SEPOLIA = 11155420,
-  GNOSIS = 100,
-  ARBITRUM_SEPOLIA = 421614,
-  BASE_SEPOLIA = 84532,
-}
+import type { UserOperation } from "viem/account-abstraction";
+
+// EVM chain id. The chains the backend serves come from the chain config file (see setup/chain-config.ts),
+// so any id can appear; ChainId.X only names well-known ones.
+export type ChainId = number;
+
+export const ChainId = {
+  ETHEREUM: 1,
+  OPTIMISM: 10,
+  GNOSIS: 100,
+  BASE: 8453,
+  ARBITRUM_ONE: 42161,
+  BASE_SEPOLIA: 84532,
+  ARBITRUM_SEPOLIA: 421614,
+  ETHEREUM_SEPOLIA: 11155111,
+  OPTIMISM_SEPOLIA: 11155420,
+} as const;
 
 export type Address = `0x${string}`;
 
@@ -15,10 +25,19 @@ export interface TokenConfig {
   isNative?: boolean;
 }
 
+// How a chain's native asset is valued in USD
+export type NativePriceSource =
+  | { type: "oracle"; symbol: string }     // price oracle asset symbol, e.g. "ETH"
+  | { type: "fixed"; priceUsd: number };   // pegged assets, e.g. xDAI at $1
+
+// Rollup families that charge an L1 data fee for posting transactions
+export type RollupType = "op-stack" | "arbitrum";
+
 export interface ChainConfig {
   id: ChainId;
   name: string;
-  rpcUrl: string;
+  rpcUrl: string;       // primary endpoint (first of rpcUrls, "" when none is set)
+  rpcUrls: string[];    // every endpoint, in order of preference; the provider pool fails over between them
   native: TokenConfig;
   commonTokens: {
     // e.g. "USDC", "DAI" etc.
@@ -26,31 +45,215 @@ export interface ChainConfig {
   };
   // minimum native balance you want to keep for gas
   minNativeBalance: bigint;   // in wei
+  // price source for the native asset (gas costs and portfolio value)
+  nativePrice: NativePriceSource;
+  // set on L2s whose transactions pay an L1 data fee
+  rollup?: RollupType;
+  // SQD Network router and dataset for transaction history
+  sqd?: SqdSource;
+  // Chainlink <ASSET>/USD aggregators deployed on this chain, by upper-case asset symbol
+  priceFeeds?: Record<string, Address>;
+}
+
+export interface SqdSource {
+  router: string;    // e.g. https://rb05.sqd-archive.net
+  dataset: string;   // base64-encoded dataset URL, e.g. base64("s3://base-sepolia-mainnet")
 }
 
 export const NATIVE_TOKEN_ADDRESS: Address =
   "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
 
+// EIP-1559 fee tiers offered by gas estimation
+export type FeeTier = "slow" | "standard" | "fast";
+
+export const FEE_TIERS: FeeTier[] = ["slow", "standard", "fast"];
+
+export interface FeeTierQuote {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  gasCostUsdc: bigint;   // expected cost of the transaction at this tier
+}
+
+export interface GasEstimate {
+  gas: bigint;
+  gasPrice: bigint;      // expected price per gas at the standard tier
+  eip1559: boolean;      // false when the chain has no base fee (legacy gasPrice pricing)
+  // L1 data fee in native units (0 on L1s). feeTiers' gasCostUsdc include it.
+  l1Fee: bigint;
+  // true on Arbitrum, where the L1 fee is charged as L2 gas and is already part of `gas`;
+  // false on OP-stack chains, where it is paid on top of gas * price
+  l1FeeInGas: boolean;
+  feeTiers: Record<FeeTier, FeeTierQuote>;
+}
+
+// Fee parameters a leg should be signed with
+export interface LegFees {
+  tier: FeeTier;
+  gasLimit: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  eip1559: boolean;
+}
+
+// What the planner does with a chain whose native balance can't pay for its leg's gas
+export type GasShortfallPolicy = "exclude";
+
+export const GAS_SHORTFALL_POLICIES: GasShortfallPolicy[] = ["exclude"];
+
+// How legs pay for gas: the chain's native token, or USDC through an ERC-4337 token paymaster
+export type GasPayment = "native" | "usdc";
+
+export const GAS_PAYMENTS: GasPayment[] = ["native", "usdc"];
+
+// A chain whose native balance was short of its leg's worst-case gas, and was left out of the plan
+export interface GasCheck {
+  chainId: ChainId;
+  nativeBalance: bigint;
+  requiredNative: bigint;  // gasLimit * maxFeePerGas, plus the L1 data fee on OP-stack chains
+  action: "excluded";
+  reason?: string;         // why the chain was excluded
+}
+
+// A recipient a chain can't pay: estimating the transfer to it failed (e.g. the token blacklists the recipient)
+export interface RecipientCheck {
+  recipient: Address;
+  chainId: ChainId;
+  reason: string;
+}
+
 // Scenario 1
 export interface ChainQuote {
   chainId: ChainId;
+  tokenSymbol: string;
+  decimals: number;      // token decimals on this chain
+  amount: bigint;        // in the token's smallest unit on this chain
   gasCostUsdc: bigint;
+  fees: LegFees;
+  gasChecks?: GasCheck[];
 }
 
 // Scenario 2
 export interface SplitLeg {
   chainId: ChainId;
-  amountUsdc: bigint;
+  decimals: number;      // token decimals on this chain
+  amount: bigint;        // in the token's smallest unit on this chain
   gasCostUsdc: bigint;
+  fees: LegFees;
 }
 
 export interface SplitPlan {
+  tokenSymbol: string;
+  decimals: number;      // decimals totalAmount is expressed in
   legs: SplitLeg[];
   totalAmount: bigint;
   totalGasCostUsdc: bigint;
+  gasChecks?: GasCheck[];
+}
+
+// Scenario 6: EIL cross-chain send - the recipient receives the full amount on one destination chain.
+// Source chains lock their share in EIL vouchers; the destination batch redeems them and makes one transfer.
+export type CrossChainAction =
+  | { type: "voucherRequest"; destinationChainId: ChainId; amount: bigint } // amount in this chain's token units
+  | { type: "useVouchers" }
+  | { type: "transfer"; recipient: Address; amount: bigint };                // amount in this chain's token units
+
+// One UserOperation per chain
+export interface CrossChainBatch {
+  chainId: ChainId;
+  actions: CrossChainAction[];
+}
+
+export interface CrossChainPlan {
+  tokenSymbol: string;
+  decimals: number;              // decimals totalAmount is expressed in
+  destinationChainId: ChainId;
+  legs: SplitLeg[];              // where the funds come from (the destination chain may fund part of it directly)
+  batches: CrossChainBatch[];    // source chains first, the destination chain last
+  totalAmount: bigint;
+  totalGasCostUsdc: bigint;      // estimated gas of all batches; excludes EIL liquidity provider fees
+}
+
+// Sponsored mode: every leg is an ERC-4337 UserOperation (EntryPoint v0.7) sent from the user's smart account.
+// A token paymaster pays the gas and takes it from the account in USDC, so no native gas is needed.
+export interface SponsoredLeg extends SplitLeg {
+  gasTokenSymbol: string;        // token the paymaster charges, e.g. "USDC"
+  gasTokenAddress: Address;
+  gasTokenCost: bigint;          // worst-case charge in the gas token's smallest unit, approved to the paymaster
+  entryPoint: Address;
+  bundlerUrl: string;
+  userOperation: UserOperation<"0.7">;  // unsigned; sent by the owner's smart account, which it deploys if needed
+  userOpHash: `0x${string}`;     // what the wallet signs
+}
+
+export interface SponsoredPlan {
+  tokenSymbol: string;
+  decimals: number;              // decimals totalAmount is expressed in
+  legs: SponsoredLeg[];
+  totalAmount: bigint;
+  totalGasCostUsdc: bigint;      // paymaster charges, including its markup
 }
 
 // Unified result type for automatic single/multi-chain selection
 export type UsdcSendPlan =
   | { type: "single"; quote: ChainQuote }
-  | { type: "multi"; plan: SplitPlan };
+  | { type: "multi"; plan: SplitPlan }
+  | { type: "crosschain"; plan: CrossChainPlan }
+  | { type: "sponsored"; plan: SponsoredPlan };
+
+// Batch payouts: one transfer request per recipient, funded from shared per-chain balances
+export interface BatchPayment {
+  recipient: Address;
+  amount: bigint;        // in the token's plan decimals
+}
+
+export interface BatchPaymentPlan {
+  recipient: Address;
+  amount: bigint;        // in plan decimals
+  legs: SplitLeg[];
+  gasCostUsdc: bigint;
+}
+
+export interface BatchPlan {
+  tokenSymbol: string;
+  decimals: number;      // decimals payment and total amounts are expressed in
+  payments: BatchPaymentPlan[];
+  totalAmount: bigint;
+  totalGasCostUsdc: bigint;
+  gasChecks: GasCheck[];   // chains left out of later payments once their native balance ran short
+  recipientChecks: RecipientCheck[];   // recipients left out of a chain's legs
+}
+
+// Rebalancing: move a wallet's own balances between chains towards a target allocation
+export interface RebalanceMove {
+  fromChainId: ChainId;
+  toChainId: ChainId;
+  decimals: number;      // token decimals on the source chain
+  amount: bigint;        // in the token's smallest unit on the source chain
+  valueUsdc: bigint;     // value of the amount moved
+  gasCostUsdc: bigint;   // gas of the source chain's voucher request and of redeeming it on the destination chain
+  lpFee: bigint;         // worst-case liquidity provider fee, in the source token's smallest unit, taken out of amount
+  lpFeeUsdc: bigint;
+  fees: LegFees;         // source chain fee parameters
+}
+
+export interface SkippedRebalanceMove extends RebalanceMove {
+  reason: string;
+}
+
+export interface RebalanceChainState {
+  chainId: ChainId;
+  balance: bigint;       // in plan decimals
+  target: bigint;        // in plan decimals
+}
+
+export interface RebalancePlan {
+  tokenSymbol: string;
+  decimals: number;      // decimals chain balances, targets and totalMoved are expressed in
+  chains: RebalanceChainState[];
+  moves: RebalanceMove[];
+  skipped: SkippedRebalanceMove[];   // moves whose gas and fees exceed the allowed fraction of the amount
+  batches: CrossChainBatch[];        // the moves as EIL batches: source chains' voucher requests, then the destinations redeeming them
+  totalMoved: bigint;
+  totalGasCostUsdc: bigint;
+  totalLpFeeUsdc: bigint;
+}
@@ -0,0 +1,42 @@
+import http from "http";
+import { timingSafeEqual } from "crypto";
+
+// Bearer token admin endpoints require (POST /chains/reload, POST /tokens, /webhooks). Without it they are disabled.
+const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN ?? "";
+
+/**
+ * Whether the request carries `Authorization: Bearer <ADMIN_API_TOKEN>`; always false when the token isn't set
+ */
+export function isAdminRequest(req: http.IncomingMessage): boolean {
+  if (!ADMIN_API_TOKEN) {
+    return false;
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+  if (!match) {
+    return false;
+  }
+  const given = Buffer.from(match[1]!.trim());
+  const expected = Buffer.from(ADMIN_API_TOKEN);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Answer 401 for a request that isn't authorized as admin (403 when admin endpoints are disabled)
+ * @returns true when the request may go on
+ */
+export function requireAdmin(req: http.IncomingMessage, res: http.ServerResponse): boolean {
+  if (isAdminRequest(req)) {
+    return true;
+  }
+  const disabled = !ADMIN_API_TOKEN;
+  res.writeHead(disabled ? 403 : 401, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      error: disabled ? "Forbidden" : "Unauthorized",
+      message: disabled
+        ? "Admin endpoints are disabled; set ADMIN_API_TOKEN to enable them"
+        : "Send Authorization: Bearer <ADMIN_API_TOKEN>",
+    })
+  );
+  return false;
+}
@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import { Agent, fetch } from "undici";
+import { assertPublicUrl, isPublicAddress, lookupPublicAddress, NonPublicUrlError } from "./public-url.js";
+
+test("isPublicAddress rejects loopback, private, link-local and unspecified addresses", () => {
+  for (const address of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "::", "fd00::1", "fe80::1", "::ffff:127.0.0.1", "::ffff:10.0.0.1"]) {
+    assert.equal(isPublicAddress(address), false, address);
+  }
+  for (const address of ["8.8.8.8", "1.1.1.1", "172.32.0.1", "2606:4700:4700::1111", "::ffff:8.8.8.8"]) {
+    assert.equal(isPublicAddress(address), true, address);
+  }
+  assert.equal(isPublicAddress("not-an-ip"), false);
+});
+
+test("assertPublicUrl checks the addresses the host resolves to", async () => {
+  await assert.rejects(assertPublicUrl("http://localhost:8080/hook"), NonPublicUrlError);
+  await assert.rejects(assertPublicUrl("http://127.0.0.1/hook"), NonPublicUrlError);
+  await assert.rejects(assertPublicUrl("http://[::1]/hook"), NonPublicUrlError);
+  await assert.rejects(assertPublicUrl("http://169.254.169.254/latest/meta-data"), NonPublicUrlError);
+  await assertPublicUrl("https://8.8.8.8/hook");
+});
+
+test("lookupPublicAddress keeps a connection from reaching a private address", async () => {
+  const server = http.createServer((_req, res) => res.end("ok"));
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const agent = new Agent({ connect: { lookup: lookupPublicAddress } });
+  try {
+    const url = `http://localhost:${(server.address() as AddressInfo).port}/hook`;
+    assert.equal(await (await fetch(url)).text(), "ok");
+    await assert.rejects(fetch(url, { dispatcher: agent }), (error: Error) => error.cause instanceof NonPublicUrlError);
+  } finally {
+    await agent.close();
+    server.close();
+  }
+});
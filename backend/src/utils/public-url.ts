@@ -0,0 +1,91 @@
+import { lookup as lookupCallback } from "dns";
+import { lookup } from "dns/promises";
+import { BlockList, isIP, type LookupFunction } from "net";
+
+// Addresses a server-side request must not reach: loopback, private, link-local (cloud metadata), CGNAT,
+// unspecified, multicast and reserved ranges, in IPv4 and IPv6 (IPv4-mapped IPv6 addresses are checked as IPv4)
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv6");
+}
+
+export class NonPublicUrlError extends Error {}
+
+/**
+ * Whether an IP address is publicly routable
+ */
+export function isPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return !NON_PUBLIC.check(mapped[1]!, "ipv4");
+  }
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !NON_PUBLIC.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Resolve a URL's host and check that every address it resolves to is public
+ * @throws NonPublicUrlError when the host doesn't resolve, or resolves to a non-public address
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname) ? [hostname] : (await lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+  } catch (error) {
+    throw new NonPublicUrlError(`${hostname} doesn't resolve: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const blocked = addresses.find((address) => !isPublicAddress(address));
+  if (blocked !== undefined) {
+    throw new NonPublicUrlError(`${hostname} resolves to ${blocked}, which isn't a public address`);
+  }
+}
+
+/**
+ * DNS lookup for sockets (e.g. an undici Agent's `connect.lookup`) that fails unless every address the host
+ * resolves to is public, so the address checked is the one connected to: a host can't pass assertPublicUrl
+ * and then resolve to a private address when the request connects
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+    const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+    if (blocked !== undefined || addresses.length === 0) {
+      const reason = blocked ? `resolves to ${blocked.address}, which isn't a public address` : "doesn't resolve";
+      callback(new NonPublicUrlError(`${hostname} ${reason}`), []);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0]!.address, addresses[0]!.family);
+    }
+  });
+};
@@ -0,0 +1,89 @@
+import { CHAINS } from "../setup/chains.js";
+import type { Address, ChainId, CrossChainAction, CrossChainBatch, GasCheck, LegFees, SplitLeg } from "../setup/types.js";
+import { findChainToken, findNativeToken } from "../services/orchestrator.js";
+import type { CrossChainSession } from "../services/eil-builder.js";
+import type { QuoteCrossChainBatch, QuoteGasCheck, QuoteLeg } from "../db/quote.js";
+
+/**
+ * Describe the token a leg moves on a chain: its contract address, or isNative for native sends
+ */
+export function describeLegToken(chainId: ChainId, tokenSymbol: string): { tokenAddress?: Address; isNative: boolean } {
+  const chain = CHAINS[chainId];
+  const erc20 = findChainToken(chain, tokenSymbol);
+  if (erc20) {
+    return { tokenAddress: erc20.address, isNative: false };
+  }
+  return { isNative: findNativeToken(chain, tokenSymbol) !== undefined };
+}
+
+/**
+ * Serialize a leg's fee parameters (BigInt to string)
+ */
+export function serializeFees(fees: LegFees): QuoteLeg["fees"] {
+  return {
+    tier: fees.tier,
+    gasLimit: fees.gasLimit.toString(),
+    maxFeePerGas: fees.maxFeePerGas.toString(),
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+    eip1559: fees.eip1559,
+  };
+}
+
+/**
+ * Serialize a plan leg for JSON responses.
+ * The amount is in the token's smallest unit on that leg's chain (see decimals).
+ */
+export function serializeLeg(leg: SplitLeg, tokenSymbol: string): QuoteLeg {
+  return {
+    chainId: leg.chainId,
+    chainName: CHAINS[leg.chainId].name,
+    tokenSymbol,
+    ...describeLegToken(leg.chainId, tokenSymbol),
+    decimals: leg.decimals,
+    amount: leg.amount.toString(),
+    gasCostUsdc: leg.gasCostUsdc.toString(),
+    fees: serializeFees(leg.fees),
+  };
+}
+
+/**
+ * Serialize a native gas check (BigInt to string)
+ */
+export function serializeGasCheck(check: GasCheck): QuoteGasCheck {
+  return {
+    chainId: check.chainId,
+    chainName: CHAINS[check.chainId].name,
+    nativeBalance: check.nativeBalance.toString(),
+    requiredNative: check.requiredNative.toString(),
+    action: check.action,
+    ...(check.reason ? { reason: check.reason } : {}),
+  };
+}
+
+/**
+ * Serialize one cross-chain batch action (BigInt to string)
+ */
+function serializeCrossChainAction(action: CrossChainAction): QuoteCrossChainBatch["actions"][number] {
+  switch (action.type) {
+    case "voucherRequest":
+      return { type: action.type, destinationChainId: action.destinationChainId, amount: action.amount.toString() };
+    case "useVouchers":
+      return { type: action.type };
+    case "transfer":
+      return { type: action.type, recipient: action.recipient, amount: action.amount.toString() };
+  }
+}
+
+/**
+ * Serialize EIL batches, with the UserOperation of each batch when a session built them (same order)
+ */
+export function serializeCrossChainBatches(batches: CrossChainBatch[], session?: CrossChainSession): QuoteCrossChainBatch[] {
+  return batches.map((batch, index) => ({
+    chainId: batch.chainId,
+    chainName: CHAINS[batch.chainId].name,
+    actions: batch.actions.map(serializeCrossChainAction),
+    entryPoint: session?.userOps[index]?.entryPoint,
+    userOperation: session?.userOps[index]?.userOperation,
+    userOpHash: session?.userOps[index]?.userOpHash,
+  }));
+}
@@ -7,6 +7,15 @@ import {
   type SubTransaction,
 } from "../utils/storage";
 import { getBlockExplorerUrl } from "../utils/blockExplorers";
+import {
+  revalidateQuote,
+  recordQuoteExecution,
+  ApiError,
+  type LegFees,
+  type LegSimulation,
+  type PlanGasCheck,
+  type CrossChainBatch,
+} from "../utils/api";
 import {
   executeTransactionPlan,
   type ExecuteTransactionPlanParams,
@@ -15,19 +24,56 @@ import {
 interface TransactionLeg {
   chainId: number;
   chainName: string;
-  amountUsdc: string;
+  tokenSymbol: string;
+  tokenAddress?: string;
+  isNative?: boolean;
+  decimals: number;
+  amount: string;
   gasCostUsdc: string;
+  fees?: LegFees;
+  recipientAddress?: string;
+  simulation?: LegSimulation;
+  gasTokenSymbol?: string;
+  gasTokenAddress?: string;
+  gasTokenCost?: string;
+  userOperation?: Record<string, string>;
+  userOpHash?: string;
+  entryPoint?: string;
+  bundlerUrl?: string;
 }
 
 interface TransactionPlan {
-  type: "multi" | "single";
+  type: "multi" | "single" | "batch" | "sponsored" | "crosschain";
+  tokenSymbol: string;
+  decimals: number;
   legs: TransactionLeg[];
   totalAmount: string;
   totalGasCostUsdc: string;
+  gasChecks?: PlanGasCheck[];
+  crossChain?: {
+    destinationChainId: number;
+    smartAccountAddress?: string;
+    sessionId?: string;
+    batches: CrossChainBatch[];
+  };
+}
+
+/**
+ * Amount a cross-chain batch locks in its voucher request, or transfers on the destination chain
+ */
+function getBatchAmount(batch: CrossChainBatch): string {
+  for (const action of batch.actions) {
+    if (action.type !== "useVouchers") {
+      return action.amount;
+    }
+  }
+  return "0";
 }
 
 interface ConfirmationScreenProps {
   plan: TransactionPlan;
+  /** Server-side quote for the plan, revalidated before executing */
+  quoteId?: string;
   recipientAddress: string;
   tokenSymbol: string;
   onApprove: () => void;
@@ -58,14 +104,14 @@ function formatUsdc(amount: string): string {
   }
 }
 
-function formatEth(amount: string): string {
-  // Convert from wei (18 decimals) to ETH
+function formatAmount(amount: string, decimals: number): string {
+  // Convert from the token's smallest unit using its decimals
   try {
     const amountNum = BigInt(amount);
-    const divisor = BigInt("1000000000000000000"); // 10^18
+    const divisor = BigInt(10) ** BigInt(decimals);
     const whole = amountNum / divisor;
     const fraction = amountNum % divisor;
-    const fractionStr = fraction.toString().padStart(18, "0");
+    const fractionStr = fraction.toString().padStart(decimals, "0");
     // Remove trailing zeros
     const fractionTrimmed = fractionStr.replace(/0+$/, "");
     if (fractionTrimmed === "") {
@@ -74,16 +120,9 @@ function formatEth(amount: string): string {
     return `${whole}.${fractionTrimmed}`;
   } catch (error) {
     // Fallback to simple division if BigInt fails
-    const amountNum = parseFloat(amount) / 1e18;
-    return amountNum.toFixed(18).replace(/\.?0+$/, "");
-  }
-}
-
-function formatAmount(amount: string, tokenSymbol: string): string {
-  if (tokenSymbol.toUpperCase() === "ETH") {
-    return formatEth(amount);
+    const amountNum = parseFloat(amount) / 10 ** decimals;
+    return amountNum.toFixed(decimals).replace(/\.?0+$/, "");
   }
-  return formatUsdc(amount);
 }
 
 function CollapsibleTransactionCard({
@@ -155,7 +194,7 @@ function CollapsibleTransactionCard({
               whiteSpace: "nowrap",
             }}
           >
-            {formatAmount(leg.amountUsdc, tokenSymbol)} {tokenSymbol}
+            {formatAmount(leg.amount, leg.decimals)} {tokenSymbol}
           </div>
         </div>
         <svg
@@ -217,6 +256,35 @@ function CollapsibleTransactionCard({
               {leg.chainId}
             </div>
           </div>
+          {leg.recipientAddress && (
+            <div
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "center",
+              }}
+            >
+              <div
+                style={{
+                  fontSize: "10px",
+                  color: "var(--text-muted)",
+                  textTransform: "uppercase",
+                  letterSpacing: "1px",
+                }}
+              >
+                Recipient
+              </div>
+              <div
+                style={{
+                  fontSize: "11px",
+                  color: "var(--text-secondary)",
+                  fontFamily: "var(--font-family-mono)",
+                }}
+              >
+                {`${leg.recipientAddress.substring(0, 6)}...${leg.recipientAddress.substring(leg.recipientAddress.length - 4)}`}
+              </div>
+            </div>
+          )}
           <div
             style={{
               display: "flex",
@@ -242,7 +310,7 @@ function CollapsibleTransactionCard({
                 fontFamily: "var(--font-family-mono)",
               }}
             >
-              {formatAmount(leg.amountUsdc, tokenSymbol)} {tokenSymbol}
+              {formatAmount(leg.amount, leg.decimals)} {tokenSymbol}
             </div>
           </div>
           <div
@@ -270,8 +338,45 @@ function CollapsibleTransactionCard({
               }}
             >
               {formatUsdc(leg.gasCostUsdc)} USDC
+              {leg.userOpHash && ` (paid in ${leg.gasTokenSymbol ?? "USDC"})`}
             </div>
           </div>
+          {leg.simulation && (
+            <div
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "center",
+                gap: "var(--spacing-sm)",
+              }}
+            >
+              <div
+                style={{
+                  fontSize: "10px",
+                  color: "var(--text-muted)",
+                  textTransform: "uppercase",
+                  letterSpacing: "1px",
+                }}
+              >
+                Simulation
+              </div>
+              <div
+                style={{
+                  fontSize: "12px",
+                  color: leg.simulation.status === "success" ? "var(--text-secondary)" : "#ff4444",
+                  fontFamily: "var(--font-family-mono)",
+                  textAlign: "right",
+                  wordBreak: "break-word",
+                }}
+              >
+                {leg.simulation.status === "success"
+                  ? `OK, balance after ${formatAmount(leg.simulation.sender?.after ?? "0", leg.decimals)} ${tokenSymbol}`
+                  : leg.simulation.status === "reverted"
+                  ? `Reverts: ${leg.simulation.revertReason}`
+                  : "Not simulated"}
+              </div>
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -280,6 +385,7 @@ function CollapsibleTransactionCard({
 
 export default function ConfirmationScreen({
   plan,
+  quoteId,
   recipientAddress,
   tokenSymbol,
   onApprove,
@@ -289,18 +395,40 @@ export default function ConfirmationScreen({
   encryptedVault,
 }: ConfirmationScreenProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const formatAddress = (addr: string): string => {
     if (addr.length <= 10) return addr;
     return `${addr.substring(0, 6)}...${addr.substring(addr.length - 4)}`;
   };
 
+  // Batch payout legs each carry their own recipient
+  const recipientLabel =
+    plan.type === "batch"
+      ? `${new Set(plan.legs.map((leg) => leg.recipientAddress)).size} recipients`
+      : formatAddress(recipientAddress);
+
 
   const handleApprove = async () => {
     if (isLoading) return; // Prevent double-clicks
     
     setIsLoading(true);
+    setError(null);
     try {
+      // Make sure balances and gas still match the quote before signing anything
+      if (quoteId) {
+        const revalidation = await revalidateQuote(quoteId);
+        if (!revalidation.valid) {
+          setError(
+            revalidation.status === "expired"
+              ? "This quote has expired. Go back and plan the transaction again."
+              : `This quote no longer holds: ${revalidation.reasons.join("; ")}. Go back and plan the transaction again.`,
+          );
+          setIsLoading(false);
+          return;
+        }
+      }
+
       // Execute the transaction plan
       // This will send actual transactions to the blockchain
       const executionParams: ExecuteTransactionPlanParams = {
@@ -313,19 +441,39 @@ export default function ConfirmationScreen({
 
       const executionResult = await executeTransactionPlan(executionParams);
 
+      // Record the execution against the quote (best effort, the transactions are already sent)
+      if (quoteId) {
+        recordQuoteExecution(
+          quoteId,
+          executionResult.legResults.map((legResult) => ({
+            chainId: legResult.chainId,
+            success: legResult.success,
+            txHash: legResult.txHash,
+            error: legResult.error,
+          })),
+        ).catch((recordError) => {
+          console.error("Error recording quote execution:", recordError);
+        });
+      }
+
       // Convert execution results to sub-transactions
+      // (leg results are in plan order; batch plans can have several legs per chain;
+      // cross-chain results follow the batches, whose source chains match the legs)
       const subTransactions: SubTransaction[] = executionResult.legResults.map(
-        (legResult) => ({
-          chainId: legResult.chainId,
-          chainName: legResult.chainName,
-          amountUsdc: plan.legs.find((l) => l.chainId === legResult.chainId)
-            ?.amountUsdc || "0",
-          gasCostUsdc: plan.legs.find((l) => l.chainId === legResult.chainId)
-            ?.gasCostUsdc || "0",
-          status: legResult.success ? ("pending" as const) : ("failed" as const),
-          txHash: legResult.txHash,
-          blockExplorerUrl: legResult.blockExplorerUrl,
-        })
+        (legResult, index) => {
+          const batch = plan.crossChain?.batches[index];
+          const leg = batch ? plan.legs.find((l) => l.chainId === batch.chainId) : plan.legs[index];
+          return {
+            chainId: legResult.chainId,
+            chainName: legResult.chainName,
+            amountUsdc: batch ? getBatchAmount(batch) : leg?.amount || "0",
+            decimals: leg?.decimals ?? plan.decimals,
+            gasCostUsdc: leg?.gasCostUsdc || "0",
+            status: legResult.success ? ("pending" as const) : ("failed" as const),
+            txHash: legResult.txHash,
+            blockExplorerUrl: legResult.blockExplorerUrl,
+          };
+        }
       );
 
       // Determine overall transaction status
@@ -338,9 +486,10 @@ export default function ConfirmationScreen({
 
       const pendingTransaction: PendingTransaction = {
         id: executionResult.transactionId,
-        recipientAddress,
+        recipientAddress: plan.type === "batch" ? recipientLabel : recipientAddress,
         tokenSymbol,
         totalAmount: plan.totalAmount,
+        decimals: plan.decimals,
         totalGasCostUsdc: plan.totalGasCostUsdc,
         type: plan.type,
         subTransactions,
@@ -362,8 +511,9 @@ export default function ConfirmationScreen({
     } catch (error) {
       console.error("Error executing transaction plan:", error);
       setIsLoading(false);
-      // Show error message to user - for now just log it
-      // Could add error state and display it in UI
+      if (error instanceof ApiError) {
+        setError(error.message);
+      }
     }
   };
 
@@ -456,7 +606,7 @@ export default function ConfirmationScreen({
                 wordBreak: "break-all",
               }}
             >
-              {formatAddress(recipientAddress)}
+              {recipientLabel}
             </div>
           </div>
 
@@ -477,7 +627,7 @@ export default function ConfirmationScreen({
                 padding: "var(--spacing-xs) 0",
               }}
             >
-              {plan.type === "multi" ? (
+              {plan.type !== "single" ? (
                 <>
                   <svg
                     width="14"
@@ -502,7 +652,11 @@ export default function ConfirmationScreen({
                       letterSpacing: "1px",
                     }}
                   >
-                    Multi-Chain Transaction
+                    {plan.type === "batch"
+                      ? "Batch Payout"
+                      : plan.type === "crosschain"
+                        ? "Cross-Chain Transaction"
+                        : "Multi-Chain Transaction"}
                   </span>
                 </>
               ) : (
@@ -540,6 +694,57 @@ export default function ConfirmationScreen({
             ))}
           </div>
 
+          {/* Cross-chain: funds move from the multichain account through EIL vouchers */}
+          {plan.crossChain && (
+            <div
+              style={{
+                padding: "var(--spacing-sm) var(--spacing-md)",
+                background: "rgba(255, 255, 255, 0.03)",
+                border: "1px solid rgba(255, 255, 255, 0.1)",
+                borderRadius: "var(--border-radius)",
+                display: "flex",
+                flexDirection: "column",
+                gap: "var(--spacing-xs)",
+                fontSize: "11px",
+                color: "var(--text-secondary)",
+              }}
+            >
+              {plan.crossChain.smartAccountAddress && (
+                <div>From multichain account {formatAddress(plan.crossChain.smartAccountAddress)}</div>
+              )}
+              {plan.crossChain.batches.map((batch, index) => (
+                <div key={index}>
+                  {batch.actions.some((action) => action.type === "transfer")
+                    ? `${batch.chainName}: redeem vouchers, send ${formatAmount(getBatchAmount(batch), plan.decimals)} ${tokenSymbol}`
+                    : `${batch.chainName}: lock ${formatAmount(getBatchAmount(batch), plan.decimals)} ${tokenSymbol} in a voucher`}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Native gas checks: chains left out for lack of gas */}
+          {plan.gasChecks && plan.gasChecks.length > 0 && (
+            <div
+              style={{
+                padding: "var(--spacing-sm) var(--spacing-md)",
+                background: "rgba(255, 193, 7, 0.06)",
+                border: "1px solid rgba(255, 193, 7, 0.25)",
+                borderRadius: "var(--border-radius)",
+                display: "flex",
+                flexDirection: "column",
+                gap: "var(--spacing-xs)",
+                fontSize: "11px",
+                color: "var(--text-secondary)",
+              }}
+            >
+              {plan.gasChecks.map((check) => (
+                <div key={check.chainId}>
+                  {`${check.chainName} excluded: ${check.reason ?? "not enough native gas"}`}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Summary */}
           <div
             style={{
@@ -577,7 +782,7 @@ export default function ConfirmationScreen({
                   fontFamily: "var(--font-family-mono)",
                 }}
               >
-                {formatAmount(plan.totalAmount, tokenSymbol)} {tokenSymbol}
+                {formatAmount(plan.totalAmount, plan.decimals)} {tokenSymbol}
               </div>
             </div>
             <div
@@ -608,6 +813,23 @@ export default function ConfirmationScreen({
               </div>
             </div>
           </div>
+
+          {/* Error Message */}
+          {error && (
+            <div
+              style={{
+                width: "100%",
+                padding: "var(--spacing-md)",
+                background: "rgba(255, 68, 68, 0.1)",
+                border: "1px solid rgba(255, 68, 68, 0.3)",
+                borderRadius: "var(--border-radius)",
+                color: "#ff4444",
+                fontSize: "12px",
+              }}
+            >
+              {error}
+            </div>
+          )}
         </div>
       </div>
 
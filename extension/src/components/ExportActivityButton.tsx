@@ -0,0 +1,272 @@
+import React, { useState } from "react";
+import {
+  exportActivity,
+  getChains,
+  ApiError,
+  type ActivityExportFormat,
+  type ChainSummary,
+} from "../utils/api";
+
+interface ExportActivityButtonProps {
+  address: string;
+}
+
+const FORMATS: Array<{ value: ActivityExportFormat; label: string }> = [
+  { value: "csv", label: "CSV (spreadsheets)" },
+  { value: "ofx", label: "OFX" },
+  { value: "qfx", label: "QFX (Quicken)" },
+];
+
+const labelStyle: React.CSSProperties = {
+  display: "flex",
+  flexDirection: "column",
+  gap: "var(--spacing-xs)",
+  fontSize: "10px",
+  color: "var(--text-muted)",
+  textTransform: "uppercase",
+  letterSpacing: "1px",
+  fontFamily: "var(--font-family-sans)",
+};
+
+const fieldStyle: React.CSSProperties = {
+  padding: "var(--spacing-sm)",
+  background: "var(--bg-input)",
+  border: "1px solid var(--border-default)",
+  borderRadius: "var(--border-radius)",
+  color: "var(--text-primary)",
+  fontSize: "12px",
+  fontFamily: "var(--font-family-sans)",
+  colorScheme: "dark",
+};
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Download the wallet's activity for accounting: a date range, a set of chains and CSV, OFX or QFX
+ */
+export default function ExportActivityButton({ address }: ExportActivityButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ActivityExportFormat>("csv");
+  const [from, setFrom] = useState(`${new Date().getUTCFullYear()}-01-01`);
+  const [to, setTo] = useState(today());
+  const [chains, setChains] = useState<ChainSummary[]>([]);
+  const [selectedChainIds, setSelectedChainIds] = useState<number[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async () => {
+    const opening = !isOpen;
+    setIsOpen(opening);
+    setError(null);
+    if (opening && chains.length === 0) {
+      try {
+        const configured = await getChains();
+        setChains(configured);
+        setSelectedChainIds(configured.map((chain) => chain.id));
+      } catch (err) {
+        console.error("Error loading chains:", err);
+        setError(err instanceof ApiError ? err.message : "Failed to load chains");
+      }
+    }
+  };
+
+  const toggleChain = (chainId: number) => {
+    setSelectedChainIds((current) =>
+      current.includes(chainId) ? current.filter((id) => id !== chainId) : [...current, chainId]
+    );
+  };
+
+  const handleDownload = async () => {
+    if (selectedChainIds.length === 0) {
+      setError("Select at least one chain");
+      return;
+    }
+    if (!from || !to || from > to) {
+      setError("The start date must be on or before the end date");
+      return;
+    }
+
+    setIsExporting(true);
+    setError(null);
+    try {
+      const file = await exportActivity(address, { format, from, to, chainIds: selectedChainIds });
+      const url = URL.createObjectURL(file);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `activity-${address.slice(0, 10).toLowerCase()}-${from}-${to}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Error exporting activity:", err);
+      setError(err instanceof ApiError ? err.message : "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div style={{ width: "100%", marginTop: "var(--spacing-sm)" }}>
+      <button
+        onClick={handleToggle}
+        style={{
+          width: "100%",
+          padding: "var(--spacing-md)",
+          background: "var(--bg-button-primary)",
+          border: "1px solid var(--border-primary)",
+          borderRadius: "var(--border-radius)",
+          color: "var(--text-secondary)",
+          fontSize: "12px",
+          fontWeight: 600,
+          fontFamily: "var(--font-family-sans)",
+          cursor: "pointer",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          gap: "var(--spacing-xs)",
+          transition: "all var(--transition-fast)",
+        }}
+        onMouseEnter={(e) => {
+          e.currentTarget.style.background = "var(--bg-button-primary-hover)";
+        }}
+        onMouseLeave={(e) => {
+          e.currentTarget.style.background = "var(--bg-button-primary)";
+        }}
+      >
+        <svg
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+          <polyline points="7 10 12 15 17 10" />
+          <line x1="12" y1="15" x2="12" y2="3" />
+        </svg>
+        <span>Export Activity</span>
+      </button>
+
+      {isOpen && (
+        <div
+          style={{
+            marginTop: "var(--spacing-sm)",
+            padding: "var(--spacing-md)",
+            border: "1px solid var(--border-default)",
+            borderRadius: "var(--border-radius)",
+            display: "flex",
+            flexDirection: "column",
+            gap: "var(--spacing-md)",
+          }}
+        >
+          <div style={{ display: "flex", gap: "var(--spacing-sm)" }}>
+            <label style={{ ...labelStyle, flex: 1 }}>
+              From
+              <input
+                type="date"
+                value={from}
+                max={to}
+                onChange={(e) => setFrom(e.target.value)}
+                disabled={isExporting}
+                style={fieldStyle}
+              />
+            </label>
+            <label style={{ ...labelStyle, flex: 1 }}>
+              To
+              <input
+                type="date"
+                value={to}
+                min={from}
+                max={today()}
+                onChange={(e) => setTo(e.target.value)}
+                disabled={isExporting}
+                style={fieldStyle}
+              />
+            </label>
+          </div>
+
+          <label style={labelStyle}>
+            Format
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ActivityExportFormat)}
+              disabled={isExporting}
+              style={fieldStyle}
+            >
+              {FORMATS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {chains.length > 0 && (
+            <div style={labelStyle}>
+              Chains
+              {chains.map((chain) => (
+                <label
+                  key={chain.id}
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "var(--spacing-sm)",
+                    fontSize: "11px",
+                    color: "var(--text-muted)",
+                    textTransform: "none",
+                    letterSpacing: "normal",
+                    cursor: isExporting ? "not-allowed" : "pointer",
+                  }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedChainIds.includes(chain.id)}
+                    onChange={() => toggleChain(chain.id)}
+                    disabled={isExporting}
+                  />
+                  {chain.name}
+                </label>
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <div
+              style={{
+                fontSize: "11px",
+                color: "#ef4444",
+                fontFamily: "var(--font-family-sans)",
+                wordBreak: "break-word",
+              }}
+            >
+              {error}
+            </div>
+          )}
+
+          <button
+            onClick={handleDownload}
+            disabled={isExporting || chains.length === 0}
+            style={{
+              padding: "var(--spacing-sm) var(--spacing-md)",
+              background: "var(--bg-button-primary)",
+              border: "1px solid var(--border-focus)",
+              borderRadius: "var(--border-radius)",
+              color: "var(--text-primary)",
+              fontSize: "12px",
+              fontFamily: "var(--font-family-sans)",
+              cursor: isExporting ? "not-allowed" : "pointer",
+              opacity: isExporting || chains.length === 0 ? 0.6 : 1,
+              transition: "all var(--transition-fast)",
+            }}
+          >
+            {isExporting ? "Preparing export..." : "Download"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -71,30 +71,33 @@ function getStatusIcon(status: TransactionStatus) {
   }
 }
 
-function formatUsdc(amount: string): string {
+// Transactions saved before decimals were tracked are USDC (6 decimals)
+function formatTokenAmount(amount: string, decimals: number = 6): string {
   try {
     const amountNum = BigInt(amount);
-    const divisor = BigInt(1000000);
+    const divisor = BigInt(10) ** BigInt(decimals);
     const whole = amountNum / divisor;
     const fraction = amountNum % divisor;
-    const fractionStr = fraction.toString().padStart(6, "0");
+    const fractionStr = fraction.toString().padStart(decimals, "0");
     const fractionTrimmed = fractionStr.replace(/0+$/, "");
     if (fractionTrimmed === "") {
       return whole.toString();
     }
     return `${whole}.${fractionTrimmed}`;
   } catch (error) {
-    const amountNum = parseFloat(amount) / 1000000;
-    return amountNum.toFixed(6).replace(/\.?0+$/, "");
+    const amountNum = parseFloat(amount) / 10 ** decimals;
+    return amountNum.toFixed(decimals).replace(/\.?0+$/, "");
   }
 }
 
 function SubTransactionRow({
   subTx,
+  tokenSymbol,
   isExpanded,
   isFirst,
 }: {
   subTx: SubTransaction;
+  tokenSymbol: string;
   isExpanded: boolean;
   isFirst: boolean;
 }) {
@@ -143,7 +146,7 @@ function SubTransactionRow({
                 whiteSpace: "nowrap",
               }}
             >
-              {formatUsdc(subTx.amountUsdc)} USDC
+              {formatTokenAmount(subTx.amountUsdc, subTx.decimals)} {tokenSymbol}
             </div>
             <a
               href={explorerUrl}
@@ -247,7 +250,7 @@ export default function PendingTransactionCard({
               whiteSpace: "nowrap",
             }}
           >
-            {formatUsdc(transaction.totalAmount)} USDC
+            {formatTokenAmount(transaction.totalAmount, transaction.decimals)} {transaction.tokenSymbol}
           </div>
           <div
             style={{
@@ -256,7 +259,9 @@ export default function PendingTransactionCard({
               whiteSpace: "nowrap",
             }}
           >
-            to {formatAddress(transaction.recipientAddress)}
+            to {transaction.type === "batch"
+              ? transaction.recipientAddress
+              : formatAddress(transaction.recipientAddress)}
           </div>
           <div
             style={{
@@ -265,7 +270,9 @@ export default function PendingTransactionCard({
               whiteSpace: "nowrap",
             }}
           >
-            {transaction.type === "multi"
+            {transaction.type === "batch"
+              ? "Batch Payout"
+              : transaction.type === "multi"
               ? "Multi-Chain Transaction"
               : "Single-Chain Transaction"}
           </div>
@@ -352,6 +359,7 @@ export default function PendingTransactionCard({
             <SubTransactionRow
               key={index}
               subTx={subTx}
+              tokenSymbol={transaction.tokenSymbol}
               isExpanded={isExpanded}
               isFirst={index === 0}
             />
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from "react";
+import { getPortfolioHistory, ApiError, type PortfolioHistoryResponse } from "../utils/api";
+
+interface PortfolioHistoryChartProps {
+  address: string;
+  accountColor: string;
+}
+
+const RANGES = [7, 30, 90];
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 80;
+// How often the history is reloaded while the backend rebuilds it
+const BACKFILL_POLL_MS = 10000;
+
+const captionStyle: React.CSSProperties = {
+  fontSize: "10px",
+  color: "var(--text-muted)",
+  textTransform: "uppercase",
+  letterSpacing: "1px",
+  fontFamily: "var(--font-family-sans)",
+};
+
+function formatUsd(value: number): string {
+  const sign = value < 0 ? "-" : "";
+  return `${sign}$${Math.abs(value).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function signedColor(value: number): string {
+  if (value > 0) return "#22c55e";
+  if (value < 0) return "#ef4444";
+  return "var(--text-muted)";
+}
+
+/**
+ * Portfolio value over the last 7, 30 or 90 days, with profit/loss over the range
+ */
+export default function PortfolioHistoryChart({ address, accountColor }: PortfolioHistoryChartProps) {
+  const [days, setDays] = useState(30);
+  const [history, setHistory] = useState<PortfolioHistoryResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let pollTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const load = async () => {
+      try {
+        const result = await getPortfolioHistory(address, days);
+        if (cancelled) return;
+        setHistory(result);
+        setError(null);
+        if (result.backfill.status === "pending" || result.backfill.status === "running") {
+          pollTimer = setTimeout(load, BACKFILL_POLL_MS);
+        }
+      } catch (err) {
+        if (cancelled) return;
+        console.error("Error loading portfolio history:", err);
+        setError(err instanceof ApiError ? err.message : "Failed to load portfolio history");
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+      if (pollTimer) clearTimeout(pollTimer);
+    };
+  }, [address, days]);
+
+  const values = history?.points.map((point) => Number(point.valueUsd)) ?? [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const coordinates = values.map((value, i) => {
+    const x = values.length > 1 ? (i / (values.length - 1)) * CHART_WIDTH : CHART_WIDTH / 2;
+    const y = CHART_HEIGHT - 4 - ((value - min) / span) * (CHART_HEIGHT - 8);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  const change = values.length > 1 ? values[values.length - 1]! - values[0]! : 0;
+  const totals = history?.pnl.totals;
+  const isBuilding = history?.backfill.status === "pending" || history?.backfill.status === "running";
+
+  return (
+    <div
+      style={{
+        width: "100%",
+        padding: "var(--spacing-md)",
+        border: "1px solid var(--border-default)",
+        borderRadius: "var(--border-radius)",
+        display: "flex",
+        flexDirection: "column",
+        gap: "var(--spacing-sm)",
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <div style={captionStyle}>
+          {values.length > 1 ? (
+            <span style={{ color: signedColor(change), textTransform: "none", letterSpacing: "normal", fontSize: "12px" }}>
+              {change >= 0 ? "+" : ""}
+              {formatUsd(change)} ({days}d)
+            </span>
+          ) : (
+            "Value over time"
+          )}
+        </div>
+        <div style={{ display: "flex", gap: "var(--spacing-xs)" }}>
+          {RANGES.map((range) => (
+            <button
+              key={range}
+              onClick={() => setDays(range)}
+              style={{
+                padding: "2px var(--spacing-sm)",
+                background: range === days ? `${accountColor}26` : "transparent",
+                border: `1px solid ${range === days ? accountColor : "var(--border-default)"}`,
+                borderRadius: "var(--border-radius)",
+                color: range === days ? accountColor : "var(--text-muted)",
+                fontSize: "10px",
+                fontFamily: "var(--font-family-sans)",
+                cursor: "pointer",
+              }}
+            >
+              {range}D
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {values.length > 0 ? (
+        <svg
+          width="100%"
+          height={CHART_HEIGHT}
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+        >
+          <polygon
+            points={`0,${CHART_HEIGHT} ${coordinates.join(" ")} ${CHART_WIDTH},${CHART_HEIGHT}`}
+            fill={accountColor}
+            opacity="0.1"
+          />
+          <polyline
+            points={coordinates.join(" ")}
+            fill="none"
+            stroke={accountColor}
+            strokeWidth="2"
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+      ) : (
+        <div
+          style={{
+            height: `${CHART_HEIGHT}px`,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            fontSize: "11px",
+            color: error ? "#ef4444" : "var(--text-muted)",
+            fontFamily: "var(--font-family-sans)",
+            textAlign: "center",
+          }}
+        >
+          {error ??
+            (isBuilding
+              ? "Building your portfolio history..."
+              : history?.backfill.status === "failed"
+                ? "Portfolio history unavailable, retrying later"
+                : history
+                  ? "No history yet"
+                  : "Loading...")}
+        </div>
+      )}
+
+      {totals && values.length > 0 && (
+        <div style={{ display: "flex", justifyContent: "space-between", gap: "var(--spacing-sm)" }}>
+          <div style={{ display: "flex", flexDirection: "column", gap: "2px" }}>
+            <span style={captionStyle}>Unrealized P&amp;L</span>
+            <span style={{ fontSize: "12px", color: signedColor(Number(totals.unrealizedUsd)), fontFamily: "var(--font-family-sans)" }}>
+              {formatUsd(Number(totals.unrealizedUsd))}
+            </span>
+          </div>
+          <div style={{ display: "flex", flexDirection: "column", gap: "2px", alignItems: "flex-end" }}>
+            <span style={captionStyle}>Realized P&amp;L</span>
+            <span style={{ fontSize: "12px", color: signedColor(Number(totals.realizedUsd)), fontFamily: "var(--font-family-sans)" }}>
+              {formatUsd(Number(totals.realizedUsd))}
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
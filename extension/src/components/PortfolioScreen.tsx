@@ -18,9 +18,12 @@ import type { EncryptedVault } from "../utils/WalletVault";
 import SendScreen from "./SendScreen";
 import PendingTransactionCard from "./PendingTransactionCard";
 import FilecoinBackupButton from "./FilecoinBackupButton";
+import ExportActivityButton from "./ExportActivityButton";
+import PortfolioHistoryChart from "./PortfolioHistoryChart";
 import TopUpScreen from "./TopUpScreen";
 import {
   getBalancesSummary,
+  subscribeToActivity,
   ApiError,
 } from "../utils/api";
 
@@ -240,6 +243,7 @@ export default function PortfolioScreen({
   const [accountColor, setAccountColor] = useState<string>("#3b82f6");
   const [showRestoreSuccess, setShowRestoreSuccess] = useState(false);
   const hasLoadedRef = useRef(false);
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
     if (hasLoadedRef.current) return;
@@ -249,6 +253,37 @@ export default function PortfolioScreen({
     loadPendingTransactions();
   }, []);
 
+  // Live updates: reload balances when they change, confirm sent transactions as they're mined
+  useEffect(() => {
+    if (!address) return;
+
+    const scheduleRefresh = () => {
+      // Several balances change in one block; reload once
+      if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current);
+      refreshTimerRef.current = setTimeout(() => {
+        refreshTimerRef.current = null;
+        loadBalances(address);
+      }, 1000);
+    };
+
+    const unsubscribe = subscribeToActivity(address, {
+      onBalance: scheduleRefresh,
+      onTransfer: (transfer) => {
+        if (transfer.direction === "out") {
+          handleTransferConfirmed(transfer.txHash).catch((error) =>
+            console.error("Error updating pending transactions:", error),
+          );
+        }
+        scheduleRefresh();
+      },
+    });
+
+    return () => {
+      unsubscribe();
+      if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current);
+    };
+  }, [address]);
+
   // Show restore success banner if restored from Filecoin
   useEffect(() => {
     if (restoredFromFilecoin) {
@@ -343,6 +378,39 @@ export default function PortfolioScreen({
   };
 
 
+  // Mark a sent transaction's legs confirmed once the activity stream reports them
+  const handleTransferConfirmed = async (txHash: string) => {
+    const all = await getPendingTransactions();
+    let changed = false;
+    const updated = all.map((tx) => {
+      if (
+        tx.status !== "pending" ||
+        !tx.subTransactions.some(
+          (subTx) => subTx.status === "pending" && subTx.txHash?.toLowerCase() === txHash.toLowerCase(),
+        )
+      ) {
+        return tx;
+      }
+      changed = true;
+      const subTransactions = tx.subTransactions.map((subTx) =>
+        subTx.txHash?.toLowerCase() === txHash.toLowerCase()
+          ? { ...subTx, status: "success" as const }
+          : subTx,
+      );
+      const allSuccess = subTransactions.every((subTx) => subTx.status === "success");
+      const anyFailed = subTransactions.some((subTx) => subTx.status === "failed");
+      return {
+        ...tx,
+        subTransactions,
+        status: anyFailed ? ("failed" as const) : allSuccess ? ("success" as const) : ("pending" as const),
+      };
+    });
+    if (changed) {
+      await savePendingTransactions(updated);
+      setPendingTransactions(updated);
+    }
+  };
+
   const handleTransactionUpdate = async (updated: PendingTransaction) => {
     const all = await getPendingTransactions();
     const index = all.findIndex((t) => t.id === updated.id);
@@ -364,6 +432,106 @@ export default function PortfolioScreen({
     }
   };
 
+  const loadBalances = async (walletAddress: string) => {
+    try {
+      // Fetch balances summary (contains everything we need)
+      const balancesSummary = await getBalancesSummary(walletAddress);
+      
+      // Format total portfolio value
+      const portfolioValue = parseFloat(
+        balancesSummary.totalPortfolioValueUSD,
+      );
+      setTotalPortfolioValue(
+        `$${portfolioValue.toLocaleString("en-US", {
+          minimumFractionDigits: 2,
+          maximumFractionDigits: 2,
+        })}`,
+      );
+
+      // Build token list from totals
+      const tokenList: Token[] = [];
+
+      // Add native token (ETH)
+      const ethTotal = balancesSummary.totals.ETH;
+      if (ethTotal && parseFloat(ethTotal.totalFormatted) > 0) {
+        // USD value priced by the backend; older backends only report the portfolio total
+        const usdcTotal = balancesSummary.totals.USDC;
+        const usdcValue = usdcTotal ? parseFloat(usdcTotal.totalFormatted) : 0;
+        const ethValueUSD = ethTotal.valueUSD !== undefined
+          ? parseFloat(ethTotal.valueUSD)
+          : portfolioValue - usdcValue;
+        
+        tokenList.push({
+          image: "",
+          name: "Ethereum",
+          symbol: "ETH",
+          amount: ethTotal.totalFormatted,
+          valueUSD: `$${ethValueUSD.toLocaleString("en-US", {
+            minimumFractionDigits: 2,
+            maximumFractionDigits: 2,
+          })}`,
+          chainsCount: ethTotal.chainsCount,
+          chainsWithBalanceCount: ethTotal.chainsWithBalanceCount,
+        });
+      }
+
+      // Add USDC token
+      const usdcTotal = balancesSummary.totals.USDC;
+      if (usdcTotal && parseFloat(usdcTotal.totalFormatted) > 0) {
+        const usdcValue = parseFloat(usdcTotal.valueUSD ?? usdcTotal.totalFormatted);
+        tokenList.push({
+          image: "",
+          name: "USD Coin",
+          symbol: "USDC",
+          amount: usdcTotal.totalFormatted,
+          valueUSD: `$${usdcValue.toLocaleString("en-US", {
+            minimumFractionDigits: 2,
+            maximumFractionDigits: 2,
+          })}`,
+          chainsCount: usdcTotal.chainsCount,
+          chainsWithBalanceCount: usdcTotal.chainsWithBalanceCount,
+        });
+      }
+
+      // Add other ERC-20 tokens from the backend's token registry (reported with a name)
+      for (const [symbol, total] of Object.entries(balancesSummary.totals)) {
+        if (symbol === "ETH" || symbol === "USDC" || total.name === undefined) {
+          continue;
+        }
+        if (parseFloat(total.totalFormatted) > 0) {
+          tokenList.push({
+            image: "",
+            name: total.name,
+            symbol,
+            amount: total.totalFormatted,
+            valueUSD: `$${parseFloat(total.valueUSD ?? "0").toLocaleString("en-US", {
+              minimumFractionDigits: 2,
+              maximumFractionDigits: 2,
+            })}`,
+            chainsCount: total.chainsCount,
+            chainsWithBalanceCount: total.chainsWithBalanceCount,
+          });
+        }
+      }
+
+      setTokens(tokenList);
+    } catch (apiError) {
+      console.error("Error fetching portfolio data:", apiError);
+      if (apiError instanceof ApiError) {
+        setError(
+          `Failed to load portfolio: ${apiError.message}. Please try again later.`,
+        );
+      } else {
+        setError(
+          "Failed to load portfolio data. Please try again later.",
+        );
+      }
+      // Set default empty state
+      setTotalPortfolioValue("$0.00");
+      setTokens([]);
+    }
+  };
+
   const loadWalletData = async () => {
     try {
       setError(null);
@@ -396,80 +564,7 @@ export default function PortfolioScreen({
           setAddress(walletAddress);
 
           // Fetch portfolio data from API
-          try {
-            // Fetch balances summary (contains everything we need)
-            const balancesSummary = await getBalancesSummary(walletAddress);
-            
-            // Format total portfolio value
-            const portfolioValue = parseFloat(
-              balancesSummary.totalPortfolioValueUSD,
-            );
-            setTotalPortfolioValue(
-              `$${portfolioValue.toLocaleString("en-US", {
-                minimumFractionDigits: 2,
-                maximumFractionDigits: 2,
-              })}`,
-            );
-
-            // Build token list from totals
-            const tokenList: Token[] = [];
-
-            // Add native token (ETH)
-            const ethTotal = balancesSummary.totals.ETH;
-            if (ethTotal && parseFloat(ethTotal.totalFormatted) > 0) {
-              // Calculate USD value for ETH (portfolio value minus USDC)
-              const usdcTotal = balancesSummary.totals.USDC;
-              const usdcValue = usdcTotal ? parseFloat(usdcTotal.totalFormatted) : 0;
-              const ethValueUSD = portfolioValue - usdcValue;
-              
-              tokenList.push({
-                image: "",
-                name: "Ethereum",
-                symbol: "ETH",
-                amount: ethTotal.totalFormatted,
-                valueUSD: `$${ethValueUSD.toLocaleString("en-US", {
-                  minimumFractionDigits: 2,
-                  maximumFractionDigits: 2,
-                })}`,
-                chainsCount: ethTotal.chainsCount,
-                chainsWithBalanceCount: ethTotal.chainsWithBalanceCount,
-              });
-            }
-
-            // Add USDC token
-            const usdcTotal = balancesSummary.totals.USDC;
-            if (usdcTotal && parseFloat(usdcTotal.totalFormatted) > 0) {
-              const usdcValue = parseFloat(usdcTotal.totalFormatted);
-              tokenList.push({
-                image: "",
-                name: "USD Coin",
-                symbol: "USDC",
-                amount: usdcTotal.totalFormatted,
-                valueUSD: `$${usdcValue.toLocaleString("en-US", {
-                  minimumFractionDigits: 2,
-                  maximumFractionDigits: 2,
-                })}`,
-                chainsCount: usdcTotal.chainsCount,
-                chainsWithBalanceCount: usdcTotal.chainsWithBalanceCount,
-              });
-            }
-
-            setTokens(tokenList);
-          } catch (apiError) {
-            console.error("Error fetching portfolio data:", apiError);
-            if (apiError instanceof ApiError) {
-              setError(
-                `Failed to load portfolio: ${apiError.message}. Please try again later.`,
-              );
-            } else {
-              setError(
-                "Failed to load portfolio data. Please try again later.",
-              );
-            }
-            // Set default empty state
-            setTotalPortfolioValue("$0.00");
-            setTokens([]);
-          }
+          await loadBalances(walletAddress);
         },
       );
     } catch (error) {
@@ -844,6 +939,9 @@ export default function PortfolioScreen({
             </div>
           </div>
 
+          {/* Value Over Time */}
+          {address && <PortfolioHistoryChart address={address} accountColor={accountColor} />}
+
           {/* Top Up Button */}
           <button
             onClick={handleTopUpClick}
@@ -889,6 +987,9 @@ export default function PortfolioScreen({
             <span>Top Up Funds</span>
           </button>
 
+          {/* Export Activity Button */}
+          {address && <ExportActivityButton address={address} />}
+
           {/* Recent Transactions */}
           {pendingTransactions.length > 0 && (
             <div
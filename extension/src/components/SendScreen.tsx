@@ -1,14 +1,21 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import Button from "./Button";
 import { PageContainer, ContentContainer } from "./Container";
 import { LOGO_PATH, LOGO_ALT } from "../constants";
 import ConfirmationScreen from "./ConfirmationScreen";
 import {
   planSendingTransaction,
+  planBatchPayout,
+  getChains,
   normalizeTransactionPlanWithAmount,
-  getAssets,
+  normalizeBatchPlan,
   ApiError,
   type PlanRequest,
+  type LegFees,
+  type LegSimulation,
+  type PlanGasCheck,
+  type ChainSummary,
+  type CrossChainBatch,
 } from "../utils/api";
 import { getEncryptedVault, getSelectedAccountIndex } from "../utils/storage";
 import { WalletVault } from "../utils/WalletVault";
@@ -25,15 +32,38 @@ interface Token {
 interface TransactionLeg {
   chainId: number;
   chainName: string;
-  amountUsdc: string;
+  tokenSymbol: string;
+  tokenAddress?: string;
+  isNative?: boolean;
+  decimals: number;
+  amount: string;
   gasCostUsdc: string;
+  fees?: LegFees;
+  recipientAddress?: string;
+  simulation?: LegSimulation;
+  gasTokenSymbol?: string;
+  gasTokenAddress?: string;
+  gasTokenCost?: string;
+  userOperation?: Record<string, string>;
+  userOpHash?: string;
+  entryPoint?: string;
+  bundlerUrl?: string;
 }
 
 interface TransactionPlan {
-  type: "multi" | "single";
+  type: "multi" | "single" | "batch" | "sponsored" | "crosschain";
+  tokenSymbol: string;
+  decimals: number;
   legs: TransactionLeg[];
   totalAmount: string;
   totalGasCostUsdc: string;
+  gasChecks?: PlanGasCheck[];
+  crossChain?: {
+    destinationChainId: number;
+    smartAccountAddress?: string;
+    sessionId?: string;
+    batches: CrossChainBatch[];
+  };
 }
 
 interface SendScreenProps {
@@ -58,25 +88,34 @@ export default function SendScreen({
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [confirmationPlan, setConfirmationPlan] = useState<TransactionPlan | null>(null);
+  const [confirmationQuoteId, setConfirmationQuoteId] = useState<string | undefined>(undefined);
+  const [payGasInUsdc, setPayGasInUsdc] = useState(false);
+  const [chains, setChains] = useState<ChainSummary[]>([]);
+  const [destinationChainId, setDestinationChainId] = useState<number | undefined>(undefined);
+  const csvInputRef = useRef<HTMLInputElement>(null);
 
   const tokenBalance = parseFloat(token.amount) || 0;
   const enteredAmount = parseFloat(amount) || 0;
   const exceedsBalance = enteredAmount > tokenBalance;
   const isValidAmount = amount !== "" && enteredAmount > 0 && !exceedsBalance;
   const isValidAddress = address.trim().length > 0;
-  const isUsdcToken = token.symbol.toUpperCase() === "USDC";
-  const isEthToken = token.symbol.toUpperCase() === "ETH";
   const canSend =
     isValidAmount &&
     isValidAddress &&
     !exceedsBalance &&
-    !isLoading &&
-    (isUsdcToken || isEthToken);
+    !isLoading;
 
   const handleMaxClick = () => {
     setAmount(token.amount);
   };
 
+  // Chains the recipient can be paid on in full (cross-chain plans)
+  useEffect(() => {
+    getChains()
+      .then(setChains)
+      .catch((err) => console.error("Error loading chains:", err));
+  }, []);
+
   // Resolve ENS name to address
   useEffect(() => {
     const resolveEns = async () => {
@@ -123,6 +162,29 @@ export default function SendScreen({
     return () => clearTimeout(timeoutId);
   }, [address]);
 
+  // Get wallet address from vault using selected account
+  const getSourceAddress = async (): Promise<string> => {
+    const accountIndex = await getSelectedAccountIndex();
+    const vault = new WalletVault();
+    let sourceAddress = "";
+
+    await vault.unlockAndExecute(
+      password,
+      encryptedVault,
+      async (seedPhraseBytes) => {
+        const decoder = new TextDecoder();
+        const seedPhrase = decoder.decode(seedPhraseBytes);
+        const { address } = await deriveWalletFromPhrase(seedPhrase, accountIndex);
+        sourceAddress = address;
+      },
+    );
+
+    if (!sourceAddress) {
+      throw new Error("Failed to get wallet address");
+    }
+    return sourceAddress;
+  };
+
   const handleSend = async () => {
     if (!canSend) return;
     
@@ -130,25 +192,7 @@ export default function SendScreen({
     setError(null);
 
     try {
-      // Get wallet address from vault using selected account
-      const accountIndex = await getSelectedAccountIndex();
-      const vault = new WalletVault();
-      let sourceAddress = "";
-      
-      await vault.unlockAndExecute(
-        password,
-        encryptedVault,
-        async (seedPhraseBytes) => {
-          const decoder = new TextDecoder();
-          const seedPhrase = decoder.decode(seedPhraseBytes);
-          const { address } = await deriveWalletFromPhrase(seedPhrase, accountIndex);
-          sourceAddress = address;
-        },
-      );
-
-      if (!sourceAddress) {
-        throw new Error("Failed to get wallet address");
-      }
+      const sourceAddress = await getSourceAddress();
 
       // Use resolved address if ENS was resolved, otherwise use the input address
       const recipientAddress = resolvedAddress || address.trim();
@@ -160,108 +204,47 @@ export default function SendScreen({
         return;
       }
 
-      const tokenSymbolUpper = token.symbol.toUpperCase();
-      let normalizedPlan: TransactionPlan | null = null;
-
-      if (tokenSymbolUpper === "USDC") {
-        // USDC: Use backend API for planning
-        const planRequest: PlanRequest = {
-          sourceAddress,
-          destinationAddress: recipientAddress,
-          amount: amount,
-          tokenName: "USDC",
-        };
-
-        // Call API to plan transaction
-        const response = await planSendingTransaction(planRequest);
-
-        if (!response.success || !response.plan) {
-          // No viable plan found
-          setError(
-            response.message ||
-              "No viable plan found. Insufficient balance across all chains.",
-          );
-          setIsLoading(false);
-          return;
-        }
-
-        // Normalize the plan response to match UI expectations
-        normalizedPlan = normalizeTransactionPlanWithAmount(
-          response.plan,
-          amount,
+      // Use backend API for planning (ERC20 tokens and native ETH/xDAI alike)
+      const planRequest: PlanRequest = {
+        sourceAddress,
+        destinationAddress: recipientAddress,
+        amount: amount,
+        tokenName: token.symbol,
+        ...(destinationChainId !== undefined
+          ? { destinationChainId }
+          : payGasInUsdc
+            ? { gasPayment: "usdc" as const }
+            : {}),
+      };
+
+      // Call API to plan transaction
+      const response = await planSendingTransaction(planRequest);
+
+      if (!response.success || !response.plan) {
+        // No viable plan found
+        setError(
+          response.message ||
+            "No viable plan found. Insufficient balance across all chains.",
         );
+        setIsLoading(false);
+        return;
+      }
 
-        if (!normalizedPlan) {
-          setError("Failed to process transaction plan");
-          setIsLoading(false);
-          return;
-        }
-      } else if (tokenSymbolUpper === "ETH") {
-        // ETH: Create plan directly from assets
-        const assets = await getAssets(sourceAddress);
-        const requestedAmountEth = parseFloat(amount);
-        const requestedAmountWei = BigInt(Math.floor(requestedAmountEth * 1e18));
-
-        // Find chains with sufficient ETH balance
-        const legs: TransactionLeg[] = [];
-        let remainingAmount = requestedAmountWei;
-        let totalGasCostUsdc = BigInt(0);
-
-        // Estimate gas cost (rough estimate: 21000 gas * 20 gwei = 0.00042 ETH per transfer)
-        // Convert to USDC (rough estimate: 1 ETH = $2500, so 0.00042 ETH = ~$1.05 = ~1.05 USDC)
-        const estimatedGasWei = BigInt("420000000000000"); // 0.00042 ETH
-        const estimatedGasUsdc = BigInt("1050000"); // ~1.05 USDC (6 decimals)
-
-        for (const chain of assets.chains) {
-          if (remainingAmount <= 0n) break;
-
-          const chainBalanceWei = BigInt(chain.native.balance);
-          // Reserve some ETH for gas (keep at least 0.001 ETH for gas)
-          const minReserveWei = BigInt("1000000000000000"); // 0.001 ETH
-          const availableWei = chainBalanceWei > minReserveWei 
-            ? chainBalanceWei - minReserveWei 
-            : 0n;
-
-          if (availableWei > 0n) {
-            const amountToSend = availableWei < remainingAmount 
-              ? availableWei 
-              : remainingAmount;
-            
-            // Convert to ETH string (18 decimals)
-            const amountEth = (Number(amountToSend) / 1e18).toString();
-            
-            legs.push({
-              chainId: chain.chainId,
-              chainName: chain.chainName,
-              amountUsdc: amountToSend.toString(), // Store as wei string (will be interpreted as native ETH)
-              gasCostUsdc: estimatedGasUsdc.toString(),
-            });
-
-            totalGasCostUsdc += estimatedGasUsdc;
-            remainingAmount -= amountToSend;
-          }
-        }
-
-        if (remainingAmount > 0n) {
-          setError("Insufficient ETH balance across all chains");
-          setIsLoading(false);
-          return;
-        }
+      // Normalize the plan response to match UI expectations
+      const normalizedPlan: TransactionPlan | null = normalizeTransactionPlanWithAmount(
+        response.plan,
+        amount,
+      );
 
-        normalizedPlan = {
-          type: legs.length === 1 ? "single" : "multi",
-          legs,
-          totalAmount: requestedAmountWei.toString(),
-          totalGasCostUsdc: totalGasCostUsdc.toString(),
-        };
-      } else {
-        setError(`Token ${token.symbol} is not supported. Only USDC and ETH are supported.`);
+      if (!normalizedPlan) {
+        setError("Failed to process transaction plan");
         setIsLoading(false);
         return;
       }
 
       // Success - show confirmation screen
       setConfirmationPlan(normalizedPlan);
+      setConfirmationQuoteId(response.quoteId);
       setIsLoading(false);
     } catch (err) {
       console.error("Error creating transaction plan:", err);
@@ -279,6 +262,46 @@ export default function SendScreen({
     }
   };
 
+  // Plan a batch payout from an uploaded "recipient,amount" CSV file
+  const handleCsvUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so the same file can be picked again after fixing it
+    e.target.value = "";
+    if (!file) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const csv = await file.text();
+      const sourceAddress = await getSourceAddress();
+
+      const response = await planBatchPayout({
+        sourceAddress,
+        tokenName: token.symbol,
+        csv,
+      });
+
+      const normalizedPlan: TransactionPlan | null = normalizeBatchPlan(response.plan);
+      if (!response.success || !normalizedPlan) {
+        setError(
+          response.message ||
+            "No viable plan found. Balances across all chains can't fund every payment.",
+        );
+        setIsLoading(false);
+        return;
+      }
+
+      setConfirmationPlan(normalizedPlan);
+      setConfirmationQuoteId(undefined);
+      setIsLoading(false);
+    } catch (err) {
+      console.error("Error creating batch payout plan:", err);
+      setError(err instanceof Error ? err.message : "Failed to create batch payout plan");
+      setIsLoading(false);
+    }
+  };
+
   const handleApprove = () => {
     // TODO: Execute the transactions
     console.log("Approving transactions:", confirmationPlan);
@@ -292,6 +315,7 @@ export default function SendScreen({
 
   const handleCancelConfirmation = () => {
     setConfirmationPlan(null);
+    setConfirmationQuoteId(undefined);
     setError(null);
   };
 
@@ -300,6 +324,7 @@ export default function SendScreen({
     return (
       <ConfirmationScreen
         plan={confirmationPlan}
+        quoteId={confirmationQuoteId}
         recipientAddress={resolvedAddress || address}
         tokenSymbol={token.symbol}
         onApprove={handleApprove}
@@ -647,6 +672,119 @@ export default function SendScreen({
           )}
         </div>
 
+        {/* Gas Payment */}
+        <label
+          style={{
+            width: "100%",
+            display: "flex",
+            alignItems: "center",
+            gap: "var(--spacing-sm)",
+            marginBottom: "var(--spacing-md)",
+            fontSize: "11px",
+            color: "var(--text-muted)",
+            fontFamily: "var(--font-family-sans)",
+            cursor: isLoading ? "not-allowed" : "pointer",
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={payGasInUsdc}
+            onChange={(e) => setPayGasInUsdc(e.target.checked)}
+            disabled={isLoading || destinationChainId !== undefined}
+          />
+          Pay gas in USDC (smart account, no native gas needed)
+        </label>
+
+        {/* Destination Chain */}
+        {chains.length > 0 && (
+          <label
+            style={{
+              width: "100%",
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              gap: "var(--spacing-sm)",
+              marginBottom: "var(--spacing-md)",
+              fontSize: "11px",
+              color: "var(--text-muted)",
+              fontFamily: "var(--font-family-sans)",
+            }}
+          >
+            Deliver on
+            <select
+              value={destinationChainId ?? ""}
+              onChange={(e) =>
+                setDestinationChainId(e.target.value === "" ? undefined : Number(e.target.value))
+              }
+              disabled={isLoading}
+              style={{ fontSize: "11px", fontFamily: "var(--font-family-sans)" }}
+            >
+              <option value="">Any chain</option>
+              {chains.map((chain) => (
+                <option key={chain.id} value={chain.id}>
+                  {chain.name} (cross-chain, multichain account)
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {/* Batch Payout Upload */}
+        <div
+          style={{
+            width: "100%",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            gap: "var(--spacing-sm)",
+            marginBottom: "var(--spacing-md)",
+          }}
+        >
+          <span
+            style={{
+              fontSize: "11px",
+              color: "var(--text-muted)",
+              fontFamily: "var(--font-family-sans)",
+            }}
+          >
+            Paying many recipients? Upload a "recipient,amount" CSV.
+          </span>
+          <input
+            ref={csvInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleCsvUpload}
+            style={{ display: "none" }}
+          />
+          <button
+            onClick={() => csvInputRef.current?.click()}
+            disabled={isLoading}
+            style={{
+              padding: "var(--spacing-xs) var(--spacing-sm)",
+              background: "rgba(255, 255, 255, 0.05)",
+              border: "1px solid rgba(255, 255, 255, 0.1)",
+              borderRadius: "var(--border-radius)",
+              color: "var(--text-primary)",
+              fontSize: "11px",
+              fontFamily: "var(--font-family-sans)",
+              cursor: isLoading ? "not-allowed" : "pointer",
+              whiteSpace: "nowrap",
+              opacity: isLoading ? 0.5 : 1,
+              transition: "all var(--transition-fast)",
+            }}
+            onMouseEnter={(e) => {
+              if (!isLoading) {
+                e.currentTarget.style.background = "rgba(255, 255, 255, 0.1)";
+              }
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.background = "rgba(255, 255, 255, 0.05)";
+            }}
+          >
+            Upload CSV
+          </button>
+        </div>
+
 
         {/* Error Message */}
         {error && (
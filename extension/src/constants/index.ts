@@ -16,4 +16,12 @@ export const BUTTON_LABELS = {
 
 // API Configuration
 // export const API_BASE_URL = "https://guppy-saving-mistakenly.ngrok-free.app";
-export const API_BASE_URL = "http://localhost:7000";
\ No newline at end of file
+export const API_BASE_URL = "http://localhost:7000";
+// ERC-4337 bundlers sponsored UserOperations are sent to, by chain id. Only these are used,
+// whatever bundler the backend planned with. The defaults point at the backend's local stand-in.
+export const BUNDLER_URLS: Record<number, string> = {
+  84532: "http://localhost:4337/84532",
+  11155420: "http://localhost:4337/11155420",
+  421614: "http://localhost:4337/421614",
+  11155111: "http://localhost:4337/11155111",
+};
@@ -10,10 +10,14 @@ export interface BalancesSummaryResponse {
   address: string;
   totals: {
     [tokenSymbol: string]: {
+      /** Token name, set for ERC-20 tokens from the token registry */
+      name?: string;
       totalSmallestUnit: string;
       totalFormatted: string;
       chainsCount?: number;
       chainsWithBalanceCount?: number;
+      /** USD value of the total, priced by the backend's price oracle */
+      valueUSD?: string;
     };
   };
   totalPortfolioValueUSD: string;
@@ -33,6 +37,16 @@ export interface AssetsResponse {
       balance: string;
       balanceFormatted: string;
     };
+    /** Other ERC-20 tokens with a non-zero balance */
+    tokens?: Array<{
+      symbol: string;
+      name?: string;
+      address: string;
+      decimals: number;
+      balance: string;
+      balanceFormatted: string;
+      source: "config" | "registry" | "custom";
+    }>;
   }>;
   totals: {
     native: {
@@ -51,39 +65,242 @@ export interface PlanRequest {
   sourceAddress: string;
   destinationAddress: string;
   amount: string;
-  tokenName: "USDC";
+  tokenName: string;
+  /** Optional cap on the number of chains a multi-chain plan may use */
+  maxLegs?: number;
+  /** Fee tier every leg is priced and signed at (default: "standard") */
+  feeTier?: FeeTier;
+  /** Chains that can't pay their leg's gas are left out ("exclude", the default and only policy) */
+  gasShortfall?: "exclude";
+  /** "usdc": legs are UserOperations whose gas a token paymaster charges in USDC (sourceAddress must be a smart account) */
+  gasPayment?: "native" | "usdc";
+  /** Deliver the full amount on this chain through EIL vouchers (sourceAddress is the multichain account's owner) */
+  destinationChainId?: number;
+}
+
+export type FeeTier = "slow" | "standard" | "fast";
+
+/** Fee parameters a leg is signed with (wei amounts as strings) */
+export interface LegFees {
+  tier: FeeTier;
+  gasLimit: string;
+  /** Max fee per gas, or the legacy gasPrice when eip1559 is false */
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  eip1559: boolean;
+}
+
+export interface PlanLeg {
+  chainId: number;
+  chainName: string;
+  tokenSymbol: string;
+  tokenAddress?: string;
+  /** True when the leg moves the chain's native token (ETH, xDAI) */
+  isNative?: boolean;
+  /** Token decimals on this leg's chain */
+  decimals: number;
+  /** Amount in the token's smallest unit on this leg's chain */
+  amount: string;
+  gasCostUsdc: string;
+  fees?: LegFees;
+  /** Recipient of this leg; set on batch payout legs, otherwise the plan's destination */
+  recipientAddress?: string;
+  /** eth_call dry run of the leg when it was planned */
+  simulation?: LegSimulation;
+  /** Sponsored legs: token the paymaster charges gas in, and its maximum charge in that token's smallest unit */
+  gasTokenSymbol?: string;
+  gasTokenAddress?: string;
+  gasTokenCost?: string;
+  /** Sponsored legs: unsigned UserOperation (bundler JSON-RPC format) sent by the owner's smart account, and its hash */
+  userOperation?: Record<string, string>;
+  userOpHash?: string;
+  entryPoint?: string;
+  /** The bundler the backend planned with; operations are sent to the extension's own BUNDLER_URLS */
+  bundlerUrl?: string;
+}
+
+/** Outcome of simulating a leg against the latest block (balances in the token's smallest unit) */
+export interface LegSimulation {
+  status: "success" | "reverted" | "error";
+  blockNumber?: number;
+  revertReason?: string;
+  error?: string;
+  sender?: { before: string; after?: string };
+  recipient?: { before: string; after?: string };
+}
+
+/** A chain whose native balance was short of its leg's gas, and was left out of the plan */
+export interface PlanGasCheck {
+  chainId: number;
+  chainName: string;
+  nativeBalance: string;
+  requiredNative: string;
+  action: "excluded";
+  reason?: string;
 }
 
 export interface SingleChainPlan {
   type: "single";
-  legs: Array<{
-    chainId: number;
-    chainName: string;
-    amountUsdc: string;
-    gasCostUsdc: string;
-  }>;
+  tokenSymbol: string;
+  /** Decimals totalAmount is expressed in */
+  decimals: number;
+  legs: PlanLeg[];
   totalAmount: string;
   totalGasCostUsdc: string;
+  gasChecks?: PlanGasCheck[];
 }
 
 export interface MultiChainPlan {
   type: "multi";
-  legs: Array<{
-    chainId: number;
-    chainName: string;
-    amountUsdc: string;
-    gasCostUsdc: string;
-  }>;
+  tokenSymbol: string;
+  /** Decimals totalAmount is expressed in */
+  decimals: number;
+  legs: PlanLeg[];
   totalAmount: string;
   totalGasCostUsdc: string;
+  gasChecks?: PlanGasCheck[];
+}
+
+export interface SponsoredPlan {
+  type: "sponsored";
+  tokenSymbol: string;
+  /** Decimals totalAmount is expressed in */
+  decimals: number;
+  legs: PlanLeg[];
+  totalAmount: string;
+  totalGasCostUsdc: string;
+}
+
+/** One chain's UserOperation in a cross-chain plan (amounts in the token's smallest unit) */
+export interface CrossChainBatch {
+  chainId: number;
+  chainName: string;
+  actions: Array<
+    | { type: "voucherRequest"; destinationChainId: number; amount: string }
+    | { type: "useVouchers" }
+    | { type: "transfer"; recipient: string; amount: string }
+  >;
+  /** Unsigned UserOperation (bundler JSON-RPC format) and the hash the owner signs, without a message prefix */
+  entryPoint?: string;
+  userOperation?: Record<string, string>;
+  userOpHash?: string;
+}
+
+export interface CrossChainPlan {
+  type: "crosschain";
+  tokenSymbol: string;
+  /** Decimals totalAmount is expressed in */
+  decimals: number;
+  /** Amount taken from each chain */
+  legs: PlanLeg[];
+  totalAmount: string;
+  totalGasCostUsdc: string;
+  destinationChainId: number;
+  /** Source chains first; the destination batch redeems the vouchers and transfers the full amount */
+  batches: CrossChainBatch[];
+  /** The owner's multichain smart account, which holds and sends the funds */
+  smartAccountAddress?: string;
+  /** Session that executes the signed batches */
+  sessionId?: string;
+  sessionExpiresAt?: string;
 }
 
 export interface PlanResponse {
   success: boolean;
-  plan: SingleChainPlan | MultiChainPlan | null;
+  plan: SingleChainPlan | MultiChainPlan | SponsoredPlan | CrossChainPlan | null;
+  /** Stored quote for this plan; revalidate it before executing */
+  quoteId?: string;
+  expiresAt?: string;
+  message?: string;
+}
+
+export interface BatchPayoutRequest {
+  sourceAddress: string;
+  tokenName: string;
+  /** Either payments (human-readable amounts) or csv with "recipient,amount" lines */
+  payments?: Array<{ recipient: string; amount: string }>;
+  csv?: string;
+  maxLegs?: number;
+  feeTier?: FeeTier;
+}
+
+export interface BatchPaymentPlan {
+  recipient: string;
+  /** Amount in the plan's decimals */
+  amount: string;
+  legs: PlanLeg[];
+  gasCostUsdc: string;
+}
+
+export interface BatchPlan {
+  type: "batch";
+  tokenSymbol: string;
+  /** Decimals payment amounts and totalAmount are expressed in */
+  decimals: number;
+  payments: BatchPaymentPlan[];
+  totalAmount: string;
+  totalGasCostUsdc: string;
+  /** Recipients a chain can't pay (their transfer couldn't be estimated there); they are paid from other chains */
+  recipientChecks?: Array<{ recipient: string; chainId: number; reason: string }>;
+}
+
+export interface BatchPayoutResponse {
+  success: boolean;
+  plan: BatchPlan | null;
   message?: string;
 }
 
+export interface QuoteRevalidationResponse {
+  success: boolean;
+  quoteId: string;
+  status: "valid" | "expired" | "executed" | "replan";
+  valid: boolean;
+  reasons: string[];
+  legs: Array<{
+    chainId: number;
+    balance?: string;
+    required?: string;
+    balanceOk: boolean;
+    quotedGasCostUsdc: string;
+    currentGasCostUsdc?: string;
+    gasOk: boolean;
+    nativeGasOk?: boolean;
+    nativeBalance?: string;
+    requiredNative?: string;
+    nonceOk?: boolean;
+    gasTokenCost?: string;
+    currentGasTokenCost?: string;
+    allowanceOk?: boolean;
+    gasTokenBalance?: string;
+    gasTokenBalanceOk?: boolean;
+    error?: string;
+  }>;
+  expiresAt: string;
+  checkedAt: string;
+}
+
+/** Outcome of one of a cross-chain session's UserOperations */
+export interface CrossChainOpResult {
+  chainId: number;
+  userOpHash: string;
+  status: "done" | "failed" | "pending";
+  txHash?: string;
+  revertReason?: string;
+}
+
+export interface CrossChainExecutionResponse {
+  success: boolean;
+  sessionId: string;
+  results: CrossChainOpResult[];
+}
+
+export interface QuoteExecutionLeg {
+  chainId: number;
+  success: boolean;
+  txHash?: string;
+  error?: string;
+}
+
 export interface ApiErrorResponse {
   error: string;
   message?: string;
@@ -91,15 +308,21 @@ export interface ApiErrorResponse {
 
 // Normalized plan format for use in the UI
 export interface NormalizedTransactionPlan {
-  type: "multi" | "single";
-  legs: Array<{
-    chainId: number;
-    chainName: string;
-    amountUsdc: string;
-    gasCostUsdc: string;
-  }>;
+  type: "multi" | "single" | "batch" | "sponsored" | "crosschain";
+  tokenSymbol: string;
+  decimals: number;
+  legs: PlanLeg[];
   totalAmount: string;
   totalGasCostUsdc: string;
+  /** Chains that were short of native gas and were left out */
+  gasChecks?: PlanGasCheck[];
+  /** Cross-chain plans: the account, batches and session the owner signs for */
+  crossChain?: {
+    destinationChainId: number;
+    smartAccountAddress?: string;
+    sessionId?: string;
+    batches: CrossChainBatch[];
+  };
 }
 
 /**
@@ -254,12 +477,267 @@ export async function planSendingTransaction(
   }
 }
 
+/**
+ * Plan a batch payout
+ * Returns one combined plan paying every recipient from the wallet's balances across chains
+ */
+export async function planBatchPayout(
+  request: BatchPayoutRequest
+): Promise<BatchPayoutResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/plan-batch-payout`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "ngrok-skip-browser-warning": "true",
+      },
+      body: JSON.stringify(request),
+    });
+
+    return handleResponse<BatchPayoutResponse>(response);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError(
+      `Failed to plan batch payout: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
+/**
+ * Re-check a quote's balances and gas right before executing it
+ */
+export async function revalidateQuote(
+  quoteId: string
+): Promise<QuoteRevalidationResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/quotes/${quoteId}/revalidate`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "ngrok-skip-browser-warning": "true",
+      },
+    });
+
+    return handleResponse<QuoteRevalidationResponse>(response);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError(
+      `Failed to revalidate quote: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
+/**
+ * Execute a cross-chain plan's session with the owner's signatures of its batches' userOpHashes
+ * Resolves once every UserOperation finished, failed or timed out (pending)
+ */
+export async function executeCrossChainSession(
+  sessionId: string,
+  signatures: string[]
+): Promise<CrossChainExecutionResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/crosschain/${sessionId}/execute`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "ngrok-skip-browser-warning": "true",
+      },
+      body: JSON.stringify({ signatures }),
+    });
+
+    return handleResponse<CrossChainExecutionResponse>(response);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError(
+      `Failed to execute cross-chain plan: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
+/**
+ * Record which transactions were sent for a quote
+ */
+export async function recordQuoteExecution(
+  quoteId: string,
+  legs: QuoteExecutionLeg[]
+): Promise<void> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/quotes/${quoteId}/executed`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "ngrok-skip-browser-warning": "true",
+      },
+      body: JSON.stringify({ legs }),
+    });
+
+    await handleResponse<{ success: boolean }>(response);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError(
+      `Failed to record quote execution: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
+/** Token of a stream event (address 0xEeee…EEeE for the native token) */
+export interface StreamToken {
+  symbol: string;
+  address: string;
+  decimals: number;
+}
+
+/** A native or ERC-20 balance changed (amounts in the token's smallest unit) */
+export interface BalanceChangeEvent {
+  chainId: number;
+  chainName: string;
+  blockNumber: number;
+  token: StreamToken;
+  balance: string;
+  balanceFormatted: string;
+  previousBalance: string;
+}
+
+/** A successful transfer to ("in") or from ("out") the subscribed address */
+export interface TransferActivityEvent {
+  chainId: number;
+  chainName: string;
+  blockNumber: number;
+  txHash: string;
+  direction: "in" | "out";
+  from: string;
+  to: string;
+  token: StreamToken;
+  amount: string;
+  amountFormatted: string;
+}
+
+export interface ActivityHandlers {
+  onBalance?: (event: BalanceChangeEvent) => void;
+  onTransfer?: (event: TransferActivityEvent) => void;
+}
+
+/**
+ * Subscribe to an address's live balance changes and transfers (Server-Sent Events).
+ * The browser reconnects by itself when the connection drops.
+ * Returns a function that closes the stream
+ */
+export function subscribeToActivity(
+  address: string,
+  handlers: ActivityHandlers
+): () => void {
+  const source = new EventSource(`${API_BASE_URL}/stream/${address}`);
+
+  source.addEventListener("balance", (event) => {
+    handlers.onBalance?.(JSON.parse((event as MessageEvent<string>).data) as BalanceChangeEvent);
+  });
+  source.addEventListener("transfer", (event) => {
+    handlers.onTransfer?.(JSON.parse((event as MessageEvent<string>).data) as TransferActivityEvent);
+  });
+  source.onerror = () => {
+    console.warn("Activity stream disconnected, reconnecting...");
+  };
+
+  return () => source.close();
+}
+
+/** A chain configured on the backend */
+export interface ChainSummary {
+  id: number;
+  name: string;
+}
+
+/**
+ * Get the chains configured on the backend
+ */
+export async function getChains(): Promise<ChainSummary[]> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/chains`, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+        "ngrok-skip-browser-warning": "true",
+      },
+    });
+
+    const data = await handleResponse<{ chains: ChainSummary[] }>(response);
+    return data.chains.map((chain) => ({ id: chain.id, name: chain.name }));
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError(
+      `Failed to fetch chains: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
+export type ActivityExportFormat = "csv" | "ofx" | "qfx";
+
+export interface ActivityExportOptions {
+  format: ActivityExportFormat;
+  /** First day, YYYY-MM-DD (UTC) */
+  from: string;
+  /** Last day, included, YYYY-MM-DD (UTC) */
+  to: string;
+  /** Every configured chain when unset */
+  chainIds?: number[];
+}
+
+/**
+ * Export an address's activity for accounting (CSV, OFX or QFX)
+ * Returns the file's content; with token amounts, gas paid (native and USD) and explorer links
+ */
+export async function exportActivity(
+  address: string,
+  options: ActivityExportOptions
+): Promise<Blob> {
+  const params = new URLSearchParams({
+    format: options.format,
+    from: options.from,
+    to: options.to,
+  });
+  if (options.chainIds) {
+    params.set("chainIds", options.chainIds.join(","));
+  }
+
+  try {
+    const response = await fetch(`${API_BASE_URL}/transactions/${address}/export?${params}`, {
+      method: "GET",
+      headers: {
+        "ngrok-skip-browser-warning": "true",
+      },
+    });
+
+    if (!response.ok) {
+      // Throws with the error message of the JSON body
+      await handleResponse<never>(response);
+    }
+    return await response.blob();
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError(
+      `Failed to export activity: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
 /**
  * Normalize API plan response to match UI expectations
  * Converts single-chain and multi-chain plans to a unified format
  */
 export function normalizeTransactionPlan(
-  plan: SingleChainPlan | MultiChainPlan | null
+  plan: SingleChainPlan | MultiChainPlan | SponsoredPlan | CrossChainPlan | null
 ): NormalizedTransactionPlan | null {
   if (!plan) {
     return null;
@@ -269,18 +747,54 @@ export function normalizeTransactionPlan(
     // Single-chain plan now has the same structure as multi-chain
     return {
       type: "single",
+      tokenSymbol: plan.tokenSymbol,
+      decimals: plan.decimals,
+      legs: plan.legs,
+      totalAmount: plan.totalAmount,
+      totalGasCostUsdc: plan.totalGasCostUsdc,
+      gasChecks: plan.gasChecks,
+    };
+  }
+
+  if (plan.type === "sponsored") {
+    // Sponsored legs carry their UserOperations; their gas is paid in USDC, so there are no gas checks
+    return {
+      type: "sponsored",
+      tokenSymbol: plan.tokenSymbol,
+      decimals: plan.decimals,
+      legs: plan.legs,
+      totalAmount: plan.totalAmount,
+      totalGasCostUsdc: plan.totalGasCostUsdc,
+    };
+  }
+
+  if (plan.type === "crosschain") {
+    // Legs are the funding sources; the owner signs the batches' UserOperations instead
+    return {
+      type: "crosschain",
+      tokenSymbol: plan.tokenSymbol,
+      decimals: plan.decimals,
       legs: plan.legs,
       totalAmount: plan.totalAmount,
       totalGasCostUsdc: plan.totalGasCostUsdc,
+      crossChain: {
+        destinationChainId: plan.destinationChainId,
+        smartAccountAddress: plan.smartAccountAddress,
+        sessionId: plan.sessionId,
+        batches: plan.batches,
+      },
     };
   }
 
   // Multi-chain plan now has the same structure as single-chain
   return {
     type: "multi",
+    tokenSymbol: plan.tokenSymbol,
+    decimals: plan.decimals,
     legs: plan.legs,
     totalAmount: plan.totalAmount,
     totalGasCostUsdc: plan.totalGasCostUsdc,
+    gasChecks: plan.gasChecks,
   };
 }
 
@@ -289,7 +803,7 @@ export function normalizeTransactionPlan(
  * This version includes the amount from the request for single-chain plans
  */
 export function normalizeTransactionPlanWithAmount(
-  plan: SingleChainPlan | MultiChainPlan | null,
+  plan: SingleChainPlan | MultiChainPlan | SponsoredPlan | CrossChainPlan | null,
   requestAmount: string // Amount in human-readable format (e.g., "100.5")
 ): NormalizedTransactionPlan | null {
   if (!plan) {
@@ -301,17 +815,152 @@ export function normalizeTransactionPlanWithAmount(
     // The API already provides the amounts in the correct format
     return {
       type: "single",
+      tokenSymbol: plan.tokenSymbol,
+      decimals: plan.decimals,
       legs: plan.legs,
       totalAmount: plan.totalAmount,
       totalGasCostUsdc: plan.totalGasCostUsdc,
+      gasChecks: plan.gasChecks,
+    };
+  }
+
+  if (plan.type === "sponsored") {
+    // Sponsored legs carry their UserOperations; their gas is paid in USDC, so there are no gas checks
+    return {
+      type: "sponsored",
+      tokenSymbol: plan.tokenSymbol,
+      decimals: plan.decimals,
+      legs: plan.legs,
+      totalAmount: plan.totalAmount,
+      totalGasCostUsdc: plan.totalGasCostUsdc,
+    };
+  }
+
+  if (plan.type === "crosschain") {
+    // Legs are the funding sources; the owner signs the batches' UserOperations instead
+    return {
+      type: "crosschain",
+      tokenSymbol: plan.tokenSymbol,
+      decimals: plan.decimals,
+      legs: plan.legs,
+      totalAmount: plan.totalAmount,
+      totalGasCostUsdc: plan.totalGasCostUsdc,
+      crossChain: {
+        destinationChainId: plan.destinationChainId,
+        smartAccountAddress: plan.smartAccountAddress,
+        sessionId: plan.sessionId,
+        batches: plan.batches,
+      },
     };
   }
 
   // Multi-chain plan now has the same structure as single-chain
   return {
     type: "multi",
+    tokenSymbol: plan.tokenSymbol,
+    decimals: plan.decimals,
     legs: plan.legs,
     totalAmount: plan.totalAmount,
     totalGasCostUsdc: plan.totalGasCostUsdc,
+    gasChecks: plan.gasChecks,
   };
 }
+
+/**
+ * Normalize a batch payout plan to the unified format
+ * Every payment's legs are flattened into one list, each leg carrying its recipient
+ */
+export function normalizeBatchPlan(
+  plan: BatchPlan | null
+): NormalizedTransactionPlan | null {
+  if (!plan) {
+    return null;
+  }
+
+  return {
+    type: "batch",
+    tokenSymbol: plan.tokenSymbol,
+    decimals: plan.decimals,
+    legs: plan.payments.flatMap((payment) =>
+      payment.legs.map((leg) => ({ ...leg, recipientAddress: payment.recipient }))
+    ),
+    totalAmount: plan.totalAmount,
+    totalGasCostUsdc: plan.totalGasCostUsdc,
+  };
+}
+
+export type PortfolioBackfillStatus = "pending" | "running" | "done" | "failed";
+
+/** Portfolio value at the end of a day (today: now) */
+export interface PortfolioValuePoint {
+  /** YYYY-MM-DD (UTC) */
+  day: string;
+  valueUsd: string;
+}
+
+/** Profit and loss of a token on a chain, at average cost */
+export interface TokenProfitAndLoss {
+  chainId: number;
+  /** Lowercase token address (NATIVE_TOKEN_ADDRESS for the native asset) */
+  token: string;
+  symbol: string;
+  balance: string;
+  priceUsd: string | null;
+  valueUsd: string;
+  costBasisUsd: string;
+  realizedUsd: string;
+  unrealizedUsd: string;
+}
+
+export interface PortfolioHistoryResponse {
+  success: boolean;
+  address: string;
+  backfill: {
+    status: PortfolioBackfillStatus;
+    from: string;
+    /** First day the backend's history covers, when later than `from`; earlier days have no point */
+    coveredFrom?: string;
+    error?: string;
+    finishedAt?: string;
+  };
+  points: PortfolioValuePoint[];
+  pnl: {
+    since: string | null;
+    tokens: TokenProfitAndLoss[];
+    totals: {
+      valueUsd: string;
+      costBasisUsd: string;
+      realizedUsd: string;
+      unrealizedUsd: string;
+    };
+  };
+}
+
+/**
+ * Get an address's portfolio value over its last `days` days and its profit/loss
+ * The first request starts rebuilding the address's history on the backend; `points` is empty until
+ * `backfill.status` is "done"
+ */
+export async function getPortfolioHistory(
+  address: string,
+  days: number = 30
+): Promise<PortfolioHistoryResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/portfolio/${address}/history?days=${days}`, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+        "ngrok-skip-browser-warning": "true",
+      },
+    });
+
+    return handleResponse<PortfolioHistoryResponse>(response);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError(
+      `Failed to fetch portfolio history: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
@@ -10,13 +10,28 @@ export {
   getBalancesSummary,
   getAssets,
   planSendingTransaction,
+  planBatchPayout,
+  revalidateQuote,
+  recordQuoteExecution,
   normalizeTransactionPlan,
   normalizeTransactionPlanWithAmount,
+  normalizeBatchPlan,
   ApiError,
   type BalancesSummaryResponse,
   type AssetsResponse,
   type PlanRequest,
+  type PlanLeg,
+  type LegSimulation,
+  type LegFees,
+  type FeeTier,
+  type PlanGasCheck,
+  type SponsoredPlan,
+  type CrossChainPlan,
   type PlanResponse,
+  type BatchPayoutRequest,
+  type BatchPayoutResponse,
+  type QuoteRevalidationResponse,
+  type QuoteExecutionLeg,
   type NormalizedTransactionPlan,
 } from "./api";
 export { getBlockExplorerUrl, BLOCK_EXPLORERS } from "./blockExplorers";
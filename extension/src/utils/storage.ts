@@ -101,7 +101,10 @@ export type TransactionStatus = "pending" | "success" | "failed";
 export interface SubTransaction {
   chainId: number;
   chainName: string;
+  /** Amount in the token's smallest unit (the name predates non-USDC sends) */
   amountUsdc: string;
+  /** Token decimals on this chain; missing on transactions saved before it was tracked (USDC) */
+  decimals?: number;
   gasCostUsdc: string;
   status: TransactionStatus;
   txHash?: string;
@@ -113,8 +116,10 @@ export interface PendingTransaction {
   recipientAddress: string;
   tokenSymbol: string;
   totalAmount: string;
+  /** Decimals totalAmount is expressed in; missing on older saved transactions (USDC) */
+  decimals?: number;
   totalGasCostUsdc: string;
-  type: "multi" | "single";
+  type: "multi" | "single" | "batch" | "sponsored" | "crosschain";
   subTransactions: SubTransaction[];
   status: TransactionStatus;
   createdAt: number;
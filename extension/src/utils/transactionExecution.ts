@@ -6,7 +6,7 @@
  *
  * For each transaction leg in the plan:
  * - Connects to the appropriate RPC endpoint for the chain (chainId)
- * - Creates a USDC transfer transaction to the recipient address
+ * - Creates a token transfer transaction (ERC20 or native) to the recipient address
  * - Signs the transaction using the wallet derived from the seed phrase
  * - Sends the transaction to the network
  * - Waits for transaction receipt and extracts the txHash
@@ -14,14 +14,34 @@
  * Errors are handled gracefully - if a transaction fails, that sub-transaction
  * is marked as "failed" but processing continues with other legs.
  *
- * Note: USDC uses 6 decimals, so amounts are in micro-USDC (smallest unit).
+ * Note: leg amounts are in the token's smallest unit on that leg's chain
+ * (see leg.decimals), e.g. micro-USDC for USDC or wei for ETH.
+ *
+ * When the plan carries fee parameters for a leg (leg.fees), the transaction is
+ * signed with that gas limit and EIP-1559 fees (or legacy gasPrice); otherwise
+ * ethers fills them in from the provider.
+ *
+ * Sponsored legs (gas paid in USDC through a token paymaster) carry an unsigned
+ * UserOperation instead: the wallet recomputes its userOpHash, checks that its call data
+ * approves the paymaster and transfers exactly the leg shown, signs the hash and sends
+ * the operation with eth_sendUserOperation to the chain's bundler in BUNDLER_URLS.
+ * Their result hash is the userOpHash, not a transaction hash.
+ *
+ * Cross-chain plans (EIL) are run by a backend session instead: the wallet recomputes
+ * every batch's userOpHash from its UserOperation, checks that its calls lock and transfer
+ * exactly the amounts of the confirmed plan, signs the hashes with the account owner's key
+ * and posts the signatures to the session. There is one result per batch (source chains
+ * first, then the destination), with the transaction that included it.
  */
 
+import { ethers } from "ethers";
 import { WalletVault, type EncryptedVault } from "./WalletVault";
-import type { NormalizedTransactionPlan } from "./api";
+import { executeCrossChainSession, type NormalizedTransactionPlan, type LegFees } from "./api";
 import { getBlockExplorerUrl } from "./blockExplorers";
+import { BUNDLER_URLS } from "../constants";
 import { getSelectedAccountIndex } from "./storage";
 import { deriveWalletFromPhrase } from "./accountManager";
+import { decodeAccountCalls, hashUserOperation } from "./userOperations";
 
 /**
  * Result of executing a single transaction leg
@@ -61,7 +81,8 @@ export interface ExecuteTransactionPlanParams {
    */
   plan: NormalizedTransactionPlan;
   /**
-   * The recipient address (destination for the transfer)
+   * The recipient address (destination for the transfer).
+   * Legs that carry their own recipientAddress (batch payouts) are sent there instead.
    */
   recipientAddress: string;
   /**
@@ -84,12 +105,12 @@ export interface ExecuteTransactionPlanParams {
 
 /**
  * Execute a transaction plan by sending token transfers on the specified chains.
- * Supports both USDC (ERC20) and native ETH transfers.
+ * Supports ERC20 token transfers (USDC, DAI, ...) and native transfers (ETH, xDAI).
  *
  * This function handles both single-chain and multi-chain transaction plans.
  * For each leg in the plan, it will:
  * 1. Connect to the appropriate blockchain network
- * 2. Create and sign a transfer transaction (USDC ERC20 or native ETH)
+ * 2. Create and sign a transfer transaction (ERC20 token or native ETH)
  * 3. Send the transaction and wait for confirmation
  * 4. Return the transaction hash
  *
@@ -141,57 +162,98 @@ export async function executeTransactionPlan(
       const decoder = new TextDecoder();
       const seedPhrase = decoder.decode(seedPhraseBytes);
 
-      // Dynamically import ethers
-      const { ethers } = await import("ethers");
-      
       // Derive wallet using account index
       const { wallet } = await deriveWalletFromPhrase(seedPhrase, accountIndex);
 
-      // Process each leg sequentially
-      for (const leg of plan.legs) {
-        try {
-          console.log(`Processing transaction leg: ${leg.chainName} (chainId: ${leg.chainId})`);
+      if (plan.type === "crosschain" && plan.crossChain) {
+        legResults.push(...(await executeCrossChainPlan(plan, plan.crossChain, recipientAddress, wallet)));
+        return;
+      }
 
+      // One signer per chain, so consecutive legs on the same chain (batch payouts)
+      // get sequential nonces without waiting for the previous transaction to be mined
+      const signers = new Map<number, InstanceType<typeof ethers.NonceManager>>();
+      const getSigner = (chainId: number) => {
+        let signer = signers.get(chainId);
+        if (!signer) {
           // Get RPC provider for this chain
-          const rpcUrl = getRpcUrlForChain(leg.chainId);
+          const rpcUrl = getRpcUrlForChain(chainId);
           console.log(`Connecting to RPC: ${rpcUrl}`);
           const provider = new ethers.JsonRpcProvider(rpcUrl);
 
           // Connect wallet to provider
-          const signer = wallet.connect(provider);
+          signer = new ethers.NonceManager(wallet.connect(provider));
+          signers.set(chainId, signer);
+        }
+        return signer;
+      };
+
+      // Process each leg sequentially
+      for (const leg of plan.legs) {
+        const legRecipient = leg.recipientAddress ?? recipientAddress;
+        try {
+          console.log(`Processing transaction leg: ${leg.chainName} (chainId: ${leg.chainId})`);
+
+          if (leg.userOperation && leg.entryPoint) {
+            const bundlerUrl = BUNDLER_URLS[leg.chainId];
+            if (!bundlerUrl) {
+              throw new Error(`No bundler configured for ${leg.chainName}`);
+            }
+            const verifiedHash = verifySponsoredLeg(leg, legRecipient);
+            // SimpleAccount v0.7 checks an EIP-191 signature over the userOpHash
+            const signature = await wallet.signMessage(ethers.getBytes(verifiedHash));
+            const userOpHash = await sendUserOperation(
+              bundlerUrl,
+              { ...leg.userOperation, signature },
+              leg.entryPoint
+            );
+            console.log(`UserOperation sent! Hash: ${userOpHash}`);
+            legResults.push({
+              chainId: leg.chainId,
+              chainName: leg.chainName,
+              success: true,
+              txHash: userOpHash,
+            });
+            continue;
+          }
+
+          const signer = getSigner(leg.chainId);
 
           let tx: any; // ethers.ContractTransactionResponse type
+          const overrides = buildFeeOverrides(leg.fees);
 
-          if (isNativeEth) {
-            // Native ETH transfer
-            const amount = BigInt(leg.amountUsdc); // amountUsdc field contains wei for ETH
-            console.log(`Sending ${amount} wei (${Number(amount) / 1e18} ETH) to ${recipientAddress}`);
+          if (leg.isNative ?? isNativeEth) {
+            // Native transfer (ETH, xDAI)
+            const amount = BigInt(leg.amount); // amount is in wei
+            console.log(`Sending ${amount} wei (${Number(amount) / 10 ** leg.decimals} ${leg.tokenSymbol}) to ${legRecipient}`);
 
-            // Send native ETH
+            // Send native token
             tx = await signer.sendTransaction({
-              to: recipientAddress,
+              to: legRecipient,
               value: amount,
+              ...overrides,
             });
           } else {
-            // USDC ERC20 transfer
-            const usdcAddress = getUsdcAddressForChain(leg.chainId);
-            console.log(`USDC contract address: ${usdcAddress}`);
-            console.log(`Amount: ${leg.amountUsdc} (${Number(leg.amountUsdc) / 1e6} USDC)`);
-            console.log(`Recipient: ${recipientAddress}`);
-
-            // Create USDC contract instance (ERC20 ABI)
-            const usdcContract = new ethers.Contract(
-              usdcAddress,
+            // ERC20 transfer - the plan carries the token address per chain,
+            // older plans without it are USDC
+            const tokenAddress = leg.tokenAddress ?? getUsdcAddressForChain(leg.chainId);
+            console.log(`${leg.tokenSymbol} contract address: ${tokenAddress}`);
+            console.log(`Amount: ${leg.amount} (${Number(leg.amount) / 10 ** leg.decimals} ${leg.tokenSymbol})`);
+            console.log(`Recipient: ${legRecipient}`);
+
+            // Create token contract instance (ERC20 ABI)
+            const tokenContract = new ethers.Contract(
+              tokenAddress,
               ERC20_TRANSFER_ABI,
               signer
             );
 
             // Convert amount from string to BigInt (already in smallest unit)
-            const amount = BigInt(leg.amountUsdc);
+            const amount = BigInt(leg.amount);
 
             // Call transfer function
-            console.log(`Calling transfer(${recipientAddress}, ${amount})`);
-            tx = await usdcContract.transfer(recipientAddress, amount);
+            console.log(`Calling transfer(${legRecipient}, ${amount})`);
+            tx = await tokenContract.transfer(legRecipient, amount, overrides);
           }
 
           // Extract transaction hash (available immediately)
@@ -209,6 +271,8 @@ export async function executeTransactionPlan(
           });
         } catch (error) {
           // Handle errors gracefully - mark this leg as failed but continue with others
+          // A failed send leaves a gap in the managed nonce; re-read it for the next leg
+          signers.get(leg.chainId)?.reset();
           const errorMessage = error instanceof Error ? error.message : "Unknown error";
           const errorDetails = error instanceof Error ? error.stack : String(error);
 
@@ -216,7 +280,7 @@ export async function executeTransactionPlan(
             error: errorMessage,
             details: errorDetails,
             leg: leg,
-            recipientAddress,
+            recipientAddress: legRecipient,
             tokenSymbol,
           });
 
@@ -231,15 +295,328 @@ export async function executeTransactionPlan(
     }
   );
 
+  // Cross-chain plans run one UserOperation per batch rather than one transaction per leg
+  const totalCount = plan.crossChain?.batches.length ?? plan.legs.length;
   const successCount = legResults.filter((r) => r.success).length;
-  const overallSuccess = successCount === plan.legs.length;
+  const overallSuccess = successCount === totalCount;
 
   return {
     transactionId,
     overallSuccess,
     legResults,
     successCount,
-    totalCount: plan.legs.length,
+    totalCount,
+  };
+}
+
+// Token calls a smart account's UserOperation may make
+const TOKEN_INTERFACE = new ethers.Interface([
+  "function approve(address spender, uint256 value) returns (bool)",
+  "function transfer(address to, uint256 value) returns (bool)",
+]);
+
+function isSameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+// EIL paymaster call that locks a voucher request's funds on its source chain
+const EIL_PAYMASTER_INTERFACE = new ethers.Interface([
+  "function lockUserDeposit(((uint256 chainId, address paymaster, address sender, (address erc20Token, uint256 amount)[] assets, (uint256 startFeePercentNumerator, uint256 maxFeePercentNumerator, uint256 feeIncreasePerSecond, uint256 unspentVoucherFee) feeRule, uint256 senderNonce, address[] allowedXlps) origination, (uint256 chainId, address paymaster, address sender, (address erc20Token, uint256 amount)[] assets, uint256 maxUserOpCost, uint256 expiresAt) destination) voucherRequest)",
+]);
+
+/**
+ * An amount in one number of decimals expressed in another (truncating when there are fewer)
+ */
+function scaleAmount(amount: bigint, fromDecimals: number, toDecimals: number): bigint {
+  return toDecimals >= fromDecimals
+    ? amount * 10n ** BigInt(toDecimals - fromDecimals)
+    : amount / 10n ** BigInt(fromDecimals - toDecimals);
+}
+
+// EIL paymaster data ends with its signature, the signature's 2-byte length and this magic;
+// the signature isn't part of the userOpHash
+const PAYMASTER_SIG_MAGIC = "22e325a297439656";
+
+/**
+ * Paymaster data as the EIL userOpHash covers it: a trailing paymaster signature is replaced by the magic alone
+ */
+function getPaymasterDataForSigning(paymasterData: string): string {
+  const hex = paymasterData.slice(2);
+  if (hex.length <= PAYMASTER_SIG_MAGIC.length || !hex.toLowerCase().endsWith(PAYMASTER_SIG_MAGIC)) {
+    return paymasterData;
+  }
+  const trailerStart = hex.length - PAYMASTER_SIG_MAGIC.length - 4;
+  const signatureLength = parseInt(hex.slice(trailerStart, trailerStart + 4), 16) * 2;
+  return `0x${hex.slice(0, trailerStart - signatureLength)}${PAYMASTER_SIG_MAGIC}`;
+}
+
+/**
+ * Check a cross-chain plan's UserOperations against the plan the user confirmed before signing them.
+ * Each batch's call data must make exactly its actions' calls, in order, and no native value:
+ * - voucherRequest: approve the EIL paymaster and lock the source leg's amount, from the smart account
+ *   on that chain to the smart account on the plan's destination chain
+ * - useVouchers (destination only): no call, the vouchers are redeemed through the paymaster data
+ * - transfer (destination only): the plan's total amount of the vouchers' token to the confirmed recipient
+ * Every source leg must be locked once, and the destination transfer made once.
+ */
+function verifyCrossChainPlan(
+  plan: NormalizedTransactionPlan,
+  crossChain: NonNullable<NormalizedTransactionPlan["crossChain"]>,
+  recipient: string
+): void {
+  const smartAccount = crossChain.smartAccountAddress ?? "";
+  const destinationLeg = plan.legs.find((leg) => leg.chainId === crossChain.destinationChainId);
+  // The token the destination transfer spends: the destination leg's, or the one the vouchers pay out
+  let destinationToken = destinationLeg?.tokenAddress;
+  const lockedChains = new Set<number>();
+  let transferred = false;
+
+  for (const batch of crossChain.batches) {
+    const isDestination = batch.chainId === crossChain.destinationChainId;
+    const leg = plan.legs.find((l) => l.chainId === batch.chainId);
+    const calls = decodeAccountCalls(batch.userOperation?.callData ?? "0x");
+    if (calls.some((call) => call.value !== 0n)) {
+      throw new Error(`The ${batch.chainName} UserOperation sends native value`);
+    }
+
+    let next = 0;
+    for (const action of batch.actions) {
+      if (action.type === "useVouchers") {
+        if (!isDestination) {
+          throw new Error(`The ${batch.chainName} batch redeems vouchers off the destination chain`);
+        }
+        continue;
+      }
+
+      if (action.type === "voucherRequest") {
+        if (isDestination || !leg || lockedChains.has(batch.chainId)) {
+          throw new Error(`The ${batch.chainName} batch requests a voucher the plan doesn't take from it`);
+        }
+        const amount = BigInt(leg.amount);
+        if (action.destinationChainId !== crossChain.destinationChainId || BigInt(action.amount) !== amount) {
+          throw new Error(`The ${batch.chainName} voucher request doesn't move the leg's ${leg.amount} to the destination chain`);
+        }
+        const approveCall = calls[next++];
+        const lockCall = calls[next++];
+        const approve = approveCall && TOKEN_INTERFACE.parseTransaction({ data: approveCall.data });
+        const lock = lockCall && EIL_PAYMASTER_INTERFACE.parseTransaction({ data: lockCall.data });
+        if (
+          approve?.name !== "approve" ||
+          lock?.name !== "lockUserDeposit" ||
+          !isSameAddress(approveCall!.target, leg.tokenAddress ?? getUsdcAddressForChain(leg.chainId)) ||
+          !isSameAddress(approve.args[0], lockCall!.target) ||
+          approve.args[1] !== amount
+        ) {
+          throw new Error(`The ${batch.chainName} UserOperation doesn't approve and lock the leg's ${leg.amount} ${leg.tokenSymbol}`);
+        }
+        const { origination, destination } = lock.args[0];
+        const [originAsset] = origination.assets.length === 1 ? origination.assets : [];
+        const [destinationAsset] = destination.assets.length === 1 ? destination.assets : [];
+        if (
+          Number(origination.chainId) !== batch.chainId ||
+          !isSameAddress(origination.sender, smartAccount) ||
+          !originAsset ||
+          !isSameAddress(originAsset.erc20Token, approveCall!.target) ||
+          originAsset.amount !== amount ||
+          Number(destination.chainId) !== crossChain.destinationChainId ||
+          !isSameAddress(destination.sender, smartAccount) ||
+          !destinationAsset ||
+          destinationAsset.amount !== amount ||
+          (destinationToken !== undefined && !isSameAddress(destinationAsset.erc20Token, destinationToken))
+        ) {
+          throw new Error(`The ${batch.chainName} voucher request doesn't move the leg's ${leg.amount} to ${smartAccount} on the destination chain`);
+        }
+        destinationToken ??= destinationAsset.erc20Token as string;
+        lockedChains.add(batch.chainId);
+        continue;
+      }
+
+      const decimals = destinationLeg?.decimals ?? plan.legs[0]?.decimals ?? plan.decimals;
+      const amount = scaleAmount(BigInt(plan.totalAmount), plan.decimals, decimals);
+      const transferCall = calls[next++];
+      const transfer = transferCall && TOKEN_INTERFACE.parseTransaction({ data: transferCall.data });
+      if (
+        !isDestination ||
+        transferred ||
+        !isSameAddress(action.recipient, recipient) ||
+        BigInt(action.amount) !== amount ||
+        transfer?.name !== "transfer" ||
+        !destinationToken ||
+        !isSameAddress(transferCall!.target, destinationToken) ||
+        !isSameAddress(transfer.args[0], recipient) ||
+        transfer.args[1] !== amount
+      ) {
+        throw new Error(`The ${batch.chainName} UserOperation doesn't transfer ${amount} ${plan.tokenSymbol} to ${recipient}`);
+      }
+      transferred = true;
+    }
+
+    if (next !== calls.length) {
+      throw new Error(`The ${batch.chainName} UserOperation makes calls its batch doesn't list`);
+    }
+  }
+
+  const unlocked = plan.legs.find((leg) => leg.chainId !== crossChain.destinationChainId && !lockedChains.has(leg.chainId));
+  if (unlocked || !transferred) {
+    throw new Error(`The cross-chain batches don't move ${unlocked ? `the ${unlocked.chainName} leg` : "the total"} to ${recipient}`);
+  }
+}
+
+/**
+ * Sign a cross-chain plan's batches with the account owner and run them through the backend session.
+ * Each userOpHash is recomputed from its UserOperation (EntryPoint v0.8) rather than trusted,
+ * every operation must be sent from the plan's smart account, and the calls must match the
+ * confirmed plan (see verifyCrossChainPlan).
+ */
+async function executeCrossChainPlan(
+  plan: NormalizedTransactionPlan,
+  crossChain: NonNullable<NormalizedTransactionPlan["crossChain"]>,
+  recipient: string,
+  wallet: { signingKey: { sign(digest: string): { serialized: string } } }
+): Promise<TransactionLegResult[]> {
+  try {
+    if (!crossChain.sessionId || !crossChain.smartAccountAddress) {
+      throw new Error("Cross-chain plan has no session to execute");
+    }
+    verifyCrossChainPlan(plan, crossChain, recipient);
+    const signatures = crossChain.batches.map((batch) => {
+      if (!batch.userOperation || !batch.userOpHash || !batch.entryPoint) {
+        throw new Error(`The ${batch.chainName} batch has no UserOperation to sign`);
+      }
+      const userOperation: Record<string, string> = {
+        ...batch.userOperation,
+        paymasterData: getPaymasterDataForSigning(batch.userOperation.paymasterData ?? "0x"),
+      };
+      if (userOperation.sender?.toLowerCase() !== crossChain.smartAccountAddress!.toLowerCase()) {
+        throw new Error(`The ${batch.chainName} UserOperation isn't sent from ${crossChain.smartAccountAddress}`);
+      }
+      const userOpHash = hashUserOperation(userOperation, batch.entryPoint, batch.chainId, "0.8");
+      if (userOpHash.toLowerCase() !== batch.userOpHash.toLowerCase()) {
+        throw new Error(`The ${batch.chainName} userOpHash doesn't match its UserOperation`);
+      }
+      // Raw ECDSA over the hash, without a message prefix (SimpleAccount v0.8)
+      return wallet.signingKey.sign(userOpHash).serialized;
+    });
+
+    const { results } = await executeCrossChainSession(crossChain.sessionId, signatures);
+    return crossChain.batches.map((batch, index) => {
+      const result = results[index];
+      if (!result || result.status === "failed") {
+        return {
+          chainId: batch.chainId,
+          chainName: batch.chainName,
+          success: false,
+          error: result?.revertReason ?? "UserOperation failed",
+        };
+      }
+      // Pending operations may still land; they're tracked by their userOpHash until then
+      return {
+        chainId: batch.chainId,
+        chainName: batch.chainName,
+        success: true,
+        txHash: result.txHash ?? result.userOpHash,
+        blockExplorerUrl: result.txHash ? getBlockExplorerUrl(batch.chainId, result.txHash) : undefined,
+      };
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Cross-chain execution failed:", errorMessage);
+    return crossChain.batches.map((batch) => ({
+      chainId: batch.chainId,
+      chainName: batch.chainName,
+      success: false,
+      error: errorMessage,
+    }));
+  }
+}
+
+/**
+ * Check a sponsored leg's UserOperation against the leg shown to the user before signing it.
+ * The userOpHash is recomputed (EntryPoint v0.7) rather than trusted, and the call data must be
+ * SimpleAccount's executeBatch of exactly two calls: approving no more than the leg's gas token
+ * cost to the operation's paymaster, then transferring the leg's amount of its token to the recipient.
+ * @returns the userOpHash to sign
+ */
+function verifySponsoredLeg(leg: NormalizedTransactionPlan["legs"][number], recipient: string): string {
+  const userOperation = leg.userOperation ?? {};
+  const userOpHash = hashUserOperation(userOperation, leg.entryPoint ?? "", leg.chainId, "0.7");
+  if (leg.userOpHash && userOpHash.toLowerCase() !== leg.userOpHash.toLowerCase()) {
+    throw new Error(`The ${leg.chainName} userOpHash doesn't match its UserOperation`);
+  }
+
+  const [approveCall, transferCall, ...extraCalls] = decodeAccountCalls(userOperation.callData ?? "0x");
+  if (!approveCall || !transferCall || extraCalls.length > 0 || approveCall.value !== 0n || transferCall.value !== 0n) {
+    throw new Error(`The ${leg.chainName} UserOperation doesn't make the expected approve and transfer calls`);
+  }
+
+  const approve = TOKEN_INTERFACE.parseTransaction({ data: approveCall.data });
+  if (
+    approve?.name !== "approve" ||
+    !leg.gasTokenAddress ||
+    !isSameAddress(approveCall.target, leg.gasTokenAddress) ||
+    !userOperation.paymaster ||
+    !isSameAddress(approve.args[0], userOperation.paymaster) ||
+    approve.args[1] > BigInt(leg.gasTokenCost ?? "0")
+  ) {
+    throw new Error(`The ${leg.chainName} UserOperation approves more than the leg's gas cost, or not to its paymaster`);
+  }
+
+  const tokenAddress = leg.tokenAddress ?? getUsdcAddressForChain(leg.chainId);
+  const transfer = TOKEN_INTERFACE.parseTransaction({ data: transferCall.data });
+  if (
+    transfer?.name !== "transfer" ||
+    !isSameAddress(transferCall.target, tokenAddress) ||
+    !isSameAddress(transfer.args[0], recipient) ||
+    transfer.args[1] !== BigInt(leg.amount)
+  ) {
+    throw new Error(`The ${leg.chainName} UserOperation doesn't transfer ${leg.amount} ${leg.tokenSymbol} to ${recipient}`);
+  }
+  return userOpHash;
+}
+
+/**
+ * Submit a signed UserOperation to a bundler
+ * @returns the userOpHash the bundler accepted it under
+ */
+async function sendUserOperation(
+  bundlerUrl: string,
+  userOperation: Record<string, string>,
+  entryPoint: string
+): Promise<string> {
+  const response = await fetch(bundlerUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "eth_sendUserOperation",
+      params: [userOperation, entryPoint],
+    }),
+  });
+  const body = await response.json();
+  if (body.error) {
+    throw new Error(`Bundler rejected UserOperation: ${body.error.message}`);
+  }
+  return body.result as string;
+}
+
+/**
+ * Translate a leg's planned fee parameters into ethers transaction overrides
+ */
+function buildFeeOverrides(fees?: LegFees): Record<string, bigint> {
+  if (!fees) {
+    return {};
+  }
+  if (!fees.eip1559) {
+    return {
+      gasLimit: BigInt(fees.gasLimit),
+      gasPrice: BigInt(fees.maxFeePerGas),
+    };
+  }
+  return {
+    gasLimit: BigInt(fees.gasLimit),
+    maxFeePerGas: BigInt(fees.maxFeePerGas),
+    maxPriorityFeePerGas: BigInt(fees.maxPriorityFeePerGas),
   };
 }
 
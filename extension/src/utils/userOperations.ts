@@ -0,0 +1,135 @@
+/**
+ * ERC-4337 UserOperation helpers, on ethers
+ *
+ * The wallet never signs a userOpHash the backend hands it: it recomputes the hash from the
+ * UserOperation (bundler JSON-RPC format, hex quantities) and decodes the calls the smart
+ * account will make, so they can be checked against the plan the user confirmed.
+ *
+ * - EntryPoint v0.7 (sponsored legs): keccak256(abi.encode(keccak256(packed fields), entryPoint, chainId))
+ * - EntryPoint v0.8 (EIL cross-chain batches): EIP-712 hash of the PackedUserOperation,
+ *   in the "ERC4337" version "1" domain of the EntryPoint
+ */
+import { ethers } from "ethers";
+
+export type EntryPointVersion = "0.7" | "0.8";
+
+/** A call a smart account makes from its UserOperation's call data */
+export interface AccountCall {
+  target: string;
+  value: bigint;
+  data: string;
+}
+
+const PACKED_USER_OPERATION_TYPES = {
+  PackedUserOperation: [
+    { name: "sender", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "initCode", type: "bytes" },
+    { name: "callData", type: "bytes" },
+    { name: "accountGasLimits", type: "bytes32" },
+    { name: "preVerificationGas", type: "uint256" },
+    { name: "gasFees", type: "bytes32" },
+    { name: "paymasterAndData", type: "bytes" },
+  ],
+};
+
+// SimpleAccount: v0.7 batches take parallel arrays, v0.8 batches a list of calls
+const ACCOUNT_INTERFACE = new ethers.Interface([
+  "function execute(address dest, uint256 value, bytes func)",
+  "function executeBatch(address[] dest, uint256[] value, bytes[] func)",
+  "function executeBatch((address target, uint256 value, bytes data)[] calls)",
+]);
+
+/**
+ * Two 128-bit values packed into one bytes32 (high, low)
+ */
+function packUint128(high: string | undefined, low: string | undefined): string {
+  return ethers.solidityPacked(["uint128", "uint128"], [BigInt(high ?? "0x0"), BigInt(low ?? "0x0")]);
+}
+
+/**
+ * The fields of a UserOperation as the EntryPoint packs them
+ */
+function packUserOperation(userOperation: Record<string, string>) {
+  const { factory, factoryData, paymaster } = userOperation;
+  return {
+    sender: userOperation.sender ?? ethers.ZeroAddress,
+    nonce: BigInt(userOperation.nonce ?? "0x0"),
+    initCode: factory ? ethers.concat([factory, factoryData ?? "0x"]) : "0x",
+    callData: userOperation.callData ?? "0x",
+    accountGasLimits: packUint128(userOperation.verificationGasLimit, userOperation.callGasLimit),
+    preVerificationGas: BigInt(userOperation.preVerificationGas ?? "0x0"),
+    gasFees: packUint128(userOperation.maxPriorityFeePerGas, userOperation.maxFeePerGas),
+    paymasterAndData: paymaster
+      ? ethers.concat([
+          paymaster,
+          packUint128(userOperation.paymasterVerificationGasLimit, userOperation.paymasterPostOpGasLimit),
+          userOperation.paymasterData ?? "0x",
+        ])
+      : "0x",
+  };
+}
+
+/**
+ * The hash the EntryPoint has the account's owner sign for a UserOperation
+ */
+export function hashUserOperation(
+  userOperation: Record<string, string>,
+  entryPoint: string,
+  chainId: number,
+  version: EntryPointVersion
+): string {
+  const packed = packUserOperation(userOperation);
+  if (version === "0.8") {
+    return ethers.TypedDataEncoder.hash(
+      { name: "ERC4337", version: "1", chainId, verifyingContract: entryPoint },
+      PACKED_USER_OPERATION_TYPES,
+      packed
+    );
+  }
+
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const encoded = coder.encode(
+    ["address", "uint256", "bytes32", "bytes32", "bytes32", "uint256", "bytes32", "bytes32"],
+    [
+      packed.sender,
+      packed.nonce,
+      ethers.keccak256(packed.initCode),
+      ethers.keccak256(packed.callData),
+      packed.accountGasLimits,
+      packed.preVerificationGas,
+      packed.gasFees,
+      ethers.keccak256(packed.paymasterAndData),
+    ]
+  );
+  return ethers.keccak256(coder.encode(["bytes32", "address", "uint256"], [ethers.keccak256(encoded), entryPoint, chainId]));
+}
+
+/**
+ * The calls a SimpleAccount makes for its call data (execute, or either executeBatch)
+ * @throws when the call data is none of them
+ */
+export function decodeAccountCalls(callData: string): AccountCall[] {
+  if (callData === "0x") {
+    return [];
+  }
+  const call = ACCOUNT_INTERFACE.parseTransaction({ data: callData });
+  if (!call) {
+    throw new Error("Call data isn't a smart account execute or executeBatch call");
+  }
+  if (call.name === "execute") {
+    return [{ target: call.args[0], value: call.args[1], data: call.args[2] }];
+  }
+  if (call.fragment.inputs.length === 3) {
+    // Copied out of the ethers Result, which throws on out-of-range reads
+    const targets: string[] = [...call.args[0]];
+    const values: bigint[] = [...call.args[1]];
+    const datas: string[] = [...call.args[2]];
+    if (targets.length !== datas.length || (values.length !== 0 && values.length !== targets.length)) {
+      throw new Error("executeBatch call data has mismatched call lists");
+    }
+    return targets.map((target, i) => ({ target, value: values[i] ?? 0n, data: datas[i]! }));
+  }
+  const [calls] = call.args as unknown as [Array<{ target: string; value: bigint; data: string }>];
+  return calls.map(({ target, value, data }) => ({ target, value, data }));
+}